@@ -1,14 +1,17 @@
 use std::time::Duration;
 
 use anyhow::Result;
+use base64::prelude::*;
 use clap::Parser;
 use env_logger::Env;
 use escpos::driver::{ConsoleDriver, NativeUsbDriver, NetworkDriver};
 use escpos::printer::Printer;
 use escpos::utils::Protocol;
-use futures_util::StreamExt;
+use futures_util::{SinkExt, StreamExt};
 use log::{error, info};
 use nusb::MaybeFuture;
+use serde::Deserialize;
+use serde_json::json;
 use tokio_tungstenite::tungstenite::client::IntoClientRequest;
 use tokio_tungstenite::{connect_async, tungstenite::protocol::Message};
 
@@ -32,6 +35,18 @@ struct Args {
     port: u16,
 }
 
+/// Messages sent by the web service's print hub
+#[derive(Deserialize, Debug)]
+#[serde(tag = "type", rename_all = "snake_case")]
+enum HubMessage {
+    /// A job to print: base64-encoded ESC/POS bytes, acked/nacked by job ID
+    Print {
+        #[serde(rename = "jobId")]
+        job_id: String,
+        data: String,
+    },
+}
+
 #[tokio::main]
 async fn main() -> Result<()> {
     rustls::crypto::aws_lc_rs::default_provider().install_default().unwrap();
@@ -90,19 +105,43 @@ where
         match connect_async(url.into_client_request()?).await {
             Ok((ws_stream, _)) => {
                 info!("Connected!");
-                let (_write, mut read) = ws_stream.split();
+                let (mut write, mut read) = ws_stream.split();
 
                 while let Some(message) = read.next().await {
                     match message {
-                        Ok(msg) => {
-                            if let Message::Text(text) = msg {
+                        Ok(Message::Text(text)) => match serde_json::from_str::<HubMessage>(&text) {
+                            Ok(HubMessage::Print { job_id, data }) => {
+                                info!("Received job {}", job_id);
+                                // Tell the hub how it went so it can retry failed jobs
+                                let result = BASE64_STANDARD
+                                    .decode(&data)
+                                    .map_err(anyhow::Error::from)
+                                    .and_then(|bytes| print_raw(&mut printer, &bytes));
+                                let reply = match result {
+                                    Ok(_) => {
+                                        info!("Printed job {}.", job_id);
+                                        json!({ "type": "ack", "jobId": job_id })
+                                    }
+                                    Err(e) => {
+                                        error!("Print failed for job {}: {}", job_id, e);
+                                        json!({ "type": "nack", "jobId": job_id, "error": e.to_string() })
+                                    }
+                                };
+                                if let Err(e) = write.send(Message::text(reply.to_string())).await {
+                                    error!("Failed to send acknowledgement: {}", e);
+                                    break;
+                                }
+                            }
+                            // Not a hub message: print it as a plain text ticket
+                            Err(_) => {
                                 info!("Received: {}", text);
                                 match print_ticket(&mut printer, &text) {
                                     Ok(_) => info!("Printed ticket."),
                                     Err(e) => error!("Print failed: {}", e),
                                 }
                             }
-                        }
+                        },
+                        Ok(_) => {}
                         Err(e) => {
                             error!("Connection error: {}", e);
                             break;
@@ -138,3 +177,14 @@ where
 
     Ok(())
 }
+
+/// Print a pre-rendered ESC/POS byte stream (tickets rendered by the web service)
+fn print_raw<D>(printer: &mut Printer<D>, data: &[u8]) -> Result<()>
+where
+    D: escpos::driver::Driver,
+{
+    printer.custom(data)?;
+    printer.print()?;
+
+    Ok(())
+}
@@ -0,0 +1,8 @@
+CREATE TABLE `print_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source` text NOT NULL,
+	`payload` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`created_at` integer,
+	`delivered_at` integer
+);
@@ -0,0 +1,19 @@
+CREATE TABLE `printer_devices` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`token_hash` text NOT NULL,
+	`token_hint` text NOT NULL,
+	`paper_width` integer DEFAULT 42 NOT NULL,
+	`status` text DEFAULT 'offline' NOT NULL,
+	`remote_address` text,
+	`last_seen_at` integer,
+	`last_connected_at` integer,
+	`revoked_at` integer,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `printer_devices_token_hash_unique` ON `printer_devices` (`token_hash`);--> statement-breakpoint
+ALTER TABLE `print_jobs` ADD `device_id` text REFERENCES printer_devices(id);--> statement-breakpoint
+ALTER TABLE `print_jobs` ADD `error` text;--> statement-breakpoint
+ALTER TABLE `print_jobs` ADD `acknowledged_at` integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `print_jobs` ADD `attempts` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `print_jobs` ADD `next_attempt_at` integer;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `pending_transactions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`pending_key` text NOT NULL,
+	`date` integer NOT NULL,
+	`amount` real NOT NULL,
+	`description` text NOT NULL,
+	`type` text,
+	`raw_data` text NOT NULL,
+	`matched_user_id` text,
+	`matched_landlord_id` text,
+	`match_type` text,
+	`match_confidence` real,
+	`settled_transaction_id` text,
+	`first_seen_at` integer NOT NULL,
+	`updated_at` integer,
+	FOREIGN KEY (`matched_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`settled_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `pending_transactions_pending_key_unique` ON `pending_transactions` (`pending_key`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `bank_accounts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`akahu_account_id` text NOT NULL,
+	`label` text NOT NULL,
+	`role` text DEFAULT 'rent' NOT NULL,
+	`account_number` text,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `bank_accounts_akahu_account_id_unique` ON `bank_accounts` (`akahu_account_id`);--> statement-breakpoint
+ALTER TABLE `pending_transactions` ADD `bank_account_id` text REFERENCES bank_accounts(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `bank_account_id` text REFERENCES bank_accounts(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `is_internal_transfer` integer DEFAULT false NOT NULL;
\ No newline at end of file
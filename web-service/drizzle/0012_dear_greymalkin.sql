@@ -0,0 +1,12 @@
+CREATE TABLE `transaction_audit_log` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transaction_id` text NOT NULL,
+	`sync_run_id` text,
+	`action` text NOT NULL,
+	`details` text NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`sync_run_id`) REFERENCES `sync_runs`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `transactions` ADD `deleted_at` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `bank_accounts` ADD `source` text DEFAULT 'sync' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `payment_matching_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`priority` integer DEFAULT 100 NOT NULL,
+	`target` text NOT NULL,
+	`user_id` text,
+	`landlord_id` text,
+	`identifier` text,
+	`description_pattern` text,
+	`particulars_pattern` text,
+	`code_pattern` text,
+	`reference_pattern` text,
+	`other_account_pattern` text,
+	`min_amount` real,
+	`max_amount` real,
+	`direction` text DEFAULT 'any' NOT NULL,
+	`card_payment` text DEFAULT 'any' NOT NULL,
+	`match_type` text NOT NULL,
+	`confidence` real DEFAULT 0.9 NOT NULL,
+	`match_mode` text DEFAULT 'all' NOT NULL,
+	`is_regex` integer DEFAULT false NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`landlord_id`) REFERENCES `landlords`(`id`) ON UPDATE no action ON DELETE cascade
+);
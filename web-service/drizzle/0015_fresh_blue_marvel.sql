@@ -0,0 +1,17 @@
+CREATE TABLE `user_identifiers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`type` text NOT NULL,
+	`value` text NOT NULL,
+	`valid_from` integer,
+	`valid_to` integer,
+	`created_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `user_identifiers`("id", "user_id", "type", "value", "created_at") SELECT lower(hex(randomblob(16))), "id", 'bank_account_pattern', "bank_account_pattern", strftime('%s', 'now') FROM `user` WHERE "bank_account_pattern" IS NOT NULL AND "bank_account_pattern" != '';--> statement-breakpoint
+INSERT INTO `user_identifiers`("id", "user_id", "type", "value", "created_at") SELECT lower(hex(randomblob(16))), "id", 'card_suffix', "card_suffix", strftime('%s', 'now') FROM `user` WHERE "card_suffix" IS NOT NULL AND "card_suffix" != '';--> statement-breakpoint
+INSERT INTO `user_identifiers`("id", "user_id", "type", "value", "created_at") SELECT lower(hex(randomblob(16))), "id", 'matching_name', "matching_name", strftime('%s', 'now') FROM `user` WHERE "matching_name" IS NOT NULL AND "matching_name" != '';--> statement-breakpoint
+ALTER TABLE `user` DROP COLUMN `bank_account_pattern`;--> statement-breakpoint
+ALTER TABLE `user` DROP COLUMN `card_suffix`;--> statement-breakpoint
+ALTER TABLE `user` DROP COLUMN `matching_name`;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `transaction_allocations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transaction_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`match_type` text NOT NULL,
+	`amount` real NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,8 @@
+CREATE TABLE `household_settings` (
+	`id` text PRIMARY KEY NOT NULL,
+	`effective_from` integer NOT NULL,
+	`week_start_day` integer NOT NULL,
+	`due_day` integer NOT NULL,
+	`payout_day` integer NOT NULL,
+	`created_at` integer
+);
@@ -0,0 +1,3 @@
+ALTER TABLE `payment_schedules` ADD `cadence` text DEFAULT 'weekly' NOT NULL;--> statement-breakpoint
+ALTER TABLE `payment_schedules` ADD `anchor_date` integer;--> statement-breakpoint
+ALTER TABLE `payment_schedules` ADD `day_of_month` integer;
\ No newline at end of file
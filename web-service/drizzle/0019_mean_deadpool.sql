@@ -0,0 +1 @@
+ALTER TABLE `payment_schedules` ADD `prorate` integer DEFAULT false NOT NULL;
\ No newline at end of file
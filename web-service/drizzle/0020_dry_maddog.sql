@@ -0,0 +1,11 @@
+CREATE TABLE `balance_adjustments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`date` integer NOT NULL,
+	`amount` real NOT NULL,
+	`reason` text NOT NULL,
+	`created_by` text,
+	`created_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -29,8 +29,13 @@ const securityHeaders = [
 
 const nextConfig: NextConfig = {
   output: "standalone",
-  serverExternalPackages: ["better-sqlite3"],
+  serverExternalPackages: ["better-sqlite3", "ws"],
   crossOrigin: "anonymous",
+  experimental: {
+    serverActions: {
+      bodySizeLimit: "5mb", // Bank statement imports
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -1,20 +1,24 @@
 // Simple cron scheduler that runs alongside the Next.js server
 // Triggers transaction sync every 90 minutes
+// Checks hourly whether to print the weekly statement; the endpoint prints at WEEKLY_STATEMENT_HOUR on the
+// household's due day, in the household timezone (when a receipt printer is configured), and only once a
+// week: it records the week it printed, so a restart within the statement hour doesn't print it again
 
 const SYNC_INTERVAL_MS = 90 * 60 * 1000; // 90 minutes
+const STATEMENT_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
 const CRON_SECRET = process.env.CRON_SECRET;
 
-async function runSync() {
+async function callCronEndpoint(path, label) {
     if (!CRON_SECRET) {
-        console.error("[cron] CRON_SECRET not set, skipping sync");
+        console.error(`[cron] CRON_SECRET not set, skipping ${label}`);
         return;
     }
 
     const timestamp = new Date().toISOString();
-    console.log(`[cron] ${timestamp} - Running transaction sync...`);
+    console.log(`[cron] ${timestamp} - Running ${label}...`);
 
     try {
-        const response = await fetch("http://localhost:3000/api/cron/sync", {
+        const response = await fetch(`http://localhost:3000${path}`, {
             headers: {
                 Authorization: `Bearer ${CRON_SECRET}`,
             },
@@ -22,15 +26,33 @@ async function runSync() {
 
         if (response.ok) {
             const result = await response.json();
-            console.log(`[cron] ${timestamp} - Sync complete:`, JSON.stringify(result));
+            console.log(`[cron] ${timestamp} - ${label} complete:`, JSON.stringify(result));
         } else {
-            console.error(`[cron] ${timestamp} - Sync failed with status ${response.status}`);
+            console.error(`[cron] ${timestamp} - ${label} failed with status ${response.status}`);
         }
     } catch (error) {
-        console.error(`[cron] ${timestamp} - Sync error:`, error.message);
+        console.error(`[cron] ${timestamp} - ${label} error:`, error.message);
     }
 }
 
+function runSync() {
+    return callCronEndpoint("/api/cron/sync", "transaction sync");
+}
+
+// UTC hour (yyyy-mm-ddThh) of the last check, so the endpoint is called once an hour (reset by a restart,
+// which the endpoint guards against)
+let lastStatementCheck = null;
+
+function maybePrintWeeklyStatement() {
+    const hour = new Date().toISOString().slice(0, 13);
+    if (lastStatementCheck === hour) {
+        return;
+    }
+
+    lastStatementCheck = hour;
+    return callCronEndpoint("/api/cron/weekly-statement", "weekly statement check");
+}
+
 // Wait for the server to start before first sync
 console.log("[cron] Scheduler started, waiting 30s for server to be ready...");
 setTimeout(() => {
@@ -40,6 +62,9 @@ setTimeout(() => {
     // Then run every 90 minutes
     console.log(`[cron] Scheduling sync every ${SYNC_INTERVAL_MS / 60000} minutes`);
     setInterval(runSync, SYNC_INTERVAL_MS);
+
+    console.log("[cron] Scheduling weekly statement check every hour");
+    setInterval(maybePrintWeeklyStatement, STATEMENT_CHECK_INTERVAL_MS);
 }, 30000);
 
 // Keep the process running
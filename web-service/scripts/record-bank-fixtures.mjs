@@ -0,0 +1,67 @@
+import { AkahuClient } from "akahu";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Record the Akahu accounts, settled transactions and pending transactions the user token can see,
+ * in the layout the fixture bank provider replays (BANK_PROVIDER=fixture, see src/lib/bank-fixtures.ts).
+ *
+ * Usage: node scripts/record-bank-fixtures.mjs [accountId ...]
+ * Records every account when no IDs are given. Writes to ./fixtures/recorded (ignored by git, as recordings
+ * contain real bank data), or RECORD_FIXTURES_DIR; replay them with BANK_FIXTURES_DIR=./fixtures/recorded.
+ */
+
+const appToken = process.env.AKAHU_APP_TOKEN;
+const userToken = process.env.AKAHU_API_KEY;
+
+if (!appToken || !userToken) {
+    console.error("AKAHU_APP_TOKEN and AKAHU_API_KEY must be set");
+    process.exit(1);
+}
+
+const outDir = process.env.RECORD_FIXTURES_DIR || "./fixtures/recorded";
+const akahu = new AkahuClient({ appToken });
+
+function writeJson(path, data) {
+    writeFileSync(path, JSON.stringify(data, null, 4) + "\n");
+    console.log(`  Wrote ${path}`);
+}
+
+async function listAllTransactions(accountId) {
+    const items = [];
+    let cursor = null;
+
+    do {
+        const page = await akahu.accounts.listTransactions(userToken, accountId, cursor ? { cursor } : {});
+        items.push(...page.items);
+        cursor = page.cursor.next;
+    } while (cursor !== null);
+
+    return items;
+}
+
+const requestedIds = process.argv.slice(2);
+const accounts = (await akahu.accounts.list(userToken))
+    .filter((account) => requestedIds.length === 0 || requestedIds.includes(account._id));
+
+if (accounts.length === 0) {
+    console.error("No matching Akahu accounts found");
+    process.exit(1);
+}
+
+mkdirSync(join(outDir, "transactions"), { recursive: true });
+mkdirSync(join(outDir, "pending"), { recursive: true });
+
+console.log(`Recording ${accounts.length} account(s) to ${outDir}`);
+writeJson(join(outDir, "accounts.json"), accounts);
+
+for (const account of accounts) {
+    console.log(`${account.name} (${account._id})`);
+    writeJson(join(outDir, "transactions", `${account._id}.json`), await listAllTransactions(account._id));
+    writeJson(
+        join(outDir, "pending", `${account._id}.json`),
+        await akahu.accounts.listPendingTransactions(userToken, account._id)
+    );
+}
+
+console.log("Done!");
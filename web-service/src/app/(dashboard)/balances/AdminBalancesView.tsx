@@ -2,15 +2,17 @@
 
 import { useState } from "react";
 import { User, Clock, CheckCircle2, AlertCircle, X, ChevronRight, Dot } from "lucide-react";
-import { format } from "date-fns";
 import type { FlatmateBalance, WeeklyObligation } from "@/lib/calculations";
 import { PaymentHistoryChart } from "@/components/PaymentHistoryChart";
 import { PaymentSummaryGrid } from "@/components/PaymentStatusCard";
 import { TransactionTable, type TransactionRowData } from "@/components/TransactionRow";
+import { formatDate } from "@/lib/timezone";
+import { describeProration } from "@/lib/schedule-cadence";
 
 interface AdminBalancesViewProps {
     flatmates: FlatmateBalance[];
     currentUserId?: string;
+    timeZone: string;
 }
 
 function formatCurrency(amount: number): string {
@@ -20,16 +22,30 @@ function formatCurrency(amount: number): string {
     }).format(amount);
 }
 
+// "date" credits payments to the week they were made in; "allocation" to the weeks they pay for
+type BalanceMode = "date" | "allocation";
+
+function getWeekFigures(week: WeeklyObligation, mode: BalanceMode): { paid: number; balance: number } {
+    return mode === "allocation"
+        ? { paid: week.allocatedPaid, balance: week.allocatedBalance }
+        : { paid: week.amountPaid, balance: week.balance };
+}
+
 function WeekTransactionsModal({
     week,
+    mode,
+    timeZone,
     onClose
 }: {
     week: WeeklyObligation;
+    mode: BalanceMode;
+    timeZone: string;
     onClose: () => void;
 }) {
-    const isPaid = week.amountPaid >= week.amountDue * 0.95;
-    const isOverpaid = week.amountPaid > week.amountDue * 1.05;
-    const isPartial = week.amountPaid > 0 && week.amountPaid < week.amountDue * 0.95;
+    const { paid, balance } = getWeekFigures(week, mode);
+    const isPaid = paid >= week.amountDue * 0.95;
+    const isOverpaid = paid > week.amountDue * 1.05;
+    const isPartial = paid > 0 && paid < week.amountDue * 0.95;
     const isInProgress = week.isInProgress ?? false;
 
     return (
@@ -46,7 +62,7 @@ function WeekTransactionsModal({
                     <div>
                         <div className="flex items-center gap-2">
                             <h2 className="text-lg font-semibold">
-                                {format(week.weekStart, "d MMM")} – {format(week.weekEnd, "d MMM yyyy")}
+                                {formatDate(week.weekStart, timeZone, "d MMM")} – {formatDate(week.weekEnd, timeZone, "d MMM yyyy")}
                             </h2>
                             {isInProgress && (
                                 <span className="text-xs px-2 py-0.5 bg-teal-500/20 text-teal-400 rounded-full">
@@ -55,7 +71,7 @@ function WeekTransactionsModal({
                             )}
                         </div>
                         <p className="text-sm text-slate-400 mt-1">
-                            Due {format(week.dueDate, "EEEE, d MMM")}
+                            Due {formatDate(week.dueDate, timeZone, "EEEE, d MMM")} · Reference {week.weekCode}
                         </p>
                     </div>
                     <button
@@ -88,17 +104,81 @@ function WeekTransactionsModal({
                     <div className="text-right">
                         <p>
                             <span className={isPaid ? "text-emerald-400" : isPartial ? "text-amber-400" : "text-slate-400"}>
-                                {formatCurrency(week.amountPaid)}
+                                {formatCurrency(paid)}
                             </span>
                             <span className="text-slate-500"> / </span>
                             <span className="text-slate-400">{formatCurrency(week.amountDue)}</span>
                         </p>
-                        <p className={`text-sm ${week.balance >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
-                            {week.balance >= 0 ? "+" : ""}{formatCurrency(week.balance)}
+                        <p className={`text-sm ${balance >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+                            {balance >= 0 ? "+" : ""}{formatCurrency(balance)}
                         </p>
+                        {mode === "date" && week.provisionalPaid > 0 && (
+                            <p className="text-xs text-sky-400">incl. {formatCurrency(week.provisionalPaid)} pending</p>
+                        )}
+                        {week.adjustmentTotal !== 0 && (
+                            <p className="text-xs text-violet-400">
+                                incl. {week.adjustmentTotal > 0 ? "+" : "-"}{formatCurrency(Math.abs(week.adjustmentTotal))} adjustments
+                            </p>
+                        )}
+                        {week.proration.map((proration, i) => (
+                            <p
+                                key={i}
+                                className="text-xs text-slate-500"
+                                title={`${formatDate(proration.from, timeZone, "EEE d MMM")} – ${formatDate(proration.to, timeZone, "EEE d MMM")}`}
+                            >
+                                Pro-rated: {describeProration(proration)}
+                            </p>
+                        ))}
                     </div>
                 </div>
 
+                {/* Credits and charges dated in this week */}
+                {week.adjustments.length > 0 && (
+                    <div className="p-5 border-b border-slate-700/50 space-y-2">
+                        <p className="text-xs text-slate-500 uppercase tracking-wide">Adjustments</p>
+                        {week.adjustments.map((adjustment) => (
+                            <div key={adjustment.id} className="flex items-center justify-between text-sm">
+                                <div>
+                                    <span>{adjustment.reason}</span>
+                                    <span className="text-slate-500 ml-2">{formatDate(adjustment.date, timeZone, "d MMM yyyy")}</span>
+                                    {adjustment.createdByName && (
+                                        <span className="text-slate-500 ml-2">by {adjustment.createdByName}</span>
+                                    )}
+                                </div>
+                                <span className={`font-medium ${adjustment.amount >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+                                    {adjustment.amount >= 0 ? "+" : "-"}{formatCurrency(Math.abs(adjustment.amount))}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Payments allocated to this week */}
+                {mode === "allocation" && (
+                    <div className="p-5 border-b border-slate-700/50 space-y-2">
+                        <p className="text-xs text-slate-500 uppercase tracking-wide">Paid by</p>
+                        {week.allocatedPayments.length === 0 ? (
+                            <p className="text-sm text-slate-500">No payments allocated to this week</p>
+                        ) : (
+                            week.allocatedPayments.map((allocation, i) => (
+                                <div key={`${allocation.paymentId}-${i}`} className="flex items-center justify-between text-sm">
+                                    <div>
+                                        <span>{allocation.description}</span>
+                                        <span className="text-slate-500 ml-2">{formatDate(allocation.date, timeZone, "d MMM yyyy")}</span>
+                                        {allocation.isExplicit && (
+                                            <span className="ml-2 badge badge-neutral">{week.weekCode}</span>
+                                        )}
+                                        {allocation.isPending && (
+                                            <span className="ml-2 badge badge-pending">Pending</span>
+                                        )}
+                                    </div>
+                                    <span className="text-emerald-400 font-medium">{formatCurrency(allocation.amount)}</span>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                )}
+
                 {/* Transactions */}
                 <div className="p-5 max-h-80 overflow-y-auto">
                     <p className="text-xs text-slate-500 uppercase tracking-wide mb-3">
@@ -114,6 +194,7 @@ function WeekTransactionsModal({
                     </p>
                     <TransactionTable
                         transactions={week.allAccountTransactions as TransactionRowData[]}
+                        timeZone={timeZone}
                         showMatch={true}
                         compact={true}
                         emptyMessage="No transactions this week"
@@ -124,13 +205,16 @@ function WeekTransactionsModal({
     );
 }
 
-function WeekRow({ week, onClick }: {
+function WeekRow({ week, mode, timeZone, onClick }: {
     week: WeeklyObligation;
+    mode: BalanceMode;
+    timeZone: string;
     onClick: () => void;
 }) {
-    const isPaid = week.amountPaid >= week.amountDue * 0.95;
-    const isOverpaid = week.amountPaid > week.amountDue * 1.05;
-    const isPartial = week.amountPaid > 0 && week.amountPaid < week.amountDue * 0.95;
+    const { paid, balance } = getWeekFigures(week, mode);
+    const isPaid = paid >= week.amountDue * 0.95;
+    const isOverpaid = paid > week.amountDue * 1.05;
+    const isPartial = paid > 0 && paid < week.amountDue * 0.95;
     const isInProgress = week.isInProgress ?? false;
 
     return (
@@ -151,7 +235,7 @@ function WeekRow({ week, onClick }: {
                 <div className="text-left">
                     <div className="flex items-center gap-2">
                         <p className="font-medium">
-                            {format(week.weekStart, "d MMM")} – {format(week.weekEnd, "d MMM")}
+                            {formatDate(week.weekStart, timeZone, "d MMM")} – {formatDate(week.weekEnd, timeZone, "d MMM")}
                         </p>
                         {isInProgress && (
                             <span className="text-xs px-2 py-0.5 bg-teal-500/20 text-teal-400 rounded-full">
@@ -160,7 +244,7 @@ function WeekRow({ week, onClick }: {
                         )}
                     </div>
                     <p className="text-sm text-slate-400">
-                        Due {format(week.dueDate, "EEEE, d MMM")}
+                        Due {formatDate(week.dueDate, timeZone, "EEEE, d MMM")} · {week.weekCode}
                     </p>
                 </div>
             </div>
@@ -168,14 +252,20 @@ function WeekRow({ week, onClick }: {
                 <div className="text-right">
                     <p>
                         <span className={isPaid ? "text-emerald-400" : isPartial ? "text-amber-400" : "text-slate-400"}>
-                            {formatCurrency(week.amountPaid)}
+                            {formatCurrency(paid)}
                         </span>
                         <span className="text-slate-500"> / </span>
                         <span className="text-slate-400">{formatCurrency(week.amountDue)}</span>
                     </p>
-                    <p className={`text-sm ${week.balance >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
-                        {week.balance >= 0 ? "+" : ""}{formatCurrency(week.balance)}
+                    <p className={`text-sm ${balance >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+                        {balance >= 0 ? "+" : ""}{formatCurrency(balance)}
                     </p>
+                    {week.proration.length > 0 && (
+                        <p className="text-xs text-slate-500">Pro-rated</p>
+                    )}
+                    {week.adjustments.length > 0 && (
+                        <p className="text-xs text-violet-400">Adjusted</p>
+                    )}
                 </div>
                 <ChevronRight className="w-5 h-5 text-slate-500" />
             </div>
@@ -183,8 +273,9 @@ function WeekRow({ week, onClick }: {
     );
 }
 
-function WeeklyHistory({ balance }: { balance: FlatmateBalance }) {
+function WeeklyHistory({ balance, timeZone }: { balance: FlatmateBalance; timeZone: string }) {
     const [selectedWeek, setSelectedWeek] = useState<WeeklyObligation | null>(null);
+    const [mode, setMode] = useState<BalanceMode>("date");
 
     // Reverse to show most recent first
     const weeks = [...balance.weeklyBreakdown].reverse();
@@ -192,11 +283,28 @@ function WeeklyHistory({ balance }: { balance: FlatmateBalance }) {
     return (
         <>
             <div className="glass rounded-xl overflow-hidden">
-                <div className="p-5 border-b border-slate-700/50">
-                    <h2 className="text-lg font-medium">
-                        Weekly History - {balance.userName ?? balance.userEmail.split("@")[0]}
-                    </h2>
-                    <p className="text-sm text-slate-400">Click a week to view transactions</p>
+                <div className="p-5 border-b border-slate-700/50 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <div>
+                        <h2 className="text-lg font-medium">
+                            Weekly History - {balance.userName ?? balance.userEmail.split("@")[0]}
+                        </h2>
+                        <p className="text-sm text-slate-400">
+                            {mode === "allocation"
+                                ? "Payments applied to the weeks they pay for, oldest unpaid first"
+                                : "Payments counted in the week they were made"}
+                        </p>
+                    </div>
+                    <div className="flex rounded-lg bg-slate-800 p-1 text-sm">
+                        {([["date", "By date"], ["allocation", "By allocation"]] as const).map(([value, label]) => (
+                            <button
+                                key={value}
+                                onClick={() => setMode(value)}
+                                className={`px-3 py-1 rounded-md transition-colors ${mode === value ? "bg-slate-700 text-slate-100" : "text-slate-400 hover:text-slate-200"}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
                 </div>
 
                 {weeks.length === 0 ? (
@@ -210,6 +318,8 @@ function WeeklyHistory({ balance }: { balance: FlatmateBalance }) {
                             <WeekRow
                                 key={week.weekStart.toISOString()}
                                 week={week}
+                                mode={mode}
+                                timeZone={timeZone}
                                 onClick={() => setSelectedWeek(week)}
                             />
                         ))}
@@ -220,6 +330,8 @@ function WeeklyHistory({ balance }: { balance: FlatmateBalance }) {
             {selectedWeek && (
                 <WeekTransactionsModal 
                     week={selectedWeek} 
+                    mode={mode}
+                    timeZone={timeZone}
                     onClose={() => setSelectedWeek(null)} 
                 />
             )}
@@ -227,7 +339,7 @@ function WeeklyHistory({ balance }: { balance: FlatmateBalance }) {
     );
 }
 
-export function AdminBalancesView({ flatmates, currentUserId }: AdminBalancesViewProps) {
+export function AdminBalancesView({ flatmates, currentUserId, timeZone }: AdminBalancesViewProps) {
     const [selectedUserId, setSelectedUserId] = useState<string | null>(
         flatmates.length > 0 ? flatmates[0].userId : null
     );
@@ -287,7 +399,7 @@ export function AdminBalancesView({ flatmates, currentUserId }: AdminBalancesVie
 
                     {/* Chart */}
                     {selectedFlatmate ? (
-                        <PaymentHistoryChart balance={selectedFlatmate} />
+                        <PaymentHistoryChart balance={selectedFlatmate} timeZone={timeZone} />
                     ) : (
                         <div className="glass rounded-xl p-8 text-center text-slate-400">
                             Select a flatmate to view their payment history
@@ -296,7 +408,7 @@ export function AdminBalancesView({ flatmates, currentUserId }: AdminBalancesVie
 
                     {/* Weekly History */}
                     {selectedFlatmate && (
-                        <WeeklyHistory balance={selectedFlatmate} />
+                        <WeeklyHistory balance={selectedFlatmate} timeZone={timeZone} />
                     )}
                 </div>
             )}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Scale, Trash2, X } from "lucide-react";
+import { addBalanceAdjustmentAction, deleteBalanceAdjustmentAction } from "@/lib/actions";
+import type { BalanceAdjustmentEntry } from "@/lib/balance-adjustments";
+import { formatDate } from "@/lib/timezone";
+import { formatMoney } from "@/lib/utils";
+
+interface BalanceAdjustmentsPanelProps {
+    adjustments: BalanceAdjustmentEntry[];
+    flatmates: Array<{ id: string; name: string | null; email: string }>;
+    timeZone: string;
+}
+
+const INPUT_CLASS = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent";
+
+function AddAdjustmentDialog({ flatmates, timeZone, onClose }: {
+    flatmates: BalanceAdjustmentsPanelProps["flatmates"];
+    timeZone: string;
+    onClose: () => void;
+}) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+
+        const result = await addBalanceAdjustmentAction(new FormData(e.currentTarget));
+
+        if (result.error) {
+            setError(result.error);
+            setIsSubmitting(false);
+        } else {
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div
+                className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+                onClick={onClose}
+            />
+            <div className="relative w-full max-w-md glass rounded-2xl p-6">
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-bold">Add Adjustment</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">
+                            Flatmate *
+                        </label>
+                        <select name="userId" required defaultValue="" className={INPUT_CLASS}>
+                            <option value="">Select a flatmate</option>
+                            {flatmates.map((f) => (
+                                <option key={f.id} value={f.id}>
+                                    {f.name ?? f.email}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">
+                                Type *
+                            </label>
+                            <select name="kind" required defaultValue="credit" className={INPUT_CLASS}>
+                                <option value="credit">Credit (owes less)</option>
+                                <option value="charge">Charge (owes more)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">
+                                Amount ($) *
+                            </label>
+                            <input
+                                type="number"
+                                name="amount"
+                                required
+                                min="0.01"
+                                step="0.01"
+                                placeholder="e.g., 50.00"
+                                className={INPUT_CLASS}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">
+                            Date *
+                        </label>
+                        <input
+                            type="date"
+                            name="date"
+                            required
+                            defaultValue={formatDate(new Date(), timeZone, "yyyy-MM-dd")}
+                            className={INPUT_CLASS}
+                        />
+                        <p className="text-xs text-slate-500 mt-1">Counts in the billing week this day falls in</p>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">
+                            Reason *
+                        </label>
+                        <input
+                            type="text"
+                            name="reason"
+                            required
+                            placeholder="e.g., Fixed the heater, Broken window"
+                            className={INPUT_CLASS}
+                        />
+                    </div>
+
+                    {error && (
+                        <div className="p-3 bg-rose-500/20 border border-rose-500/50 rounded-lg">
+                            <p className="text-sm text-rose-400">{error}</p>
+                        </div>
+                    )}
+
+                    <div className="flex justify-end gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-4 py-2 rounded-lg hover:bg-slate-700 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-lg transition-colors"
+                        >
+                            {isSubmitting ? "Adding..." : "Add Adjustment"}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * The adjustments ledger: one-off credits and charges on flatmates' balances. Admins add and remove
+ * entries here; they show up in each flatmate's weekly history and chart.
+ */
+export function BalanceAdjustmentsPanel({ adjustments, flatmates, timeZone }: BalanceAdjustmentsPanelProps) {
+    const [isAdding, setIsAdding] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleDelete = async (adjustment: BalanceAdjustmentEntry) => {
+        if (!confirm(`Remove "${adjustment.reason}" from ${adjustment.userName ?? "this flatmate"}'s balance?`)) {
+            return;
+        }
+        setDeletingId(adjustment.id);
+        setError(null);
+
+        const result = await deleteBalanceAdjustmentAction(adjustment.id);
+        if (result.error) {
+            setError(result.error);
+        }
+        setDeletingId(null);
+    };
+
+    return (
+        <div className="glass rounded-xl overflow-hidden">
+            <div className="p-5 border-b border-slate-700/50 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-violet-500/20">
+                        <Scale className="w-5 h-5 text-violet-400" />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-medium">Balance Adjustments</h2>
+                        <p className="text-sm text-slate-400">One-off credits and charges, e.g. repairs or breakages</p>
+                    </div>
+                </div>
+                <button
+                    onClick={() => setIsAdding(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 rounded-lg transition-colors"
+                >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Adjustment</span>
+                </button>
+            </div>
+
+            {error && (
+                <div className="mx-5 mt-4 p-3 bg-rose-500/20 border border-rose-500/50 rounded-lg">
+                    <p className="text-sm text-rose-400">{error}</p>
+                </div>
+            )}
+
+            {adjustments.length === 0 ? (
+                <div className="p-8 text-center text-slate-500">
+                    <p>No adjustments recorded</p>
+                </div>
+            ) : (
+                <div className="divide-y divide-slate-700/30 max-h-96 overflow-y-auto">
+                    {adjustments.map((adjustment) => (
+                        <div key={adjustment.id} className="flex items-center justify-between gap-4 p-4">
+                            <div className="min-w-0">
+                                <p className="font-medium truncate">{adjustment.reason}</p>
+                                <p className="text-sm text-slate-400">
+                                    {adjustment.userName} · {formatDate(adjustment.date, timeZone, "d MMM yyyy")}
+                                    {adjustment.createdByName && (
+                                        <span className="text-slate-500"> · added by {adjustment.createdByName}</span>
+                                    )}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-3 shrink-0">
+                                <span className={`font-medium ${adjustment.amount >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+                                    {adjustment.amount >= 0 ? "+" : "-"}${formatMoney(adjustment.amount)}
+                                </span>
+                                <button
+                                    onClick={() => handleDelete(adjustment)}
+                                    disabled={deletingId === adjustment.id}
+                                    className="p-2 rounded-lg text-slate-400 hover:text-rose-400 hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                                    title="Remove adjustment"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {isAdding && (
+                <AddAdjustmentDialog flatmates={flatmates} timeZone={timeZone} onClose={() => setIsAdding(false)} />
+            )}
+        </div>
+    );
+}
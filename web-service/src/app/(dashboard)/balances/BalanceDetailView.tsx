@@ -1,13 +1,15 @@
 "use client";
 
-import { format } from "date-fns";
 import { CheckCircle2, AlertCircle, Clock, TrendingUp, TrendingDown, ChevronDown, ChevronUp } from "lucide-react";
 import { useState } from "react";
 import type { FlatmateBalance, WeeklyObligation } from "@/lib/calculations";
 import { PaymentHistoryChart } from "@/components/PaymentHistoryChart";
+import { formatDate } from "@/lib/timezone";
+import { CADENCE_PERIODS, describeProration } from "@/lib/schedule-cadence";
 
 interface BalanceDetailViewProps {
     balance: FlatmateBalance;
+    timeZone: string;
 }
 
 function formatCurrency(amount: number): string {
@@ -17,14 +19,32 @@ function formatCurrency(amount: number): string {
     }).format(amount);
 }
 
-function WeekDetailRow({ week, isExpanded, onToggle }: {
+// "date" credits payments to the week they were made in; "allocation" to the weeks they pay for
+type BalanceMode = "date" | "allocation";
+
+function WeekDetailRow({ week, mode, timeZone, isExpanded, onToggle }: {
     week: WeeklyObligation;
+    mode: BalanceMode;
+    timeZone: string;
     isExpanded: boolean;
     onToggle: () => void;
 }) {
-    const isPaid = week.amountPaid >= week.amountDue * 0.95;
-    const isOverpaid = week.amountPaid > week.amountDue * 1.05;
-    const isPartial = week.amountPaid > 0 && week.amountPaid < week.amountDue * 0.95;
+    const paid = mode === "allocation" ? week.allocatedPaid : week.amountPaid;
+    const balance = mode === "allocation" ? week.allocatedBalance : week.balance;
+    const payments = mode === "allocation"
+        ? week.allocatedPayments.map((a, i) => ({
+            id: `${a.paymentId}-${i}`,
+            date: a.date,
+            amount: a.amount,
+            description: a.description,
+            matchType: a.isExplicit ? week.weekCode : null,
+            isPending: a.isPending,
+            isSplit: false,
+        }))
+        : week.paymentTransactions;
+    const isPaid = paid >= week.amountDue * 0.95;
+    const isOverpaid = paid > week.amountDue * 1.05;
+    const isPartial = paid > 0 && paid < week.amountDue * 0.95;
     const isInProgress = week.isInProgress ?? false;
 
     return (
@@ -46,7 +66,7 @@ function WeekDetailRow({ week, isExpanded, onToggle }: {
                     <div className="text-left">
                         <div className="flex items-center gap-2">
                             <p className="font-medium">
-                                {format(week.weekStart, "d MMM")} – {format(week.weekEnd, "d MMM yyyy")}
+                                {formatDate(week.weekStart, timeZone, "d MMM")} – {formatDate(week.weekEnd, timeZone, "d MMM yyyy")}
                             </p>
                             {isInProgress && (
                                 <span className="text-xs px-2 py-0.5 bg-teal-500/20 text-teal-400 rounded-full">
@@ -55,7 +75,7 @@ function WeekDetailRow({ week, isExpanded, onToggle }: {
                             )}
                         </div>
                         <p className="text-sm text-slate-400">
-                            Due {format(week.dueDate, "EEEE, d MMM")}
+                            Due {formatDate(week.dueDate, timeZone, "EEEE, d MMM")} · {week.weekCode}
                         </p>
                     </div>
                 </div>
@@ -63,25 +83,44 @@ function WeekDetailRow({ week, isExpanded, onToggle }: {
                     <div className="text-right">
                         <p>
                             <span className={isPaid ? "text-emerald-400" : isPartial ? "text-amber-400" : "text-slate-400"}>
-                                {formatCurrency(week.amountPaid)}
+                                {formatCurrency(paid)}
                             </span>
                             <span className="text-slate-500"> / </span>
                             <span className="text-slate-400">{formatCurrency(week.amountDue)}</span>
                         </p>
-                        <p className={`text-sm ${week.balance >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
-                            {week.balance >= 0 ? "+" : ""}{formatCurrency(week.balance)}
+                        <p className={`text-sm ${balance >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+                            {balance >= 0 ? "+" : ""}{formatCurrency(balance)}
                         </p>
+                        {mode === "date" && week.provisionalPaid > 0 && (
+                            <p className="text-xs text-sky-400">incl. {formatCurrency(week.provisionalPaid)} pending</p>
+                        )}
+                        {week.adjustments.map((adjustment) => (
+                            <p key={adjustment.id} className="text-xs text-violet-400">
+                                {adjustment.amount >= 0 ? "+" : "-"}{formatCurrency(Math.abs(adjustment.amount))} {adjustment.reason}
+                            </p>
+                        ))}
+                        {week.proration.map((proration, i) => (
+                            <p
+                                key={i}
+                                className="text-xs text-slate-500"
+                                title={`${formatDate(proration.from, timeZone, "EEE d MMM")} – ${formatDate(proration.to, timeZone, "EEE d MMM")}`}
+                            >
+                                Pro-rated: {describeProration(proration)}
+                            </p>
+                        ))}
                     </div>
-                    {week.paymentTransactions.length > 0 && (
+                    {payments.length > 0 && (
                         isExpanded ? <ChevronUp className="w-5 h-5 text-slate-500" /> : <ChevronDown className="w-5 h-5 text-slate-500" />
                     )}
                 </div>
             </button>
 
-            {isExpanded && week.paymentTransactions.length > 0 && (
+            {isExpanded && payments.length > 0 && (
                 <div className="px-4 pb-4 space-y-2">
-                    <p className="text-xs text-slate-500 uppercase tracking-wide mb-2">Transactions</p>
-                    {week.paymentTransactions.map((tx) => (
+                    <p className="text-xs text-slate-500 uppercase tracking-wide mb-2">
+                        {mode === "allocation" ? "Paid by" : "Transactions"}
+                    </p>
+                    {payments.map((tx) => (
                         <div
                             key={tx.id}
                             className="flex items-center justify-between p-3 rounded-lg bg-slate-800/50"
@@ -89,12 +128,18 @@ function WeekDetailRow({ week, isExpanded, onToggle }: {
                             <div>
                                 <p className="text-sm font-medium">{tx.description}</p>
                                 <p className="text-xs text-slate-500">
-                                    {format(tx.date, "d MMM yyyy, h:mm a")}
+                                    {formatDate(tx.date, timeZone, "d MMM yyyy, h:mm a")}
                                     {tx.matchType && (
                                         <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-700 text-slate-400">
                                             {tx.matchType.replace("_", " ")}
                                         </span>
                                     )}
+                                    {tx.isPending && (
+                                        <span className="ml-2 badge badge-pending">Pending</span>
+                                    )}
+                                    {tx.isSplit && (
+                                        <span className="ml-2 badge badge-neutral">Split</span>
+                                    )}
                                 </p>
                             </div>
                             <span className="text-emerald-400 font-medium">
@@ -108,8 +153,9 @@ function WeekDetailRow({ week, isExpanded, onToggle }: {
     );
 }
 
-export function BalanceDetailView({ balance }: BalanceDetailViewProps) {
+export function BalanceDetailView({ balance, timeZone }: BalanceDetailViewProps) {
     const [expandedWeeks, setExpandedWeeks] = useState<Set<string>>(new Set());
+    const [mode, setMode] = useState<BalanceMode>("date");
 
     const toggleWeek = (weekKey: string) => {
         setExpandedWeeks((prev) => {
@@ -129,7 +175,7 @@ export function BalanceDetailView({ balance }: BalanceDetailViewProps) {
     return (
         <div className="space-y-6">
             {/* Payment History Chart */}
-            <PaymentHistoryChart balance={balance} />
+            <PaymentHistoryChart balance={balance} timeZone={timeZone} />
 
             {/* Summary Card */}
             <div className="glass rounded-xl overflow-hidden">
@@ -138,8 +184,8 @@ export function BalanceDetailView({ balance }: BalanceDetailViewProps) {
                         <div>
                             <h2 className="text-lg font-medium">Balance Overview</h2>
                             <p className="text-sm text-slate-400 mt-1">
-                                {balance.currentWeeklyRate
-                                    ? `Current rate: ${formatCurrency(balance.currentWeeklyRate)}/week`
+                                {balance.currentSchedule
+                                    ? `Current rate: ${formatCurrency(balance.currentSchedule.amount)}/${CADENCE_PERIODS[balance.currentSchedule.cadence]}`
                                     : "No active schedule"}
                             </p>
                         </div>
@@ -172,13 +218,31 @@ export function BalanceDetailView({ balance }: BalanceDetailViewProps) {
                         <p className="text-xl font-bold mt-1 text-emerald-400">{formatCurrency(balance.totalPaid)}</p>
                     </div>
                 </div>
+                {balance.totalAdjustments !== 0 && (
+                    <p className="px-4 py-2 border-t border-slate-700/50 text-center text-sm text-violet-400">
+                        Balance includes {balance.totalAdjustments > 0 ? "+" : "-"}{formatCurrency(Math.abs(balance.totalAdjustments))} of adjustments
+                    </p>
+                )}
             </div>
 
             {/* Weekly Breakdown */}
             <div className="glass rounded-xl overflow-hidden">
-                <div className="p-5 border-b border-slate-700/50">
-                    <h2 className="text-lg font-medium">Weekly History</h2>
-                    <p className="text-sm text-slate-400">Payment tracking by week</p>
+                <div className="p-5 border-b border-slate-700/50 flex items-center justify-between gap-3">
+                    <div>
+                        <h2 className="text-lg font-medium">Weekly History</h2>
+                        <p className="text-sm text-slate-400">Payment tracking by week</p>
+                    </div>
+                    <div className="flex rounded-lg bg-slate-800 p-1 text-sm">
+                        {([["date", "By date"], ["allocation", "By allocation"]] as const).map(([value, label]) => (
+                            <button
+                                key={value}
+                                onClick={() => setMode(value)}
+                                className={`px-3 py-1 rounded-md transition-colors ${mode === value ? "bg-slate-700 text-slate-100" : "text-slate-400 hover:text-slate-200"}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
                 </div>
 
                 {weeks.length === 0 ? (
@@ -194,6 +258,8 @@ export function BalanceDetailView({ balance }: BalanceDetailViewProps) {
                                 <WeekDetailRow
                                     key={weekKey}
                                     week={week}
+                                    mode={mode}
+                                    timeZone={timeZone}
                                     isExpanded={expandedWeeks.has(weekKey)}
                                     onToggle={() => toggleWeek(weekKey)}
                                 />
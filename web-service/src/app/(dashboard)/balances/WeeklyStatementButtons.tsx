@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Printer, Check, AlertCircle, Eye, X, Loader2 } from "lucide-react";
+import { getWeeklyStatementTicketAction, printWeeklyStatementAction } from "@/lib/print-actions";
+import { RECEIPT_WIDTHS, DEFAULT_RECEIPT_WIDTH, type ReceiptWidth } from "@/lib/receipt";
+import type { Ticket } from "@/lib/ticket";
+import { TicketPreview } from "@/components/TicketPreview";
+
+interface WeeklyStatementButtonsProps {
+    isAdmin: boolean;
+}
+
+export function WeeklyStatementButtons({ isAdmin }: WeeklyStatementButtonsProps) {
+    const [width, setWidth] = useState<ReceiptWidth>(DEFAULT_RECEIPT_WIDTH);
+    const [printing, setPrinting] = useState(false);
+    const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+    const [previewOpen, setPreviewOpen] = useState(false);
+    const [previewTicket, setPreviewTicket] = useState<Ticket | null>(null);
+
+    const handlePreview = async () => {
+        setPreviewOpen(true);
+        setPreviewTicket(await getWeeklyStatementTicketAction());
+    };
+
+    const handlePrint = async () => {
+        setPrinting(true);
+        setResult(null);
+
+        const res = await printWeeklyStatementAction();
+        if (res.error) {
+            setResult({ success: false, message: res.error });
+        } else {
+            setResult({ success: true, message: "Sent to printer" });
+        }
+        setTimeout(() => setResult(null), 3000);
+        setPrinting(false);
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            {result && (
+                <span
+                    className={`text-sm flex items-center gap-1 ${
+                        result.success ? "text-emerald-400" : "text-rose-400"
+                    }`}
+                >
+                    {result.success ? <Check className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                    {result.message}
+                </span>
+            )}
+
+            <select
+                value={width}
+                onChange={(e) => setWidth(Number(e.target.value) as ReceiptWidth)}
+                className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-sm text-slate-300 focus:border-emerald-500 outline-none"
+                title="Receipt width (characters per line)"
+            >
+                {RECEIPT_WIDTHS.map((w) => (
+                    <option key={w} value={w}>
+                        {w} cols
+                    </option>
+                ))}
+            </select>
+
+            <button
+                onClick={handlePreview}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-400 hover:text-white transition-all duration-200"
+                title="Preview weekly statement"
+            >
+                <Eye className="w-4 h-4" />
+                <span className="hidden sm:inline">Preview</span>
+            </button>
+
+            <a
+                href={`/api/statements/weekly?width=${width}`}
+                download
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-400 hover:text-white transition-all duration-200"
+            >
+                <Download className="w-4 h-4" />
+                <span className="hidden sm:inline">Weekly Statement</span>
+            </a>
+
+            {isAdmin && (
+                <button
+                    onClick={handlePrint}
+                    disabled={printing}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                >
+                    <Printer className={`w-4 h-4 ${printing ? "animate-pulse" : ""}`} />
+                    <span className="hidden sm:inline">{printing ? "Printing..." : "Print"}</span>
+                </button>
+            )}
+
+            {previewOpen && (
+                <div
+                    className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+                    onClick={() => setPreviewOpen(false)}
+                >
+                    <div
+                        className="glass w-full max-w-2xl rounded-2xl overflow-hidden shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="p-5 border-b border-slate-700/50 flex items-center justify-between">
+                            <h2 className="text-lg font-semibold">Weekly Statement Preview</h2>
+                            <button
+                                onClick={() => setPreviewOpen(false)}
+                                className="p-2 hover:bg-slate-700/50 rounded-lg transition-colors"
+                            >
+                                <X className="w-5 h-5 text-slate-400" />
+                            </button>
+                        </div>
+                        <div className="p-5 max-h-[70vh] overflow-y-auto">
+                            {previewTicket ? (
+                                <TicketPreview ticket={previewTicket} width={width} />
+                            ) : (
+                                <div className="flex justify-center py-12">
+                                    <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
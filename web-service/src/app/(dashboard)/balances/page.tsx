@@ -4,7 +4,11 @@ import { users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { redirect } from "next/navigation";
 import { calculateAllBalances } from "@/lib/calculations";
+import { getHouseholdTimeZone } from "@/lib/household";
 import { AdminBalancesView } from "./AdminBalancesView";
+import { BalanceAdjustmentsPanel } from "./BalanceAdjustmentsPanel";
+import { getBalanceAdjustments } from "@/lib/balance-adjustments";
+import { WeeklyStatementButtons } from "./WeeklyStatementButtons";
 import { DollarSign, TrendingUp, TrendingDown, Users } from "lucide-react";
 import { formatMoney } from "@/lib/utils";
 
@@ -24,6 +28,9 @@ export default async function BalancesPage() {
 
     // Everyone sees all flatmates for transparency
     const summary = await calculateAllBalances();
+    const timeZone = await getHouseholdTimeZone();
+    const isAdmin = session.user.role === "admin";
+    const adjustments = isAdmin ? await getBalanceAdjustments() : [];
 
     if (summary.flatmates.length === 0) {
         return (
@@ -42,11 +49,14 @@ export default async function BalancesPage() {
     return (
         <div className="max-w-full w-7xl mx-auto">
             {/* Header */}
-            <div className="mb-8">
-                <h1 className="text-2xl font-bold">Payment Balances</h1>
-                <p className="text-slate-400 mt-1">
-                    Track who&apos;s paid and who owes money
-                </p>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+                <div>
+                    <h1 className="text-2xl font-bold">Payment Balances</h1>
+                    <p className="text-slate-400 mt-1">
+                        Track who&apos;s paid and who owes money
+                    </p>
+                </div>
+                <WeeklyStatementButtons isAdmin={isAdmin} />
             </div>
 
             {/* Summary Stats */}
@@ -96,7 +106,19 @@ export default async function BalancesPage() {
             <AdminBalancesView
                 flatmates={summary.flatmates}
                 currentUserId={currentUser[0]?.id}
+                timeZone={timeZone}
             />
+
+            {/* Adjustments ledger (admin only) */}
+            {isAdmin && (
+                <div className="mt-8">
+                    <BalanceAdjustmentsPanel
+                        adjustments={adjustments}
+                        flatmates={summary.flatmates.map((f) => ({ id: f.userId, name: f.userName, email: f.userEmail }))}
+                        timeZone={timeZone}
+                    />
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { Plus, X, Loader2, Printer } from "lucide-react";
+import { addPrinterDeviceAction } from "@/lib/print-actions";
+import { RECEIPT_WIDTHS, DEFAULT_RECEIPT_WIDTH } from "@/lib/receipt";
+import { useRouter } from "next/navigation";
+import { PrinterTokenDialog } from "./PrinterTokenDialog";
+
+interface AddPrinterDialogProps {
+    hubPort: number;
+}
+
+export function AddPrinterDialog({ hubPort }: AddPrinterDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [token, setToken] = useState<string | null>(null);
+    const router = useRouter();
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        const formData = new FormData(e.currentTarget);
+        const result = await addPrinterDeviceAction(formData);
+
+        if (result.error) {
+            setError(result.error);
+            setLoading(false);
+        } else {
+            setOpen(false);
+            setLoading(false);
+            setToken(result.token ?? null);
+            router.refresh();
+        }
+    };
+
+    const dialog = open ? (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="glass rounded-2xl w-full max-w-md p-6 animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-bold">Add Printer</h2>
+                    <button
+                        onClick={() => setOpen(false)}
+                        className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {/* Name */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Name *
+                        </label>
+                        <div className="relative">
+                            <Printer className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                            <input
+                                type="text"
+                                name="name"
+                                required
+                                placeholder="Hallway printer"
+                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Paper Width */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Paper Width
+                        </label>
+                        <select
+                            name="paperWidth"
+                            defaultValue={DEFAULT_RECEIPT_WIDTH}
+                            className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                        >
+                            {RECEIPT_WIDTHS.map((w) => (
+                                <option key={w} value={w}>
+                                    {w} characters per line
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {error && (
+                        <div className="p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={() => setOpen(false)}
+                            className="flex-1 px-4 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 transition-colors font-medium"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="flex-1 px-4 py-3 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center gap-2"
+                        >
+                            {loading ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                    Adding...
+                                </>
+                            ) : (
+                                <>
+                                    <Plus className="w-4 h-4" />
+                                    Add Printer
+                                </>
+                            )}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    ) : null;
+
+    return (
+        <>
+            <button
+                onClick={() => setOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 transition-colors font-medium"
+            >
+                <Plus className="w-4 h-4" />
+                Add Printer
+            </button>
+            {typeof document !== "undefined" && createPortal(dialog, document.body)}
+            {token && <PrinterTokenDialog token={token} hubPort={hubPort} onClose={() => setToken(null)} />}
+        </>
+    );
+}
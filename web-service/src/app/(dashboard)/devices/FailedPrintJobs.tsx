@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Eye, EyeOff, Loader2, RotateCcw, CheckCircle2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { getPrintJobTicketAction, reprintPrintJobAction } from "@/lib/print-actions";
+import { DEFAULT_RECEIPT_WIDTH } from "@/lib/receipt";
+import type { PrintJob } from "@/lib/db/schema";
+import type { Ticket } from "@/lib/ticket";
+import { TicketPreview } from "@/components/TicketPreview";
+import { useRouter } from "next/navigation";
+
+interface FailedPrintJobsProps {
+    jobs: PrintJob[];
+    deviceNames: Record<string, string>;
+}
+
+export function FailedPrintJobs({ jobs, deviceNames }: FailedPrintJobsProps) {
+    const router = useRouter();
+    const [reprintingId, setReprintingId] = useState<string | null>(null);
+    const [previewId, setPreviewId] = useState<string | null>(null);
+    const [previewTicket, setPreviewTicket] = useState<Ticket | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleReprint = async (jobId: string) => {
+        setReprintingId(jobId);
+        setError(null);
+
+        const result = await reprintPrintJobAction(jobId);
+        if (result.error) {
+            setError(result.error);
+        } else {
+            router.refresh();
+        }
+        setReprintingId(null);
+    };
+
+    const handlePreview = async (jobId: string) => {
+        if (previewId === jobId) {
+            setPreviewId(null);
+            return;
+        }
+
+        setPreviewId(jobId);
+        setPreviewTicket(null);
+        setPreviewTicket(await getPrintJobTicketAction(jobId));
+    };
+
+    return (
+        <div className="glass rounded-2xl overflow-hidden mt-8">
+            <div className="p-5 border-b border-slate-700/50">
+                <h2 className="font-semibold text-lg flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-red-400" />
+                    Failed Jobs
+                </h2>
+                <p className="text-sm text-slate-400 mt-1">
+                    Jobs that kept failing and are no longer retried automatically
+                </p>
+            </div>
+
+            {error && (
+                <div className="m-5 mb-0 p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {jobs.length === 0 ? (
+                <div className="text-center py-8 text-slate-500">
+                    <CheckCircle2 className="w-8 h-8 mx-auto mb-2 text-slate-600" />
+                    <p className="text-sm">No failed jobs</p>
+                </div>
+            ) : (
+                <div className="divide-y divide-slate-700/50">
+                    {jobs.map((job) => (
+                        <div key={job.id} className="p-4">
+                            <div className="flex items-start justify-between gap-4">
+                                <div className="min-w-0 flex-1">
+                                    <p className="font-medium text-slate-200 capitalize">
+                                        {job.source.replace(/_/g, " ")}
+                                    </p>
+                                    <p className="text-sm text-red-400 truncate" title={job.error ?? undefined}>
+                                        {job.error ?? "Unknown error"}
+                                    </p>
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        {job.createdAt && `Queued ${formatDistanceToNow(job.createdAt, { addSuffix: true })} · `}
+                                        {job.attempts} attempt{job.attempts === 1 ? "" : "s"}
+                                        {job.deviceId && deviceNames[job.deviceId] && ` · last sent to ${deviceNames[job.deviceId]}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    <button
+                                        onClick={() => handlePreview(job.id)}
+                                        className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                                        title={previewId === job.id ? "Hide preview" : "Preview"}
+                                    >
+                                        {previewId === job.id ? (
+                                            <EyeOff className="w-4 h-4 text-slate-400" />
+                                        ) : (
+                                            <Eye className="w-4 h-4 text-slate-400" />
+                                        )}
+                                    </button>
+                                    <button
+                                        onClick={() => handleReprint(job.id)}
+                                        disabled={reprintingId !== null}
+                                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                                    >
+                                        {reprintingId === job.id ? (
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                        ) : (
+                                            <RotateCcw className="w-4 h-4" />
+                                        )}
+                                        Reprint
+                                    </button>
+                                </div>
+                            </div>
+
+                            {previewId === job.id && (
+                                <div className="mt-4">
+                                    {previewTicket ? (
+                                        <TicketPreview ticket={previewTicket} width={DEFAULT_RECEIPT_WIDTH} />
+                                    ) : (
+                                        <div className="flex justify-center py-6">
+                                            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import {
+    MoreVertical,
+    Pencil,
+    Trash2,
+    X,
+    Loader2,
+    Printer,
+    KeyRound,
+    Ban,
+    Wifi,
+    WifiOff,
+    Clock,
+    Ruler,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+    updatePrinterDeviceAction,
+    rotatePrinterTokenAction,
+    revokePrinterDeviceAction,
+    deletePrinterDeviceAction,
+} from "@/lib/print-actions";
+import { RECEIPT_WIDTHS } from "@/lib/receipt";
+import { useRouter } from "next/navigation";
+import type { PrinterDevice, PrintJob } from "@/lib/db/schema";
+import type { PrinterConnectionState } from "@/lib/print-devices";
+import { PrinterTokenDialog } from "./PrinterTokenDialog";
+
+interface PrinterDeviceCardProps {
+    device: PrinterDevice;
+    connectionState: PrinterConnectionState;
+    recentJobs: PrintJob[];
+    hubPort: number;
+}
+
+const STATE_BADGES: Record<PrinterConnectionState, { label: string; className: string }> = {
+    online: { label: "Online", className: "bg-emerald-500/20 text-emerald-400" },
+    not_responding: { label: "Not Responding", className: "bg-amber-500/20 text-amber-400" },
+    offline: { label: "Offline", className: "bg-slate-500/20 text-slate-400" },
+    revoked: { label: "Revoked", className: "bg-red-500/20 text-red-400" },
+};
+
+const JOB_STATUS_STYLES: Record<PrintJob["status"], string> = {
+    queued: "text-slate-400",
+    delivered: "text-blue-400",
+    printed: "text-emerald-400",
+    failed: "text-red-400",
+};
+
+export function PrinterDeviceCard({ device, connectionState, recentJobs, hubPort }: PrinterDeviceCardProps) {
+    const [menuOpen, setMenuOpen] = useState(false);
+    const [editOpen, setEditOpen] = useState(false);
+    const [deleteConfirm, setDeleteConfirm] = useState(false);
+    const [token, setToken] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const router = useRouter();
+
+    const badge = STATE_BADGES[connectionState];
+
+    const handleUpdate = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        const formData = new FormData(e.currentTarget);
+        formData.append("id", device.id);
+        const result = await updatePrinterDeviceAction(formData);
+
+        if (result.error) {
+            setError(result.error);
+            setLoading(false);
+        } else {
+            setEditOpen(false);
+            setLoading(false);
+            router.refresh();
+        }
+    };
+
+    const handleRotate = async () => {
+        if (!confirm("Issue a new token? The printer will be disconnected until it is set up with the new one.")) {
+            return;
+        }
+
+        const result = await rotatePrinterTokenAction(device.id);
+        if (result.error) {
+            alert(result.error);
+        } else {
+            setToken(result.token ?? null);
+            router.refresh();
+        }
+    };
+
+    const handleRevoke = async () => {
+        if (!confirm("Revoke this printer's token? It will be disconnected and can't reconnect.")) {
+            return;
+        }
+
+        const result = await revokePrinterDeviceAction(device.id);
+        if (result.error) {
+            alert(result.error);
+        } else {
+            router.refresh();
+        }
+    };
+
+    const handleDelete = async () => {
+        setLoading(true);
+        const result = await deletePrinterDeviceAction(device.id);
+
+        if (result.error) {
+            setError(result.error);
+            setLoading(false);
+        } else {
+            setDeleteConfirm(false);
+            setLoading(false);
+            router.refresh();
+        }
+    };
+
+    const editDialog = editOpen ? (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="glass rounded-2xl w-full max-w-md p-6 animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-bold">Edit Printer</h2>
+                    <button
+                        onClick={() => setEditOpen(false)}
+                        className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleUpdate} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Name *
+                        </label>
+                        <div className="relative">
+                            <Printer className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                            <input
+                                type="text"
+                                name="name"
+                                required
+                                defaultValue={device.name}
+                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Paper Width
+                        </label>
+                        <select
+                            name="paperWidth"
+                            defaultValue={device.paperWidth}
+                            className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                        >
+                            {RECEIPT_WIDTHS.map((w) => (
+                                <option key={w} value={w}>
+                                    {w} characters per line
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {error && (
+                        <div className="p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={() => setEditOpen(false)}
+                            className="flex-1 px-4 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 transition-colors font-medium"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="flex-1 px-4 py-3 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center gap-2"
+                        >
+                            {loading ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Changes"
+                            )}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    ) : null;
+
+    const deleteDialog = deleteConfirm ? (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="glass rounded-2xl w-full max-w-sm p-6 animate-in fade-in zoom-in-95 duration-200">
+                <h2 className="text-xl font-bold mb-2">Delete Printer?</h2>
+                <p className="text-slate-400 mb-6">
+                    {device.name} will be removed and its token will stop working. Past print jobs are kept.
+                </p>
+                {error && (
+                    <div className="p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm mb-4">
+                        {error}
+                    </div>
+                )}
+                <div className="flex gap-3">
+                    <button
+                        onClick={() => setDeleteConfirm(false)}
+                        className="flex-1 px-4 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 transition-colors font-medium"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleDelete}
+                        disabled={loading}
+                        className="flex-1 px-4 py-3 rounded-xl bg-red-600 hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center gap-2"
+                    >
+                        {loading ? (
+                            <>
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                Deleting...
+                            </>
+                        ) : (
+                            "Delete"
+                        )}
+                    </button>
+                </div>
+            </div>
+        </div>
+    ) : null;
+
+    return (
+        <>
+            <div className="glass rounded-xl p-5 relative group">
+                {/* Menu Button */}
+                <div className="absolute top-4 right-4">
+                    <button
+                        onClick={() => setMenuOpen(!menuOpen)}
+                        className="p-2 rounded-lg hover:bg-slate-700/50 transition-colors opacity-0 group-hover:opacity-100"
+                    >
+                        <MoreVertical className="w-4 h-4" />
+                    </button>
+
+                    {menuOpen && (
+                        <>
+                            <div className="fixed inset-0 z-10" onClick={() => setMenuOpen(false)} />
+                            <div className="absolute right-0 top-10 z-20 bg-slate-800 rounded-xl border border-slate-700 shadow-xl py-1 min-w-40">
+                                <button
+                                    onClick={() => {
+                                        setMenuOpen(false);
+                                        setEditOpen(true);
+                                    }}
+                                    className="w-full px-4 py-2 text-left text-sm hover:bg-slate-700 flex items-center gap-2"
+                                >
+                                    <Pencil className="w-4 h-4" />
+                                    Edit
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        setMenuOpen(false);
+                                        handleRotate();
+                                    }}
+                                    className="w-full px-4 py-2 text-left text-sm hover:bg-slate-700 flex items-center gap-2"
+                                >
+                                    <KeyRound className="w-4 h-4" />
+                                    {device.revokedAt ? "Issue New Token" : "Rotate Token"}
+                                </button>
+                                {!device.revokedAt && (
+                                    <button
+                                        onClick={() => {
+                                            setMenuOpen(false);
+                                            handleRevoke();
+                                        }}
+                                        className="w-full px-4 py-2 text-left text-sm hover:bg-slate-700 flex items-center gap-2 text-amber-400"
+                                    >
+                                        <Ban className="w-4 h-4" />
+                                        Revoke
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => {
+                                        setMenuOpen(false);
+                                        setDeleteConfirm(true);
+                                    }}
+                                    className="w-full px-4 py-2 text-left text-sm hover:bg-slate-700 flex items-center gap-2 text-red-400"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                    Delete
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                {/* Name */}
+                <div className="flex items-start gap-4 mb-4">
+                    <div className="w-12 h-12 rounded-full bg-slate-700 flex items-center justify-center">
+                        <Printer className="w-6 h-6 text-slate-400" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <h3 className="font-semibold truncate">{device.name}</h3>
+                        <p className="text-sm text-slate-400 truncate">Token ending …{device.tokenHint}</p>
+                    </div>
+                </div>
+
+                {/* Status Badge */}
+                <div className="flex items-center gap-2 mb-4">
+                    <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${badge.className}`}>
+                        {connectionState === "online" ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+                        {badge.label}
+                    </span>
+                </div>
+
+                {/* Details */}
+                <div className="space-y-2 text-sm">
+                    <div className="flex items-center gap-2 text-slate-400">
+                        <Clock className="w-4 h-4" />
+                        <span className="truncate">
+                            {device.lastSeenAt
+                                ? `Last seen ${formatDistanceToNow(device.lastSeenAt, { addSuffix: true })}`
+                                : "Never connected"}
+                            {device.remoteAddress && ` from ${device.remoteAddress}`}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2 text-slate-400">
+                        <Ruler className="w-4 h-4" />
+                        <span>{device.paperWidth} characters per line</span>
+                    </div>
+                </div>
+
+                {/* Recent Jobs */}
+                <div className="mt-4 pt-4 border-t border-slate-700/50">
+                    <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-2">Recent Jobs</p>
+                    {recentJobs.length === 0 ? (
+                        <p className="text-sm text-slate-500">No jobs yet</p>
+                    ) : (
+                        <ul className="space-y-1.5">
+                            {recentJobs.map((job) => (
+                                <li key={job.id} className="flex items-center justify-between gap-2 text-sm">
+                                    <span className="truncate text-slate-300 capitalize" title={job.error ?? undefined}>
+                                        {job.source.replace(/_/g, " ")}
+                                    </span>
+                                    <span className="flex items-center gap-2 shrink-0 text-xs">
+                                        <span className="text-slate-500">
+                                            {job.createdAt && formatDistanceToNow(job.createdAt, { addSuffix: true })}
+                                        </span>
+                                        <span className={`capitalize ${JOB_STATUS_STYLES[job.status]}`}>{job.status}</span>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            {typeof document !== "undefined" && createPortal(editDialog, document.body)}
+            {typeof document !== "undefined" && createPortal(deleteDialog, document.body)}
+            {token && <PrinterTokenDialog token={token} hubPort={hubPort} onClose={() => setToken(null)} />}
+        </>
+    );
+}
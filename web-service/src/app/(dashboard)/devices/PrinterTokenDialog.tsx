@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { Copy, Check, KeyRound } from "lucide-react";
+
+interface PrinterTokenDialogProps {
+    token: string;
+    hubPort: number;
+    onClose: () => void;
+}
+
+/**
+ * Shows a newly issued printer token. Only its hash is stored, so this is the one chance to copy it.
+ */
+export function PrinterTokenDialog({ token, hubPort, onClose }: PrinterTokenDialogProps) {
+    const [copied, setCopied] = useState(false);
+    const command = `printer-service --url "ws://${typeof window !== "undefined" ? window.location.hostname : "your-host"}:${hubPort}/?token=${token}"`;
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(token);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const dialog = (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="glass rounded-2xl w-full max-w-lg p-6 animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="p-2 rounded-lg bg-amber-500/20">
+                        <KeyRound className="w-5 h-5 text-amber-400" />
+                    </div>
+                    <h2 className="text-xl font-bold">Printer Token</h2>
+                </div>
+
+                <p className="text-sm text-slate-400 mb-4">
+                    Copy this token to the printer now. It won&apos;t be shown again; rotate the token if it
+                    gets lost.
+                </p>
+
+                <div className="flex items-center gap-2 mb-4">
+                    <code className="flex-1 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-emerald-400 break-all">
+                        {token}
+                    </code>
+                    <button
+                        onClick={handleCopy}
+                        className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 transition-colors"
+                        title="Copy token"
+                    >
+                        {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                </div>
+
+                <p className="text-xs text-slate-500 mb-2">Start the printer service with:</p>
+                <pre className="px-3 py-2 rounded-lg bg-slate-800/50 text-xs text-slate-300 whitespace-pre-wrap break-all mb-6">
+                    {command}
+                </pre>
+
+                <button
+                    onClick={onClose}
+                    className="w-full px-4 py-3 rounded-xl bg-emerald-600 hover:bg-emerald-500 transition-colors font-medium"
+                >
+                    Done
+                </button>
+            </div>
+        </div>
+    );
+
+    return typeof document !== "undefined" ? createPortal(dialog, document.body) : null;
+}
@@ -0,0 +1,112 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Printer, Wifi, AlertTriangle } from "lucide-react";
+import {
+    getPrinterConnectionState,
+    getPrinterDevices,
+    getRecentJobsByDevice,
+} from "@/lib/print-devices";
+import { getFailedPrintJobs } from "@/lib/print-queue";
+import { AddPrinterDialog } from "./AddPrinterDialog";
+import { PrinterDeviceCard } from "./PrinterDeviceCard";
+import { FailedPrintJobs } from "./FailedPrintJobs";
+
+const RECENT_JOB_COUNT = 5;
+
+export default async function DevicesPage() {
+    const session = await auth();
+
+    if (!session?.user || session.user.role !== "admin") {
+        redirect("/");
+    }
+
+    const hubPort = parseInt(process.env.PRINT_HUB_PORT || "3001", 10);
+    const devices = await getPrinterDevices();
+    const recentJobs = await getRecentJobsByDevice(devices.map((d) => d.id), RECENT_JOB_COUNT);
+    const failedJobs = await getFailedPrintJobs();
+
+    const now = new Date();
+    const states = new Map(devices.map((d) => [d.id, getPrinterConnectionState(d, now)]));
+    const onlineCount = devices.filter((d) => states.get(d.id) === "online").length;
+    const deviceNames = Object.fromEntries(devices.map((d) => [d.id, d.name]));
+
+    return (
+        <div className="max-w-full w-7xl mx-auto">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+                <div>
+                    <h1 className="text-2xl font-bold">Devices</h1>
+                    <p className="text-slate-400 mt-1">
+                        Receipt printers that connect to the print hub
+                    </p>
+                </div>
+                <AddPrinterDialog hubPort={hubPort} />
+            </div>
+
+            {/* Stats */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+                <div className="glass rounded-xl p-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-slate-500/20">
+                            <Printer className="w-5 h-5 text-slate-300" />
+                        </div>
+                        <div>
+                            <p className="text-2xl font-bold">{devices.length}</p>
+                            <p className="text-sm text-slate-400">Registered Printers</p>
+                        </div>
+                    </div>
+                </div>
+                <div className="glass rounded-xl p-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-emerald-500/20">
+                            <Wifi className="w-5 h-5 text-emerald-400" />
+                        </div>
+                        <div>
+                            <p className="text-2xl font-bold">{onlineCount}</p>
+                            <p className="text-sm text-slate-400">Online</p>
+                        </div>
+                    </div>
+                </div>
+                <div className="glass rounded-xl p-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-red-500/20">
+                            <AlertTriangle className="w-5 h-5 text-red-400" />
+                        </div>
+                        <div>
+                            <p className="text-2xl font-bold">{failedJobs.length}</p>
+                            <p className="text-sm text-slate-400">Failed Jobs</p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Device List */}
+            {devices.length === 0 ? (
+                <div className="glass rounded-2xl p-12 text-center">
+                    <div className="w-16 h-16 rounded-full bg-slate-700/50 flex items-center justify-center mx-auto mb-4">
+                        <Printer className="w-8 h-8 text-slate-500" />
+                    </div>
+                    <h3 className="text-lg font-semibold mb-2">No printers yet</h3>
+                    <p className="text-slate-400 mb-6 max-w-sm mx-auto">
+                        Add a printer to get a device token, then start the printer service with it.
+                    </p>
+                    <AddPrinterDialog hubPort={hubPort} />
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {devices.map((device) => (
+                        <PrinterDeviceCard
+                            key={device.id}
+                            device={device}
+                            connectionState={states.get(device.id) ?? "offline"}
+                            recentJobs={recentJobs.get(device.id) ?? []}
+                            hubPort={hubPort}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <FailedPrintJobs jobs={failedJobs} deviceNames={deviceNames} />
+        </div>
+    );
+}
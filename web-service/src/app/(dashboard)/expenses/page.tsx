@@ -12,6 +12,7 @@ import {
     getDailyExpenseDataAllCategories,
     getDailyExpenseData,
 } from "@/lib/expense-calculations";
+import { getHouseholdTimeZone } from "@/lib/household";
 import { ExpenseCategoryCard } from "@/components/expenses/ExpenseCategoryCard";
 import { ExpenseBurnRates } from "@/components/expenses/ExpenseBurnRates";
 import { ExpenseTransactionList } from "@/components/expenses/ExpenseTransactionList";
@@ -74,6 +75,7 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
             txs.filter((tx) => tx.category.id === selectedCategory.id)
         )
         : await getAllExpenseTransactions(transactionLimit, startDate, endDate);
+    const timeZone = await getHouseholdTimeZone();
 
     // Get rules for admin
     const rules = isAdmin
@@ -171,6 +173,7 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
                         <ExpenseTransactionList
                             transactions={expenseTransactions}
                             categories={categories}
+                            timeZone={timeZone}
                             emptyMessage="No expense transactions found for this period"
                             showCategoryBadge={!selectedCategory}
                         />
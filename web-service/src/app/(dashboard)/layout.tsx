@@ -1,6 +1,8 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { Sidebar } from "@/components/Sidebar";
+import { SyncFailureAlert } from "@/components/SyncFailureAlert";
+import { getSyncFailureStreak, SYNC_FAILURE_ALERT_THRESHOLD } from "@/lib/sync-history";
 
 export default async function DashboardLayout({
     children,
@@ -13,11 +15,17 @@ export default async function DashboardLayout({
         redirect("/auth/signin");
     }
 
+    // Admins are warned when syncs keep failing (e.g. an expired Akahu token)
+    const failureStreak = session.user.role === "admin" ? await getSyncFailureStreak() : null;
+
     return (
         <div className="flex min-h-screen bg-slate-900">
             <Sidebar user={session.user} />
             <main className="flex-1 min-w-0 overflow-auto lg:h-screen lg:flex lg:flex-col">
                 <div className="p-4 lg:p-8 lg:flex-1 lg:flex lg:flex-col lg:min-h-0">
+                    {failureStreak && failureStreak.count >= SYNC_FAILURE_ALERT_THRESHOLD && (
+                        <SyncFailureAlert streak={failureStreak} />
+                    )}
                     {children}
                 </div>
             </main>
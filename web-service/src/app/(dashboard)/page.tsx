@@ -1,17 +1,22 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { transactions, users, landlords } from "@/lib/db/schema";
-import { desc, sql, eq } from "drizzle-orm";
+import { transactions, pendingTransactions, users, landlords } from "@/lib/db/schema";
+import { desc, sql, eq, isNull, and } from "drizzle-orm";
 import { DollarSign, TrendingUp, TrendingDown, Users, ArrowRight, CheckCircle2, AlertCircle, Clock, Building2 } from "lucide-react";
 import { SyncButton } from "@/components/SyncButton";
 import { RecentTransactions } from "@/components/RecentTransactions";
+import { SyncProgressLog } from "@/components/SyncProgressLog";
 import { AutopaymentHelper } from "@/components/AutopaymentHelper";
 import { getLastSyncTime, canTriggerManualRefresh } from "@/lib/sync";
+import { getSyncProgress } from "@/lib/sync-lock";
 import { getCurrentWeekSummary, calculateUserBalance, getLandlordPaymentSummary } from "@/lib/calculations";
+import { getHouseholdTimeZone, getWeekRulesHistory } from "@/lib/household";
 import { formatMoney } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
 
+const RECENT_TRANSACTIONS_LIMIT = 5;
+
 // Stat card component
 function StatCard({
     title,
@@ -61,12 +66,14 @@ export default async function DashboardPage() {
     // Get sync status
     const lastSyncTime = await getLastSyncTime();
     const { canRefresh, nextRefreshAt } = await canTriggerManualRefresh();
+    const syncProgress = await getSyncProgress();
 
     // Fetch recent transactions with matched user and landlord names
     const recentTxs = await db
         .select({
             id: transactions.id,
             akahuId: transactions.akahuId,
+            bankAccountId: transactions.bankAccountId,
             date: transactions.date,
             amount: transactions.amount,
             description: transactions.description,
@@ -81,6 +88,8 @@ export default async function DashboardPage() {
             matchType: transactions.matchType,
             matchConfidence: transactions.matchConfidence,
             manualMatch: transactions.manualMatch,
+            isInternalTransfer: transactions.isInternalTransfer,
+            deletedAt: transactions.deletedAt,
             createdAt: transactions.createdAt,
             matchedUserName: users.name,
             matchedLandlordName: landlords.name,
@@ -88,8 +97,28 @@ export default async function DashboardPage() {
         .from(transactions)
         .leftJoin(users, eq(transactions.matchedUserId, users.id))
         .leftJoin(landlords, eq(transactions.matchedLandlordId, landlords.id))
+        .where(isNull(transactions.deletedAt))
         .orderBy(desc(transactions.date))
-        .limit(5);
+        .limit(RECENT_TRANSACTIONS_LIMIT);
+
+    // Pending transactions that haven't settled yet
+    const pendingTxs = await db
+        .select({
+            id: pendingTransactions.id,
+            date: pendingTransactions.date,
+            amount: pendingTransactions.amount,
+            description: pendingTransactions.description,
+            matchedUserId: pendingTransactions.matchedUserId,
+            matchedLandlordId: pendingTransactions.matchedLandlordId,
+            matchType: pendingTransactions.matchType,
+            matchedUserName: users.name,
+            matchedLandlordName: landlords.name,
+        })
+        .from(pendingTransactions)
+        .leftJoin(users, eq(pendingTransactions.matchedUserId, users.id))
+        .leftJoin(landlords, eq(pendingTransactions.matchedLandlordId, landlords.id))
+        .where(isNull(pendingTransactions.settledTransactionId))
+        .orderBy(desc(pendingTransactions.date));
 
     // Get stats
     const stats = await db
@@ -98,7 +127,9 @@ export default async function DashboardPage() {
             totalOut: sql<number>`sum(case when amount < 0 then amount else 0 end)`,
             count: sql<number>`count(*)`,
         })
-        .from(transactions);
+        .from(transactions)
+        // Transfers between tracked accounts aren't money in or out, and removed transactions never happened
+        .where(and(eq(transactions.isInternalTransfer, false), isNull(transactions.deletedAt)));
 
     const totalIn = stats[0]?.totalIn ?? 0;
     const totalOut = Math.abs(stats[0]?.totalOut ?? 0);
@@ -125,6 +156,8 @@ export default async function DashboardPage() {
     const userBalance = currentUser[0] 
         ? await calculateUserBalance(currentUser[0].id)
         : null;
+    const weekRules = await getWeekRulesHistory();
+    const timeZone = await getHouseholdTimeZone();
 
     // Get all flatmates for transaction matching override
     const flatmates = await db
@@ -148,9 +181,13 @@ export default async function DashboardPage() {
                     lastSyncTime={lastSyncTime}
                     canRefresh={canRefresh}
                     nextRefreshAt={nextRefreshAt}
+                    syncProgress={syncProgress}
                 />
             </div>
 
+            {/* Live log while a sync runs */}
+            <SyncProgressLog />
+
             {/* Stats Grid */}
             <div className={`grid grid-cols-1 sm:grid-cols-2 ${landlordSummary.totalPaid > 0 ? "lg:grid-cols-5" : "lg:grid-cols-4"} gap-4 mb-8`}>
                 <div className="animate-fade-in-up stagger-1"><StatCard
@@ -197,9 +234,12 @@ export default async function DashboardPage() {
                     </div>
                     <RecentTransactions
                         transactions={recentTxs}
+                        pendingTransactions={pendingTxs}
                         emptyMessage="No transactions synced yet"
                         emptySubMessage="Click Sync to fetch transactions from Akahu"
                         flatmates={flatmates}
+                        timeZone={timeZone}
+                        liveLimit={RECENT_TRANSACTIONS_LIMIT}
                     />
                     {recentTxs.length > 0 && (
                         <div className="p-4 border-t border-slate-700/50">
@@ -258,6 +298,16 @@ export default async function DashboardPage() {
                                         </span>
                                         <span className="text-slate-500"> / </span>
                                         <span className="text-slate-400">${fm.amountDue.toFixed(0)}</span>
+                                        {Math.abs(fm.adjustmentTotal) >= 0.5 && (
+                                            <p className="text-xs text-violet-400">
+                                                adjusted {fm.adjustmentTotal > 0 ? "+" : "-"}${Math.abs(fm.adjustmentTotal).toFixed(0)}
+                                            </p>
+                                        )}
+                                        {fm.provisionalPaid > 0 && (
+                                            <p className="text-xs text-sky-400">
+                                                incl. ${fm.provisionalPaid.toFixed(0)} pending
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
                             ))
@@ -305,7 +355,7 @@ export default async function DashboardPage() {
             {userBalance && (
                 <div className="mt-6">
                     <AutopaymentHelper 
-                        currentWeeklyRate={userBalance.currentWeeklyRate}
+                        currentSchedule={userBalance.currentSchedule}
                         totalBalance={userBalance.balance}
                         weeklyBreakdown={userBalance.weeklyBreakdown.map(w => ({
                             amountDue: w.amountDue,
@@ -318,6 +368,7 @@ export default async function DashboardPage() {
                         userName={session?.user?.name?.split(" ")[0]}
                         scheduleEndDate={userBalance.scheduleEndDate}
                         futureSchedules={userBalance.futureSchedules}
+                        weekRules={weekRules}
                     />
                 </div>
             )}
@@ -3,30 +3,33 @@
 import { useState } from "react";
 import { Plus, X } from "lucide-react";
 import { addScheduleAction } from "@/lib/actions";
-import { format, previousSaturday, isSaturday } from "date-fns";
+import { format } from "date-fns";
 import { WeekDatePicker } from "@/components/WeekDatePicker";
+import { getCalendarWeek, type WeekRulesPeriod } from "@/lib/week-rules";
+import type { CadenceSchedule } from "@/lib/schedule-cadence";
+import { ScheduleCadenceFields } from "./ScheduleCadenceFields";
 
 interface AddScheduleDialogProps {
     flatmates: Array<{ id: string; name: string | null; email: string }>;
+    weekRules: WeekRulesPeriod[];
     defaultUserId?: string;
     defaultStartDate?: string;
-    defaultWeeklyAmount?: number;
+    defaultSchedule?: Pick<CadenceSchedule, "cadence" | "amount" | "anchorDate" | "dayOfMonth" | "prorate">; // e.g. when continuing a schedule
     onClose?: () => void;
     isOpen?: boolean;
 }
 
-// Get the nearest Saturday for default start date
-function getDefaultSaturday(): string {
-    const today = new Date();
-    const saturday = isSaturday(today) ? today : previousSaturday(today);
-    return format(saturday, "yyyy-MM-dd");
+// Get the start of the current week for default start date
+function getDefaultWeekStart(weekRules: WeekRulesPeriod[]): string {
+    return format(getCalendarWeek(weekRules, new Date()).start, "yyyy-MM-dd");
 }
 
 export function AddScheduleDialog({ 
     flatmates, 
+    weekRules,
     defaultUserId, 
     defaultStartDate, 
-    defaultWeeklyAmount,
+    defaultSchedule,
     onClose,
     isOpen: controlledOpen 
 }: AddScheduleDialogProps) {
@@ -114,37 +117,25 @@ export function AddScheduleDialog({
                         </select>
                     </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-slate-300 mb-1">
-                            Weekly Amount ($) *
-                        </label>
-                        <input
-                            type="number"
-                            name="weeklyAmount"
-                            required
-                            min="0"
-                            step="0.01"
-                            defaultValue={defaultWeeklyAmount}
-                            placeholder="e.g., 250.00"
-                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                        />
-                    </div>
+                    <ScheduleCadenceFields defaults={defaultSchedule} />
 
                     <div className="grid grid-cols-2 gap-4">
                         <WeekDatePicker
                             name="startDate"
                             label="Start Date"
                             weekAlign="start"
+                            weekRules={weekRules}
                             required
-                            defaultValue={defaultStartDate || getDefaultSaturday()}
-                            placeholder="Select Saturday"
+                            defaultValue={defaultStartDate || getDefaultWeekStart(weekRules)}
+                            placeholder="Select week start"
                         />
                         <div>
                             <WeekDatePicker
                                 name="endDate"
                                 label="End Date"
                                 weekAlign="end"
-                                placeholder="Select Friday"
+                                weekRules={weekRules}
+                                placeholder="Select week end"
                             />
                             <p className="text-xs text-slate-500 mt-1">Leave empty for ongoing</p>
                         </div>
@@ -6,14 +6,17 @@ import { updateScheduleAction } from "@/lib/actions";
 import { PaymentSchedule } from "@/lib/db/schema";
 import { format } from "date-fns";
 import { WeekDatePicker } from "@/components/WeekDatePicker";
+import type { WeekRulesPeriod } from "@/lib/week-rules";
+import { ScheduleCadenceFields } from "./ScheduleCadenceFields";
 
 interface EditScheduleDialogProps {
     schedule: PaymentSchedule;
     flatmates: Array<{ id: string; name: string | null; email: string }>;
+    weekRules: WeekRulesPeriod[];
     onClose: () => void;
 }
 
-export function EditScheduleDialog({ schedule, flatmates, onClose }: EditScheduleDialogProps) {
+export function EditScheduleDialog({ schedule, flatmates, weekRules, onClose }: EditScheduleDialogProps) {
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -59,37 +62,26 @@ export function EditScheduleDialog({ schedule, flatmates, onClose }: EditSchedul
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
-                    <div>
-                        <label className="block text-sm font-medium text-slate-300 mb-1">
-                            Weekly Amount ($) *
-                        </label>
-                        <input
-                            type="number"
-                            name="weeklyAmount"
-                            required
-                            min="0"
-                            step="0.01"
-                            defaultValue={schedule.weeklyAmount}
-                            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                        />
-                    </div>
+                    <ScheduleCadenceFields defaults={schedule} />
 
                     <div className="grid grid-cols-2 gap-4">
                         <WeekDatePicker
                             name="startDate"
                             label="Start Date"
                             weekAlign="start"
+                            weekRules={weekRules}
                             required
                             defaultValue={format(schedule.startDate, "yyyy-MM-dd")}
-                            placeholder="Select Saturday"
+                            placeholder="Select week start"
                         />
                         <div>
                             <WeekDatePicker
                                 name="endDate"
                                 label="End Date"
                                 weekAlign="end"
+                                weekRules={weekRules}
                                 defaultValue={schedule.endDate ? format(schedule.endDate, "yyyy-MM-dd") : undefined}
-                                placeholder="Select Friday"
+                                placeholder="Select week end"
                             />
                             <p className="text-xs text-slate-500 mt-1">Leave empty for ongoing</p>
                         </div>
@@ -5,23 +5,15 @@ import { Download, Upload } from "lucide-react";
 import { PaymentSchedule } from "@/lib/db/schema";
 import { importSchedulesAction } from "@/lib/actions";
 import { format } from "date-fns";
+import { SCHEDULE_EXPORT_VERSION, toExportedSchedule, type ExportedSchedule } from "@/lib/schedule-cadence";
 
 interface ExportImportButtonsProps {
     schedules: PaymentSchedule[];
     flatmates: Array<{ id: string; name: string | null; email: string }>;
 }
 
-interface ExportedSchedule {
-    flatmateEmail: string;
-    flatmateName: string | null;
-    weeklyAmount: number;
-    startDate: string;
-    endDate: string | null;
-    notes: string | null;
-}
-
 interface ExportData {
-    version: 1;
+    version: 1 | 2; // Version 1 schedules were all weekly
     exportedAt: string;
     schedules: ExportedSchedule[];
 }
@@ -36,19 +28,9 @@ export function ExportImportButtons({ schedules, flatmates }: ExportImportButton
         const flatmateMap = new Map(flatmates.map((f) => [f.id, f]));
 
         const exportData: ExportData = {
-            version: 1,
+            version: SCHEDULE_EXPORT_VERSION,
             exportedAt: new Date().toISOString(),
-            schedules: schedules.map((s) => {
-                const flatmate = flatmateMap.get(s.userId);
-                return {
-                    flatmateEmail: flatmate?.email ?? "unknown",
-                    flatmateName: flatmate?.name ?? null,
-                    weeklyAmount: s.weeklyAmount,
-                    startDate: format(s.startDate, "yyyy-MM-dd"),
-                    endDate: s.endDate ? format(s.endDate, "yyyy-MM-dd") : null,
-                    notes: s.notes,
-                };
-            }),
+            schedules: schedules.map((s) => toExportedSchedule(s, flatmateMap.get(s.userId))),
         };
 
         const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -80,7 +62,7 @@ export function ExportImportButtons({ schedules, flatmates }: ExportImportButton
             const text = await file.text();
             const data = JSON.parse(text) as ExportData;
 
-            if (data.version !== 1) {
+            if (data.version !== 1 && data.version !== SCHEDULE_EXPORT_VERSION) {
                 throw new Error("Unsupported export version");
             }
 
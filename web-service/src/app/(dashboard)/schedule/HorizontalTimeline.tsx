@@ -6,6 +6,8 @@ import { DndContext, DragOverlay, useDraggable, useDroppable, PointerSensor, use
 import { CSS } from "@dnd-kit/utilities";
 import { ChevronLeft, ChevronRight, Calendar, Plus, Download } from "lucide-react";
 import type { PaymentSchedule } from "@/lib/db/schema";
+import type { WeekRulesPeriod } from "@/lib/week-rules";
+import { CADENCE_PERIODS_SHORT, formatScheduleRate, toExportedSchedule, SCHEDULE_EXPORT_VERSION, type CadenceSchedule } from "@/lib/schedule-cadence";
 import { EditScheduleDialog } from "./EditScheduleDialog";
 import { ViewScheduleDialog } from "./ViewScheduleDialog";
 import { AddScheduleDialog } from "./AddScheduleDialog";
@@ -18,6 +20,7 @@ interface HorizontalTimelineProps {
     schedulesByUser: Record<string, PaymentSchedule[]>;
     isAdmin: boolean;
     analysisStartDate?: Date | null;
+    weekRules: WeekRulesPeriod[];
 }
 
 const DAY_WIDTH = 4; // pixels per day
@@ -35,16 +38,26 @@ const AMOUNT_COLORS = [
     { bg: "bg-rose-600", hover: "hover:bg-rose-500", hex: "#e11d48" },
 ];
 
+// Schedules share a color when they charge the same amount on the same cadence
+function amountKey(schedule: Pick<PaymentSchedule, "cadence" | "amount">): string {
+    return `${schedule.cadence}:${schedule.amount}`;
+}
+
+// Short bar label, e.g. "$250/w" or "$1100/mo"
+function shortRate(schedule: Pick<PaymentSchedule, "cadence" | "amount">): string {
+    return `$${schedule.amount}/${CADENCE_PERIODS_SHORT[schedule.cadence]}`;
+}
+
 // Build a color map based on unique amounts, ordered by first appearance
-function buildAmountColorMap(schedulesByUser: Record<string, PaymentSchedule[]>): Map<number, typeof AMOUNT_COLORS[0]> {
+function buildAmountColorMap(schedulesByUser: Record<string, PaymentSchedule[]>): Map<string, typeof AMOUNT_COLORS[0]> {
     const allSchedules = Object.values(schedulesByUser).flat();
     
     // Find the earliest start date for each unique amount
-    const amountFirstSeen = new Map<number, Date>();
+    const amountFirstSeen = new Map<string, Date>();
     for (const schedule of allSchedules) {
-        const existing = amountFirstSeen.get(schedule.weeklyAmount);
+        const existing = amountFirstSeen.get(amountKey(schedule));
         if (!existing || schedule.startDate < existing) {
-            amountFirstSeen.set(schedule.weeklyAmount, schedule.startDate);
+            amountFirstSeen.set(amountKey(schedule), schedule.startDate);
         }
     }
     
@@ -54,7 +67,7 @@ function buildAmountColorMap(schedulesByUser: Record<string, PaymentSchedule[]>)
         .map(([amount]) => amount);
     
     // Assign colors in round-robin fashion
-    const colorMap = new Map<number, typeof AMOUNT_COLORS[0]>();
+    const colorMap = new Map<string, typeof AMOUNT_COLORS[0]>();
     sortedAmounts.forEach((amount, index) => {
         colorMap.set(amount, AMOUNT_COLORS[index % AMOUNT_COLORS.length]);
     });
@@ -99,9 +112,9 @@ function DraggableSchedule({
                     onClick();
                 }
             }}
-            title={`$${schedule.weeklyAmount}/week${schedule.notes ? ` - ${schedule.notes}` : ""}${!disabled ? " (drag to copy)" : ""}`}
+            title={`${formatScheduleRate(schedule)}${schedule.notes ? ` - ${schedule.notes}` : ""}${!disabled ? " (drag to copy)" : ""}`}
         >
-            <span className="truncate px-1.5 font-medium">${schedule.weeklyAmount}/w</span>
+            <span className="truncate px-1.5 font-medium">{shortRate(schedule)}</span>
         </div>
     );
 }
@@ -133,14 +146,14 @@ function DroppableRow({
     );
 }
 
-export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analysisStartDate }: HorizontalTimelineProps) {
+export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analysisStartDate, weekRules }: HorizontalTimelineProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
     const [editingSchedule, setEditingSchedule] = useState<PaymentSchedule | null>(null);
     const [viewingSchedule, setViewingSchedule] = useState<PaymentSchedule | null>(null);
     const [activeSchedule, setActiveSchedule] = useState<PaymentSchedule | null>(null);
     const [activeDropZone, setActiveDropZone] = useState<string | null>(null);
     const [copyMessage, setCopyMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
-    const [continueSchedule, setContinueSchedule] = useState<{ userId: string; startDate: string; weeklyAmount: number } | null>(null);
+    const [continueSchedule, setContinueSchedule] = useState<{ userId: string; startDate: string; schedule: Pick<CadenceSchedule, "cadence" | "amount" | "anchorDate" | "dayOfMonth" | "prorate"> } | null>(null);
     
     // Infinite scroll state - track months loaded
     const [monthsLoaded, setMonthsLoaded] = useState({ past: 6, future: 12 });
@@ -161,8 +174,8 @@ export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analys
 
     // Build color map once per render based on unique amounts
     const amountColorMap = useMemo(() => buildAmountColorMap(schedulesByUser), [schedulesByUser]);
-    const getColorForAmount = useCallback((amount: number) => {
-        return amountColorMap.get(amount) ?? AMOUNT_COLORS[0];
+    const getColorForAmount = useCallback((schedule: PaymentSchedule) => {
+        return amountColorMap.get(amountKey(schedule)) ?? AMOUNT_COLORS[0];
     }, [amountColorMap]);
 
     // Build month headers
@@ -326,19 +339,9 @@ export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analys
         const flatmateMap = new Map(flatmates.map((f) => [f.id, f]));
 
         const exportData = {
-            version: 1,
+            version: SCHEDULE_EXPORT_VERSION,
             exportedAt: new Date().toISOString(),
-            schedules: allSchedules.map((s) => {
-                const flatmate = flatmateMap.get(s.userId);
-                return {
-                    flatmateEmail: flatmate?.email ?? "unknown",
-                    flatmateName: flatmate?.name ?? null,
-                    weeklyAmount: s.weeklyAmount,
-                    startDate: format(s.startDate, "yyyy-MM-dd"),
-                    endDate: s.endDate ? format(s.endDate, "yyyy-MM-dd") : null,
-                    notes: s.notes,
-                };
-            }),
+            schedules: allSchedules.map((s) => toExportedSchedule(s, flatmateMap.get(s.userId))),
         };
 
         const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -507,10 +510,10 @@ export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analys
                                                                 setContinueSchedule({
                                                                     userId: flatmate.id,
                                                                     startDate: continuePos.continueDate,
-                                                                    weeklyAmount: schedule.weeklyAmount,
+                                                                    schedule,
                                                                 });
                                                             }}
-                                                            title={`Continue from ${format(addDays(schedule.endDate!, 1), "MMM d, yyyy")} at $${schedule.weeklyAmount}/week`}
+                                                            title={`Continue from ${format(addDays(schedule.endDate!, 1), "MMM d, yyyy")} at ${formatScheduleRate(schedule)}`}
                                                         >
                                                             <Plus className="w-3 h-3 text-slate-500" />
                                                         </button>
@@ -519,7 +522,7 @@ export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analys
                                                 {/* Schedule bars (in foreground) */}
                                                 {userSchedules.map((schedule) => {
                                                     const position = getSchedulePosition(schedule);
-                                                    const color = getColorForAmount(schedule.weeklyAmount);
+                                                    const color = getColorForAmount(schedule);
 
                                                     return position && (
                                                         <DraggableSchedule
@@ -581,9 +584,9 @@ export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analys
                 <DragOverlay>
                     {activeSchedule && (
                         <div 
-                            className={`h-7 rounded-sm text-xs text-white flex items-center justify-center px-2 shadow-lg ${getColorForAmount(activeSchedule.weeklyAmount).bg}`}
+                            className={`h-7 rounded-sm text-xs text-white flex items-center justify-center px-2 shadow-lg ${getColorForAmount(activeSchedule).bg}`}
                         >
-                            ${activeSchedule.weeklyAmount}/w → {activeDropZone 
+                            {shortRate(activeSchedule)} → {activeDropZone 
                                 ? flatmates.find(u => u.id === activeDropZone)?.name?.split(" ")[0] || "Drop here"
                                 : "Drop on flatmate"}
                         </div>
@@ -595,6 +598,7 @@ export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analys
                 <EditScheduleDialog
                     schedule={editingSchedule}
                     flatmates={flatmates}
+                    weekRules={weekRules}
                     onClose={() => setEditingSchedule(null)}
                 />
             )}
@@ -610,11 +614,12 @@ export function HorizontalTimeline({ flatmates, schedulesByUser, isAdmin, analys
             {continueSchedule && isAdmin && (
                 <AddScheduleDialog
                     flatmates={flatmates}
+                    weekRules={weekRules}
                     isOpen={true}
                     onClose={() => setContinueSchedule(null)}
                     defaultUserId={continueSchedule.userId}
                     defaultStartDate={continueSchedule.startDate}
-                    defaultWeeklyAmount={continueSchedule.weeklyAmount}
+                    defaultSchedule={continueSchedule.schedule}
                 />
             )}
         </DndContext>
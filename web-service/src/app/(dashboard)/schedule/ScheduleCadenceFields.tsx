@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { CADENCE_LABELS, CADENCE_PERIODS, SCHEDULE_CADENCES, type CadenceSchedule, type ScheduleCadence } from "@/lib/schedule-cadence";
+
+interface ScheduleCadenceFieldsProps {
+    defaults?: Partial<Pick<CadenceSchedule, "cadence" | "amount" | "anchorDate" | "dayOfMonth" | "prorate">>;
+}
+
+const INPUT_CLASS = "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent";
+
+/**
+ * Cadence, amount per period, and when fortnightly or monthly schedules charge. Shared by the add and
+ * edit schedule dialogs.
+ */
+export function ScheduleCadenceFields({ defaults }: ScheduleCadenceFieldsProps) {
+    const [cadence, setCadence] = useState<ScheduleCadence>(defaults?.cadence ?? "weekly");
+
+    return (
+        <>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">
+                        Cadence *
+                    </label>
+                    <select
+                        name="cadence"
+                        value={cadence}
+                        onChange={(e) => setCadence(e.target.value as ScheduleCadence)}
+                        className={INPUT_CLASS}
+                    >
+                        {SCHEDULE_CADENCES.map((value) => (
+                            <option key={value} value={value}>
+                                {CADENCE_LABELS[value]}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">
+                        Amount per {CADENCE_PERIODS[cadence]} ($) *
+                    </label>
+                    <input
+                        type="number"
+                        name="amount"
+                        required
+                        min="0"
+                        step="0.01"
+                        defaultValue={defaults?.amount}
+                        placeholder="e.g., 250.00"
+                        className={INPUT_CLASS}
+                    />
+                </div>
+            </div>
+
+            {cadence === "weekly" && (
+                <div>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            name="prorate"
+                            value="true"
+                            defaultChecked={defaults?.prorate ?? false}
+                            className="rounded border-slate-600"
+                        />
+                        <span className="text-sm">Pro-rate part weeks</span>
+                    </label>
+                    <p className="text-xs text-slate-500 mt-1">
+                        Charge by the day when the schedule starts or ends mid-week, e.g. a move-in on a Wednesday.
+                    </p>
+                </div>
+            )}
+
+            {cadence === "fortnightly" && (
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">
+                        Charged Fortnightly From
+                    </label>
+                    <input
+                        type="date"
+                        name="anchorDate"
+                        defaultValue={defaults?.anchorDate ? format(defaults.anchorDate, "yyyy-MM-dd") : undefined}
+                        className={INPUT_CLASS}
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                        Charged on this day and every 14 days either side. Leave empty to use the start date.
+                    </p>
+                </div>
+            )}
+
+            {cadence === "monthly" && (
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">
+                        Day of the Month
+                    </label>
+                    <input
+                        type="number"
+                        name="dayOfMonth"
+                        min="1"
+                        max="31"
+                        step="1"
+                        defaultValue={defaults?.dayOfMonth ?? undefined}
+                        placeholder="e.g., 1"
+                        className={INPUT_CLASS}
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                        The last day in shorter months. Leave empty to use the start date&apos;s day.
+                    </p>
+                </div>
+            )}
+        </>
+    );
+}
@@ -6,6 +6,8 @@ import { DndContext, DragOverlay, useDraggable, useDroppable, PointerSensor, use
 import { CSS } from "@dnd-kit/utilities";
 import { ChevronLeft, ChevronRight, Calendar, Plus } from "lucide-react";
 import type { PaymentSchedule } from "@/lib/db/schema";
+import type { WeekRulesPeriod } from "@/lib/week-rules";
+import { CADENCE_PERIODS_SHORT, formatScheduleRate, type CadenceSchedule } from "@/lib/schedule-cadence";
 import { EditScheduleDialog } from "./EditScheduleDialog";
 import { AddScheduleDialog } from "./AddScheduleDialog";
 import { copyScheduleToUserAction } from "@/lib/actions";
@@ -15,6 +17,7 @@ type Flatmate = { id: string; name: string | null; email: string };
 interface ScheduleTimelineProps {
   flatmates: Flatmate[];
   schedulesByUser: Record<string, PaymentSchedule[]>;
+  weekRules: WeekRulesPeriod[];
 }
 
 function DraggableSchedule({ 
@@ -50,9 +53,9 @@ function DraggableSchedule({
           onClick();
         }
       }}
-      title={`$${schedule.weeklyAmount}/week${schedule.notes ? ` - ${schedule.notes}` : ""} (drag to copy)`}
+      title={`${formatScheduleRate(schedule)}${schedule.notes ? ` - ${schedule.notes}` : ""} (drag to copy)`}
     >
-      <span className="truncate px-1">${schedule.weeklyAmount}/w</span>
+      <span className="truncate px-1">${schedule.amount}/{CADENCE_PERIODS_SHORT[schedule.cadence]}</span>
     </div>
   );
 }
@@ -81,13 +84,13 @@ function DroppableRow({
   );
 }
 
-export function ScheduleTimeline({ flatmates, schedulesByUser }: ScheduleTimelineProps) {
+export function ScheduleTimeline({ flatmates, schedulesByUser, weekRules }: ScheduleTimelineProps) {
   const [editingSchedule, setEditingSchedule] = useState<PaymentSchedule | null>(null);
   const [activeSchedule, setActiveSchedule] = useState<PaymentSchedule | null>(null);
   const [activeDropZone, setActiveDropZone] = useState<string | null>(null);
   const [copyMessage, setCopyMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
   const [viewOffset, setViewOffset] = useState(0); // months offset from current
-  const [continueSchedule, setContinueSchedule] = useState<{ userId: string; startDate: string; weeklyAmount: number } | null>(null);
+  const [continueSchedule, setContinueSchedule] = useState<{ userId: string; startDate: string; schedule: Pick<CadenceSchedule, "cadence" | "amount" | "anchorDate" | "dayOfMonth" | "prorate"> } | null>(null);
 
   const months = 6;
 
@@ -326,10 +329,10 @@ export function ScheduleTimeline({ flatmates, schedulesByUser }: ScheduleTimelin
                                 setContinueSchedule({
                                   userId: flatmate.id,
                                   startDate: continuePos.continueDate,
-                                  weeklyAmount: schedule.weeklyAmount,
+                                  schedule,
                                 });
                               }}
-                              title={`Continue from ${format(addDays(schedule.endDate!, 1), "MMM d, yyyy")} at $${schedule.weeklyAmount}/week`}
+                              title={`Continue from ${format(addDays(schedule.endDate!, 1), "MMM d, yyyy")} at ${formatScheduleRate(schedule)}`}
                             >
                               <Plus className="w-3 h-3 text-slate-400 hover:text-white" />
                             </button>
@@ -368,7 +371,7 @@ export function ScheduleTimeline({ flatmates, schedulesByUser }: ScheduleTimelin
         <DragOverlay>
           {activeSchedule && (
             <div className="h-6 bg-teal-600 rounded text-xs text-white flex items-center justify-center px-2 shadow-lg">
-              ${activeSchedule.weeklyAmount}/w → {activeDropZone 
+              ${activeSchedule.amount}/{CADENCE_PERIODS_SHORT[activeSchedule.cadence]} → {activeDropZone 
                 ? flatmates.find(u => u.id === activeDropZone)?.name?.split(" ")[0] || "Drop here"
                 : "Drop on flatmate"}
             </div>
@@ -380,6 +383,7 @@ export function ScheduleTimeline({ flatmates, schedulesByUser }: ScheduleTimelin
         <EditScheduleDialog
           schedule={editingSchedule}
           flatmates={flatmates}
+          weekRules={weekRules}
           onClose={() => setEditingSchedule(null)}
         />
       )}
@@ -387,11 +391,12 @@ export function ScheduleTimeline({ flatmates, schedulesByUser }: ScheduleTimelin
       {continueSchedule && (
         <AddScheduleDialog
           flatmates={flatmates}
+          weekRules={weekRules}
           isOpen={true}
           onClose={() => setContinueSchedule(null)}
           defaultUserId={continueSchedule.userId}
           defaultStartDate={continueSchedule.startDate}
-          defaultWeeklyAmount={continueSchedule.weeklyAmount}
+          defaultSchedule={continueSchedule.schedule}
         />
       )}
     </DndContext>
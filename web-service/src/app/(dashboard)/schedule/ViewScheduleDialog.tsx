@@ -3,7 +3,7 @@
 import { X, Calendar, DollarSign, User, FileText } from "lucide-react";
 import { PaymentSchedule } from "@/lib/db/schema";
 import { format } from "date-fns";
-import { formatMoney } from "@/lib/utils";
+import { describeCadence, formatScheduleRate } from "@/lib/schedule-cadence";
 
 interface ViewScheduleDialogProps {
     schedule: PaymentSchedule;
@@ -47,8 +47,8 @@ export function ViewScheduleDialog({ schedule, flatmates, onClose }: ViewSchedul
                             <DollarSign className="w-5 h-5 text-emerald-400" />
                         </div>
                         <div>
-                            <p className="text-xs text-slate-400">Weekly Amount</p>
-                            <p className="font-medium text-emerald-400">${formatMoney(schedule.weeklyAmount)}/week</p>
+                            <p className="text-xs text-slate-400">{describeCadence(schedule)}</p>
+                            <p className="font-medium text-emerald-400">{formatScheduleRate(schedule)}</p>
                         </div>
                     </div>
 
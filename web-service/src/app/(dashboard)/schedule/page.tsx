@@ -7,6 +7,8 @@ import { Calendar } from "lucide-react";
 import { HorizontalTimeline } from "./HorizontalTimeline";
 import { AddScheduleDialog } from "./AddScheduleDialog";
 import { ExportImportButtons } from "./ExportImportButtons";
+import { getWeekRulesHistory } from "@/lib/household";
+import { getWeekRulesOn, WEEKDAY_NAMES } from "@/lib/week-rules";
 
 export default async function SchedulePage() {
     const session = await auth();
@@ -43,6 +45,9 @@ export default async function SchedulePage() {
         ? new Date(analysisStartSetting[0].value) 
         : null;
 
+    const weekRules = await getWeekRulesHistory();
+    const currentRules = getWeekRulesOn(weekRules, new Date());
+
     // Group schedules by user
     const schedulesByUser = new Map<string, typeof schedules>();
     for (const schedule of schedules) {
@@ -59,15 +64,15 @@ export default async function SchedulePage() {
                     <h1 className="text-2xl font-bold">Payment Schedule</h1>
                     <p className="text-slate-400 mt-1">
                         {isAdmin 
-                            ? "Configure how much each flatmate contributes per week"
-                            : "View the weekly contribution schedule for all flatmates"
+                            ? "Configure how much and how often each flatmate contributes"
+                            : "View the contribution schedule for all flatmates"
                         }
                     </p>
                 </div>
                 {isAdmin && (
                     <div className="flex items-center gap-3">
                         <ExportImportButtons schedules={schedules} flatmates={flatmates} />
-                        <AddScheduleDialog flatmates={flatmates} />
+                        <AddScheduleDialog flatmates={flatmates} weekRules={weekRules} />
                     </div>
                 )}
             </div>
@@ -81,8 +86,9 @@ export default async function SchedulePage() {
                         <div>
                             <h3 className="font-medium">How Payment Schedules Work</h3>
                             <p className="text-sm text-slate-400 mt-1">
-                                Payment schedules define how much each flatmate should contribute weekly.
-                                Payments are due each <span className="text-emerald-400">Thursday</span> (before Friday rent payout).
+                                Payment schedules define how much each flatmate should contribute weekly, fortnightly
+                                or monthly. Weekly payments are due each <span className="text-emerald-400">{WEEKDAY_NAMES[currentRules.dueDay]}</span> (before {WEEKDAY_NAMES[currentRules.payoutDay]} rent payout);
+                                fortnightly and monthly amounts are due in the billing week they fall in.
                                 You can create overlapping schedules to handle rate changes (e.g., summer vs winter rates).
                             </p>
                         </div>
@@ -115,6 +121,7 @@ export default async function SchedulePage() {
                     schedulesByUser={Object.fromEntries(schedulesByUser)}
                     isAdmin={isAdmin}
                     analysisStartDate={analysisStartDate}
+                    weekRules={weekRules}
                 />
             )}
         </div>
@@ -0,0 +1,300 @@
+"use client";
+
+import { useState } from "react";
+import { Landmark, Tag, Loader2, Check, Pencil, Trash2, Plus, X } from "lucide-react";
+import { addBankAccountAction, updateBankAccountAction, deleteBankAccountAction } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import type { BankAccount } from "@/lib/db/schema";
+import type { ProviderAccount } from "@/lib/bank-provider";
+
+interface BankAccountsFormProps {
+    bankAccounts: BankAccount[];
+    availableAccounts: ProviderAccount[] | null; // null if Akahu couldn't be reached
+}
+
+const ROLE_LABELS: Record<BankAccount["role"], string> = {
+    rent: "Rent",
+    bills: "Bills",
+    savings: "Savings",
+};
+
+const ROLE_BADGES: Record<BankAccount["role"], string> = {
+    rent: "badge-success",
+    bills: "badge-warning",
+    savings: "badge-neutral",
+};
+
+export function BankAccountsForm({ bankAccounts, availableAccounts }: BankAccountsFormProps) {
+    const router = useRouter();
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [showAddForm, setShowAddForm] = useState(false);
+
+    const trackedIds = new Set(bankAccounts.map((a) => a.akahuAccountId));
+    const untracked = availableAccounts?.filter((a) => !trackedIds.has(a.id)) ?? null;
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        setSuccess(false);
+
+        const formData = new FormData(e.currentTarget);
+        const result = editingId
+            ? await updateBankAccountAction(formData)
+            : await addBankAccountAction(formData);
+
+        if (result.error) {
+            setError(result.error);
+        } else {
+            setSuccess(true);
+            setEditingId(null);
+            setShowAddForm(false);
+            router.refresh();
+            setTimeout(() => setSuccess(false), 3000);
+        }
+        setLoading(false);
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm("Are you sure you want to stop tracking this account?")) {
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        const result = await deleteBankAccountAction(id);
+
+        if (result.error) {
+            setError(result.error);
+        } else {
+            router.refresh();
+        }
+        setLoading(false);
+    };
+
+    const editingAccount = editingId ? bankAccounts.find(a => a.id === editingId) : null;
+
+    return (
+        <div className="p-5 space-y-4">
+            {/* Tracked Accounts List */}
+            {bankAccounts.length > 0 && (
+                <div className="space-y-2">
+                    {bankAccounts.map((account) => (
+                        <div
+                            key={account.id}
+                            className={`flex items-center justify-between p-3 rounded-lg bg-slate-800/50 ${account.isActive ? "" : "opacity-60"}`}
+                        >
+                            <div className="min-w-0 flex-1">
+                                <div className="flex items-center gap-2">
+                                    <p className="font-medium text-slate-200">{account.label}</p>
+                                    <span className={`badge ${ROLE_BADGES[account.role]}`}>{ROLE_LABELS[account.role]}</span>
+                                    {account.source === "import" ? (
+                                        <span className="badge badge-neutral">Statement import</span>
+                                    ) : !account.isActive && (
+                                        <span className="badge badge-neutral">Not synced</span>
+                                    )}
+                                </div>
+                                <div className="text-xs text-slate-500 space-x-3">
+                                    {account.accountNumber && <span>{account.accountNumber}</span>}
+                                    {account.source === "sync" && <span className="font-mono">{account.akahuAccountId}</span>}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-2 ml-3">
+                                <button
+                                    onClick={() => {
+                                        setEditingId(account.id);
+                                        setShowAddForm(false);
+                                    }}
+                                    className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                                    title="Edit"
+                                >
+                                    <Pencil className="w-4 h-4 text-slate-400" />
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(account.id)}
+                                    disabled={loading}
+                                    className="p-2 rounded-lg hover:bg-rose-500/20 transition-colors"
+                                    title="Delete"
+                                >
+                                    <Trash2 className="w-4 h-4 text-rose-400" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {bankAccounts.length === 0 && !showAddForm && (
+                <div className="text-center py-6 text-slate-500">
+                    <Landmark className="w-8 h-8 mx-auto mb-2 text-slate-600" />
+                    <p className="text-sm">No bank accounts tracked</p>
+                    <p className="text-xs text-slate-600 mt-1">
+                        Add the flat&apos;s Akahu accounts to sync their transactions
+                    </p>
+                </div>
+            )}
+
+            {/* Add/Edit Form */}
+            {(showAddForm || editingId) && (
+                <form onSubmit={handleSubmit} className="space-y-4 p-4 rounded-lg bg-slate-800/30 border border-slate-700/50">
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-medium text-slate-300">
+                            {editingId ? "Edit Bank Account" : "Track Bank Account"}
+                        </h4>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setEditingId(null);
+                                setShowAddForm(false);
+                                setError(null);
+                            }}
+                            className="p-1 rounded hover:bg-slate-700 transition-colors"
+                        >
+                            <X className="w-4 h-4 text-slate-400" />
+                        </button>
+                    </div>
+
+                    {editingId && (
+                        <input type="hidden" name="id" value={editingId} />
+                    )}
+
+                    {/* Akahu Account */}
+                    {!editingId && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-2">
+                                Akahu Account
+                            </label>
+                            {untracked && untracked.length > 0 ? (
+                                <select
+                                    name="akahuAccountId"
+                                    required
+                                    className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                                >
+                                    {untracked.map((a) => (
+                                        <option key={a.id} value={a.id}>
+                                            {a.name}{a.accountNumber ? ` (${a.accountNumber})` : ""}
+                                        </option>
+                                    ))}
+                                </select>
+                            ) : (
+                                <>
+                                    <input
+                                        type="text"
+                                        name="akahuAccountId"
+                                        placeholder="acc_..."
+                                        required
+                                        className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors font-mono"
+                                    />
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        {untracked === null
+                                            ? "Couldn't load accounts from Akahu - enter the account ID"
+                                            : "Every account Akahu can see is already tracked"}
+                                    </p>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Label */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Label
+                        </label>
+                        <div className="relative">
+                            <Tag className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                            <input
+                                type="text"
+                                name="label"
+                                defaultValue={editingAccount?.label || ""}
+                                placeholder="Bills account"
+                                required
+                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Role */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Role
+                        </label>
+                        <select
+                            name="role"
+                            defaultValue={editingAccount?.role || "rent"}
+                            className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                        >
+                            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-slate-500 mt-1">
+                            Transfers between tracked accounts are left out of expense and balance totals
+                        </p>
+                    </div>
+
+                    {editingId && (
+                        <label className="flex items-center gap-2 text-sm text-slate-300">
+                            <input
+                                type="checkbox"
+                                name="isActive"
+                                defaultChecked={editingAccount?.isActive ?? true}
+                                className="rounded border-slate-600 bg-slate-700/50"
+                            />
+                            Sync this account
+                        </label>
+                    )}
+
+                    {error && (
+                        <div className="p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="w-full px-4 py-3 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center gap-2"
+                    >
+                        {loading ? (
+                            <>
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                Saving...
+                            </>
+                        ) : editingId ? (
+                            "Update Account"
+                        ) : (
+                            "Track Account"
+                        )}
+                    </button>
+                </form>
+            )}
+
+            {error && !showAddForm && !editingId && (
+                <div className="p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {success && (
+                <div className="p-3 rounded-lg bg-emerald-500/20 border border-emerald-500/50 text-emerald-400 text-sm flex items-center gap-2">
+                    <Check className="w-4 h-4" />
+                    Bank account saved
+                </div>
+            )}
+
+            {/* Add Button */}
+            {!showAddForm && !editingId && (
+                <button
+                    onClick={() => setShowAddForm(true)}
+                    className="w-full px-4 py-3 rounded-xl border-2 border-dashed border-slate-600 hover:border-emerald-500/50 hover:bg-slate-800/30 transition-colors text-slate-400 hover:text-slate-300 flex items-center justify-center gap-2"
+                >
+                    <Plus className="w-4 h-4" />
+                    Track Bank Account
+                </button>
+            )}
+        </div>
+    );
+}
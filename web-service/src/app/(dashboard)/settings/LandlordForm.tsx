@@ -5,6 +5,7 @@ import { Building2, User, Loader2, Check, Pencil, Trash2, Plus, X } from "lucide
 import { addLandlordAction, updateLandlordAction, deleteLandlordAction } from "@/lib/actions";
 import { useRouter } from "next/navigation";
 import type { Landlord } from "@/lib/db/schema";
+import { BankAccountHint } from "@/components/BankAccountHint";
 
 interface LandlordFormProps {
     landlords: Landlord[];
@@ -17,6 +18,7 @@ export function LandlordForm({ landlords }: LandlordFormProps) {
     const [success, setSuccess] = useState(false);
     const [editingId, setEditingId] = useState<string | null>(null);
     const [showAddForm, setShowAddForm] = useState(false);
+    const [bankAccount, setBankAccount] = useState("");
 
     const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
@@ -86,6 +88,7 @@ export function LandlordForm({ landlords }: LandlordFormProps) {
                                     onClick={() => {
                                         setEditingId(landlord.id);
                                         setShowAddForm(false);
+                                        setBankAccount(landlord.bankAccountPattern ?? "");
                                     }}
                                     className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
                                     title="Edit"
@@ -161,18 +164,20 @@ export function LandlordForm({ landlords }: LandlordFormProps) {
                     {/* Bank Account Pattern */}
                     <div>
                         <label className="block text-sm font-medium text-slate-300 mb-2">
-                            Bank Account Pattern
+                            Bank Account Number
                         </label>
                         <div className="relative">
                             <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
                             <input
                                 type="text"
                                 name="bankAccountPattern"
-                                defaultValue={editingLandlord?.bankAccountPattern || ""}
+                                value={bankAccount}
+                                onChange={(e) => setBankAccount(e.target.value)}
                                 placeholder="12-3456-7890123-00"
                                 className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
                             />
                         </div>
+                        <BankAccountHint value={bankAccount} />
                         <p className="text-xs text-slate-500 mt-1">
                             Bank account number to match in outgoing payments
                         </p>
@@ -233,7 +238,10 @@ export function LandlordForm({ landlords }: LandlordFormProps) {
             {/* Add Button */}
             {!showAddForm && !editingId && (
                 <button
-                    onClick={() => setShowAddForm(true)}
+                    onClick={() => {
+                        setShowAddForm(true);
+                        setBankAccount("");
+                    }}
                     className="w-full px-4 py-3 rounded-xl border-2 border-dashed border-slate-600 hover:border-emerald-500/50 hover:bg-slate-800/30 transition-colors text-slate-400 hover:text-slate-300 flex items-center justify-center gap-2"
                 >
                     <Plus className="w-4 h-4" />
@@ -1,19 +1,17 @@
 "use client";
 
 import { useState } from "react";
-import { Building2, CreditCard, User, Loader2, Check } from "lucide-react";
+import { Loader2, Check } from "lucide-react";
 import { updateMySettingsAction } from "@/lib/actions";
+import { UserIdentifiersEditor } from "@/components/UserIdentifiersEditor";
+import type { UserIdentifierInput } from "@/lib/user-identifiers";
 import { useRouter } from "next/navigation";
 
 interface SettingsFormProps {
-    initialValues: {
-        bankAccountPattern: string | null;
-        cardSuffix: string | null;
-        matchingName: string | null;
-    };
+    initialIdentifiers: UserIdentifierInput[];
 }
 
-export function SettingsForm({ initialValues }: SettingsFormProps) {
+export function SettingsForm({ initialIdentifiers }: SettingsFormProps) {
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
@@ -40,66 +38,7 @@ export function SettingsForm({ initialValues }: SettingsFormProps) {
 
     return (
         <form onSubmit={handleSubmit} className="p-5 space-y-4">
-            {/* Bank Account Pattern */}
-            <div>
-                <label className="block text-sm font-medium text-slate-300 mb-2">
-                    Bank Account Number
-                </label>
-                <div className="relative">
-                    <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                    <input
-                        type="text"
-                        name="bankAccountPattern"
-                        defaultValue={initialValues.bankAccountPattern || ""}
-                        placeholder="12-3456-7890123-00"
-                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                    />
-                </div>
-                <p className="text-xs text-slate-500 mt-1">
-                    Used to match your rent payments from this account
-                </p>
-            </div>
-
-            {/* Card Suffix */}
-            <div>
-                <label className="block text-sm font-medium text-slate-300 mb-2">
-                    Card Suffix (last 4 digits)
-                </label>
-                <div className="relative">
-                    <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                    <input
-                        type="text"
-                        name="cardSuffix"
-                        defaultValue={initialValues.cardSuffix || ""}
-                        maxLength={4}
-                        placeholder="8423"
-                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                    />
-                </div>
-                <p className="text-xs text-slate-500 mt-1">
-                    Used to match expense card transactions made with your card
-                </p>
-            </div>
-
-            {/* Matching Name */}
-            <div>
-                <label className="block text-sm font-medium text-slate-300 mb-2">
-                    Matching Name Pattern
-                </label>
-                <div className="relative">
-                    <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                    <input
-                        type="text"
-                        name="matchingName"
-                        defaultValue={initialValues.matchingName || ""}
-                        placeholder="READER T A"
-                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                    />
-                </div>
-                <p className="text-xs text-slate-500 mt-1">
-                    Alternative name pattern to match in transaction descriptions
-                </p>
-            </div>
+            <UserIdentifiersEditor initialIdentifiers={initialIdentifiers} />
 
             {error && (
                 <div className="p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm">
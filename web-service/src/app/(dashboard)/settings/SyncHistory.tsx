@@ -0,0 +1,134 @@
+import { History, CheckCircle2, XCircle, Loader2, CloudDownload } from "lucide-react";
+import { getAuditDetails, getSyncRunErrors, type AuditSnapshot } from "@/lib/sync-history";
+import type { SyncRun, TransactionAuditEntry } from "@/lib/db/schema";
+import { formatMoney } from "@/lib/utils";
+import { formatDate } from "@/lib/timezone";
+
+interface SyncHistoryProps {
+    runs: SyncRun[];
+    auditEntries: Map<string, TransactionAuditEntry[]>; // Upstream changes noticed by each run
+    timeZone: string;
+}
+
+const AUDIT_LABELS: Record<TransactionAuditEntry["action"], string> = {
+    removed: "Removed",
+    restored: "Restored",
+    amended: "Amended",
+};
+
+function formatSnapshot(snapshot: AuditSnapshot, timeZone: string): string {
+    return `${snapshot.description} ${formatMoney(snapshot.amount)} on ${formatDate(new Date(snapshot.date), timeZone, "d MMM")}`;
+}
+
+const TRIGGER_LABELS: Record<SyncRun["trigger"], string> = {
+    cron: "Scheduled",
+    manual: "Manual",
+    webhook: "Webhook",
+    api: "API",
+};
+
+function formatDuration(run: SyncRun): string | null {
+    if (!run.finishedAt) return null;
+    const seconds = Math.max(0, Math.round((run.finishedAt.getTime() - run.startedAt.getTime()) / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function SyncHistory({ runs, auditEntries, timeZone }: SyncHistoryProps) {
+    return (
+        <div className="glass rounded-2xl overflow-hidden mt-6">
+            <div className="p-5 border-b border-slate-700/50">
+                <h2 className="font-semibold text-lg flex items-center gap-2">
+                    <History className="w-5 h-5 text-teal-400" />
+                    Sync History
+                </h2>
+                <p className="text-sm text-slate-400 mt-1">
+                    Recent transaction syncs and what they changed
+                </p>
+            </div>
+
+            {runs.length === 0 ? (
+                <div className="text-center py-8 text-slate-500">
+                    <History className="w-8 h-8 mx-auto mb-2 text-slate-600" />
+                    <p className="text-sm">No syncs recorded yet</p>
+                </div>
+            ) : (
+                <div className="divide-y divide-slate-700/50">
+                    {runs.map((run) => {
+                        const errors = getSyncRunErrors(run);
+                        const changes = auditEntries.get(run.id) ?? [];
+                        const duration = formatDuration(run);
+
+                        return (
+                            <div key={run.id} className="p-4">
+                                <div className="flex items-start justify-between gap-4">
+                                    <div className="flex items-start gap-3 min-w-0">
+                                        {run.status === "success" ? (
+                                            <CheckCircle2 className="w-5 h-5 text-emerald-400 shrink-0 mt-0.5" />
+                                        ) : run.status === "failed" ? (
+                                            <XCircle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+                                        ) : (
+                                            <Loader2 className="w-5 h-5 text-slate-400 animate-spin shrink-0 mt-0.5" />
+                                        )}
+                                        <div className="min-w-0">
+                                            <p className="font-medium text-slate-200">
+                                                {formatDate(run.startedAt, timeZone, "d MMM yyyy, h:mm a")}
+                                                <span className="badge badge-neutral ml-2">{TRIGGER_LABELS[run.trigger]}</span>
+                                            </p>
+                                            <p className="text-xs text-slate-500 mt-1">
+                                                {run.status === "running"
+                                                    ? "In progress"
+                                                    : `${run.inserted} new · ${run.updated} updated · ${run.unchanged} unchanged · ${run.deleted} deleted · ${run.pending} pending`}
+                                                {duration && ` · took ${duration}`}
+                                            </p>
+                                            {run.refreshSuccess !== null && (
+                                                <p className={`text-xs mt-1 flex items-center gap-1 ${run.refreshSuccess ? "text-slate-500" : "text-amber-400"}`}>
+                                                    <CloudDownload className="w-3 h-3" />
+                                                    {run.refreshMessage}
+                                                </p>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+
+                                {changes.length > 0 && (
+                                    <details className="mt-2 ml-8">
+                                        <summary className="text-sm text-amber-400 cursor-pointer">
+                                            {changes.length} upstream change{changes.length === 1 ? "" : "s"}
+                                        </summary>
+                                        <ul className="mt-2 space-y-1">
+                                            {changes.map((entry) => {
+                                                const details = getAuditDetails(entry);
+                                                return (
+                                                    <li key={entry.id} className="text-xs text-slate-400">
+                                                        <span className="font-medium text-slate-300">{AUDIT_LABELS[entry.action]}:</span>{" "}
+                                                        {details && formatSnapshot(details.before, timeZone)}
+                                                        {details?.after && ` → ${formatSnapshot(details.after, timeZone)}`}
+                                                    </li>
+                                                );
+                                            })}
+                                        </ul>
+                                    </details>
+                                )}
+
+                                {errors.length > 0 && (
+                                    <details className="mt-2 ml-8">
+                                        <summary className="text-sm text-red-400 cursor-pointer">
+                                            {errors.length} error{errors.length === 1 ? "" : "s"}
+                                        </summary>
+                                        <ul className="mt-2 space-y-1">
+                                            {errors.map((error, i) => (
+                                                <li key={i} className="text-xs text-red-300/80 font-mono break-all">
+                                                    {error}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </details>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { setHouseholdTimeZoneAction } from "@/lib/actions";
+import { Globe } from "lucide-react";
+
+interface TimeZoneFormProps {
+    initialValue: string;
+    timeZones: string[]; // From getTimeZoneNames() on the server, so the list matches what it can use
+}
+
+export function TimeZoneForm({ initialValue, timeZones }: TimeZoneFormProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+    const options = timeZones.includes(initialValue) ? timeZones : [initialValue, ...timeZones];
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setMessage(null);
+
+        const result = await setHouseholdTimeZoneAction(new FormData(e.currentTarget));
+
+        if (result.error) {
+            setMessage({ type: "error", text: result.error });
+        } else {
+            setMessage({ type: "success", text: "Timezone updated" });
+            setTimeout(() => setMessage(null), 3000);
+        }
+
+        setIsSubmitting(false);
+    };
+
+    return (
+        <div className="p-5 border-t border-slate-700/50">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-300 mb-1">
+                        <Globe className="w-4 h-4" />
+                        Household Timezone
+                    </label>
+                    <p className="text-xs text-slate-500 mb-3">
+                        Days, billing weeks and the weekly statement are counted in this timezone, and every
+                        date and time is shown in it.
+                    </p>
+                    <select
+                        name="timeZone"
+                        defaultValue={initialValue}
+                        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    >
+                        {options.map((name) => (
+                            <option key={name} value={name}>
+                                {name.replace(/_/g, " ")}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                {message && (
+                    <div className={`p-3 rounded-lg ${
+                        message.type === "success"
+                            ? "bg-emerald-500/20 border border-emerald-500/50 text-emerald-400"
+                            : "bg-rose-500/20 border border-rose-500/50 text-rose-400"
+                    }`}>
+                        <p className="text-sm">{message.text}</p>
+                    </div>
+                )}
+
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full py-2 px-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-lg transition-colors font-medium"
+                >
+                    {isSubmitting ? "Saving..." : "Save Timezone"}
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CalendarClock, Loader2, Plus, Trash2 } from "lucide-react";
+import { addWeekRulesAction, deleteWeekRulesAction } from "@/lib/actions";
+import type { HouseholdSettings } from "@/lib/db/schema";
+import { DEFAULT_WEEK_RULES, WEEKDAY_NAMES, describeWeekRules, isWeekday, type WeekRules } from "@/lib/week-rules";
+
+interface WeekRulesFormProps {
+    settings: HouseholdSettings[]; // Oldest first
+}
+
+const DAY_FIELDS: Array<{ name: keyof WeekRules; label: string; hint: string }> = [
+    { name: "weekStartDay", label: "Week starts", hint: "First day of each billing week" },
+    { name: "dueDay", label: "Payments due", hint: "Flatmates pay by this day" },
+    { name: "payoutDay", label: "Rent paid out", hint: "Rent goes to the landlord" },
+];
+
+function toRules(row: HouseholdSettings): WeekRules | null {
+    if (!isWeekday(row.weekStartDay) || !isWeekday(row.dueDay) || !isWeekday(row.payoutDay)) return null;
+    return { weekStartDay: row.weekStartDay, dueDay: row.dueDay, payoutDay: row.payoutDay };
+}
+
+export function WeekRulesForm({ settings }: WeekRulesFormProps) {
+    const router = useRouter();
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const latest = settings.length > 0 ? toRules(settings[settings.length - 1]) : null;
+    const [draft, setDraft] = useState<WeekRules>(latest ?? DEFAULT_WEEK_RULES);
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        const result = await addWeekRulesAction(new FormData(e.currentTarget));
+        if (result.error) {
+            setError(result.error);
+        } else {
+            router.refresh();
+        }
+        setLoading(false);
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm("Remove these rules? Weeks from their date will be billed under the rules before them.")) {
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        const result = await deleteWeekRulesAction(id);
+        if (result.error) {
+            setError(result.error);
+        } else {
+            router.refresh();
+        }
+        setLoading(false);
+    };
+
+    return (
+        <div className="p-5 space-y-4">
+            {/* History, newest first */}
+            <div className="space-y-2">
+                {[...settings].reverse().map((row) => {
+                    const rules = toRules(row);
+                    return (
+                        <div key={row.id} className="flex items-center justify-between p-3 rounded-lg bg-slate-800/50">
+                            <div className="min-w-0 flex-1">
+                                <p className="font-medium text-slate-200">
+                                    {rules ? describeWeekRules(rules) : "Invalid rules"}
+                                </p>
+                                <p className="text-xs text-slate-500">
+                                    From {row.effectiveFrom.toLocaleDateString("en-NZ", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" })}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => handleDelete(row.id)}
+                                disabled={loading}
+                                className="p-2 rounded-lg hover:bg-rose-500/20 transition-colors ml-3"
+                                title="Remove"
+                            >
+                                <Trash2 className="w-4 h-4 text-rose-400" />
+                            </button>
+                        </div>
+                    );
+                })}
+                <div className="p-3 rounded-lg bg-slate-800/30">
+                    <p className="font-medium text-slate-400">{describeWeekRules(DEFAULT_WEEK_RULES)}</p>
+                    <p className="text-xs text-slate-500">
+                        {settings.length > 0 ? "Before that" : "Default, no rules saved yet"}
+                    </p>
+                </div>
+            </div>
+
+            {/* Add rules from a date */}
+            <form onSubmit={handleSubmit} className="space-y-4 p-4 rounded-lg bg-slate-800/30 border border-slate-700/50">
+                <h4 className="font-medium text-slate-300 flex items-center gap-2">
+                    <CalendarClock className="w-4 h-4" />
+                    Change Week Rules
+                </h4>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {DAY_FIELDS.map((field) => (
+                        <div key={field.name}>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">{field.label}</label>
+                            <select
+                                name={field.name}
+                                value={draft[field.name]}
+                                onChange={(e) => setDraft({ ...draft, [field.name]: parseInt(e.target.value, 10) })}
+                                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                            >
+                                {WEEKDAY_NAMES.map((name, day) => (
+                                    <option key={day} value={day}>
+                                        {name}
+                                    </option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-slate-500 mt-1">{field.hint}</p>
+                        </div>
+                    ))}
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Starting from</label>
+                    <input
+                        type="date"
+                        name="effectiveFrom"
+                        required
+                        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                        Must be a {WEEKDAY_NAMES[draft.weekStartDay]}. Earlier weeks keep the rules they had; the week
+                        before is cut short so the new rules start on a fresh week, and is charged by the day.
+                    </p>
+                </div>
+
+                {error && (
+                    <div className="p-3 rounded-lg bg-rose-500/20 border border-rose-500/50 text-rose-400 text-sm">
+                        {error}
+                    </div>
+                )}
+
+                <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full py-2 px-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+                >
+                    {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                    Add Week Rules
+                </button>
+            </form>
+        </div>
+    );
+}
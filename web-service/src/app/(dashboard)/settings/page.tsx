@@ -1,14 +1,26 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { users, systemState, landlords } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
-import { User, Mail, Calendar, Shield, Settings2, Building2 } from "lucide-react";
+import { users, systemState, landlords, householdSettings } from "@/lib/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { User, Mail, Calendar, CalendarClock, Shield, Settings2, Building2, Landmark } from "lucide-react";
 import { redirect } from "next/navigation";
-import { formatInTimeZone } from "date-fns-tz";
 import Image from "next/image";
 import { SettingsForm } from "./SettingsForm";
 import { AnalysisStartDateForm } from "./AnalysisStartDateForm";
 import { LandlordForm } from "./LandlordForm";
+import { WeekRulesForm } from "./WeekRulesForm";
+import { TimeZoneForm } from "./TimeZoneForm";
+import { BankAccountsForm } from "./BankAccountsForm";
+import { SyncHistory } from "./SyncHistory";
+import { getAuditEntriesByRun, getSyncRuns } from "@/lib/sync-history";
+import type { HouseholdSettings, SyncRun, TransactionAuditEntry } from "@/lib/db/schema";
+import { getBankAccounts, listProviderAccounts } from "@/lib/bank-accounts";
+import { getUserIdentifiers, toUserIdentifierInput } from "@/lib/user-identifiers";
+import type { ProviderAccount } from "@/lib/bank-provider";
+import { getHouseholdTimeZone } from "@/lib/household";
+import { formatDate, getTimeZoneNames } from "@/lib/timezone";
+
+const SYNC_HISTORY_LIMIT = 20;
 
 export default async function SettingsPage() {
     const session = await auth();
@@ -29,10 +41,17 @@ export default async function SettingsPage() {
 
     const user = dbUser[0];
     const isAdmin = user.role === "admin";
+    const identifiersByUser = await getUserIdentifiers([user.id]);
+    const timeZone = await getHouseholdTimeZone();
 
     // Get analysis start date and landlords if admin
     let analysisStartDate: string | null = null;
     let allLandlords: typeof landlords.$inferSelect[] = [];
+    let weekRules: HouseholdSettings[] = [];
+    let trackedAccounts: Awaited<ReturnType<typeof getBankAccounts>> = [];
+    let availableAccounts: ProviderAccount[] | null = null;
+    let syncRuns: SyncRun[] = [];
+    let auditEntries = new Map<string, TransactionAuditEntry[]>();
     if (isAdmin) {
         const setting = await db
             .select()
@@ -42,6 +61,16 @@ export default async function SettingsPage() {
         analysisStartDate = setting[0]?.value ?? null;
 
         allLandlords = await db.select().from(landlords);
+        weekRules = await db.select().from(householdSettings).orderBy(asc(householdSettings.effectiveFrom));
+        trackedAccounts = await getBankAccounts();
+        syncRuns = await getSyncRuns(SYNC_HISTORY_LIMIT);
+        auditEntries = await getAuditEntriesByRun(syncRuns.map((run) => run.id));
+
+        try {
+            availableAccounts = await listProviderAccounts();
+        } catch (error) {
+            console.error("Failed to list Akahu accounts:", error);
+        }
     }
 
     return (
@@ -100,7 +129,7 @@ export default async function SettingsPage() {
                                 <p className="text-xs text-slate-500">Member Since</p>
                                 <p className="font-medium">
                                     {user.createdAt 
-                                        ? formatInTimeZone(user.createdAt, "Pacific/Auckland", "d MMM yyyy")
+                                        ? formatDate(user.createdAt, timeZone, "d MMM yyyy")
                                         : "Unknown"
                                     }
                                 </p>
@@ -122,11 +151,7 @@ export default async function SettingsPage() {
                     </p>
                 </div>
                 <SettingsForm
-                    initialValues={{
-                        bankAccountPattern: user.bankAccountPattern,
-                        cardSuffix: user.cardSuffix,
-                        matchingName: user.matchingName,
-                    }}
+                    initialIdentifiers={(identifiersByUser.get(user.id) ?? []).map((i) => toUserIdentifierInput(i, timeZone))}
                 />
             </div>
 
@@ -168,6 +193,20 @@ export default async function SettingsPage() {
                             </p>
                         </div>
                         <AnalysisStartDateForm initialValue={analysisStartDate} />
+                        <TimeZoneForm initialValue={timeZone} timeZones={getTimeZoneNames()} />
+                    </div>
+
+                    <div className="glass rounded-2xl overflow-hidden mt-6">
+                        <div className="p-5 border-b border-slate-700/50">
+                            <h2 className="font-semibold text-lg flex items-center gap-2">
+                                <CalendarClock className="w-5 h-5 text-emerald-400" />
+                                Billing Week
+                            </h2>
+                            <p className="text-sm text-slate-400 mt-1">
+                                When weeks start, when payments are due and when rent is paid out
+                            </p>
+                        </div>
+                        <WeekRulesForm settings={weekRules} />
                     </div>
 
                     <div className="glass rounded-2xl overflow-hidden mt-6">
@@ -182,6 +221,21 @@ export default async function SettingsPage() {
                         </div>
                         <LandlordForm landlords={allLandlords} />
                     </div>
+
+                    <div className="glass rounded-2xl overflow-hidden mt-6">
+                        <div className="p-5 border-b border-slate-700/50">
+                            <h2 className="font-semibold text-lg flex items-center gap-2">
+                                <Landmark className="w-5 h-5 text-sky-400" />
+                                Bank Accounts
+                            </h2>
+                            <p className="text-sm text-slate-400 mt-1">
+                                Akahu accounts synced for the flat
+                            </p>
+                        </div>
+                        <BankAccountsForm bankAccounts={trackedAccounts} availableAccounts={availableAccounts} />
+                    </div>
+
+                    <SyncHistory runs={syncRuns} auditEntries={auditEntries} timeZone={timeZone} />
                 </>
             )}
         </div>
@@ -1,10 +1,13 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { transactions, users, systemState, landlords } from "@/lib/db/schema";
-import { desc, eq } from "drizzle-orm";
+import { transactions, pendingTransactions, users, systemState, landlords, bankAccounts } from "@/lib/db/schema";
+import { desc, eq, isNull } from "drizzle-orm";
 import { SyncButton } from "@/components/SyncButton";
+import { ImportStatementDialog } from "@/components/ImportStatementDialog";
 import { TransactionList } from "@/components/TransactionList";
 import { getLastSyncTime, canTriggerManualRefresh } from "@/lib/sync";
+import { getSyncProgress } from "@/lib/sync-lock";
+import { getHouseholdTimeZone, getWeekRulesHistory } from "@/lib/household";
 import { formatDistanceToNow } from "date-fns";
 
 export default async function TransactionsPage() {
@@ -14,6 +17,7 @@ export default async function TransactionsPage() {
     // Get sync status
     const lastSyncTime = await getLastSyncTime();
     const { canRefresh, nextRefreshAt } = await canTriggerManualRefresh();
+    const syncProgress = await getSyncProgress();
 
     // Get all users for filtering (including admin)
     const flatmates = await db
@@ -30,6 +34,7 @@ export default async function TransactionsPage() {
         .select({
             id: transactions.id,
             akahuId: transactions.akahuId,
+            bankAccountId: transactions.bankAccountId,
             date: transactions.date,
             amount: transactions.amount,
             description: transactions.description,
@@ -44,6 +49,8 @@ export default async function TransactionsPage() {
             matchType: transactions.matchType,
             matchConfidence: transactions.matchConfidence,
             manualMatch: transactions.manualMatch,
+            isInternalTransfer: transactions.isInternalTransfer,
+            deletedAt: transactions.deletedAt,
             createdAt: transactions.createdAt,
             matchedUserName: users.name,
             matchedLandlordName: landlords.name,
@@ -51,8 +58,36 @@ export default async function TransactionsPage() {
         .from(transactions)
         .leftJoin(users, eq(transactions.matchedUserId, users.id))
         .leftJoin(landlords, eq(transactions.matchedLandlordId, landlords.id))
+        .where(isNull(transactions.deletedAt)) // Removed upstream
         .orderBy(desc(transactions.date));
 
+    // Pending transactions that haven't settled yet
+    const pendingTxs = await db
+        .select({
+            id: pendingTransactions.id,
+            bankAccountId: pendingTransactions.bankAccountId,
+            date: pendingTransactions.date,
+            amount: pendingTransactions.amount,
+            description: pendingTransactions.description,
+            rawData: pendingTransactions.rawData,
+            matchedUserId: pendingTransactions.matchedUserId,
+            matchedLandlordId: pendingTransactions.matchedLandlordId,
+            matchType: pendingTransactions.matchType,
+            matchedUserName: users.name,
+            matchedLandlordName: landlords.name,
+        })
+        .from(pendingTransactions)
+        .leftJoin(users, eq(pendingTransactions.matchedUserId, users.id))
+        .leftJoin(landlords, eq(pendingTransactions.matchedLandlordId, landlords.id))
+        .where(isNull(pendingTransactions.settledTransactionId))
+        .orderBy(desc(pendingTransactions.date));
+
+    // Get tracked bank accounts for the account filter
+    const allBankAccounts = await db
+        .select({ id: bankAccounts.id, label: bankAccounts.label })
+        .from(bankAccounts)
+        .orderBy(bankAccounts.createdAt);
+
     // Get analysis start date
     const analysisStartSetting = await db
         .select()
@@ -62,6 +97,8 @@ export default async function TransactionsPage() {
     const analysisStartDate = analysisStartSetting[0]?.value 
         ? new Date(analysisStartSetting[0].value) 
         : null;
+    const weekRules = await getWeekRulesHistory();
+    const timeZone = await getHouseholdTimeZone();
 
     return (
         <div className="max-w-full w-7xl  mx-auto lg:flex lg:flex-col lg:flex-1 lg:min-h-0">
@@ -74,19 +111,27 @@ export default async function TransactionsPage() {
                             : "Not synced yet - click Sync to fetch transactions"}
                     </p>
                 </div>
-                <SyncButton
-                    isAdmin={isAdmin}
-                    lastSyncTime={lastSyncTime}
-                    canRefresh={canRefresh}
-                    nextRefreshAt={nextRefreshAt}
-                />
+                <div className="flex items-center gap-2">
+                    {isAdmin && <ImportStatementDialog bankAccounts={allBankAccounts} />}
+                    <SyncButton
+                        isAdmin={isAdmin}
+                        lastSyncTime={lastSyncTime}
+                        canRefresh={canRefresh}
+                        nextRefreshAt={nextRefreshAt}
+                        syncProgress={syncProgress}
+                    />
+                </div>
             </div>
 
             <TransactionList
                 transactions={txsWithUsers}
+                pendingTransactions={pendingTxs}
                 flatmates={flatmates}
                 landlords={allLandlords}
+                bankAccounts={allBankAccounts}
                 analysisStartDate={analysisStartDate}
+                weekRules={weekRules}
+                timeZone={timeZone}
             />
         </div>
     );
@@ -2,8 +2,9 @@
 
 import { useState } from "react";
 import { createPortal } from "react-dom";
-import { UserPlus, X, Mail, Building2, Loader2, CreditCard, User } from "lucide-react";
+import { UserPlus, X, Mail, Loader2 } from "lucide-react";
 import { addFlatmateAction } from "@/lib/actions";
+import { UserIdentifiersEditor } from "@/components/UserIdentifiersEditor";
 import { useRouter } from "next/navigation";
 
 export function AddFlatmateDialog() {
@@ -32,7 +33,7 @@ export function AddFlatmateDialog() {
 
     const dialog = open ? (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-            <div className="glass rounded-2xl w-full max-w-md p-6 animate-in fade-in zoom-in-95 duration-200">
+            <div className="glass rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 animate-in fade-in zoom-in-95 duration-200">
                 <div className="flex items-center justify-between mb-6">
                     <h2 className="text-xl font-bold">Add Flatmate</h2>
                     <button
@@ -65,62 +66,12 @@ export function AddFlatmateDialog() {
                                 </p>
                             </div>
 
-                            {/* Bank Account Pattern */}
+                            {/* Identifiers */}
                             <div>
                                 <label className="block text-sm font-medium text-slate-300 mb-2">
-                                    Bank Account Number
+                                    Payment Identifiers
                                 </label>
-                                <div className="relative">
-                                    <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                                    <input
-                                        type="text"
-                                        name="bankAccountPattern"
-                                        placeholder="12-3456-7890123-00"
-                                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                                    />
-                                </div>
-                                <p className="text-xs text-slate-500 mt-1">
-                                    Used to match incoming payments to this flatmate
-                                </p>
-                            </div>
-
-                            {/* Card Suffix */}
-                            <div>
-                                <label className="block text-sm font-medium text-slate-300 mb-2">
-                                    Card Suffix (last 4 digits)
-                                </label>
-                                <div className="relative">
-                                    <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                                    <input
-                                        type="text"
-                                        name="cardSuffix"
-                                        maxLength={4}
-                                        placeholder="8423"
-                                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                                    />
-                                </div>
-                                <p className="text-xs text-slate-500 mt-1">
-                                    Used to match expense card transactions
-                                </p>
-                            </div>
-
-                            {/* Matching Name */}
-                            <div>
-                                <label className="block text-sm font-medium text-slate-300 mb-2">
-                                    Matching Name Pattern
-                                </label>
-                                <div className="relative">
-                                    <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                                    <input
-                                        type="text"
-                                        name="matchingName"
-                                        placeholder="READER T A"
-                                        className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                                    />
-                                </div>
-                                <p className="text-xs text-slate-500 mt-1">
-                                    Alternative name pattern to match in transaction descriptions
-                                </p>
+                                <UserIdentifiersEditor />
                             </div>
 
                             {error && (
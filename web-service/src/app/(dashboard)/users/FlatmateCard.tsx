@@ -7,12 +7,17 @@ import { updateFlatmateAction, deleteFlatmateAction } from "@/lib/actions";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import type { User as UserType } from "@/lib/db/schema";
+import type { UserIdentifierInput } from "@/lib/user-identifiers";
+import { UserIdentifiersEditor } from "@/components/UserIdentifiersEditor";
 import { formatMoney } from "@/lib/utils";
+import { formatScheduleRate, type ScheduleCadence } from "@/lib/schedule-cadence";
 
 interface FlatmateCardProps {
     flatmate: UserType;
+    identifiers: UserIdentifierInput[];
     currentSchedule?: {
-        weeklyAmount: number;
+        cadence: ScheduleCadence;
+        amount: number;
         startDate: Date;
         endDate: Date | null;
         notes: string | null;
@@ -23,7 +28,7 @@ interface FlatmateCardProps {
     };
 }
 
-export function FlatmateCard({ flatmate, currentSchedule, paymentStats }: FlatmateCardProps) {
+export function FlatmateCard({ flatmate, identifiers, currentSchedule, paymentStats }: FlatmateCardProps) {
     const [menuOpen, setMenuOpen] = useState(false);
     const [editOpen, setEditOpen] = useState(false);
     const [deleteConfirm, setDeleteConfirm] = useState(false);
@@ -32,6 +37,8 @@ export function FlatmateCard({ flatmate, currentSchedule, paymentStats }: Flatma
     const router = useRouter();
 
     const hasSignedIn = flatmate.emailVerified !== null;
+    const bankAccounts = identifiers.filter((i) => i.type === "bank_account_pattern").map((i) => i.value);
+    const cardSuffixes = identifiers.filter((i) => i.type === "card_suffix").map((i) => i.value);
 
     const handleUpdate = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
@@ -68,7 +75,7 @@ export function FlatmateCard({ flatmate, currentSchedule, paymentStats }: Flatma
 
     const editDialog = editOpen ? (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-            <div className="glass rounded-2xl w-full max-w-md p-6 animate-in fade-in zoom-in-95 duration-200">
+            <div className="glass rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 animate-in fade-in zoom-in-95 duration-200">
                 <div className="flex items-center justify-between mb-6">
                     <h2 className="text-xl font-bold">Edit Flatmate</h2>
                     <button
@@ -97,65 +104,12 @@ export function FlatmateCard({ flatmate, currentSchedule, paymentStats }: Flatma
                         </div>
                     </div>
 
-                    {/* Bank Account Pattern */}
-                    <div>
-                        <label className="block text-sm font-medium text-slate-300 mb-2">
-                            Bank Account Number
-                        </label>
-                        <div className="relative">
-                            <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                            <input
-                                type="text"
-                                name="bankAccountPattern"
-                                defaultValue={flatmate.bankAccountPattern || ""}
-                                placeholder="12-3456-7890123-00"
-                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                            />
-                        </div>
-                        <p className="text-xs text-slate-500 mt-1">
-                            Used to match incoming payments to this flatmate
-                        </p>
-                    </div>
-
-                    {/* Card Suffix */}
-                    <div>
-                        <label className="block text-sm font-medium text-slate-300 mb-2">
-                            Card Suffix (last 4 digits)
-                        </label>
-                        <div className="relative">
-                            <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                            <input
-                                type="text"
-                                name="cardSuffix"
-                                defaultValue={flatmate.cardSuffix || ""}
-                                maxLength={4}
-                                placeholder="8423"
-                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                            />
-                        </div>
-                        <p className="text-xs text-slate-500 mt-1">
-                            Used to match expense card transactions
-                        </p>
-                    </div>
-
-                    {/* Matching Name */}
+                    {/* Identifiers */}
                     <div>
                         <label className="block text-sm font-medium text-slate-300 mb-2">
-                            Matching Name Pattern
+                            Payment Identifiers
                         </label>
-                        <div className="relative">
-                            <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                            <input
-                                type="text"
-                                name="matchingName"
-                                defaultValue={flatmate.matchingName || ""}
-                                placeholder="READER T A"
-                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
-                            />
-                        </div>
-                        <p className="text-xs text-slate-500 mt-1">
-                            Alternative name pattern to match in transaction descriptions
-                        </p>
+                        <UserIdentifiersEditor initialIdentifiers={identifiers} />
                     </div>
 
                     {/* Email (read-only) */}
@@ -343,14 +297,24 @@ export function FlatmateCard({ flatmate, currentSchedule, paymentStats }: Flatma
                     <div className="flex items-center gap-2 text-slate-400">
                         <Building2 className="w-4 h-4" />
                         <span className="truncate">
-                            {flatmate.bankAccountPattern || "No bank account linked"}
+                            {bankAccounts.length > 0
+                                ? bankAccounts[0] + (bankAccounts.length > 1 ? ` +${bankAccounts.length - 1} more` : "")
+                                : "No bank account linked"}
                         </span>
                     </div>
+                    {cardSuffixes.length > 0 && (
+                        <div className="flex items-center gap-2 text-slate-400">
+                            <CreditCard className="w-4 h-4" />
+                            <span className="truncate">
+                                {cardSuffixes.map((suffix) => `****${suffix}`).join(", ")}
+                            </span>
+                        </div>
+                    )}
                     <div className="flex items-center gap-2 text-slate-400">
                         <DollarSign className="w-4 h-4" />
                         <span>
                             {currentSchedule
-                                ? `$${currentSchedule.weeklyAmount}/week`
+                                ? formatScheduleRate(currentSchedule)
                                 : "No payment schedule"}
                         </span>
                     </div>
@@ -0,0 +1,333 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { createPortal } from "react-dom";
+import { Loader2 } from "lucide-react";
+import type { PaymentMatchingRule } from "@/lib/db/schema";
+import { addPaymentRuleAction, updatePaymentRuleAction } from "@/lib/actions";
+import { IDENTIFIER_LABELS, MATCH_TYPE_LABELS } from "./PaymentRuleItem";
+
+interface PaymentRuleDialogProps {
+    rule: PaymentMatchingRule | null;
+    flatmates: { id: string; name: string | null; email: string }[];
+    landlords: { id: string; name: string }[];
+    onClose: () => void;
+    onSave: () => void;
+}
+
+const PATTERN_FIELDS = [
+    { name: "descriptionPattern", label: "Description", placeholder: "e.g., RENT" },
+    { name: "particularsPattern", label: "Particulars", placeholder: "e.g., FLAT 4" },
+    { name: "codePattern", label: "Code", placeholder: "e.g., RENT" },
+    { name: "referencePattern", label: "Reference", placeholder: "e.g., WEEKLY" },
+    { name: "otherAccountPattern", label: "Other Account", placeholder: "e.g., 02-0500-0012345" },
+] as const;
+
+export function PaymentRuleDialog({ rule, flatmates, landlords, onClose, onSave }: PaymentRuleDialogProps) {
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+    const [target, setTarget] = useState<PaymentMatchingRule["target"]>(rule?.target ?? "flatmate");
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+
+        if (rule) {
+            formData.set("id", rule.id);
+        }
+
+        setError(null);
+        startTransition(async () => {
+            const result = rule
+                ? await updatePaymentRuleAction(formData)
+                : await addPaymentRuleAction(formData);
+
+            if (result.error) {
+                setError(result.error);
+            } else {
+                onSave();
+            }
+        });
+    };
+
+    const assignees = target === "landlord"
+        ? landlords.map((l) => ({ id: l.id, name: l.name }))
+        : flatmates.map((f) => ({ id: f.id, name: f.name ?? f.email }));
+    const identifiers = (Object.keys(IDENTIFIER_LABELS) as (keyof typeof IDENTIFIER_LABELS)[])
+        .filter((identifier) => target === "flatmate" || identifier !== "card_suffix");
+
+    const dialogContent = (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative w-full max-w-lg glass rounded-2xl overflow-hidden animate-in fade-in zoom-in-95">
+                <form onSubmit={handleSubmit}>
+                    <div className="p-5 border-b border-slate-700/50">
+                        <h2 className="font-semibold text-lg">
+                            {rule ? "Edit Matching Rule" : "Add Matching Rule"}
+                        </h2>
+                    </div>
+
+                    <div className="p-5 space-y-4 max-h-[60vh] overflow-y-auto">
+                        {/* Name */}
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Rule Name</label>
+                            <input
+                                name="name"
+                                defaultValue={rule?.name ?? ""}
+                                required
+                                placeholder="e.g., Rent from Sam"
+                                className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg"
+                            />
+                        </div>
+
+                        {/* Priority */}
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Priority</label>
+                            <input
+                                name="priority"
+                                type="number"
+                                defaultValue={rule?.priority ?? 100}
+                                required
+                                className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg"
+                            />
+                            <p className="text-xs text-slate-500 mt-1">
+                                Higher priority rules are matched first
+                            </p>
+                        </div>
+
+                        {/* Assign to */}
+                        <div className="space-y-3 pt-2">
+                            <p className="text-sm font-medium">Assign To</p>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">Matches</label>
+                                    <select
+                                        name="target"
+                                        value={target}
+                                        onChange={(e) => setTarget(e.target.value as PaymentMatchingRule["target"])}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    >
+                                        <option value="flatmate">Flatmate</option>
+                                        <option value="landlord">Landlord</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">
+                                        {target === "landlord" ? "Landlord" : "Flatmate"}
+                                    </label>
+                                    <select
+                                        key={target}
+                                        name="assigneeId"
+                                        defaultValue={(target === "landlord" ? rule?.landlordId : rule?.userId) ?? ""}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    >
+                                        <option value="">Whoever matches the identifier</option>
+                                        {assignees.map((a) => (
+                                            <option key={a.id} value={a.id}>
+                                                {a.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">Identifier</label>
+                                <select
+                                    key={target}
+                                    name="identifier"
+                                    defaultValue={rule?.identifier ?? ""}
+                                    className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                >
+                                    <option value="">None</option>
+                                    {identifiers.map((identifier) => (
+                                        <option key={identifier} value={identifier}>
+                                            {IDENTIFIER_LABELS[identifier]}
+                                        </option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-slate-500 mt-1">
+                                    Requires the {target}&apos;s own card suffix, bank account or matching name
+                                    to appear in the transaction
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                {target === "flatmate" && (
+                                    <div>
+                                        <label className="block text-xs text-slate-400 mb-1">Match Type</label>
+                                        <select
+                                            name="matchType"
+                                            defaultValue={rule?.matchType ?? "schedule"}
+                                            className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                        >
+                                            {(Object.keys(MATCH_TYPE_LABELS) as (keyof typeof MATCH_TYPE_LABELS)[])
+                                                .filter((type) => type !== "landlord_payment")
+                                                .map((type) => (
+                                                    <option key={type} value={type}>
+                                                        {MATCH_TYPE_LABELS[type]}
+                                                    </option>
+                                                ))}
+                                        </select>
+                                    </div>
+                                )}
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">Confidence</label>
+                                    <input
+                                        name="confidence"
+                                        type="number"
+                                        step="0.01"
+                                        min="0.01"
+                                        max="1"
+                                        defaultValue={rule?.confidence ?? 0.9}
+                                        required
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Transaction conditions */}
+                        <div className="space-y-3 pt-2">
+                            <p className="text-sm font-medium">Transaction</p>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">Direction</label>
+                                    <select
+                                        name="direction"
+                                        defaultValue={rule?.direction ?? "in"}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    >
+                                        <option value="any">Any</option>
+                                        <option value="in">Money in</option>
+                                        <option value="out">Money out</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">Card Payment</label>
+                                    <select
+                                        name="cardPayment"
+                                        defaultValue={rule?.cardPayment ?? "any"}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    >
+                                        <option value="any">Any</option>
+                                        <option value="card">Card only</option>
+                                        <option value="not_card">Not card</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">Min Amount ($)</label>
+                                    <input
+                                        name="minAmount"
+                                        type="number"
+                                        step="0.01"
+                                        min="0"
+                                        defaultValue={rule?.minAmount ?? ""}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">Max Amount ($)</label>
+                                    <input
+                                        name="maxAmount"
+                                        type="number"
+                                        step="0.01"
+                                        min="0"
+                                        defaultValue={rule?.maxAmount ?? ""}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Patterns */}
+                        <div className="space-y-3 pt-2">
+                            <p className="text-sm font-medium">Match Patterns</p>
+
+                            {PATTERN_FIELDS.map((field) => (
+                                <div key={field.name}>
+                                    <label className="block text-xs text-slate-400 mb-1">{field.label}</label>
+                                    <input
+                                        name={field.name}
+                                        defaultValue={rule?.[field.name] ?? ""}
+                                        placeholder={field.placeholder}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Options */}
+                        <div className="flex flex-wrap items-center gap-6 pt-2">
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    name="isRegex"
+                                    value="true"
+                                    defaultChecked={rule?.isRegex ?? false}
+                                    className="rounded border-slate-600"
+                                />
+                                <span className="text-sm">Use regex</span>
+                            </label>
+
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    name="isActive"
+                                    value="true"
+                                    defaultChecked={rule?.isActive ?? true}
+                                    className="rounded border-slate-600"
+                                />
+                                <span className="text-sm">Enabled</span>
+                            </label>
+
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm">Match mode:</span>
+                                <select
+                                    name="matchMode"
+                                    defaultValue={rule?.matchMode ?? "all"}
+                                    className="px-2 py-1 bg-slate-700/50 border border-slate-600 rounded text-sm"
+                                >
+                                    <option value="all">All</option>
+                                    <option value="any">Any</option>
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Error */}
+                    {error && (
+                        <div className="mx-5 mb-4 p-3 rounded-xl bg-rose-500/20 text-rose-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="p-5 border-t border-slate-700/50 flex justify-end gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={isPending}
+                            className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isPending}
+                            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 transition-colors disabled:opacity-50"
+                        >
+                            {isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                            {rule ? "Update" : "Create"} Rule
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+
+    if (typeof document === "undefined") return null;
+    return createPortal(dialogContent, document.body);
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { Edit2, Trash2 } from "lucide-react";
+import type { PaymentMatchingRule } from "@/lib/db/schema";
+
+export const IDENTIFIER_LABELS: Record<NonNullable<PaymentMatchingRule["identifier"]>, string> = {
+    card_suffix: "Card suffix",
+    bank_account_pattern: "Bank account",
+    matching_name: "Matching name",
+};
+
+export const MATCH_TYPE_LABELS: Record<PaymentMatchingRule["matchType"], string> = {
+    schedule: "From payment schedule",
+    rent_payment: "Rent payment",
+    grocery_reimbursement: "Grocery reimbursement",
+    other: "Other",
+    expense: "Expense",
+    landlord_payment: "Landlord payment",
+};
+
+interface PaymentRuleItemProps {
+    rule: PaymentMatchingRule;
+    assigneeName: string | null;
+    onEdit: () => void;
+    onDelete: () => void;
+    isPending: boolean;
+}
+
+export function PaymentRuleItem({ rule, assigneeName, onEdit, onDelete, isPending }: PaymentRuleItemProps) {
+    const conditions: string[] = [];
+    if (rule.direction === "in") conditions.push("Money in");
+    if (rule.direction === "out") conditions.push("Money out");
+    if (rule.cardPayment === "card") conditions.push("Card");
+    if (rule.cardPayment === "not_card") conditions.push("Not card");
+    if (rule.minAmount !== null || rule.maxAmount !== null) {
+        conditions.push(`$${rule.minAmount ?? 0}–${rule.maxAmount !== null ? `$${rule.maxAmount}` : "any"}`);
+    }
+    if (rule.identifier) conditions.push(`${rule.target === "landlord" ? "Landlord" : "Flatmate"}'s ${IDENTIFIER_LABELS[rule.identifier].toLowerCase()}`);
+    if (rule.descriptionPattern) conditions.push(`Desc: "${rule.descriptionPattern}"`);
+    if (rule.particularsPattern) conditions.push(`Particulars: "${rule.particularsPattern}"`);
+    if (rule.codePattern) conditions.push(`Code: "${rule.codePattern}"`);
+    if (rule.referencePattern) conditions.push(`Reference: "${rule.referencePattern}"`);
+    if (rule.otherAccountPattern) conditions.push(`Account: "${rule.otherAccountPattern}"`);
+
+    const assignee = assigneeName ?? (rule.target === "landlord" ? "matching landlord" : "matching flatmate");
+
+    return (
+        <div className="flex items-center gap-3 p-3 rounded-xl bg-slate-800/50 group">
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{rule.name}</span>
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-slate-700 text-slate-400">
+                        Priority: {rule.priority}
+                    </span>
+                    {rule.isRegex && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-400">
+                            Regex
+                        </span>
+                    )}
+                    {!rule.isActive && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-slate-600 text-slate-400">
+                            Disabled
+                        </span>
+                    )}
+                </div>
+                <p className="text-sm text-slate-400 truncate">
+                    {conditions.join(" · ")}
+                    {" → "}
+                    {assignee}, {MATCH_TYPE_LABELS[rule.matchType].toLowerCase()} ({Math.round(rule.confidence * 100)}%)
+                </p>
+            </div>
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                    onClick={onEdit}
+                    disabled={isPending}
+                    className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                    <Edit2 className="w-4 h-4 text-slate-400" />
+                </button>
+                <button
+                    onClick={onDelete}
+                    disabled={isPending}
+                    className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                    <Trash2 className="w-4 h-4 text-rose-400" />
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Settings2, ChevronDown, ChevronUp, Plus, RotateCcw, Loader2 } from "lucide-react";
+import type { PaymentMatchingRule } from "@/lib/db/schema";
+import { deletePaymentRuleAction, resetPaymentRulesAction } from "@/lib/actions";
+import { PaymentRuleItem } from "./PaymentRuleItem";
+import { PaymentRuleDialog } from "./PaymentRuleDialog";
+
+interface PaymentRulesManagerProps {
+    rules: PaymentMatchingRule[];
+    flatmates: { id: string; name: string | null; email: string }[];
+    landlords: { id: string; name: string }[];
+}
+
+export function PaymentRulesManager({ rules, flatmates, landlords }: PaymentRulesManagerProps) {
+    const router = useRouter();
+    const [isOpen, setIsOpen] = useState(false);
+    const [isPending, startTransition] = useTransition();
+    const [editingRule, setEditingRule] = useState<PaymentMatchingRule | null>(null);
+    const [isAddingRule, setIsAddingRule] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const getAssigneeName = (rule: PaymentMatchingRule) => {
+        if (rule.userId) {
+            const flatmate = flatmates.find((f) => f.id === rule.userId);
+            return flatmate ? flatmate.name ?? flatmate.email : null;
+        }
+        if (rule.landlordId) {
+            return landlords.find((l) => l.id === rule.landlordId)?.name ?? null;
+        }
+        return null;
+    };
+
+    const handleDeleteRule = (ruleId: string) => {
+        setError(null);
+        startTransition(async () => {
+            const result = await deletePaymentRuleAction(ruleId);
+            if (result.error) {
+                setError(result.error);
+            } else {
+                router.refresh();
+            }
+        });
+    };
+
+    const handleReset = () => {
+        if (!confirm("Replace all payment matching rules with the defaults?")) return;
+
+        setError(null);
+        startTransition(async () => {
+            const result = await resetPaymentRulesAction();
+            if (result.error) {
+                setError(result.error);
+            } else {
+                router.refresh();
+            }
+        });
+    };
+
+    return (
+        <div className="glass rounded-2xl overflow-hidden mt-8">
+            {/* Header */}
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between p-5 hover:bg-slate-800/30 transition-colors"
+            >
+                <div className="flex items-center gap-3">
+                    <Settings2 className="w-5 h-5 text-slate-400" />
+                    <div className="text-left">
+                        <h2 className="font-semibold">Payment Matching Rules</h2>
+                        <p className="text-sm text-slate-400">
+                            {rules.length} rule{rules.length !== 1 ? "s" : ""} for matching payments to flatmates and landlords
+                        </p>
+                    </div>
+                </div>
+                {isOpen ? (
+                    <ChevronUp className="w-5 h-5 text-slate-400" />
+                ) : (
+                    <ChevronDown className="w-5 h-5 text-slate-400" />
+                )}
+            </button>
+
+            {/* Content */}
+            {isOpen && (
+                <div className="border-t border-slate-700/50">
+                    {/* Actions Bar */}
+                    <div className="p-4 border-b border-slate-700/50 flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={() => setIsAddingRule(true)}
+                            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 transition-colors"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add Rule
+                        </button>
+                        <button
+                            onClick={handleReset}
+                            disabled={isPending}
+                            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-50"
+                        >
+                            {isPending ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                                <RotateCcw className="w-4 h-4" />
+                            )}
+                            Reset to Defaults
+                        </button>
+                        <p className="text-sm text-slate-500">
+                            Rules apply to new transactions. Use Rematch All to apply them to existing ones.
+                        </p>
+                    </div>
+
+                    {/* Error */}
+                    {error && (
+                        <div className="m-4 p-4 rounded-xl bg-rose-500/20 text-rose-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Rules, highest priority first */}
+                    <div className="p-4 space-y-2">
+                        {rules.length === 0 ? (
+                            <p className="text-sm text-slate-500">
+                                No rules configured - transactions won&apos;t be matched automatically
+                            </p>
+                        ) : (
+                            rules.map((rule) => (
+                                <PaymentRuleItem
+                                    key={rule.id}
+                                    rule={rule}
+                                    assigneeName={getAssigneeName(rule)}
+                                    onEdit={() => setEditingRule(rule)}
+                                    onDelete={() => handleDeleteRule(rule.id)}
+                                    isPending={isPending}
+                                />
+                            ))
+                        )}
+                    </div>
+
+                    {/* Add/Edit Rule Dialog */}
+                    {(isAddingRule || editingRule) && (
+                        <PaymentRuleDialog
+                            rule={editingRule}
+                            flatmates={flatmates}
+                            landlords={landlords}
+                            onClose={() => {
+                                setIsAddingRule(false);
+                                setEditingRule(null);
+                            }}
+                            onSave={() => {
+                                setIsAddingRule(false);
+                                setEditingRule(null);
+                                router.refresh();
+                            }}
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
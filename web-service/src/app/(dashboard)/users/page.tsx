@@ -1,12 +1,17 @@
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { users, paymentSchedules, transactions } from "@/lib/db/schema";
-import { desc, and, lte, sql } from "drizzle-orm";
+import { users, paymentSchedules, transactions, landlords } from "@/lib/db/schema";
+import { desc, and, lte, sql, isNull } from "drizzle-orm";
 import { redirect } from "next/navigation";
 import { UserPlus, Building2, DollarSign } from "lucide-react";
 import { AddFlatmateDialog } from "./AddFlatmateDialog";
 import { FlatmateCard } from "./FlatmateCard";
 import { RematchButton } from "./RematchButton";
+import { PaymentRulesManager } from "./PaymentRulesManager";
+import { getPaymentRules } from "@/lib/matching";
+import { getUserIdentifiers, toUserIdentifierInput } from "@/lib/user-identifiers";
+import { getHouseholdTimeZone } from "@/lib/household";
+import { getWeeklyEquivalent } from "@/lib/schedule-cadence";
 
 export default async function UsersPage() {
     const session = await auth();
@@ -15,6 +20,8 @@ export default async function UsersPage() {
         redirect("/");
     }
 
+    const timeZone = await getHouseholdTimeZone();
+
     // Get all flatmates (including admin)
     const flatmates = await db
         .select()
@@ -41,9 +48,18 @@ export default async function UsersPage() {
             total: sql<number>`sum(amount)`,
         })
         .from(transactions)
-        .where(sql`${transactions.matchedUserId} IS NOT NULL`)
+        .where(and(sql`${transactions.matchedUserId} IS NOT NULL`, isNull(transactions.deletedAt)))
         .groupBy(transactions.matchedUserId);
 
+    // Bank accounts, cards and names each flatmate's payments are matched by
+    const identifiersByUser = await getUserIdentifiers();
+
+    // Payment matching rules, and the landlords they can assign to
+    const paymentRules = await getPaymentRules();
+    const allLandlords = await db
+        .select({ id: landlords.id, name: landlords.name })
+        .from(landlords);
+
     // Create a map for quick lookup
     const scheduleMap = new Map(
         currentSchedules.map((s) => [s.userId, s])
@@ -88,7 +104,9 @@ export default async function UsersPage() {
                         </div>
                         <div>
                             <p className="text-2xl font-bold">
-                                {flatmates.filter((f) => f.bankAccountPattern).length}
+                                {flatmates.filter((f) =>
+                                    identifiersByUser.get(f.id)?.some((i) => i.type === "bank_account_pattern")
+                                ).length}
                             </p>
                             <p className="text-sm text-slate-400">Linked Accounts</p>
                         </div>
@@ -101,7 +119,7 @@ export default async function UsersPage() {
                         </div>
                         <div>
                             <p className="text-2xl font-bold">
-                                ${currentSchedules.reduce((sum, s) => sum + s.weeklyAmount, 0).toFixed(0)}
+                                ${currentSchedules.reduce((sum, s) => sum + getWeeklyEquivalent(s), 0).toFixed(0)}
                             </p>
                             <p className="text-sm text-slate-400">Weekly Total</p>
                         </div>
@@ -128,12 +146,15 @@ export default async function UsersPage() {
                         <FlatmateCard
                             key={flatmate.id}
                             flatmate={flatmate}
+                            identifiers={(identifiersByUser.get(flatmate.id) ?? []).map((i) => toUserIdentifierInput(i, timeZone))}
                             currentSchedule={scheduleMap.get(flatmate.id)}
                             paymentStats={paymentMap.get(flatmate.id)}
                         />
                     ))}
                 </div>
             )}
+
+            <PaymentRulesManager rules={paymentRules} flatmates={flatmates} landlords={allLandlords} />
         </div>
     );
 }
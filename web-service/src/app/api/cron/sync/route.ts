@@ -24,7 +24,7 @@ export async function GET(request: Request) {
 
         // If refresh was successful (or rate limited but we still want to sync cached data)
         // Sync the transactions from Akahu's cache to our database
-        const syncResult = await syncTransactions();
+        const syncResult = await syncTransactions("cron", refreshResult);
 
         return NextResponse.json({
             refresh: refreshResult,
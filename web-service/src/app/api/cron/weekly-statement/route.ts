@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import {
+    buildWeeklyStatement,
+    buildWeeklyStatementTicket,
+    recordScheduledStatementPrinted,
+    wasScheduledStatementPrinted,
+} from "@/lib/weekly-statement";
+import { enqueuePrintJob } from "@/lib/print-queue";
+import { hasActivePrinterDevice } from "@/lib/print-devices";
+import { getCurrentWeekBounds } from "@/lib/calculations";
+import { getHouseholdTimeZone } from "@/lib/household";
+import { formatDate } from "@/lib/timezone";
+
+const STATEMENT_HOUR = parseInt(process.env.WEEKLY_STATEMENT_HOUR || "8", 10);
+
+// This endpoint is called by the cron scheduler every hour
+// At WEEKLY_STATEMENT_HOUR on the week's due day (in the household timezone) it queues the weekly statement for the receipt printer
+// Each week's statement is queued once, even if the scheduler restarts and calls again within the hour
+// The endpoint is protected by a secret token
+
+export async function GET(request: Request) {
+    const authHeader = request.headers.get("authorization");
+    const expectedToken = process.env.CRON_SECRET;
+
+    if (!expectedToken) {
+        console.error("CRON_SECRET not configured");
+        return NextResponse.json({ error: "Server misconfigured" }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${expectedToken}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { weekStart, dueDate } = await getCurrentWeekBounds();
+        const timeZone = await getHouseholdTimeZone();
+        const now = new Date();
+        const isDueDay = formatDate(dueDate, timeZone, "yyyy-MM-dd") === formatDate(now, timeZone, "yyyy-MM-dd");
+        if (!isDueDay || parseInt(formatDate(now, timeZone, "H"), 10) !== STATEMENT_HOUR) {
+            return NextResponse.json({
+                skipped: "Not the statement hour on the due day",
+                timestamp: now.toISOString(),
+            });
+        }
+
+        // Don't pile up jobs when no printer has been set up
+        if (!(await hasActivePrinterDevice())) {
+            return NextResponse.json({
+                skipped: "No printers registered",
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        if (await wasScheduledStatementPrinted(weekStart)) {
+            return NextResponse.json({
+                skipped: "Already printed for this week",
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        const statement = await buildWeeklyStatement();
+        const job = await enqueuePrintJob(buildWeeklyStatementTicket(statement), "weekly_statement");
+        await recordScheduledStatementPrinted(weekStart);
+
+        return NextResponse.json({
+            jobId: job.id,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error("Weekly statement failed:", error);
+        return NextResponse.json({ error: "Weekly statement failed" }, { status: 500 });
+    }
+}
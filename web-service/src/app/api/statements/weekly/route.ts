@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { buildWeeklyStatement, buildWeeklyStatementTicket } from "@/lib/weekly-statement";
+import { renderTicketText } from "@/lib/ticket-render";
+import { parseReceiptWidth } from "@/lib/receipt";
+import { formatDate } from "@/lib/timezone";
+
+// Download the current weekly statement as fixed-width receipt text
+// Usage: GET /api/statements/weekly?width=42 (32, 42 or 48 columns)
+
+export async function GET(request: Request) {
+    const session = await auth();
+
+    if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const width = parseReceiptWidth(searchParams.get("width"));
+
+    const statement = await buildWeeklyStatement();
+    const text = renderTicketText(buildWeeklyStatementTicket(statement), width);
+
+    return new NextResponse(text, {
+        headers: {
+            "Content-Type": "text/plain; charset=utf-8",
+            "Content-Disposition": `attachment; filename="weekly-statement-${formatDate(statement.weekStart, statement.timeZone, "yyyy-MM-dd")}.txt"`,
+        },
+    });
+}
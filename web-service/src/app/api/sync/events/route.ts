@@ -0,0 +1,68 @@
+import { auth } from "@/lib/auth";
+import { getSyncProgress } from "@/lib/sync-lock";
+import { subscribeSyncEvents, type SyncStreamMessage } from "@/lib/sync-events";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000; // Keeps proxies from closing an idle stream
+
+// Server-sent events for sync progress. The first message is a snapshot of the sync running now, if any;
+// after that every SyncEvent is forwarded as it happens. Error details are only sent to admins.
+
+export async function GET(request: Request) {
+    const session = await auth();
+
+    if (!session?.user) {
+        return new Response("Unauthorized", { status: 401 });
+    }
+
+    const isAdmin = session.user.role === "admin";
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (message: SyncStreamMessage) =>
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+
+            send({ type: "snapshot", progress: await getSyncProgress(), at: new Date().toISOString() });
+
+            const unsubscribe = subscribeSyncEvents((event) => {
+                if (isAdmin) {
+                    send(event);
+                } else if (event.type === "finished") {
+                    send({ ...event, result: { ...event.result, errors: [] } });
+                } else if (event.type !== "error") {
+                    send(event);
+                }
+            });
+            const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": heartbeat\n\n")), HEARTBEAT_INTERVAL_MS);
+
+            cleanup = () => {
+                unsubscribe();
+                clearInterval(heartbeat);
+            };
+
+            request.signal.addEventListener("abort", () => {
+                cleanup();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by cancel()
+                }
+            });
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no", // Don't let nginx buffer the stream
+        },
+    });
+}
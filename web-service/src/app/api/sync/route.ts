@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { syncTransactions, triggerManualRefresh, canTriggerManualRefresh, getLastSyncTime } from "@/lib/sync";
+import { getSyncProgress } from "@/lib/sync-lock";
 
 export async function POST(request: Request) {
     const session = await auth();
@@ -13,7 +14,7 @@ export async function POST(request: Request) {
 
     if (action === "sync") {
         // Sync transactions from Akahu cache
-        const result = await syncTransactions();
+        const result = await syncTransactions("api");
         return NextResponse.json(result);
     }
 
@@ -39,10 +40,12 @@ export async function GET() {
 
     const lastSyncTime = await getLastSyncTime();
     const { canRefresh, nextRefreshAt } = await canTriggerManualRefresh();
+    const progress = await getSyncProgress();
 
     return NextResponse.json({
         lastSyncTime,
         canRefresh,
         nextRefreshAt,
+        progress,
     });
 }
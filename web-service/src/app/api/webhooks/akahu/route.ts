@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { verifyAkahuWebhook } from "@/lib/akahu";
+import { handleAkahuWebhook } from "@/lib/akahu-webhooks";
+
+// Akahu calls this when transactions or accounts change, so payments show up without waiting for the cron sync.
+// Subscribe to TRANSACTION and ACCOUNT webhooks for the app; see the README.
+
+export async function POST(request: Request) {
+    const signature = request.headers.get("x-akahu-signature");
+    const keyId = request.headers.get("x-akahu-signing-key");
+
+    if (!signature || !keyId) {
+        return NextResponse.json({ error: "Missing webhook signature" }, { status: 401 });
+    }
+
+    // The signature covers the exact bytes Akahu sent, so verify before parsing
+    const body = await request.text();
+
+    try {
+        const payload = await verifyAkahuWebhook(keyId, signature, body);
+        if (!payload) {
+            return NextResponse.json({ error: "Invalid webhook signature" }, { status: 401 });
+        }
+
+        const outcome = await handleAkahuWebhook(payload);
+        console.log("[Webhook]", outcome.message);
+
+        if (outcome.sync?.alreadyRunning) {
+            // The running sync may have fetched before this change, so have Akahu send it again later
+            return NextResponse.json({ error: "Sync already in progress" }, { status: 503 });
+        }
+
+        return NextResponse.json(outcome);
+    } catch (error) {
+        // Akahu retries webhooks that don't get a 2xx response
+        console.error("[Webhook] Failed to handle Akahu webhook:", error);
+        return NextResponse.json({ error: "Webhook handling failed" }, { status: 500 });
+    }
+}
@@ -2,8 +2,18 @@
 
 import { useState } from "react";
 import { Calendar, CreditCard, CheckCircle, Copy, Check, ArrowDown } from "lucide-react";
-import { format, nextThursday, addWeeks, differenceInWeeks, isBefore, startOfDay, isAfter, addDays } from "date-fns";
+import { format, addWeeks, addMonths, differenceInCalendarDays, isBefore, startOfDay, isAfter, addDays } from "date-fns";
 import { formatMoney } from "@/lib/utils";
+import { getCalendarWeek, getWeekRulesOn, WEEKDAY_NAMES, type WeekRulesPeriod } from "@/lib/week-rules";
+import {
+    CADENCE_LABELS,
+    CADENCE_PERIODS,
+    formatScheduleRate,
+    getChargeDates,
+    getWeeklyEquivalent,
+    type CadenceSchedule,
+    type ScheduleCadence,
+} from "@/lib/schedule-cadence";
 
 interface PaymentTransaction {
     id: string;
@@ -16,48 +26,75 @@ interface WeekBreakdown {
     paymentTransactions: PaymentTransaction[];
 }
 
-interface ScheduleSegment {
-    weeklyAmount: number;
-    startDate: Date;
-    endDate: Date | null;
-}
+type ScheduleSegment = CadenceSchedule;
 
 interface AutopaymentStep {
     stepNumber: number;
     amount: number;
+    cadence: ScheduleCadence;
     startDate: Date;
     endDate: Date;
-    weeksCount: number;
+    paymentsCount: number;
     description: string;
     isOneTime?: boolean;
 }
 
 interface AutopaymentHelperProps {
-    currentWeeklyRate: number | null;
+    currentSchedule: ScheduleSegment | null;
     totalBalance: number;
     weeklyBreakdown: WeekBreakdown[];
     userName?: string | null;
     scheduleEndDate: Date | null;
     futureSchedules: ScheduleSegment[];
+    weekRules: WeekRulesPeriod[];
+}
+
+// Catchups are spread over this many payments of the current schedule
+const CATCHUP_PAYMENTS = 8;
+
+// Longest gap between two payments on a cadence, for merging consecutive steps
+const MAX_PERIOD_DAYS: Record<ScheduleCadence, number> = { weekly: 7, fortnightly: 14, monthly: 31 };
+
+// Get the due date of the week a date falls in (for autopayment start dates)
+function getDueDateOfWeek(weekRules: WeekRulesPeriod[], date: Date): Date {
+    return getCalendarWeek(weekRules, date).due;
+}
+
+// The first payment on or after a date: the billing week's due date for weekly schedules, otherwise
+// the schedule's next charge date (null if it ends first)
+function getNextPaymentDate(weekRules: WeekRulesPeriod[], schedule: ScheduleSegment, from: Date): Date | null {
+    const day = startOfDay(from);
+    if (schedule.cadence === "weekly") {
+        const week = getCalendarWeek(weekRules, day);
+        return isBefore(week.due, day) ? getDueDateOfWeek(weekRules, addDays(week.end, 1)) : week.due;
+    }
+    return getChargeDates(schedule, day, addMonths(day, 1))[0] ?? null;
 }
 
-// Get the Thursday of a given week (for autopayment start dates)
-function getThursdayOfWeek(date: Date): Date {
-    const day = date.getDay();
-    const diff = (4 - day + 7) % 7; // 4 = Thursday
-    return addDays(startOfDay(date), diff);
+// Move a payment date on by a number of periods of a cadence
+function addPeriods(date: Date, cadence: ScheduleCadence, count: number): Date {
+    if (cadence === "fortnightly") return addWeeks(date, count * 2);
+    if (cadence === "monthly") return addMonths(date, count);
+    return addWeeks(date, count);
+}
+
+function describeFrequency(step: AutopaymentStep): string {
+    if (step.paymentsCount === 1) return "One-time payment";
+    if (step.cadence === "weekly") return `Weekly recurring (${step.paymentsCount} weeks)`;
+    return `${CADENCE_LABELS[step.cadence]} recurring (${step.paymentsCount} payments)`;
 }
 
 export function AutopaymentHelper({ 
-    currentWeeklyRate, 
+    currentSchedule, 
     totalBalance, 
     scheduleEndDate,
-    futureSchedules 
+    futureSchedules,
+    weekRules,
 }: AutopaymentHelperProps) {
     const [spreadCatchup, setSpreadCatchup] = useState(true);
     const [copiedStep, setCopiedStep] = useState<number | null>(null);
 
-    if (!currentWeeklyRate || currentWeeklyRate === 0) {
+    if (!currentSchedule || currentSchedule.amount === 0) {
         return (
             <div className="glass rounded-2xl p-5 card-hover animate-fade-in">
                 <div className="flex items-start gap-4">
@@ -67,7 +104,7 @@ export function AutopaymentHelper({
                     <div>
                         <h3 className="font-semibold text-lg">Autopayment Setup</h3>
                         <p className="text-slate-400 text-sm mt-1">
-                            No payment schedule configured yet. Contact your admin to set up your weekly contribution.
+                            No payment schedule configured yet. Contact your admin to set up your rent contribution.
                         </p>
                     </div>
                 </div>
@@ -86,16 +123,13 @@ export function AutopaymentHelper({
         const steps: AutopaymentStep[] = [];
         const now = new Date();
         
-        // Get the next Thursday as the starting point for autopayments
-        let paymentStartDate = nextThursday(now);
-        // If today is Thursday, use today
-        if (now.getDay() === 4) {
-            paymentStartDate = startOfDay(now);
-        }
+        // Get the next payment date (today if it's due today) as the starting point for autopayments
+        const paymentStartDate = getNextPaymentDate(weekRules, currentSchedule, now) ?? startOfDay(now);
 
         const isAhead = totalBalance >= 0.01;
         const isBehind = totalBalance <= -0.01;
         const amountOwed = Math.abs(totalBalance);
+        const period = CADENCE_PERIODS[currentSchedule.cadence];
         
         let stepNumber = 1;
         let currentStart = paymentStartDate;
@@ -103,139 +137,129 @@ export function AutopaymentHelper({
         // Handle catchup/balance adjustment first
         if (isBehind || isAhead) {
             if (spreadCatchup) {
-                // 8-week spread catchup mode
-                const correctionWeeks = 8;
-                const weeklyAdjustment = totalBalance / correctionWeeks;
-                const adjustedPayment = currentWeeklyRate - weeklyAdjustment;
+                // Spread the catchup over the next 8 payments
+                const adjustment = totalBalance / CATCHUP_PAYMENTS;
+                const adjustedPayment = currentSchedule.amount - adjustment;
                 const catchupAmount = Math.max(0, adjustedPayment);
-                const catchupEndDate = addWeeks(currentStart, correctionWeeks - 1);
+                const catchupEndDate = addPeriods(currentStart, currentSchedule.cadence, CATCHUP_PAYMENTS - 1);
                 
                 steps.push({
                     stepNumber: stepNumber++,
                     amount: catchupAmount,
+                    cadence: currentSchedule.cadence,
                     startDate: currentStart,
                     endDate: catchupEndDate,
-                    weeksCount: correctionWeeks,
+                    paymentsCount: CATCHUP_PAYMENTS,
                     description: isBehind
-                        ? `Catchup payment (+$${formatMoney(weeklyAdjustment)}/week extra)`
-                        : `Reduced payment (using $${formatMoney(weeklyAdjustment)}/week credit)`,
+                        ? `Catchup payment (+$${formatMoney(adjustment)}/${period} extra)`
+                        : `Reduced payment (using $${formatMoney(adjustment)}/${period} credit)`,
                 });
                 
-                currentStart = addWeeks(currentStart, correctionWeeks);
+                currentStart = addDays(catchupEndDate, 1);
             } else if (isBehind) {
                 // Immediate payment mode - one-time payment to clear balance
                 steps.push({
                     stepNumber: stepNumber++,
                     amount: amountOwed,
+                    cadence: currentSchedule.cadence,
                     startDate: currentStart,
                     endDate: currentStart,
-                    weeksCount: 1,
+                    paymentsCount: 1,
                     description: "One-time payment to clear balance",
                     isOneTime: true,
                 });
                 
-                currentStart = addWeeks(currentStart, 1);
+                currentStart = addDays(currentStart, 1);
             }
             // If ahead and not spreading, we just continue with normal payments (credit applies automatically)
         }
 
         // Now add steps for each schedule segment from currentStart onwards
-        // Build a list of schedule periods to iterate through
-        const scheduleSegments: { amount: number; start: Date; end: Date }[] = [];
-        
-        if (futureSchedules.length === 0) {
-            // No schedules defined, show ongoing payment
-            scheduleSegments.push({
-                amount: currentWeeklyRate,
-                start: currentStart,
-                end: addWeeks(currentStart, 52), // Default 1 year
-            });
-        } else {
-            // Process each schedule segment
-            for (let i = 0; i < futureSchedules.length; i++) {
-                const schedule = futureSchedules[i];
-                const scheduleStart = startOfDay(schedule.startDate);
-                const scheduleEnd = schedule.endDate ? startOfDay(schedule.endDate) : null;
-                
-                // Skip schedules that end before our current start
-                if (scheduleEnd && isBefore(scheduleEnd, currentStart)) {
-                    continue;
-                }
-                
-                // Determine the effective start for this segment
-                const effectiveStart = isAfter(scheduleStart, currentStart) 
-                    ? getThursdayOfWeek(scheduleStart)
-                    : currentStart;
-                
-                // Determine the effective end for this segment
-                const effectiveEnd = scheduleEnd 
-                    ? getThursdayOfWeek(scheduleEnd)
+        // Build a list of schedule periods with the days each one is paid on
+        const scheduleSegments: { schedule: ScheduleSegment; dates: Date[] }[] = [];
+        const schedules = futureSchedules.length > 0 ? futureSchedules : [currentSchedule];
+
+        for (const schedule of schedules) {
+            const scheduleStart = startOfDay(schedule.startDate);
+            const scheduleEnd = schedule.endDate ? startOfDay(schedule.endDate) : null;
+            
+            // Skip schedules that end before our current start
+            if (scheduleEnd && isBefore(scheduleEnd, currentStart)) {
+                continue;
+            }
+
+            const from = isAfter(scheduleStart, currentStart) ? scheduleStart : currentStart;
+            const dates: Date[] = [];
+
+            if (schedule.cadence === "weekly") {
+                // Weekly payments fall on each billing week's due date
+                const effectiveStart = isAfter(scheduleStart, currentStart)
+                    ? getDueDateOfWeek(weekRules, scheduleStart)
+                    : getNextPaymentDate(weekRules, schedule, currentStart) ?? currentStart;
+                const effectiveEnd = scheduleEnd
+                    ? getDueDateOfWeek(weekRules, scheduleEnd)
                     : addWeeks(effectiveStart, 52); // Default ongoing = 1 year for display
-                
-                // Skip if this segment would start after its end
-                if (isAfter(effectiveStart, effectiveEnd)) {
-                    continue;
+                for (let date = effectiveStart; !isAfter(date, effectiveEnd); date = addWeeks(date, 1)) {
+                    dates.push(date);
                 }
-                
-                scheduleSegments.push({
-                    amount: schedule.weeklyAmount,
-                    start: effectiveStart,
-                    end: effectiveEnd,
-                });
+            } else {
+                dates.push(...getChargeDates(schedule, from, scheduleEnd ?? addWeeks(from, 52)));
+            }
+
+            if (dates.length > 0) {
+                scheduleSegments.push({ schedule, dates });
             }
         }
 
-        // Merge consecutive segments with the same amount and adjust for currentStart
+        // Merge consecutive segments with the same rate and adjust for currentStart
         for (const segment of scheduleSegments) {
-            // Skip if this segment ends before our current working date
-            if (isBefore(segment.end, currentStart)) {
-                continue;
-            }
-            
-            // Adjust start if it's before our current working date
-            const adjustedStart = isAfter(segment.start, currentStart) ? segment.start : currentStart;
-            
-            // Skip if no time between start and end
-            if (isAfter(adjustedStart, segment.end)) {
+            const { schedule } = segment;
+
+            // Only payments from our current working date onwards
+            const dates = segment.dates.filter((date) => !isBefore(date, currentStart));
+            if (dates.length === 0) {
                 continue;
             }
+            const segmentStart = dates[0];
+            const segmentEnd = dates[dates.length - 1];
             
-            const weeksCount = Math.max(1, differenceInWeeks(segment.end, adjustedStart) + 1);
-            
-            // Check if we can merge with the previous step (same amount and consecutive)
+            // Check if we can merge with the previous step (same rate and consecutive)
             const lastStep = steps[steps.length - 1];
             if (lastStep && 
                 !lastStep.isOneTime && 
-                Math.abs(lastStep.amount - segment.amount) <= 0.01 &&
-                differenceInWeeks(adjustedStart, lastStep.endDate) <= 1) {
+                lastStep.cadence === schedule.cadence &&
+                Math.abs(lastStep.amount - schedule.amount) <= 0.01 &&
+                differenceInCalendarDays(segmentStart, lastStep.endDate) <= MAX_PERIOD_DAYS[schedule.cadence]) {
                 // Merge by extending the previous step
-                lastStep.endDate = segment.end;
-                lastStep.weeksCount = differenceInWeeks(segment.end, lastStep.startDate) + 1;
+                lastStep.endDate = segmentEnd;
+                lastStep.paymentsCount += dates.length;
             } else {
                 // Add new step
-                const isOngoing = !futureSchedules.some(s => s.endDate !== null);
+                const isOngoing = !schedules.some(s => s.endDate !== null);
                 const hasNextSchedule = scheduleSegments.indexOf(segment) < scheduleSegments.length - 1;
+                const label = CADENCE_LABELS[schedule.cadence];
                 
                 let description = "";
-                if (segment.amount !== currentWeeklyRate) {
-                    description = `Weekly payment at $${formatMoney(segment.amount)}/week`;
+                if (schedule.amount !== currentSchedule.amount || schedule.cadence !== currentSchedule.cadence) {
+                    description = `${label} payment at ${formatScheduleRate(schedule)}`;
                 } else if (isOngoing && !hasNextSchedule) {
-                    description = "Standard weekly payment (ongoing)";
+                    description = `Standard ${label.toLowerCase()} payment (ongoing)`;
                 } else {
-                    description = `Standard weekly payment until ${format(segment.end, "d MMM")}`;
+                    description = `Standard ${label.toLowerCase()} payment until ${format(segmentEnd, "d MMM")}`;
                 }
                 
                 steps.push({
                     stepNumber: stepNumber++,
-                    amount: segment.amount,
-                    startDate: adjustedStart,
-                    endDate: segment.end,
-                    weeksCount,
+                    amount: schedule.amount,
+                    cadence: schedule.cadence,
+                    startDate: segmentStart,
+                    endDate: segmentEnd,
+                    paymentsCount: dates.length,
                     description,
                 });
             }
             
-            currentStart = addWeeks(segment.end, 1);
+            currentStart = addDays(segmentEnd, 1);
         }
 
         // Renumber steps
@@ -247,11 +271,12 @@ export function AutopaymentHelper({
     };
 
     const steps = calculateAutopaymentSteps();
-    const isOnTrack = Math.abs(totalBalance) <= currentWeeklyRate * 0.5;
+    const isOnTrack = Math.abs(totalBalance) <= getWeeklyEquivalent(currentSchedule) * 0.5;
     const isAhead = totalBalance >= 0.01;
     const isBehind = totalBalance <= -0.01;
 
-    const formatThursday = (date: Date) => format(date, "EEE d MMM yyyy");
+    const currentRules = getWeekRulesOn(weekRules, new Date());
+    const formatDueDate = (date: Date) => format(date, "EEE d MMM yyyy");
 
     return (
         <div className="glass rounded-2xl overflow-hidden card-hover animate-fade-in">
@@ -300,7 +325,7 @@ export function AutopaymentHelper({
                                 </span>
                             </p>
                             <p className="text-slate-400 text-sm mt-1">
-                                Weekly rate: <span className="font-mono">${formatMoney(currentWeeklyRate)}</span>
+                                Rate: <span className="font-mono">{formatScheduleRate(currentSchedule)}</span>
                                 {scheduleEndDate && (
                                     <> • Ends: {format(scheduleEndDate, "d MMM yyyy")}</>
                                 )}
@@ -312,7 +337,7 @@ export function AutopaymentHelper({
                             <div className="flex items-center gap-3">
                                 <span className="text-sm text-slate-400 whitespace-nowrap">
                                     {spreadCatchup 
-                                        ? (isBehind ? "Spread over 8 weeks" : "Use credit gradually") 
+                                        ? (isBehind ? `Spread over ${CATCHUP_PAYMENTS} ${CADENCE_PERIODS[currentSchedule.cadence]}s` : "Use credit gradually") 
                                         : (isBehind ? "Pay balance now" : "Keep paying normal")
                                     }
                                 </span>
@@ -370,7 +395,7 @@ export function AutopaymentHelper({
                                         }`}>
                                             ${formatMoney(step.amount)}
                                             <span className="text-xs text-slate-500 font-normal ml-2">
-                                                {step.weeksCount === 1 ? "one-time" : "/week"}
+                                                {step.paymentsCount === 1 ? "one-time" : `/${CADENCE_PERIODS[step.cadence]}`}
                                             </span>
                                         </p>
                                     </div>
@@ -391,22 +416,19 @@ export function AutopaymentHelper({
                                     <div className="flex flex-wrap gap-x-4 gap-y-1">
                                         <span>
                                             <span className="text-slate-500">Start: </span>
-                                            <span className="text-slate-300">{formatThursday(step.startDate)}</span>
+                                            <span className="text-slate-300">{formatDueDate(step.startDate)}</span>
                                         </span>
-                                        {step.weeksCount > 1 && (
+                                        {step.paymentsCount > 1 && (
                                             <span>
                                                 <span className="text-slate-500">End: </span>
-                                                <span className="text-slate-300">{formatThursday(step.endDate)}</span>
+                                                <span className="text-slate-300">{formatDueDate(step.endDate)}</span>
                                             </span>
                                         )}
                                     </div>
                                     <div>
                                         <span className="text-slate-500">Frequency: </span>
                                         <span className="text-slate-300">
-                                            {step.weeksCount === 1 
-                                                ? "One-time payment" 
-                                                : `Weekly recurring (${step.weeksCount} weeks)`
-                                            }
+                                            {describeFrequency(step)}
                                         </span>
                                     </div>
                                 </div>
@@ -429,7 +451,12 @@ export function AutopaymentHelper({
                     <div className="flex items-start gap-2">
                         <CheckCircle className="w-4 h-4 text-emerald-400 mt-0.5 shrink-0" />
                         <p className="text-xs text-slate-400">
-                            <strong className="text-slate-300">Tip:</strong> Set payments to process on <strong className="text-slate-300">Thursday</strong> (before Friday rent payout).
+                            <strong className="text-slate-300">Tip:</strong>{" "}
+                            {currentSchedule.cadence === "weekly" ? (
+                                <>Set payments to process on <strong className="text-slate-300">{WEEKDAY_NAMES[currentRules.dueDay]}</strong> (before {WEEKDAY_NAMES[currentRules.payoutDay]} rent payout).</>
+                            ) : (
+                                <>Set payments to process on the start dates above, then {CADENCE_LABELS[currentSchedule.cadence].toLowerCase()} after that.</>
+                            )}
                         </p>
                     </div>
                 </div>
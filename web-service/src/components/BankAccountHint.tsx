@@ -0,0 +1,25 @@
+"use client";
+
+import { formatNzBankAccount, getNzBankName, isValidNzBankAccount, parseNzBankAccount } from "@/lib/nz-bank-account";
+
+/**
+ * Live feedback under a bank account input: the bank and standard format, or what's wrong with it
+ */
+export function BankAccountHint({ value }: { value: string }) {
+    if (!value.trim()) return null;
+
+    const account = parseNzBankAccount(value);
+    if (!account) {
+        return <p className="text-xs text-amber-400 mt-1">Enter as bank-branch-account-suffix, e.g. 12-3456-7890123-00</p>;
+    }
+
+    if (!isValidNzBankAccount(account)) {
+        return <p className="text-xs text-rose-400 mt-1">{formatNzBankAccount(account)} isn&apos;t a valid account number - check for typos</p>;
+    }
+
+    return (
+        <p className="text-xs text-emerald-400 mt-1">
+            {getNzBankName(account) ?? `Bank ${account.bank}`} · {formatNzBankAccount(account)}
+        </p>
+    );
+}
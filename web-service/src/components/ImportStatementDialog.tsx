@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { Upload, X, Loader2, FileText, Check } from "lucide-react";
+import { importStatementAction } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+
+interface ImportStatementDialogProps {
+    bankAccounts: Array<{ id: string; label: string }>;
+}
+
+interface ImportSummary {
+    parsed: number;
+    imported: number;
+    duplicates: number;
+}
+
+export function ImportStatementDialog({ bankAccounts }: ImportStatementDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [summary, setSummary] = useState<ImportSummary | null>(null);
+    const [bankAccountId, setBankAccountId] = useState(bankAccounts[0]?.id ?? "new");
+    const router = useRouter();
+
+    const handleClose = () => {
+        setOpen(false);
+        setError(null);
+        setSummary(null);
+    };
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        setSummary(null);
+
+        const formData = new FormData(e.currentTarget);
+        const result = await importStatementAction(formData);
+
+        if ("error" in result) {
+            setError(result.error ?? "Failed to import statement");
+        } else {
+            setSummary(result);
+            router.refresh();
+        }
+        setLoading(false);
+    };
+
+    const dialog = open ? (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="glass rounded-2xl w-full max-w-md p-6 animate-in fade-in zoom-in-95 duration-200">
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-bold">Import Statement</h2>
+                    <button
+                        onClick={handleClose}
+                        className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {/* File */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Statement File *
+                        </label>
+                        <div className="relative">
+                            <FileText className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                            <input
+                                type="file"
+                                name="file"
+                                required
+                                accept=".csv,.ofx,.qfx,.qif"
+                                className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors text-sm file:mr-3 file:px-3 file:py-1 file:rounded-lg file:border-0 file:bg-slate-600 file:text-slate-200"
+                            />
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">
+                            CSV export from ANZ, ASB, BNZ, Kiwibank or Westpac, or an OFX/QIF file
+                        </p>
+                    </div>
+
+                    {/* Account */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Bank Account
+                        </label>
+                        <select
+                            name="bankAccountId"
+                            value={bankAccountId}
+                            onChange={(e) => setBankAccountId(e.target.value)}
+                            className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                        >
+                            {bankAccounts.map((account) => (
+                                <option key={account.id} value={account.id}>
+                                    {account.label}
+                                </option>
+                            ))}
+                            <option value="new">New account (statement import only)</option>
+                        </select>
+                    </div>
+
+                    {bankAccountId === "new" && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-2">
+                                    Label *
+                                </label>
+                                <input
+                                    type="text"
+                                    name="label"
+                                    required
+                                    placeholder="Old flat account"
+                                    className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-2">
+                                    Role
+                                </label>
+                                <select
+                                    name="role"
+                                    defaultValue="rent"
+                                    className="w-full px-4 py-3 rounded-xl bg-slate-700/50 border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-colors"
+                                >
+                                    <option value="rent">Rent</option>
+                                    <option value="bills">Bills</option>
+                                    <option value="savings">Savings</option>
+                                </select>
+                            </div>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="p-3 rounded-lg bg-red-500/20 border border-red-500/50 text-red-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {summary && (
+                        <div className="p-3 rounded-lg bg-emerald-500/20 border border-emerald-500/50 text-emerald-400 text-sm flex items-start gap-2">
+                            <Check className="w-4 h-4 mt-0.5 shrink-0" />
+                            <span>
+                                Imported {summary.imported} of {summary.parsed} transactions
+                                {summary.duplicates > 0 && ` (${summary.duplicates} already recorded)`}
+                            </span>
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={handleClose}
+                            className="flex-1 px-4 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 transition-colors font-medium"
+                        >
+                            {summary ? "Done" : "Cancel"}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="flex-1 px-4 py-3 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center gap-2"
+                        >
+                            {loading ? (
+                                <>
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                    Importing...
+                                </>
+                            ) : (
+                                <>
+                                    <Upload className="w-4 h-4" />
+                                    Import
+                                </>
+                            )}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    ) : null;
+
+    return (
+        <>
+            <button
+                onClick={() => setOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-400 hover:text-white transition-all duration-200 btn-press"
+                title="Import a bank statement file"
+            >
+                <Upload className="w-4 h-4" />
+                <span className="hidden sm:inline">Import</span>
+            </button>
+            {typeof document !== "undefined" && createPortal(dialog, document.body)}
+        </>
+    );
+}
@@ -12,11 +12,13 @@ import {
     ReferenceArea,
     Legend,
 } from "recharts";
-import { format, parseISO } from "date-fns";
+import { parseISO } from "date-fns";
 import type { FlatmateBalance } from "@/lib/calculations";
+import { formatDate } from "@/lib/timezone";
 
 interface PaymentHistoryChartProps {
     balance: FlatmateBalance;
+    timeZone: string;
 }
 
 interface ChartDataPoint {
@@ -25,11 +27,15 @@ interface ChartDataPoint {
     cumulativeDue: number;
     cumulativePaid: number;
     weekDue?: number;
-    isThursday?: boolean;
+    isDueDate?: boolean;
     transactions?: Array<{
         description: string;
         amount: number;
     }>;
+    adjustments?: Array<{
+        reason: string;
+        amount: number; // Positive = credit, negative = charge
+    }>;
 }
 
 function formatCurrency(amount: number): string {
@@ -89,7 +95,17 @@ function CustomTooltip({
                     ))}
                 </div>
             )}
-            {data.isThursday && data.weekDue && (
+            {data.adjustments && data.adjustments.length > 0 && (
+                <div className="border-t border-slate-700 mt-2 pt-2">
+                    <p className="text-xs text-slate-500 mb-1">Adjustments:</p>
+                    {data.adjustments.map((adjustment, i) => (
+                        <div key={i} className="text-xs text-violet-300 truncate max-w-50">
+                            {adjustment.amount >= 0 ? "+" : "-"}{formatCurrency(Math.abs(adjustment.amount))} - {adjustment.reason}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {data.isDueDate && data.weekDue && (
                 <div className="border-t border-slate-700 mt-2 pt-2">
                     <p className="text-xs text-amber-400">
                         Weekly payment due: {formatCurrency(data.weekDue)}
@@ -100,7 +116,7 @@ function CustomTooltip({
     );
 }
 
-export function PaymentHistoryChart({ balance }: PaymentHistoryChartProps) {
+export function PaymentHistoryChart({ balance, timeZone }: PaymentHistoryChartProps) {
     const [refAreaLeft, setRefAreaLeft] = useState<string | null>(null);
     const [refAreaRight, setRefAreaRight] = useState<string | null>(null);
     const [isSelecting, setIsSelecting] = useState(false);
@@ -112,7 +128,7 @@ export function PaymentHistoryChart({ balance }: PaymentHistoryChartProps) {
         let cumulativePaid = 0;
 
         // Build chart data week by week using the weekly breakdown
-        // This ensures everything is rounded to weeks (Thursday due dates)
+        // This ensures everything is rounded to weeks (on their due dates)
         for (const week of balance.weeklyBreakdown) {
             // Get only rent payment transactions for this week
             const rentPayments = week.paymentTransactions.filter(
@@ -120,21 +136,28 @@ export function PaymentHistoryChart({ balance }: PaymentHistoryChartProps) {
             );
             const weekPaid = rentPayments.reduce((sum, tx) => sum + tx.amount, 0);
 
-            // Add the due amount and payments for this week
-            cumulativeDue += week.amountDue;
-            cumulativePaid += weekPaid;
+            // Add the due amount and payments for this week. Charges count as due and credits as paid,
+            // so the gap between the lines stays the balance.
+            const weekCharges = week.adjustments.filter((a) => a.amount < 0).reduce((sum, a) => sum - a.amount, 0);
+            const weekCredits = week.adjustments.filter((a) => a.amount > 0).reduce((sum, a) => sum + a.amount, 0);
+            cumulativeDue += week.amountDue + weekCharges;
+            cumulativePaid += weekPaid + weekCredits;
 
             dataPoints.push({
                 date: week.dueDate.toISOString(),
-                dateLabel: format(week.dueDate, "d MMM yyyy"),
+                dateLabel: formatDate(week.dueDate, timeZone, "d MMM yyyy"),
                 cumulativeDue,
                 cumulativePaid,
                 weekDue: week.amountDue,
-                isThursday: true,
+                isDueDate: true,
                 transactions: rentPayments.map((tx) => ({
                     description: tx.description,
                     amount: tx.amount,
                 })),
+                adjustments: week.adjustments.map((a) => ({
+                    reason: a.reason,
+                    amount: a.amount,
+                })),
             });
         }
 
@@ -144,11 +167,11 @@ export function PaymentHistoryChart({ balance }: PaymentHistoryChartProps) {
             const lastPoint = dataPoints[dataPoints.length - 1];
             const lastDate = new Date(lastPoint.date);
             
-            // Only add "now" point if it's after the last Thursday
+            // Only add "now" point if it's after the last due date
             if (now > lastDate) {
                 dataPoints.push({
                     date: now.toISOString(),
-                    dateLabel: format(now, "d MMM yyyy"),
+                    dateLabel: formatDate(now, timeZone, "d MMM yyyy"),
                     cumulativeDue,
                     cumulativePaid,
                 });
@@ -156,7 +179,7 @@ export function PaymentHistoryChart({ balance }: PaymentHistoryChartProps) {
         }
 
         return dataPoints;
-    }, [balance]);
+    }, [balance, timeZone]);
 
     // Get displayed data based on zoom
     const displayedData = useMemo(() => {
@@ -256,7 +279,7 @@ export function PaymentHistoryChart({ balance }: PaymentHistoryChartProps) {
                                 dataKey="date"
                                 tickFormatter={(value) => {
                                     try {
-                                        return format(parseISO(value), "d MMM");
+                                        return formatDate(parseISO(value), timeZone, "d MMM");
                                     } catch {
                                         return "";
                                     }
@@ -315,7 +338,7 @@ export function PaymentHistoryChart({ balance }: PaymentHistoryChartProps) {
             {/* Legend explanation */}
             <div className="px-4 pb-4 text-xs text-slate-500">
                 <span className="inline-block w-3 h-3 bg-rose-500/50 rounded mr-1" />
-                Amount due increases each Thursday
+                Amount due increases on each due date
                 <span className="mx-3">•</span>
                 <span className="inline-block w-3 h-3 bg-emerald-500/50 rounded mr-1" />
                 Amount paid accumulates with each deposit
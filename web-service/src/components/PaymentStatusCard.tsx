@@ -4,6 +4,7 @@ import { useState } from "react";
 import { format } from "date-fns";
 import { ChevronDown, ChevronUp, TrendingUp, TrendingDown, CheckCircle2, AlertCircle, Clock } from "lucide-react";
 import type { FlatmateBalance, WeeklyObligation } from "@/lib/calculations";
+import { CADENCE_PERIODS } from "@/lib/schedule-cadence";
 
 interface PaymentStatusCardProps {
     balance: FlatmateBalance;
@@ -79,8 +80,8 @@ export function PaymentStatusCard({ balance, isCurrentUser, isSelected, onSelect
                             )}
                         </h3>
                         <p className="text-sm text-slate-400 mt-1">
-                            {balance.currentWeeklyRate
-                                ? `${formatCurrency(balance.currentWeeklyRate)}/week`
+                            {balance.currentSchedule
+                                ? `${formatCurrency(balance.currentSchedule.amount)}/${CADENCE_PERIODS[balance.currentSchedule.cadence]}`
                                 : "No schedule set"}
                         </p>
                     </div>
@@ -105,6 +106,11 @@ export function PaymentStatusCard({ balance, isCurrentUser, isSelected, onSelect
                     </p>
                 </div>
             </div>
+            {balance.totalAdjustments !== 0 && (
+                <p className="px-3 py-1.5 border-t border-slate-700/50 text-center text-xs text-violet-400">
+                    Balance includes {balance.totalAdjustments > 0 ? "+" : "-"}{formatCurrency(Math.abs(balance.totalAdjustments))} of adjustments
+                </p>
+            )}
 
 
         </div>
@@ -6,22 +6,68 @@ import { RefreshCw } from "lucide-react";
 import { TransactionDetailModal } from "./TransactionDetailModal";
 import { TransactionRow, type TransactionRowData } from "./TransactionRow";
 import type { Transaction as TransactionType, User } from "@/lib/db/schema";
+import type { LiveTransaction } from "@/lib/sync-events";
+import { useSyncEvents } from "@/lib/use-sync-events";
+
+type RecentTransaction = TransactionType & { matchedUserName?: string | null; matchedLandlordName?: string | null };
 
 interface RecentTransactionsProps {
-    transactions: (TransactionType & { matchedUserName?: string | null; matchedLandlordName?: string | null })[];
+    transactions: RecentTransaction[];
+    pendingTransactions?: TransactionRowData[]; // Shown above the settled ones, not clickable
     emptyMessage?: string;
     emptySubMessage?: string;
     flatmates?: Pick<User, "id" | "name" | "email">[];
+    timeZone: string;
+    liveLimit?: number; // When set, transactions synced while the page is open are added live, keeping this many
+}
+
+// Sync events arrive as JSON, so their dates are strings
+function reviveLiveTransaction(tx: LiveTransaction): RecentTransaction {
+    return {
+        ...tx,
+        date: new Date(tx.date),
+        createdAt: tx.createdAt ? new Date(tx.createdAt) : null,
+        deletedAt: null,
+    };
 }
 
 export function RecentTransactions({ 
     transactions, 
+    pendingTransactions = [],
     emptyMessage = "No transactions yet",
     emptySubMessage = "Sync to fetch transactions",
-    flatmates = []
+    flatmates = [],
+    timeZone,
+    liveLimit,
 }: RecentTransactionsProps) {
     const router = useRouter();
-    const [selectedTransaction, setSelectedTransaction] = useState<(TransactionType & { matchedUserName?: string | null; matchedLandlordName?: string | null }) | null>(null);
+    const [selectedTransaction, setSelectedTransaction] = useState<RecentTransaction | null>(null);
+    const [liveTransactions, setLiveTransactions] = useState<RecentTransaction[]>([]);
+    const [liveMatches, setLiveMatches] = useState<Record<string, Partial<RecentTransaction>>>({});
+
+    useSyncEvents((message) => {
+        if (message.type === "transactions") {
+            setLiveTransactions((previous) => [...message.transactions.map(reviveLiveTransaction), ...previous]);
+        } else if (message.type === "match") {
+            setLiveMatches((previous) => ({
+                ...previous,
+                [message.transactionId]: {
+                    matchType: message.matchType,
+                    matchedUserName: message.matchedUserName,
+                    matchedLandlordName: message.matchedLandlordName,
+                },
+            }));
+        }
+    }, liveLimit !== undefined);
+
+    // Rows from the server win over live copies of the same transaction once the page refreshes
+    const serverIds = new Set(transactions.map((tx) => tx.id));
+    const shownTransactions = liveTransactions.length === 0
+        ? transactions
+        : [...liveTransactions.filter((tx) => !serverIds.has(tx.id)), ...transactions]
+            .map((tx) => (liveMatches[tx.id] ? { ...tx, ...liveMatches[tx.id] } : tx))
+            .sort((a, b) => b.date.getTime() - a.date.getTime())
+            .slice(0, liveLimit);
 
     return (
         <>
@@ -36,7 +82,10 @@ export function RecentTransactions({
                         </tr>
                     </thead>
                     <tbody>
-                        {transactions.length === 0 ? (
+                        {pendingTransactions.map((tx) => (
+                            <TransactionRow key={tx.id} transaction={{ ...tx, isPending: true }} timeZone={timeZone} />
+                        ))}
+                        {shownTransactions.length === 0 && pendingTransactions.length === 0 ? (
                             <tr>
                                 <td colSpan={4} className="text-center py-12 text-slate-500">
                                     <div className="flex flex-col items-center gap-2">
@@ -49,10 +98,11 @@ export function RecentTransactions({
                                 </td>
                             </tr>
                         ) : (
-                            transactions.map((tx) => (
+                            shownTransactions.map((tx) => (
                                 <TransactionRow
                                     key={tx.id}
                                     transaction={tx as TransactionRowData}
+                                    timeZone={timeZone}
                                     onClick={() => setSelectedTransaction(tx)}
                                 />
                             ))
@@ -66,6 +116,7 @@ export function RecentTransactions({
                     transaction={selectedTransaction}
                     onClose={() => setSelectedTransaction(null)}
                     flatmates={flatmates}
+                    timeZone={timeZone}
                     onUpdate={() => {
                         setSelectedTransaction(null);
                         router.refresh();
@@ -14,6 +14,7 @@ import {
     X,
     Wallet,
     Receipt,
+    Printer,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -31,6 +32,7 @@ const navItems: NavItem[] = [
     { href: "/expenses", label: "Expenses", icon: <Receipt className="w-5 h-5" /> },
     { href: "/schedule", label: "Payment Schedule", icon: <Calendar className="w-5 h-5" /> },
     { href: "/users", label: "Flatmates", icon: <Users className="w-5 h-5" />, adminOnly: true },
+    { href: "/devices", label: "Devices", icon: <Printer className="w-5 h-5" />, adminOnly: true },
     { href: "/settings", label: "Settings", icon: <Settings className="w-5 h-5" /> },
 ];
 
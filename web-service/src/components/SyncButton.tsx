@@ -1,19 +1,72 @@
 "use client";
 
 import { useState, useTransition } from "react";
-import { RefreshCw, Check, AlertCircle, CloudDownload } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { RefreshCw, Check, AlertCircle, CloudDownload, Loader2 } from "lucide-react";
 import { syncTransactionsAction, triggerRefreshAction } from "@/lib/actions";
+import type { SyncProgress } from "@/lib/sync-lock";
+import { useSyncEvents } from "@/lib/use-sync-events";
 
 interface SyncButtonProps {
     isAdmin: boolean;
     lastSyncTime: Date | null;
     canRefresh: boolean;
     nextRefreshAt: Date | null;
+    syncProgress: SyncProgress | null; // A sync already running when the page was rendered
 }
 
-export function SyncButton({ isAdmin, lastSyncTime, canRefresh, nextRefreshAt }: SyncButtonProps) {
+function describeProgress(progress: SyncProgress): string {
+    switch (progress.phase) {
+        case "starting":
+            return "Starting sync...";
+        case "transactions":
+            return progress.total > 1
+                ? `Syncing ${progress.detail} (${progress.done + 1}/${progress.total})`
+                : `Syncing ${progress.detail}`;
+        case "matching":
+            return `Matching ${progress.done + 1} of ${progress.total} new`;
+        case "pending":
+            return "Checking pending transactions";
+    }
+}
+
+// Rough share of the whole sync: fetching ~half, matching most of the rest
+function getProgressPercent(progress: SyncProgress): number {
+    const fraction = progress.total > 0 ? progress.done / progress.total : 0;
+    switch (progress.phase) {
+        case "starting":
+            return 2;
+        case "transactions":
+            return 5 + fraction * 45;
+        case "matching":
+            return 50 + fraction * 40;
+        case "pending":
+            return 92;
+    }
+}
+
+export function SyncButton({ isAdmin, lastSyncTime, canRefresh, nextRefreshAt, syncProgress }: SyncButtonProps) {
     const [isPending, startTransition] = useTransition();
     const [result, setResult] = useState<{ success?: boolean; message?: string } | null>(null);
+    const [progress, setProgress] = useState<SyncProgress | null>(syncProgress);
+    const router = useRouter();
+    const isSyncing = isPending || progress !== null;
+
+    useSyncEvents((message) => {
+        if (message.type === "snapshot") {
+            setProgress(message.progress);
+        } else if (message.type === "started") {
+            setProgress({ phase: "starting", detail: null, done: 0, total: 0, startedAt: message.at });
+        } else if (message.type === "progress") {
+            setProgress(message.progress);
+        } else if (message.type === "finished") {
+            setProgress(null);
+            // A sync started elsewhere (cron, webhook, another flatmate) has finished: show what it found
+            if (!isPending) {
+                router.refresh();
+            }
+        }
+    });
 
     const handleSync = () => {
         console.log("[SyncButton] handleSync clicked");
@@ -24,10 +77,13 @@ export function SyncButton({ isAdmin, lastSyncTime, canRefresh, nextRefreshAt }:
             console.log("[SyncButton] Got response:", res);
             if ("error" in res) {
                 setResult({ success: false, message: res.error as string });
+            } else if (res.alreadyRunning) {
+                setProgress(res.alreadyRunning);
+                setResult({ success: false, message: "A sync is already in progress" });
             } else {
                 setResult({
                     success: true,
-                    message: `Synced: ${res.inserted} new, ${res.updated} updated`,
+                    message: `Synced: ${res.inserted} new, ${res.updated} updated, ${res.pending} pending`,
                 });
             }
             setTimeout(() => setResult(null), 3000);
@@ -42,6 +98,9 @@ export function SyncButton({ isAdmin, lastSyncTime, canRefresh, nextRefreshAt }:
                 setResult({ success: false, message: res.error as string });
             } else if (!res.success) {
                 setResult({ success: false, message: res.message });
+            } else if ("sync" in res && res.sync.alreadyRunning) {
+                setProgress(res.sync.alreadyRunning);
+                setResult({ success: true, message: "Refresh triggered; a sync is already in progress" });
             } else {
                 setResult({ success: true, message: "Refresh triggered & synced!" });
             }
@@ -51,7 +110,22 @@ export function SyncButton({ isAdmin, lastSyncTime, canRefresh, nextRefreshAt }:
 
     return (
         <div className="flex items-center gap-2">
-            {result && (
+            {progress && (
+                <div className="flex flex-col gap-1 px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-300 min-w-48">
+                    <span className="flex items-center gap-1.5">
+                        <Loader2 className="w-3.5 h-3.5 animate-spin text-emerald-400" />
+                        {describeProgress(progress)}
+                    </span>
+                    <div className="h-1 rounded-full bg-slate-700 overflow-hidden">
+                        <div
+                            className="h-full bg-emerald-500 transition-all duration-500"
+                            style={{ width: `${getProgressPercent(progress)}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {result && !progress && (
                 <div
                     className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm ${
                         result.success
@@ -70,18 +144,18 @@ export function SyncButton({ isAdmin, lastSyncTime, canRefresh, nextRefreshAt }:
 
             <button
                 onClick={handleSync}
-                disabled={isPending}
+                disabled={isSyncing}
                 className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 btn-press"
                 title={lastSyncTime ? `Last synced: ${lastSyncTime.toLocaleString()}` : "Never synced"}
             >
-                <RefreshCw className={`w-4 h-4 transition-transform duration-300 ${isPending ? "animate-spin" : ""}`} />
+                <RefreshCw className="w-4 h-4" />
                 <span className="hidden sm:inline">Sync</span>
             </button>
 
             {isAdmin && (
                 <button
                     onClick={handleRefresh}
-                    disabled={isPending || !canRefresh}
+                    disabled={isSyncing || !canRefresh}
                     className="flex items-center gap-2 px-4 py-2 rounded-xl bg-gradient-to-r from-emerald-600 to-teal-600 text-white font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 btn-press hover:shadow-lg hover:shadow-emerald-500/20"
                     title={
                         canRefresh
@@ -89,7 +163,7 @@ export function SyncButton({ isAdmin, lastSyncTime, canRefresh, nextRefreshAt }:
                             : `Next refresh at ${nextRefreshAt?.toLocaleTimeString()}`
                     }
                 >
-                    <CloudDownload className={`w-4 h-4 transition-transform duration-300 ${isPending ? "animate-pulse" : ""}`} />
+                    <CloudDownload className="w-4 h-4" />
                     <span className="hidden sm:inline">Refresh</span>
                 </button>
             )}
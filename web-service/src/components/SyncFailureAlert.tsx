@@ -0,0 +1,32 @@
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { SyncFailureStreak } from "@/lib/sync-history";
+
+interface SyncFailureAlertProps {
+    streak: SyncFailureStreak;
+}
+
+export function SyncFailureAlert({ streak }: SyncFailureAlertProps) {
+    return (
+        <div className="mb-6 p-4 rounded-xl bg-red-500/10 border border-red-500/40 flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+            <div className="min-w-0 text-sm">
+                <p className="font-medium text-red-300">
+                    The last {streak.count} transaction syncs have failed
+                    {streak.since && ` (since ${formatDistanceToNow(streak.since, { addSuffix: true })})`}
+                </p>
+                {streak.lastError && (
+                    <p className="text-red-400/80 mt-1 break-all">{streak.lastError}</p>
+                )}
+                <p className="text-slate-400 mt-1">
+                    Balances may be out of date. Check the Akahu tokens and the{" "}
+                    <Link href="/settings" className="underline hover:text-slate-200">
+                        sync history
+                    </Link>
+                    .
+                </p>
+            </div>
+        </div>
+    );
+}
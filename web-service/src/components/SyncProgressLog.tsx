@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Activity, X } from "lucide-react";
+import { format } from "date-fns";
+import { useSyncEvents } from "@/lib/use-sync-events";
+import type { SyncStreamMessage } from "@/lib/sync-events";
+
+const MAX_LOG_ENTRIES = 50;
+
+interface LogEntry {
+    id: number;
+    at: Date;
+    text: string;
+    tone: "info" | "success" | "error";
+}
+
+function describeMessage(message: SyncStreamMessage): Omit<LogEntry, "id" | "at"> | null {
+    switch (message.type) {
+        case "snapshot":
+            return message.progress ? { text: "Sync in progress...", tone: "info" } : null;
+        case "started":
+            return { text: `Sync started (${message.trigger})`, tone: "info" };
+        case "page":
+            return { text: `${message.account}: fetched ${message.fetched} transactions`, tone: "info" };
+        case "rows":
+            return {
+                text: `${message.account}: ${message.inserted} new, ${message.updated} updated, ${message.deleted} removed`,
+                tone: "info",
+            };
+        case "match": {
+            const name = message.matchedUserName ?? message.matchedLandlordName;
+            return name ? { text: `Matched "${message.description}" to ${name}`, tone: "success" } : null;
+        }
+        case "error":
+            return { text: message.message, tone: "error" };
+        case "finished": {
+            const { inserted, updated, pending, errors } = message.result;
+            return {
+                text: `Sync finished: ${inserted} new, ${updated} updated, ${pending} pending` +
+                    (errors.length > 0 ? ` (${errors.length} errors)` : ""),
+                tone: errors.length > 0 ? "error" : "success",
+            };
+        }
+        default:
+            return null;
+    }
+}
+
+const TONE_CLASSES: Record<LogEntry["tone"], string> = {
+    info: "text-slate-300",
+    success: "text-emerald-400",
+    error: "text-rose-400",
+};
+
+/**
+ * A live log of the running sync, streamed from /api/sync/events. Hidden until a sync starts.
+ */
+export function SyncProgressLog() {
+    const [entries, setEntries] = useState<LogEntry[]>([]);
+    const [running, setRunning] = useState(false);
+
+    useSyncEvents((message) => {
+        if (message.type === "snapshot") {
+            setRunning(message.progress !== null);
+        } else if (message.type === "started") {
+            setRunning(true);
+            setEntries([]); // Each sync gets a fresh log
+        } else if (message.type === "finished") {
+            setRunning(false);
+        }
+
+        const entry = describeMessage(message);
+        if (entry) {
+            setEntries((previous) => [
+                ...previous.slice(-(MAX_LOG_ENTRIES - 1)),
+                { ...entry, id: (previous.at(-1)?.id ?? 0) + 1, at: new Date(message.at) },
+            ]);
+        }
+    });
+
+    if (entries.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="glass rounded-2xl overflow-hidden mb-8 animate-fade-in">
+            <div className="px-5 py-3 border-b border-slate-700/50 flex items-center justify-between">
+                <h2 className="font-semibold flex items-center gap-2">
+                    <Activity className={`w-4 h-4 text-emerald-400 ${running ? "animate-pulse" : ""}`} />
+                    {running ? "Syncing..." : "Last sync"}
+                </h2>
+                {!running && (
+                    <button
+                        onClick={() => setEntries([])}
+                        className="p-1.5 rounded-lg hover:bg-slate-700 transition-colors"
+                        title="Dismiss"
+                    >
+                        <X className="w-4 h-4 text-slate-400" />
+                    </button>
+                )}
+            </div>
+            <ol className="max-h-48 overflow-y-auto px-5 py-3 space-y-1 font-mono text-xs">
+                {[...entries].reverse().map((entry) => (
+                    <li key={entry.id} className={TONE_CLASSES[entry.tone]}>
+                        <span className="text-slate-500 mr-2">{format(entry.at, "HH:mm:ss")}</span>
+                        {entry.text}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
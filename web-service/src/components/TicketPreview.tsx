@@ -0,0 +1,27 @@
+"use client";
+
+import type { Ticket } from "@/lib/ticket";
+import { renderTicketText } from "@/lib/ticket-render";
+
+interface TicketPreviewProps {
+    ticket: Ticket;
+    width: number; // Characters per line
+}
+
+/**
+ * Shows a ticket the way it will come out of the receipt printer.
+ */
+export function TicketPreview({ ticket, width }: TicketPreviewProps) {
+    const text = renderTicketText(ticket, width);
+
+    return (
+        <div className="flex justify-center">
+            <pre
+                className="px-4 py-5 rounded-lg bg-slate-100 text-slate-900 font-mono text-xs leading-5 shadow-lg overflow-x-auto"
+                style={{ width: `calc(${width}ch + 2rem)` }}
+            >
+                {text}
+            </pre>
+        </div>
+    );
+}
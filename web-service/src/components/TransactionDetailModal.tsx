@@ -4,10 +4,12 @@ import { useState, useTransition } from "react";
 import { createPortal } from "react-dom";
 import { X, Calendar, DollarSign, Tag, User, Building2, FileText, Hash, CreditCard, Edit2, Check, Loader2 } from "lucide-react";
 import type { Transaction as TransactionType, User as UserType } from "@/lib/db/schema";
-import { formatInTimeZone } from "date-fns-tz";
 import Image from "next/image";
 import { updateTransactionMatchAction } from "@/lib/actions";
 import { formatMoney } from "@/lib/utils";
+import { formatDate, formatTimeWithZone } from "@/lib/timezone";
+import { formatNzBankAccount, getNzBankName, parseNzBankAccount } from "@/lib/nz-bank-account";
+import { TransactionSplitEditor } from "./TransactionSplitEditor";
 
 interface RawTransactionData {
     particulars?: string;
@@ -28,6 +30,7 @@ interface TransactionDetailModalProps {
     transaction: TransactionType & { matchedUserName?: string | null; matchedLandlordName?: string | null };
     onClose: () => void;
     flatmates?: Pick<UserType, "id" | "name" | "email">[];
+    timeZone: string;
     onUpdate?: () => void;
 }
 
@@ -38,7 +41,7 @@ const MATCH_TYPES = [
     { value: "other", label: "Other" },
 ] as const;
 
-export function TransactionDetailModal({ transaction, onClose, flatmates = [], onUpdate }: TransactionDetailModalProps) {
+export function TransactionDetailModal({ transaction, onClose, flatmates = [], timeZone, onUpdate }: TransactionDetailModalProps) {
     const [isEditing, setIsEditing] = useState(false);
     const [selectedUserId, setSelectedUserId] = useState<string | null>(transaction.matchedUserId);
     const [selectedMatchType, setSelectedMatchType] = useState<string | null>(transaction.matchType);
@@ -52,6 +55,14 @@ export function TransactionDetailModal({ transaction, onClose, flatmates = [], o
         // Ignore parse errors
     }
 
+    // Show the other party's account in the standard format, with its bank
+    const describeAccount = (value: string) => {
+        const account = parseNzBankAccount(value);
+        if (!account) return value;
+        const bankName = getNzBankName(account);
+        return bankName ? `${formatNzBankAccount(account)} (${bankName})` : formatNzBankAccount(account);
+    };
+
     const handleSaveMatch = () => {
         startTransition(async () => {
             const result = await updateTransactionMatchAction(
@@ -110,10 +121,10 @@ export function TransactionDetailModal({ transaction, onClose, flatmates = [], o
                                 Date & Time
                             </div>
                             <p className="text-lg font-semibold">
-                                {formatInTimeZone(transaction.date, "Pacific/Auckland", "d MMM yyyy")}
+                                {formatDate(transaction.date, timeZone, "d MMM yyyy")}
                             </p>
                             <p className="text-sm text-slate-400">
-                                {formatInTimeZone(transaction.date, "Pacific/Auckland", "h:mm a 'NZDT'")}
+                                {formatTimeWithZone(transaction.date, timeZone)}
                             </p>
                         </div>
                     </div>
@@ -153,7 +164,7 @@ export function TransactionDetailModal({ transaction, onClose, flatmates = [], o
                                 )}
                                 {transaction.otherAccount && (
                                     <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-blue-500/20 text-blue-300 text-sm font-mono">
-                                        {transaction.otherAccount}
+                                        {describeAccount(transaction.otherAccount)}
                                     </span>
                                 )}
                             </div>
@@ -292,6 +303,18 @@ export function TransactionDetailModal({ transaction, onClose, flatmates = [], o
                         </div>
                     </div>
 
+                    {/* Split between flatmates / match types */}
+                    {!transaction.matchedLandlordId && (
+                        <TransactionSplitEditor
+                            transactionId={transaction.id}
+                            amount={transaction.amount}
+                            matchedUserId={transaction.matchedUserId}
+                            matchType={transaction.matchType}
+                            flatmates={flatmates}
+                            onUpdate={onUpdate}
+                        />
+                    )}
+
                     {/* Bank Details from raw data (check both root and meta) */}
                     {(() => {
                         const meta = rawData.meta ?? {};
@@ -330,7 +353,7 @@ export function TransactionDetailModal({ transaction, onClose, flatmates = [], o
                                     {otherAccount && (
                                         <div className="flex justify-between">
                                             <span className="text-slate-400">Other Account</span>
-                                            <span className="font-mono">{String(otherAccount)}</span>
+                                            <span className="font-mono">{describeAccount(String(otherAccount))}</span>
                                         </div>
                                     )}
                                 </div>
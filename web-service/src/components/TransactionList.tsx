@@ -3,42 +3,48 @@
 import { useState, useMemo, useCallback, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { Search, Filter, Download, ChevronDown, ChevronUp, X, RefreshCw, ArrowDownRight, ArrowUpRight, CreditCard } from "lucide-react";
-import { formatInTimeZone, toZonedTime } from "date-fns-tz";
-import { startOfDay, isSaturday, previousSaturday } from "date-fns";
+import { Search, Filter, Download, ChevronDown, ChevronUp, X, RefreshCw, ArrowDownRight, ArrowUpRight, CreditCard, Landmark } from "lucide-react";
 import { TransactionDetailModal } from "./TransactionDetailModal";
 import { isRentPayment, formatMoney } from "@/lib/utils";
-import type { Transaction as TransactionType, User, Landlord } from "@/lib/db/schema";
+import type { Transaction as TransactionType, PendingTransaction, User, Landlord, BankAccount } from "@/lib/db/schema";
+import { getBillingWeek, type WeekRulesPeriod } from "@/lib/week-rules";
+import { formatDate } from "@/lib/timezone";
 import Image from "next/image";
 
+type PendingListTransaction = Pick<
+    PendingTransaction,
+    "id" | "bankAccountId" | "date" | "amount" | "description" | "rawData" | "matchedUserId" | "matchedLandlordId" | "matchType"
+> & { matchedUserName?: string | null; matchedLandlordName?: string | null };
+
+// Fields the filters look at (pending transactions have no merchant or category)
+type FilterableTransaction = Pick<
+    TransactionType,
+    "bankAccountId" | "date" | "amount" | "description" | "rawData" | "matchedUserId" | "matchedLandlordId"
+> & { merchant?: string | null; category?: string | null };
+
 interface TransactionListProps {
     transactions: (TransactionType & { matchedUserName?: string | null; matchedLandlordName?: string | null })[];
+    pendingTransactions?: PendingListTransaction[]; // Listed above the settled transactions
     flatmates: Pick<User, "id" | "name" | "email">[];
     landlords?: Pick<Landlord, "id" | "name">[];
+    bankAccounts?: Pick<BankAccount, "id" | "label">[];
     analysisStartDate?: Date | null;
+    weekRules: WeekRulesPeriod[];
+    timeZone: string;
 }
 
-const TIMEZONE = "Pacific/Auckland";
 const ROW_HEIGHT = 72;
 
 type ListItem =
     | { type: "transaction"; tx: TransactionType & { matchedUserName?: string | null; matchedLandlordName?: string | null }; index: number }
+    | { type: "pending"; tx: PendingListTransaction }
+    | { type: "pending-header"; count: number }
     | { type: "week-header"; weekStart: Date }
     | { type: "analysis-boundary"; date: Date };
 
-function getWeekStartSaturday(date: Date): Date {
-    const zonedDate = toZonedTime(date, TIMEZONE);
-    const startOfDayZoned = startOfDay(zonedDate);
-    
-    if (isSaturday(zonedDate)) {
-        return startOfDayZoned;
-    }
-    return previousSaturday(startOfDayZoned);
-}
-
-function crossesWeekBoundary(date1: Date, date2: Date): Date | null {
-    const weekStart1 = getWeekStartSaturday(date1);
-    const weekStart2 = getWeekStartSaturday(date2);
+function crossesWeekBoundary(weekRules: WeekRulesPeriod[], timeZone: string, date1: Date, date2: Date): Date | null {
+    const weekStart1 = getBillingWeek(weekRules, date1, timeZone).weekStart;
+    const weekStart2 = getBillingWeek(weekRules, date2, timeZone).weekStart;
     
     if (weekStart1.getTime() !== weekStart2.getTime()) {
         return weekStart1.getTime() > weekStart2.getTime() ? weekStart1 : weekStart2;
@@ -59,10 +65,15 @@ function useIsDesktop() {
     return isDesktop;
 }
 
-export function TransactionList({ transactions, flatmates, landlords = [], analysisStartDate }: TransactionListProps) {
+export function TransactionList({ transactions, pendingTransactions = [], flatmates, landlords = [], bankAccounts = [], analysisStartDate, weekRules, timeZone }: TransactionListProps) {
     const router = useRouter();
     const parentRef = useRef<HTMLDivElement>(null);
     const isDesktop = useIsDesktop();
+    // Only label rows with their account when there's more than one
+    const accountLabels = useMemo(
+        () => new Map(bankAccounts.length > 1 ? bankAccounts.map((a) => [a.id, a.label]) : []),
+        [bankAccounts]
+    );
     const [selectedTransaction, setSelectedTransaction] = useState<(TransactionType & { matchedUserName?: string | null; matchedLandlordName?: string | null }) | null>(null);
 
     // Filters
@@ -72,81 +83,93 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
     const [dateTo, setDateTo] = useState("");
     const [selectedFlatmate, setSelectedFlatmate] = useState<string>("all");
     const [selectedLandlord, setSelectedLandlord] = useState<string>("all");
+    const [selectedAccount, setSelectedAccount] = useState<string>("all");
     const [amountMin, setAmountMin] = useState("");
     const [amountMax, setAmountMax] = useState("");
     const [amountType, setAmountType] = useState<"all" | "in" | "out">("all");
 
     // Filter transactions
-    const filteredTransactions = useMemo(() => {
-        return transactions.filter((tx) => {
-            if (searchQuery) {
-                const query = searchQuery.toLowerCase();
-
-                // Parse raw data to search meta fields
-                let rawData: { meta?: { particulars?: string; code?: string; reference?: string; other_account?: string }; particulars?: string; code?: string; reference?: string; other_account?: string } = {};
-                try {
-                    rawData = JSON.parse(tx.rawData);
-                } catch {
-                    // Ignore parse errors
-                }
-                const meta = rawData.meta ?? {};
-                const particulars = rawData.particulars || meta.particulars || "";
-                const code = rawData.code || meta.code || "";
-                const reference = rawData.reference || meta.reference || "";
-                const otherAccount = rawData.other_account || meta.other_account || "";
-
-                const matchesSearch =
-                    tx.description.toLowerCase().includes(query) ||
-                    tx.merchant?.toLowerCase().includes(query) ||
-                    tx.category?.toLowerCase().includes(query) ||
-                    particulars.toLowerCase().includes(query) ||
-                    code.toLowerCase().includes(query) ||
-                    reference.toLowerCase().includes(query) ||
-                    otherAccount.toLowerCase().includes(query);
-                if (!matchesSearch) return false;
+    const matchesFilters = useCallback((tx: FilterableTransaction) => {
+        if (searchQuery) {
+            const query = searchQuery.toLowerCase();
+
+            // Parse raw data to search meta fields
+            let rawData: { meta?: { particulars?: string; code?: string; reference?: string; other_account?: string }; particulars?: string; code?: string; reference?: string; other_account?: string } = {};
+            try {
+                rawData = JSON.parse(tx.rawData);
+            } catch {
+                // Ignore parse errors
             }
+            const meta = rawData.meta ?? {};
+            const particulars = rawData.particulars || meta.particulars || "";
+            const code = rawData.code || meta.code || "";
+            const reference = rawData.reference || meta.reference || "";
+            const otherAccount = rawData.other_account || meta.other_account || "";
+
+            const matchesSearch =
+                tx.description.toLowerCase().includes(query) ||
+                tx.merchant?.toLowerCase().includes(query) ||
+                tx.category?.toLowerCase().includes(query) ||
+                particulars.toLowerCase().includes(query) ||
+                code.toLowerCase().includes(query) ||
+                reference.toLowerCase().includes(query) ||
+                otherAccount.toLowerCase().includes(query);
+            if (!matchesSearch) return false;
+        }
 
-            if (dateFrom) {
-                const fromDate = new Date(dateFrom);
-                if (tx.date < fromDate) return false;
-            }
-            if (dateTo) {
-                const toDate = new Date(dateTo);
-                toDate.setHours(23, 59, 59, 999);
-                if (tx.date > toDate) return false;
-            }
+        if (dateFrom) {
+            const fromDate = new Date(dateFrom);
+            if (tx.date < fromDate) return false;
+        }
+        if (dateTo) {
+            const toDate = new Date(dateTo);
+            toDate.setHours(23, 59, 59, 999);
+            if (tx.date > toDate) return false;
+        }
 
-            if (selectedFlatmate !== "all") {
-                if (selectedFlatmate === "unmatched") {
-                    if (tx.matchedUserId) return false;
-                } else {
-                    if (tx.matchedUserId !== selectedFlatmate) return false;
-                }
+        if (selectedFlatmate !== "all") {
+            if (selectedFlatmate === "unmatched") {
+                if (tx.matchedUserId) return false;
+            } else {
+                if (tx.matchedUserId !== selectedFlatmate) return false;
             }
+        }
 
-            if (selectedLandlord !== "all") {
-                if (selectedLandlord === "landlord_any") {
-                    if (!tx.matchedLandlordId) return false;
-                } else {
-                    if (tx.matchedLandlordId !== selectedLandlord) return false;
-                }
+        if (selectedLandlord !== "all") {
+            if (selectedLandlord === "landlord_any") {
+                if (!tx.matchedLandlordId) return false;
+            } else {
+                if (tx.matchedLandlordId !== selectedLandlord) return false;
             }
+        }
+
+        if (selectedAccount !== "all" && tx.bankAccountId !== selectedAccount) return false;
 
-            if (amountType === "in" && tx.amount <= 0) return false;
-            if (amountType === "out" && tx.amount >= 0) return false;
+        if (amountType === "in" && tx.amount <= 0) return false;
+        if (amountType === "out" && tx.amount >= 0) return false;
 
-            const absAmount = Math.abs(tx.amount);
-            if (amountMin && absAmount < parseFloat(amountMin)) return false;
-            if (amountMax && absAmount > parseFloat(amountMax)) return false;
+        const absAmount = Math.abs(tx.amount);
+        if (amountMin && absAmount < parseFloat(amountMin)) return false;
+        if (amountMax && absAmount > parseFloat(amountMax)) return false;
 
-            return true;
-        });
-    }, [transactions, searchQuery, dateFrom, dateTo, selectedFlatmate, selectedLandlord, amountMin, amountMax, amountType]);
+        return true;
+    }, [searchQuery, dateFrom, dateTo, selectedFlatmate, selectedLandlord, selectedAccount, amountMin, amountMax, amountType]);
+
+    const filteredTransactions = useMemo(() => transactions.filter(matchesFilters), [transactions, matchesFilters]);
+    const filteredPending = useMemo(() => pendingTransactions.filter(matchesFilters), [pendingTransactions, matchesFilters]);
 
     // Build list items with week headers and analysis boundary inserted
     const listItems = useMemo((): ListItem[] => {
         const items: ListItem[] = [];
         let analysisLineInserted = false;
+
+        // Pending transactions are the newest, so they go first
+        if (filteredPending.length > 0) {
+            items.push({ type: "pending-header", count: filteredPending.length });
+            for (const tx of filteredPending) {
+                items.push({ type: "pending", tx });
+            }
+        }
         
         for (let i = 0; i < filteredTransactions.length; i++) {
             const tx = filteredTransactions[i];
@@ -160,7 +183,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                 }
             }
             
-            const weekBoundary = prevTx ? crossesWeekBoundary(prevTx.date, tx.date) : null;
+            const weekBoundary = prevTx ? crossesWeekBoundary(weekRules, timeZone, prevTx.date, tx.date) : null;
             
             if (weekBoundary) {
                 items.push({ type: "week-header", weekStart: weekBoundary });
@@ -169,7 +192,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
         }
         
         return items;
-    }, [filteredTransactions, analysisStartDate]);
+    }, [filteredTransactions, filteredPending, analysisStartDate, weekRules, timeZone]);
 
     // Virtual list (only used on desktop)
     const virtualizer = useVirtualizer({
@@ -177,7 +200,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
         getScrollElement: () => parentRef.current,
         estimateSize: (index) => {
             const item = listItems[index];
-            return item.type === "week-header" || item.type === "analysis-boundary" ? 40 : ROW_HEIGHT;
+            return item.type === "week-header" || item.type === "pending-header" || item.type === "analysis-boundary" ? 40 : ROW_HEIGHT;
         },
         overscan: 10,
         enabled: isDesktop,
@@ -185,15 +208,17 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
 
     // Export to CSV
     const exportCSV = useCallback(() => {
-        const headers = ["Date", "Time", "Description", "Merchant", "Category", "Amount", "Type", "Matched To", "Match Type"];
+        const accountNames = new Map(bankAccounts.map((a) => [a.id, a.label]));
+        const headers = ["Date", "Time", "Account", "Description", "Merchant", "Category", "Amount", "Type", "Matched To", "Match Type"];
         const rows = filteredTransactions.map(tx => [
-            formatInTimeZone(tx.date, TIMEZONE, "yyyy-MM-dd"),
-            formatInTimeZone(tx.date, TIMEZONE, "HH:mm:ss"),
+            formatDate(tx.date, timeZone, "yyyy-MM-dd"),
+            formatDate(tx.date, timeZone, "HH:mm:ss"),
+            `"${(tx.bankAccountId ? accountNames.get(tx.bankAccountId) ?? "" : "").replace(/"/g, '""')}"`,
             `"${tx.description.replace(/"/g, '""')}"`,
             `"${(tx.merchant || "").replace(/"/g, '""')}"`,
             `"${(tx.category || "").replace(/"/g, '""')}"`,
             tx.amount.toFixed(2),
-            tx.amount > 0 ? "Credit" : "Debit",
+            tx.isInternalTransfer ? "Transfer" : tx.amount > 0 ? "Credit" : "Debit",
             `"${(tx.matchedUserName || "").replace(/"/g, '""')}"`,
             `"${(tx.matchType || "").replace(/"/g, '""')}"`,
         ]);
@@ -203,10 +228,10 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
         const url = URL.createObjectURL(blob);
         const link = document.createElement("a");
         link.href = url;
-        link.download = `transactions-${formatInTimeZone(new Date(), TIMEZONE, "yyyy-MM-dd")}.csv`;
+        link.download = `transactions-${formatDate(new Date(), timeZone, "yyyy-MM-dd")}.csv`;
         link.click();
         URL.revokeObjectURL(url);
-    }, [filteredTransactions]);
+    }, [filteredTransactions, bankAccounts, timeZone]);
 
     // Clear filters
     const clearFilters = useCallback(() => {
@@ -215,17 +240,19 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
         setDateTo("");
         setSelectedFlatmate("all");
         setSelectedLandlord("all");
+        setSelectedAccount("all");
         setAmountMin("");
         setAmountMax("");
         setAmountType("all");
     }, []);
 
-    const hasActiveFilters = searchQuery || dateFrom || dateTo || selectedFlatmate !== "all" || selectedLandlord !== "all" || amountMin || amountMax || amountType !== "all";
+    const hasActiveFilters = searchQuery || dateFrom || dateTo || selectedFlatmate !== "all" || selectedLandlord !== "all" || selectedAccount !== "all" || amountMin || amountMax || amountType !== "all";
 
-    // Calculate stats for filtered transactions
+    // Calculate stats for filtered transactions (transfers between tracked accounts aren't money in or out)
     const stats = useMemo(() => {
-        const totalIn = filteredTransactions.filter(tx => tx.amount > 0).reduce((sum, tx) => sum + tx.amount, 0);
-        const totalOut = filteredTransactions.filter(tx => tx.amount < 0).reduce((sum, tx) => sum + Math.abs(tx.amount), 0);
+        const counted = filteredTransactions.filter(tx => !tx.isInternalTransfer);
+        const totalIn = counted.filter(tx => tx.amount > 0).reduce((sum, tx) => sum + tx.amount, 0);
+        const totalOut = counted.filter(tx => tx.amount < 0).reduce((sum, tx) => sum + Math.abs(tx.amount), 0);
         return { totalIn, totalOut, count: filteredTransactions.length, totalCount: transactions.length };
     }, [filteredTransactions, transactions.length]);
 
@@ -366,6 +393,25 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                 </div>
                             )}
 
+                            {/* Account Filter */}
+                            {bankAccounts.length > 1 && (
+                                <div>
+                                    <label className="block text-xs text-slate-400 mb-1">Account</label>
+                                    <select
+                                        value={selectedAccount}
+                                        onChange={(e) => setSelectedAccount(e.target.value)}
+                                        className="w-full px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-sm focus:border-emerald-500 outline-none"
+                                    >
+                                        <option value="all">All accounts</option>
+                                        {bankAccounts.map(a => (
+                                            <option key={a.id} value={a.id}>
+                                                {a.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
                             {/* Amount Type */}
                             <div>
                                 <label className="block text-xs text-slate-400 mb-1">Type</label>
@@ -436,7 +482,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                     ref={parentRef}
                     className={isDesktop ? "flex-1 overflow-auto min-h-0" : ""}
                 >
-                    {filteredTransactions.length === 0 ? (
+                    {listItems.length === 0 ? (
                         <div className="flex flex-col items-center justify-center py-12 text-slate-500">
                             <RefreshCw className="w-8 h-8 text-slate-600 mb-2" />
                             <p>No transactions found</p>
@@ -477,13 +523,91 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                         >
                                             <div className="flex-1 h-0.5 bg-emerald-500" />
                                             <span className="text-xs font-semibold text-emerald-400 whitespace-nowrap bg-emerald-500/20 px-2 py-0.5 rounded">
-                                                Analysis Start — {formatInTimeZone(item.date, TIMEZONE, "d MMM yyyy")}
+                                                Analysis Start — {formatDate(item.date, timeZone, "d MMM yyyy")}
                                             </span>
                                             <div className="flex-1 h-0.5 bg-emerald-500" />
                                         </div>
                                     );
                                 }
                                 
+                                if (item.type === "pending-header") {
+                                    return (
+                                        <div
+                                            key="pending-header"
+                                            style={{
+                                                position: "absolute",
+                                                top: 0,
+                                                left: 0,
+                                                width: "100%",
+                                                height: `${virtualRow.size}px`,
+                                                transform: `translateY(${virtualRow.start}px)`,
+                                            }}
+                                            className="flex items-center gap-3 px-4"
+                                        >
+                                            <div className="flex-1 h-px bg-linear-to-r from-transparent via-sky-500/50 to-transparent" />
+                                            <span className="text-xs font-medium text-sky-400/80 whitespace-nowrap">
+                                                Pending — not settled yet
+                                            </span>
+                                            <div className="flex-1 h-px bg-linear-to-r from-transparent via-sky-500/50 to-transparent" />
+                                        </div>
+                                    );
+                                }
+
+                                if (item.type === "pending") {
+                                    const tx = item.tx;
+                                    return (
+                                        <div
+                                            key={tx.id}
+                                            style={{
+                                                position: "absolute",
+                                                top: 0,
+                                                left: 0,
+                                                width: "100%",
+                                                height: `${virtualRow.size}px`,
+                                                transform: `translateY(${virtualRow.start}px)`,
+                                            }}
+                                            className="grid grid-cols-[120px_32px_1fr_240px_150px_100px] gap-2 px-4 items-center opacity-75 border-b border-slate-700/30"
+                                        >
+                                            <div className="text-slate-400">
+                                                <div className="text-slate-200 text-sm">
+                                                    {formatDate(tx.date, timeZone, "d MMM yyyy")}
+                                                </div>
+                                                <div className="text-xs text-slate-500">
+                                                    {formatDate(tx.date, timeZone, "h:mm a")}
+                                                </div>
+                                            </div>
+
+                                            <div />
+
+                                            <div className="min-w-0">
+                                                <div className="font-medium text-slate-200 line-clamp-1 text-sm">{tx.description}</div>
+                                                <span className="badge badge-pending text-xs">Pending</span>
+                                            </div>
+
+                                            <div />
+
+                                            <div>
+                                                {tx.matchedUserId ? (
+                                                    <span className={`badge text-xs ${isRentPayment(tx.matchType) ? "badge-success" : "badge-neutral"}`}>
+                                                        {tx.matchedUserName || "Matched"}
+                                                    </span>
+                                                ) : tx.matchedLandlordId ? (
+                                                    <span className="badge text-xs badge-warning">
+                                                        {tx.matchedLandlordName || "Landlord"}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-slate-600 text-xs">-</span>
+                                                )}
+                                            </div>
+
+                                            <div className={`text-right font-mono font-medium text-sm ${tx.amount > 0 ? "amount-positive" : "amount-negative"}`}>
+                                                {tx.amount > 0 ? "+" : ""}
+                                                ${formatMoney(tx.amount)}
+                                            </div>
+                                        </div>
+                                    );
+                                }
+
                                 if (item.type === "week-header") {
                                     return (
                                         <div
@@ -500,7 +624,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                         >
                                             <div className="flex-1 h-px bg-linear-to-r from-transparent via-amber-500/50 to-transparent" />
                                             <span className="text-xs font-medium text-amber-400/80 whitespace-nowrap">
-                                                Week of {formatInTimeZone(item.weekStart, TIMEZONE, "d MMM")}
+                                                Week of {formatDate(item.weekStart, timeZone, "d MMM")}
                                             </span>
                                             <div className="flex-1 h-px bg-linear-to-r from-transparent via-amber-500/50 to-transparent" />
                                         </div>
@@ -524,10 +648,10 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                     >
                                         <div className="text-slate-400">
                                             <div className="text-slate-200 text-sm">
-                                                {formatInTimeZone(tx.date, TIMEZONE, "d MMM yyyy")}
+                                                {formatDate(tx.date, timeZone, "d MMM yyyy")}
                                             </div>
                                             <div className="text-xs text-slate-500">
-                                                {formatInTimeZone(tx.date, TIMEZONE, "h:mm a")}
+                                                {formatDate(tx.date, timeZone, "h:mm a")}
                                             </div>
                                         </div>
                                         
@@ -548,6 +672,12 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                         <div className="min-w-0">
                                             <div className="font-medium text-slate-200 line-clamp-1 text-sm">{tx.description}</div>
                                             <div className="flex items-center gap-2 flex-wrap">
+                                                {tx.bankAccountId && accountLabels.has(tx.bankAccountId) && (
+                                                    <span className="inline-flex items-center gap-1 text-xs text-sky-400/80">
+                                                        <Landmark className="w-3 h-3" />
+                                                        {accountLabels.get(tx.bankAccountId)}
+                                                    </span>
+                                                )}
                                                 {tx.merchant && (
                                                     <span className="text-xs text-slate-500 line-clamp-1">{tx.merchant}</span>
                                                 )}
@@ -575,6 +705,8 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                                 <span className="badge text-xs badge-warning">
                                                     {tx.matchedLandlordName || "Landlord"}
                                                 </span>
+                                            ) : tx.isInternalTransfer ? (
+                                                <span className="badge text-xs badge-neutral">Transfer</span>
                                             ) : (
                                                 <span className="text-slate-600 text-xs">-</span>
                                             )}
@@ -600,13 +732,62 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                         >
                                             <div className="flex-1 h-0.5 bg-emerald-500" />
                                             <span className="text-xs font-semibold text-emerald-400 whitespace-nowrap bg-emerald-500/20 px-2 py-0.5 rounded">
-                                                Analysis Start — {formatInTimeZone(item.date, TIMEZONE, "d MMM yyyy")}
+                                                Analysis Start — {formatDate(item.date, timeZone, "d MMM yyyy")}
                                             </span>
                                             <div className="flex-1 h-0.5 bg-emerald-500" />
                                         </div>
                                     );
                                 }
                                 
+                                if (item.type === "pending-header") {
+                                    return (
+                                        <div
+                                            key="pending-header"
+                                            className="flex items-center gap-3 px-4 py-2"
+                                        >
+                                            <div className="flex-1 h-px bg-linear-to-r from-transparent via-sky-500/50 to-transparent" />
+                                            <span className="text-xs font-medium text-sky-400/80 whitespace-nowrap">
+                                                Pending — not settled yet
+                                            </span>
+                                            <div className="flex-1 h-px bg-linear-to-r from-transparent via-sky-500/50 to-transparent" />
+                                        </div>
+                                    );
+                                }
+
+                                if (item.type === "pending") {
+                                    const tx = item.tx;
+                                    return (
+                                        <div key={tx.id} className="px-4 py-3 opacity-75">
+                                            <div className="flex justify-between items-center mb-1">
+                                                <span className="text-xs text-slate-500">
+                                                    {formatDate(tx.date, timeZone, "d MMM · h:mm a")}
+                                                </span>
+                                                <span className={`font-mono font-semibold ${tx.amount > 0 ? "amount-positive" : "amount-negative"}`}>
+                                                    {tx.amount > 0 ? "+" : ""}${formatMoney(tx.amount)}
+                                                </span>
+                                            </div>
+
+                                            <div className="font-medium text-slate-200 truncate">
+                                                {tx.description}
+                                            </div>
+
+                                            <div className="flex items-center gap-2 mt-1">
+                                                <span className="badge badge-pending text-xs shrink-0">Pending</span>
+                                                {tx.matchedUserId && (
+                                                    <span className={`badge text-xs shrink-0 ${isRentPayment(tx.matchType) ? "badge-success" : "badge-neutral"}`}>
+                                                        {tx.matchedUserName || "Matched"}
+                                                    </span>
+                                                )}
+                                                {tx.matchedLandlordId && (
+                                                    <span className="badge text-xs shrink-0 badge-warning">
+                                                        {tx.matchedLandlordName || "Landlord"}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                }
+
                                 if (item.type === "week-header") {
                                     return (
                                         <div
@@ -615,7 +796,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                         >
                                             <div className="flex-1 h-px bg-linear-to-r from-transparent via-amber-500/50 to-transparent" />
                                             <span className="text-xs font-medium text-amber-400/80 whitespace-nowrap">
-                                                Week of {formatInTimeZone(item.weekStart, TIMEZONE, "d MMM")}
+                                                Week of {formatDate(item.weekStart, timeZone, "d MMM")}
                                             </span>
                                             <div className="flex-1 h-px bg-linear-to-r from-transparent via-amber-500/50 to-transparent" />
                                         </div>
@@ -632,7 +813,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                         {/* Top row: Date/Time and Amount */}
                                         <div className="flex justify-between items-center mb-1">
                                             <span className="text-xs text-slate-500">
-                                                {formatInTimeZone(tx.date, TIMEZONE, "d MMM · h:mm a")}
+                                                {formatDate(tx.date, timeZone, "d MMM · h:mm a")}
                                             </span>
                                             <span className={`font-mono font-semibold ${tx.amount > 0 ? "amount-positive" : "amount-negative"}`}>
                                                 {tx.amount > 0 ? "+" : ""}${formatMoney(tx.amount)}
@@ -646,6 +827,9 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                         
                                         {/* Bottom row: Merchant and Match badge */}
                                         <div className="flex items-center gap-2 mt-1">
+                                            {tx.bankAccountId && accountLabels.has(tx.bankAccountId) && (
+                                                <span className="text-xs text-sky-400/80 shrink-0">{accountLabels.get(tx.bankAccountId)}</span>
+                                            )}
                                             {tx.merchant && (
                                                 <span className="text-xs text-slate-500 truncate">{tx.merchant}</span>
                                             )}
@@ -659,6 +843,9 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                                                     {tx.matchedLandlordName || "Landlord"}
                                                 </span>
                                             )}
+                                            {tx.isInternalTransfer && (
+                                                <span className="badge text-xs shrink-0 badge-neutral">Transfer</span>
+                                            )}
                                         </div>
                                     </div>
                                 );
@@ -680,6 +867,7 @@ export function TransactionList({ transactions, flatmates, landlords = [], analy
                     transaction={selectedTransaction}
                     onClose={() => setSelectedTransaction(null)}
                     flatmates={flatmates}
+                    timeZone={timeZone}
                     onUpdate={() => {
                         setSelectedTransaction(null);
                         router.refresh();
@@ -1,11 +1,9 @@
 "use client";
 
-import { formatInTimeZone } from "date-fns-tz";
 import { CreditCard } from "lucide-react";
 import Image from "next/image";
 import { formatMoney } from "@/lib/utils";
-
-const TIMEZONE = "Pacific/Auckland";
+import { formatDate } from "@/lib/timezone";
 
 export interface TransactionRowData {
     id: string;
@@ -23,10 +21,12 @@ export interface TransactionRowData {
     matchType?: string | null;
     isRentPayment?: boolean;
     isThisUser?: boolean;
+    isPending?: boolean; // Not settled yet (see pendingTransactions)
 }
 
 interface TransactionRowProps {
     transaction: TransactionRowData;
+    timeZone: string;
     onClick?: () => void;
     showCategory?: boolean;
     showMatch?: boolean;
@@ -39,6 +39,7 @@ function isRentPaymentType(matchType: string | null | undefined): boolean {
 
 export function TransactionRow({ 
     transaction: tx, 
+    timeZone,
     onClick, 
     showCategory = false,
     showMatch = false,
@@ -46,15 +47,15 @@ export function TransactionRow({
 }: TransactionRowProps) {
     return (
         <tr 
-            className={onClick ? "cursor-pointer" : undefined}
+            className={`${onClick ? "cursor-pointer" : ""} ${tx.isPending ? "opacity-75" : ""}`}
             onClick={onClick}
         >
             <td className="text-slate-400 pr-0!">
                 <div className="text-slate-200">
-                    {formatInTimeZone(tx.date, TIMEZONE, compact ? "d MMM" : "d MMM yyyy")}
+                    {formatDate(tx.date, timeZone, compact ? "d MMM" : "d MMM yyyy")}
                 </div>
                 <div className="text-xs text-slate-500">
-                    {formatInTimeZone(tx.date, TIMEZONE, "h:mm a")}
+                    {formatDate(tx.date, timeZone, "h:mm a")}
                 </div>
             </td>
             <td className="px-0!">
@@ -74,6 +75,9 @@ export function TransactionRow({
                 <div className="min-w-0">
                     <div className="font-medium text-slate-200 line-clamp-1">{tx.description}</div>
                     <div className="flex items-center gap-2 flex-wrap">
+                        {tx.isPending && (
+                            <span className="badge badge-pending">Pending</span>
+                        )}
                         {tx.merchant && (
                             <span className="text-xs text-slate-500 line-clamp-1">{tx.merchant}</span>
                         )}
@@ -117,6 +121,7 @@ export function TransactionRow({
 
 interface TransactionTableProps {
     transactions: TransactionRowData[];
+    timeZone: string;
     onTransactionClick?: (tx: TransactionRowData) => void;
     showCategory?: boolean;
     showMatch?: boolean;
@@ -127,6 +132,7 @@ interface TransactionTableProps {
 
 export function TransactionTable({
     transactions,
+    timeZone,
     onTransactionClick,
     showCategory = false,
     showMatch = false,
@@ -163,6 +169,7 @@ export function TransactionTable({
                         <TransactionRow
                             key={tx.id}
                             transaction={tx}
+                            timeZone={timeZone}
                             onClick={onTransactionClick ? () => onTransactionClick(tx) : undefined}
                             showCategory={showCategory}
                             showMatch={showMatch}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { Split, Plus, X, Check, Loader2, Edit2 } from "lucide-react";
+import type { TransactionAllocation, User as UserType } from "@/lib/db/schema";
+import type { AllocationMatchType } from "@/lib/allocations";
+import { getTransactionAllocationsAction, updateTransactionAllocationsAction } from "@/lib/actions";
+import { formatMoney } from "@/lib/utils";
+
+const MATCH_TYPE_LABELS: Record<AllocationMatchType, string> = {
+    rent_payment: "Rent Payment",
+    grocery_reimbursement: "Grocery Reimbursement",
+    expense: "Expense",
+    other: "Other",
+};
+
+interface DraftAllocation {
+    userId: string;
+    matchType: AllocationMatchType;
+    amount: string;
+}
+
+interface TransactionSplitEditorProps {
+    transactionId: string;
+    amount: number;
+    matchedUserId: string | null;
+    matchType: string | null;
+    flatmates: Pick<UserType, "id" | "name" | "email">[];
+    onUpdate?: () => void;
+}
+
+/**
+ * Shows and edits how a transaction is split between flatmates and match types
+ */
+export function TransactionSplitEditor({ transactionId, amount, matchedUserId, matchType, flatmates, onUpdate }: TransactionSplitEditorProps) {
+    const [allocations, setAllocations] = useState<TransactionAllocation[] | null>(null);
+    const [draft, setDraft] = useState<DraftAllocation[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+    const total = Math.abs(amount);
+
+    useEffect(() => {
+        let cancelled = false;
+        getTransactionAllocationsAction(transactionId).then((rows) => {
+            if (!cancelled) setAllocations(rows);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [transactionId]);
+
+    const flatmateName = (userId: string) => {
+        const flatmate = flatmates.find((f) => f.id === userId);
+        return flatmate ? flatmate.name || flatmate.email : "Unknown";
+    };
+
+    const startEditing = () => {
+        setError(null);
+        if (allocations && allocations.length > 0) {
+            setDraft(allocations.map((a) => ({ userId: a.userId, matchType: a.matchType, amount: a.amount.toFixed(2) })));
+            return;
+        }
+
+        // Start from the current match, halved
+        const type = (matchType && matchType in MATCH_TYPE_LABELS ? matchType : "rent_payment") as AllocationMatchType;
+        const half = Math.floor((total / 2) * 100) / 100;
+        setDraft([
+            { userId: matchedUserId ?? "", matchType: type, amount: half.toFixed(2) },
+            { userId: "", matchType: type, amount: (total - half).toFixed(2) },
+        ]);
+    };
+
+    const updateDraft = (index: number, changes: Partial<DraftAllocation>) => {
+        setDraft((previous) => previous?.map((row, i) => (i === index ? { ...row, ...changes } : row)) ?? null);
+    };
+
+    const save = (rows: DraftAllocation[]) => {
+        setError(null);
+        startTransition(async () => {
+            const result = await updateTransactionAllocationsAction(
+                transactionId,
+                rows.map((row) => ({ userId: row.userId, matchType: row.matchType, amount: parseFloat(row.amount) }))
+            );
+            if (result.error) {
+                setError(result.error);
+                return;
+            }
+            setAllocations(await getTransactionAllocationsAction(transactionId));
+            setDraft(null);
+            onUpdate?.();
+        });
+    };
+
+    const allocated = draft?.reduce((sum, row) => sum + (parseFloat(row.amount) || 0), 0) ?? 0;
+    const remaining = Math.round((total - allocated) * 100) / 100;
+
+    if (allocations === null) return null;
+
+    return (
+        <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2 text-slate-400 text-sm">
+                    <Split className="w-4 h-4" />
+                    Split
+                </div>
+                {!draft && flatmates.length > 0 && (
+                    <button
+                        onClick={startEditing}
+                        className="p-1 rounded hover:bg-slate-700 transition-colors text-slate-400 hover:text-slate-200"
+                        title={allocations.length > 0 ? "Edit split" : "Split this transaction"}
+                    >
+                        <Edit2 className="w-3.5 h-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {draft ? (
+                <div className="glass rounded-xl p-4 space-y-2">
+                    {draft.map((row, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <select
+                                value={row.userId}
+                                onChange={(e) => updateDraft(index, { userId: e.target.value })}
+                                className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-sm"
+                            >
+                                <option value="">Flatmate...</option>
+                                {flatmates.map((user) => (
+                                    <option key={user.id} value={user.id}>
+                                        {user.name || user.email}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                value={row.matchType}
+                                onChange={(e) => updateDraft(index, { matchType: e.target.value as AllocationMatchType })}
+                                className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-sm"
+                            >
+                                {(Object.keys(MATCH_TYPE_LABELS) as AllocationMatchType[]).map((type) => (
+                                    <option key={type} value={type}>
+                                        {MATCH_TYPE_LABELS[type]}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                type="number"
+                                step="0.01"
+                                min="0.01"
+                                value={row.amount}
+                                onChange={(e) => updateDraft(index, { amount: e.target.value })}
+                                className="w-24 px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-sm"
+                            />
+                            <button
+                                onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                                className="p-1.5 rounded-lg hover:bg-slate-700 transition-colors"
+                                title="Remove"
+                            >
+                                <X className="w-4 h-4 text-slate-400" />
+                            </button>
+                        </div>
+                    ))}
+
+                    <div className="flex items-center justify-between text-sm">
+                        <button
+                            onClick={() => setDraft([...draft, { userId: "", matchType: "rent_payment", amount: Math.max(remaining, 0).toFixed(2) }])}
+                            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-slate-700 text-slate-300 transition-colors"
+                        >
+                            <Plus className="w-3.5 h-3.5" />
+                            Add part
+                        </button>
+                        <span className={remaining === 0 ? "text-slate-400" : "text-amber-400"}>
+                            {remaining === 0 ? "Fully allocated" : `$${formatMoney(remaining)} ${remaining > 0 ? "left" : "over"}`}
+                        </span>
+                    </div>
+
+                    {error && <p className="text-sm text-rose-400">{error}</p>}
+
+                    <div className="flex gap-2 pt-1">
+                        <button
+                            onClick={() => save(draft)}
+                            disabled={isPending}
+                            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-sm font-medium transition-colors"
+                        >
+                            {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Check className="w-4 h-4" />Save</>}
+                        </button>
+                        <button
+                            onClick={() => setDraft(null)}
+                            disabled={isPending}
+                            className="px-3 py-1.5 rounded-lg hover:bg-slate-700 text-sm font-medium transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        {allocations.length > 0 && (
+                            <button
+                                onClick={() => save([])}
+                                disabled={isPending}
+                                className="px-3 py-1.5 rounded-lg hover:bg-slate-700 text-rose-400 text-sm font-medium transition-colors"
+                            >
+                                Remove Split
+                            </button>
+                        )}
+                    </div>
+                </div>
+            ) : allocations.length > 0 ? (
+                <div className="glass rounded-xl p-4 space-y-2 text-sm">
+                    {allocations.map((allocation) => (
+                        <div key={allocation.id} className="flex items-center justify-between">
+                            <span>
+                                <span className="badge badge-success">{flatmateName(allocation.userId)}</span>
+                                <span className="badge badge-neutral ml-2">{MATCH_TYPE_LABELS[allocation.matchType]}</span>
+                            </span>
+                            <span className="font-mono">${formatMoney(allocation.amount)}</span>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500">Not split - the whole amount goes to the match above</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { Building2, CreditCard, User, Plus, X } from "lucide-react";
+import type { UserIdentifierInput, UserIdentifierType } from "@/lib/user-identifiers";
+import { BankAccountHint } from "./BankAccountHint";
+
+const IDENTIFIER_TYPES: Record<UserIdentifierType, { label: string; placeholder: string; icon: typeof User }> = {
+    bank_account_pattern: { label: "Bank account", placeholder: "12-3456-7890123-00", icon: Building2 },
+    card_suffix: { label: "Card", placeholder: "8423", icon: CreditCard },
+    matching_name: { label: "Name", placeholder: "READER T A", icon: User },
+};
+
+interface UserIdentifiersEditorProps {
+    initialIdentifiers?: UserIdentifierInput[];
+}
+
+/**
+ * Edit a flatmate's bank accounts, expense card suffixes and name aliases.
+ * Submitted with the surrounding form as JSON in an "identifiers" field.
+ */
+export function UserIdentifiersEditor({ initialIdentifiers = [] }: UserIdentifiersEditorProps) {
+    const [identifiers, setIdentifiers] = useState<UserIdentifierInput[]>(initialIdentifiers);
+
+    const update = (index: number, changes: Partial<UserIdentifierInput>) => {
+        setIdentifiers((previous) => previous.map((identifier, i) => (i === index ? { ...identifier, ...changes } : identifier)));
+    };
+
+    const add = (type: UserIdentifierType) => {
+        setIdentifiers((previous) => [...previous, { type, value: "", validFrom: null, validTo: null }]);
+    };
+
+    const remove = (index: number) => {
+        setIdentifiers((previous) => previous.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div className="space-y-3">
+            <input type="hidden" name="identifiers" value={JSON.stringify(identifiers)} />
+
+            {identifiers.length === 0 && (
+                <p className="text-sm text-slate-500">
+                    No identifiers yet - add one so their payments can be matched
+                </p>
+            )}
+
+            {identifiers.map((identifier, index) => {
+                const { placeholder, icon: Icon } = IDENTIFIER_TYPES[identifier.type];
+
+                return (
+                    <div key={index} className="p-3 rounded-xl bg-slate-800/50 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={identifier.type}
+                                onChange={(e) => update(index, { type: e.target.value as UserIdentifierType })}
+                                className="px-2 py-2 rounded-lg bg-slate-700/50 border border-slate-600 text-sm"
+                            >
+                                {(Object.keys(IDENTIFIER_TYPES) as UserIdentifierType[]).map((type) => (
+                                    <option key={type} value={type}>
+                                        {IDENTIFIER_TYPES[type].label}
+                                    </option>
+                                ))}
+                            </select>
+                            <div className="relative flex-1">
+                                <Icon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                                <input
+                                    type="text"
+                                    value={identifier.value}
+                                    onChange={(e) => update(index, { value: e.target.value })}
+                                    maxLength={identifier.type === "card_suffix" ? 4 : undefined}
+                                    placeholder={placeholder}
+                                    className="w-full pl-9 pr-3 py-2 rounded-lg bg-slate-700/50 border border-slate-600 focus:border-emerald-500 outline-none text-sm"
+                                />
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => remove(index)}
+                                className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+                                title="Remove"
+                            >
+                                <X className="w-4 h-4 text-slate-400" />
+                            </button>
+                        </div>
+                        {identifier.type === "bank_account_pattern" && <BankAccountHint value={identifier.value} />}
+                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                            <span>Valid from</span>
+                            <input
+                                type="date"
+                                value={identifier.validFrom ?? ""}
+                                onChange={(e) => update(index, { validFrom: e.target.value || null })}
+                                className="px-2 py-1 rounded-lg bg-slate-700/50 border border-slate-600"
+                            />
+                            <span>to</span>
+                            <input
+                                type="date"
+                                value={identifier.validTo ?? ""}
+                                onChange={(e) => update(index, { validTo: e.target.value || null })}
+                                className="px-2 py-1 rounded-lg bg-slate-700/50 border border-slate-600"
+                            />
+                        </div>
+                    </div>
+                );
+            })}
+
+            <div className="flex flex-wrap gap-2">
+                {(Object.keys(IDENTIFIER_TYPES) as UserIdentifierType[]).map((type) => (
+                    <button
+                        key={type}
+                        type="button"
+                        onClick={() => add(type)}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 transition-colors text-sm"
+                    >
+                        <Plus className="w-3 h-3" />
+                        {IDENTIFIER_TYPES[type].label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-slate-500">
+                Bank accounts and names are matched in transaction details; card suffixes match expense card
+                purchases. Leave dates blank for identifiers that always apply.
+            </p>
+        </div>
+    );
+}
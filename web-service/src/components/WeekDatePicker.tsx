@@ -2,8 +2,9 @@
 
 import { useState, useRef, useEffect, useMemo } from "react";
 import { DayPicker } from "react-day-picker";
-import { format, isSaturday, isFriday, previousSaturday, nextFriday } from "date-fns";
+import { format } from "date-fns";
 import { Calendar, ChevronLeft, ChevronRight } from "lucide-react";
+import { getCalendarWeek, getWeekRulesOn, type WeekRulesPeriod } from "@/lib/week-rules";
 import "react-day-picker/style.css";
 
 interface WeekDatePickerProps {
@@ -12,26 +13,20 @@ interface WeekDatePickerProps {
     defaultValue?: string;
     onChange?: (date: string) => void;
     required?: boolean;
-    /** 'start' aligns to Saturday, 'end' aligns to Friday */
+    /** 'start' aligns to the first day of the billing week, 'end' to the last */
     weekAlign: "start" | "end";
+    weekRules: WeekRulesPeriod[];
     label?: string;
     placeholder?: string;
     disabled?: boolean;
 }
 
 /**
- * Get the nearest Saturday (for week start) or Friday (for week end)
+ * Get the start (for week start) or last day (for week end) of the billing week a date falls in
  */
-function alignToWeekBoundary(date: Date, align: "start" | "end"): Date {
-    if (align === "start") {
-        // Align to Saturday (start of week)
-        if (isSaturday(date)) return date;
-        return previousSaturday(date);
-    } else {
-        // Align to Friday (end of week)
-        if (isFriday(date)) return date;
-        return nextFriday(date);
-    }
+function alignToWeekBoundary(weekRules: WeekRulesPeriod[], date: Date, align: "start" | "end"): Date {
+    const week = getCalendarWeek(weekRules, date);
+    return align === "start" ? week.start : week.end;
 }
 
 function parseDate(dateStr: string | undefined): Date | undefined {
@@ -47,6 +42,7 @@ export function WeekDatePicker({
     onChange,
     required,
     weekAlign,
+    weekRules,
     label,
     placeholder,
     disabled,
@@ -79,7 +75,7 @@ export function WeekDatePicker({
         if (!date) return;
         
         // Align to week boundary
-        const aligned = alignToWeekBoundary(date, weekAlign);
+        const aligned = alignToWeekBoundary(weekRules, date, weekAlign);
         setInternalDate(aligned);
         setIsOpen(false);
         
@@ -88,13 +84,9 @@ export function WeekDatePicker({
         }
     };
 
-    // Determine which days to highlight (Saturdays for start, Fridays for end)
-    const isValidDay = (date: Date) => {
-        if (weekAlign === "start") {
-            return isSaturday(date);
-        }
-        return isFriday(date);
-    };
+    // Determine which days to highlight (first days of weeks for start, last days for end)
+    const isValidDay = (date: Date) => alignToWeekBoundary(weekRules, date, weekAlign).getTime() === date.getTime();
+    const weekStartsOn = getWeekRulesOn(weekRules, selectedDate ?? new Date()).weekStartDay;
 
     const formattedValue = selectedDate ? format(selectedDate, "yyyy-MM-dd") : "";
     const displayValue = selectedDate 
@@ -125,7 +117,7 @@ export function WeekDatePicker({
             >
                 <Calendar className="w-4 h-4 text-slate-400 shrink-0" />
                 <span className={displayValue ? "text-white" : "text-slate-400"}>
-                    {displayValue || placeholder || `Select ${weekAlign === "start" ? "Saturday" : "Friday"}`}
+                    {displayValue || placeholder || `Select week ${weekAlign}`}
                 </span>
             </button>
 
@@ -134,15 +126,15 @@ export function WeekDatePicker({
                 <div className="absolute z-50 mt-2 p-3 bg-slate-800 border border-slate-700 rounded-xl shadow-xl">
                     <div className="text-xs text-slate-400 mb-2 text-center">
                         {weekAlign === "start" 
-                            ? "Select a Saturday (week start)" 
-                            : "Select a Friday (week end)"}
+                            ? "Select the first day of a week" 
+                            : "Select the last day of a week"}
                     </div>
                     <DayPicker
                         mode="single"
                         selected={selectedDate}
                         onSelect={handleSelect}
                         defaultMonth={selectedDate}
-                        weekStartsOn={6}
+                        weekStartsOn={weekStartsOn}
                         showOutsideDays
                         modifiers={{
                             validDay: isValidDay,
@@ -3,17 +3,16 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Tag } from "lucide-react";
-import { formatInTimeZone } from "date-fns-tz";
 import type { ExpenseTransactionWithDetails } from "@/lib/expense-calculations";
 import type { ExpenseCategory, Transaction } from "@/lib/db/schema";
 import { TransactionDetailModal } from "@/components/TransactionDetailModal";
 import { getExpenseIcon, getColorClasses } from "@/lib/expense-ui";
-
-const TIMEZONE = "Pacific/Auckland";
+import { formatDate } from "@/lib/timezone";
 
 interface ExpenseTransactionListProps {
     transactions: ExpenseTransactionWithDetails[];
     categories: ExpenseCategory[];
+    timeZone: string;
     emptyMessage?: string;
     showCategoryBadge?: boolean;
 }
@@ -21,6 +20,7 @@ interface ExpenseTransactionListProps {
 export function ExpenseTransactionList({
     transactions,
     categories,
+    timeZone,
     emptyMessage = "No transactions found",
     showCategoryBadge = true,
 }: ExpenseTransactionListProps) {
@@ -70,7 +70,7 @@ export function ExpenseTransactionList({
                                 </div>
                                 <div className="flex items-center gap-2 text-sm text-slate-400">
                                     <span>
-                                        {formatInTimeZone(transaction.date, TIMEZONE, "d MMM · h:mm a")}
+                                        {formatDate(transaction.date, timeZone, "d MMM · h:mm a")}
                                     </span>
                                     {showCategoryBadge && (
                                         <span className={`text-xs ${colors.text}`}>
@@ -96,6 +96,7 @@ export function ExpenseTransactionList({
                 <TransactionDetailModal
                     transaction={selectedTransaction}
                     onClose={() => setSelectedTransaction(null)}
+                    timeZone={timeZone}
                     onUpdate={() => {
                         setSelectedTransaction(null);
                         router.refresh();
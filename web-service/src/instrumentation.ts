@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+
+export async function register() {
+    // The print hub uses Node APIs (ws, better-sqlite3), so skip the edge runtime
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { startPrintHub } = await import("./lib/print-hub");
+        await startPrintHub();
+    }
+}
@@ -4,9 +4,29 @@ import { signOut as nextAuthSignOut, auth } from "@/lib/auth";
 import { syncTransactions, triggerManualRefresh, canTriggerManualRefresh, getLastSyncTime } from "@/lib/sync";
 import { revalidatePath } from "next/cache";
 import { db } from "@/lib/db";
-import { users, transactions, paymentSchedules, systemState, landlords } from "@/lib/db/schema";
-import { isSaturday, isFriday, previousSaturday, nextFriday, nextSaturday, previousFriday } from "date-fns";
-import { eq, desc } from "drizzle-orm";
+import { users, transactions, pendingTransactions, paymentSchedules, balanceAdjustments, systemState, householdSettings, landlords, bankAccounts, paymentMatchingRules } from "@/lib/db/schema";
+import type { NewPaymentMatchingRule, NewPaymentSchedule } from "@/lib/db/schema";
+import { BANK_ACCOUNT_ROLES, type BankAccountRole } from "@/lib/bank-accounts";
+import { getBankProvider } from "@/lib/bank-provider";
+import { getSyncProgress } from "@/lib/sync-lock";
+import { resetPaymentRulesToDefaults } from "@/lib/matching";
+import { parseUserIdentifiers, replaceUserIdentifiers } from "@/lib/user-identifiers";
+import { formatNzBankAccount, validateNzBankAccount } from "@/lib/nz-bank-account";
+import {
+    getTransactionAllocations,
+    replaceTransactionAllocations,
+    setSingleTransactionMatch,
+    validateAllocations,
+    type AllocationInput,
+} from "@/lib/allocations";
+import { importStatement, isSameAccountNumber, parseStatement, type ParsedStatement } from "@/lib/statement-import";
+import { getHouseholdTimeZone, getWeekRulesHistory, HOUSEHOLD_TIMEZONE_KEY } from "@/lib/household";
+import { isValidTimeZone } from "@/lib/timezone";
+import { getCalendarWeek, isWeekday, WEEKDAY_NAMES } from "@/lib/week-rules";
+import { isScheduleCadence, type ExportedSchedule } from "@/lib/schedule-cadence";
+import { addDays, subDays } from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
+import { eq, desc, and, ne, isNull } from "drizzle-orm";
 
 const PAGE_SIZE = 50;
 
@@ -24,6 +44,7 @@ export async function getAllTransactionsAction() {
         .select({
             id: transactions.id,
             akahuId: transactions.akahuId,
+            bankAccountId: transactions.bankAccountId,
             date: transactions.date,
             amount: transactions.amount,
             description: transactions.description,
@@ -37,11 +58,14 @@ export async function getAllTransactionsAction() {
             matchType: transactions.matchType,
             matchConfidence: transactions.matchConfidence,
             manualMatch: transactions.manualMatch,
+            isInternalTransfer: transactions.isInternalTransfer,
+            deletedAt: transactions.deletedAt,
             createdAt: transactions.createdAt,
             matchedUserName: users.name,
         })
         .from(transactions)
         .leftJoin(users, eq(transactions.matchedUserId, users.id))
+        .where(isNull(transactions.deletedAt))
         .orderBy(desc(transactions.date));
 
     return txsWithUsers;
@@ -57,6 +81,7 @@ export async function loadMoreTransactionsAction(offset: number) {
         .select({
             id: transactions.id,
             akahuId: transactions.akahuId,
+            bankAccountId: transactions.bankAccountId,
             date: transactions.date,
             amount: transactions.amount,
             description: transactions.description,
@@ -70,11 +95,14 @@ export async function loadMoreTransactionsAction(offset: number) {
             matchType: transactions.matchType,
             matchConfidence: transactions.matchConfidence,
             manualMatch: transactions.manualMatch,
+            isInternalTransfer: transactions.isInternalTransfer,
+            deletedAt: transactions.deletedAt,
             createdAt: transactions.createdAt,
             matchedUserName: users.name,
         })
         .from(transactions)
         .leftJoin(users, eq(transactions.matchedUserId, users.id))
+        .where(isNull(transactions.deletedAt))
         .orderBy(desc(transactions.date))
         .limit(PAGE_SIZE)
         .offset(offset);
@@ -91,7 +119,7 @@ export async function syncTransactionsAction() {
     }
 
     console.log("[Action] Calling syncTransactions...");
-    const result = await syncTransactions();
+    const result = await syncTransactions("manual");
     console.log("[Action] syncTransactions result:", result);
     revalidatePath("/transactions");
     revalidatePath("/");
@@ -111,7 +139,7 @@ export async function triggerRefreshAction() {
     const result = await triggerManualRefresh();
     if (result.success) {
         // Also sync after refresh
-        const syncResult = await syncTransactions();
+        const syncResult = await syncTransactions("manual", result);
         revalidatePath("/transactions");
         revalidatePath("/");
         return { ...result, sync: syncResult };
@@ -127,11 +155,13 @@ export async function getSyncStatusAction() {
 
     const lastSyncTime = await getLastSyncTime();
     const { canRefresh, nextRefreshAt } = await canTriggerManualRefresh();
+    const progress = await getSyncProgress();
 
     return {
         lastSyncTime,
         canRefresh,
         nextRefreshAt,
+        progress,
     };
 }
 
@@ -147,9 +177,7 @@ export async function addFlatmateAction(formData: FormData) {
 
     const email = formData.get("email")?.toString().trim().toLowerCase();
     const name = formData.get("name")?.toString().trim() || null;
-    const bankAccountPattern = formData.get("bankAccountPattern")?.toString().trim() || null;
-    const cardSuffix = formData.get("cardSuffix")?.toString().trim() || null;
-    const matchingName = formData.get("matchingName")?.toString().trim() || null;
+    const parsedIdentifiers = parseUserIdentifiers(formData.get("identifiers")?.toString(), await getHouseholdTimeZone());
 
     if (!email) {
         return { error: "Email is required" };
@@ -172,15 +200,17 @@ export async function addFlatmateAction(formData: FormData) {
         return { error: "A user with this email already exists" };
     }
 
+    if ("error" in parsedIdentifiers) {
+        return { error: parsedIdentifiers.error };
+    }
+
     try {
-        await db.insert(users).values({
+        const [user] = await db.insert(users).values({
             email,
             name,
-            bankAccountPattern,
-            cardSuffix,
-            matchingName,
             role: "user",
-        });
+        }).returning({ id: users.id });
+        replaceUserIdentifiers(user.id, parsedIdentifiers.identifiers);
 
         revalidatePath("/users");
         revalidatePath("/");
@@ -199,9 +229,7 @@ export async function updateFlatmateAction(formData: FormData) {
 
     const id = formData.get("id")?.toString();
     const name = formData.get("name")?.toString().trim() || null;
-    const bankAccountPattern = formData.get("bankAccountPattern")?.toString().trim() || null;
-    const cardSuffix = formData.get("cardSuffix")?.toString().trim() || null;
-    const matchingName = formData.get("matchingName")?.toString().trim() || null;
+    const parsedIdentifiers = parseUserIdentifiers(formData.get("identifiers")?.toString(), await getHouseholdTimeZone());
 
     if (!id) {
         return { error: "User ID is required" };
@@ -223,17 +251,19 @@ export async function updateFlatmateAction(formData: FormData) {
         return { error: "Cannot modify admin users" };
     }
 
+    if ("error" in parsedIdentifiers) {
+        return { error: parsedIdentifiers.error };
+    }
+
     try {
         await db
             .update(users)
             .set({
                 name,
-                bankAccountPattern,
-                cardSuffix,
-                matchingName,
                 updatedAt: new Date(),
             })
             .where(eq(users.id, id));
+        replaceUserIdentifiers(id, parsedIdentifiers.identifiers);
 
         revalidatePath("/users");
         revalidatePath("/");
@@ -297,25 +327,28 @@ export async function updateMySettingsAction(formData: FormData) {
         return { error: "Unauthorized" };
     }
 
-    const bankAccountPattern = formData.get("bankAccountPattern")?.toString().trim() || null;
-    const cardSuffix = formData.get("cardSuffix")?.toString().trim() || null;
-    const matchingName = formData.get("matchingName")?.toString().trim() || null;
+    const parsedIdentifiers = parseUserIdentifiers(formData.get("identifiers")?.toString(), await getHouseholdTimeZone());
 
-    // Validate card suffix format (should be 4 digits)
-    if (cardSuffix && !/^\d{4}$/.test(cardSuffix)) {
-        return { error: "Card suffix must be exactly 4 digits" };
+    if ("error" in parsedIdentifiers) {
+        return { error: parsedIdentifiers.error };
+    }
+
+    const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.email, session.user.email))
+        .limit(1);
+
+    if (!user) {
+        return { error: "User not found" };
     }
 
     try {
         await db
             .update(users)
-            .set({
-                bankAccountPattern,
-                cardSuffix,
-                matchingName,
-                updatedAt: new Date(),
-            })
-            .where(eq(users.email, session.user.email));
+            .set({ updatedAt: new Date() })
+            .where(eq(users.id, user.id));
+        replaceUserIdentifiers(user.id, parsedIdentifiers.identifiers);
 
         revalidatePath("/settings");
         revalidatePath("/users");
@@ -372,16 +405,8 @@ export async function updateTransactionMatchAction(
             return { error: "Transaction not found" };
         }
 
-        // Update the transaction with manual override
-        await db
-            .update(transactions)
-            .set({
-                matchedUserId,
-                matchType,
-                matchConfidence: matchedUserId ? 1.0 : null,
-                manualMatch: matchedUserId !== null,
-            })
-            .where(eq(transactions.id, transactionId));
+        // Update the transaction with manual override (a single match replaces any split)
+        setSingleTransactionMatch(transactionId, matchedUserId, matchType);
 
         revalidatePath("/transactions");
         revalidatePath("/");
@@ -392,10 +417,290 @@ export async function updateTransactionMatchAction(
     }
 }
 
+export async function getTransactionAllocationsAction(transactionId: string) {
+    const session = await auth();
+    if (!session?.user) {
+        return [];
+    }
+
+    return getTransactionAllocations(transactionId);
+}
+
+/**
+ * Split a transaction between flatmates and/or match types. An empty list removes the split.
+ */
+export async function updateTransactionAllocationsAction(transactionId: string, allocations: AllocationInput[]) {
+    const session = await auth();
+    if (!session?.user) {
+        return { error: "Unauthorized" };
+    }
+
+    const [existing] = await db
+        .select({ amount: transactions.amount })
+        .from(transactions)
+        .where(eq(transactions.id, transactionId))
+        .limit(1);
+
+    if (!existing) {
+        return { error: "Transaction not found" };
+    }
+
+    const validated = await validateAllocations(existing.amount, allocations);
+    if ("error" in validated) {
+        return { error: validated.error };
+    }
+
+    try {
+        replaceTransactionAllocations(transactionId, validated.allocations);
+
+        revalidatePath("/transactions");
+        revalidatePath("/balances");
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error updating transaction allocations:", error);
+        return { error: "Failed to update transaction split" };
+    }
+}
+
+// ============================================
+// Payment Matching Rule Actions
+// ============================================
+
+type PaymentRuleValues = Omit<NewPaymentMatchingRule, "id" | "createdAt">;
+
+function parsePaymentRuleForm(formData: FormData): { values: PaymentRuleValues } | { error: string } {
+    const text = (key: string) => formData.get(key)?.toString().trim() || null;
+    const option = <T extends string>(options: readonly T[], key: string): T | null =>
+        options.find((o) => o === formData.get(key)?.toString()) ?? null;
+    const amount = (key: string) => {
+        const value = text(key);
+        return value === null ? null : parseFloat(value);
+    };
+
+    const name = text("name");
+    const target = option(paymentMatchingRules.target.enumValues, "target");
+    const assigneeId = text("assigneeId"); // Empty = whoever's identifier matches
+    const identifier = option(paymentMatchingRules.identifier.enumValues, "identifier");
+    const patterns = {
+        descriptionPattern: text("descriptionPattern"),
+        particularsPattern: text("particularsPattern"),
+        codePattern: text("codePattern"),
+        referencePattern: text("referencePattern"),
+        otherAccountPattern: text("otherAccountPattern"),
+    };
+    const minAmount = amount("minAmount");
+    const maxAmount = amount("maxAmount");
+    const confidence = parseFloat(text("confidence") ?? "0.9");
+    const isRegex = formData.get("isRegex") === "true";
+
+    if (!name) {
+        return { error: "Rule name is required" };
+    }
+
+    if (!target) {
+        return { error: "Choose whether the rule matches flatmates or landlords" };
+    }
+
+    if (!assigneeId && !identifier) {
+        return { error: `Choose a ${target}, or an identifier to find one by` };
+    }
+
+    if (target === "landlord" && identifier === "card_suffix") {
+        return { error: "Landlords don't have expense cards" };
+    }
+
+    const hasPattern = Object.values(patterns).some(Boolean);
+    if (!hasPattern && !identifier && minAmount === null && maxAmount === null) {
+        return { error: "At least one pattern, identifier or amount is required" };
+    }
+
+    if (Number.isNaN(minAmount) || Number.isNaN(maxAmount)) {
+        return { error: "Amounts must be numbers" };
+    }
+
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+        return { error: "Minimum amount can't be more than the maximum" };
+    }
+
+    if (Number.isNaN(confidence) || confidence <= 0 || confidence > 1) {
+        return { error: "Confidence must be between 0 and 1" };
+    }
+
+    if (isRegex) {
+        for (const pattern of Object.values(patterns)) {
+            try {
+                if (pattern) new RegExp(pattern);
+            } catch {
+                return { error: `Invalid regex: ${pattern}` };
+            }
+        }
+    }
+
+    // Landlord rules always record a landlord payment
+    const matchType = target === "landlord"
+        ? "landlord_payment"
+        : option(paymentMatchingRules.matchType.enumValues, "matchType");
+    if (!matchType || (target === "flatmate" && matchType === "landlord_payment")) {
+        return { error: "Invalid match type" };
+    }
+
+    return {
+        values: {
+            name,
+            priority: parseInt(text("priority") ?? "100", 10) || 0,
+            target,
+            userId: target === "flatmate" ? assigneeId : null,
+            landlordId: target === "landlord" ? assigneeId : null,
+            identifier,
+            ...patterns,
+            minAmount,
+            maxAmount,
+            direction: option(paymentMatchingRules.direction.enumValues, "direction") ?? "any",
+            cardPayment: option(paymentMatchingRules.cardPayment.enumValues, "cardPayment") ?? "any",
+            matchType,
+            confidence,
+            matchMode: option(paymentMatchingRules.matchMode.enumValues, "matchMode") ?? "all",
+            isRegex,
+            isActive: formData.get("isActive") === "true",
+        },
+    };
+}
+
+export async function addPaymentRuleAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const parsed = parsePaymentRuleForm(formData);
+    if ("error" in parsed) {
+        return { error: parsed.error };
+    }
+
+    try {
+        await db.insert(paymentMatchingRules).values(parsed.values);
+
+        revalidatePath("/users");
+        return { success: true };
+    } catch (error) {
+        console.error("Error adding payment rule:", error);
+        return { error: "Failed to add rule" };
+    }
+}
+
+export async function updatePaymentRuleAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const id = formData.get("id")?.toString();
+    if (!id) {
+        return { error: "Rule ID is required" };
+    }
+
+    const parsed = parsePaymentRuleForm(formData);
+    if ("error" in parsed) {
+        return { error: parsed.error };
+    }
+
+    try {
+        await db
+            .update(paymentMatchingRules)
+            .set(parsed.values)
+            .where(eq(paymentMatchingRules.id, id));
+
+        revalidatePath("/users");
+        return { success: true };
+    } catch (error) {
+        console.error("Error updating payment rule:", error);
+        return { error: "Failed to update rule" };
+    }
+}
+
+export async function deletePaymentRuleAction(id: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    if (!id) {
+        return { error: "Rule ID is required" };
+    }
+
+    try {
+        await db.delete(paymentMatchingRules).where(eq(paymentMatchingRules.id, id));
+
+        revalidatePath("/users");
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting payment rule:", error);
+        return { error: "Failed to delete rule" };
+    }
+}
+
+export async function resetPaymentRulesAction() {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    try {
+        await resetPaymentRulesToDefaults();
+
+        revalidatePath("/users");
+        return { success: true };
+    } catch (error) {
+        console.error("Error resetting payment rules:", error);
+        return { error: "Failed to reset rules" };
+    }
+}
+
 // ============================================
 // Payment Schedule Actions
 // ============================================
 
+type ScheduleCadenceValues = Pick<NewPaymentSchedule, "cadence" | "anchorDate" | "dayOfMonth" | "prorate">;
+
+/**
+ * Validate a schedule's cadence. Fortnightly schedules default to charging from their start date,
+ * monthly ones on their start date's day of the month. Only weekly schedules are pro-rated.
+ */
+function parseScheduleCadence(
+    fields: {
+        cadence?: string | null;
+        anchorDate?: string | null;
+        dayOfMonth?: string | number | null;
+        prorate?: string | boolean | null; // "true" from a checkbox
+    },
+    startDate: Date
+): { values: ScheduleCadenceValues } | { error: string } {
+    const cadence = fields.cadence || "weekly";
+    if (!isScheduleCadence(cadence)) {
+        return { error: `Unknown cadence: ${cadence}` };
+    }
+
+    if (cadence === "fortnightly") {
+        const anchorDate = fields.anchorDate ? new Date(fields.anchorDate) : startDate;
+        if (isNaN(anchorDate.getTime())) {
+            return { error: "Invalid fortnight start date" };
+        }
+        return { values: { cadence, anchorDate, dayOfMonth: null, prorate: false } };
+    }
+
+    if (cadence === "monthly") {
+        const dayOfMonth = fields.dayOfMonth ? Number(fields.dayOfMonth) : startDate.getUTCDate();
+        if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+            return { error: "Day of the month must be between 1 and 31" };
+        }
+        return { values: { cadence, anchorDate: null, dayOfMonth, prorate: false } };
+    }
+
+    const prorate = fields.prorate === true || fields.prorate === "true";
+    return { values: { cadence, anchorDate: null, dayOfMonth: null, prorate } };
+}
+
 export async function addScheduleAction(formData: FormData) {
     const session = await auth();
     if (!session?.user || session.user.role !== "admin") {
@@ -403,18 +708,18 @@ export async function addScheduleAction(formData: FormData) {
     }
 
     const userId = formData.get("userId")?.toString();
-    const weeklyAmountStr = formData.get("weeklyAmount")?.toString();
+    const amountStr = formData.get("amount")?.toString();
     const startDateStr = formData.get("startDate")?.toString();
     const endDateStr = formData.get("endDate")?.toString();
     const notes = formData.get("notes")?.toString().trim() || null;
 
-    if (!userId || !weeklyAmountStr || !startDateStr) {
-        return { error: "User, weekly amount, and start date are required" };
+    if (!userId || !amountStr || !startDateStr) {
+        return { error: "User, amount, and start date are required" };
     }
 
-    const weeklyAmount = parseFloat(weeklyAmountStr);
-    if (isNaN(weeklyAmount) || weeklyAmount < 0) {
-        return { error: "Invalid weekly amount" };
+    const amount = parseFloat(amountStr);
+    if (isNaN(amount) || amount < 0) {
+        return { error: "Invalid amount" };
     }
 
     const startDate = new Date(startDateStr);
@@ -433,6 +738,19 @@ export async function addScheduleAction(formData: FormData) {
         }
     }
 
+    const cadence = parseScheduleCadence(
+        {
+            cadence: formData.get("cadence")?.toString(),
+            anchorDate: formData.get("anchorDate")?.toString(),
+            dayOfMonth: formData.get("dayOfMonth")?.toString(),
+            prorate: formData.get("prorate")?.toString(),
+        },
+        startDate
+    );
+    if ("error" in cadence) {
+        return { error: cadence.error };
+    }
+
     // Verify user exists
     const user = await db.select().from(users).where(eq(users.id, userId)).limit(1);
     if (user.length === 0) {
@@ -442,7 +760,8 @@ export async function addScheduleAction(formData: FormData) {
     try {
         await db.insert(paymentSchedules).values({
             userId,
-            weeklyAmount,
+            amount,
+            ...cadence.values,
             startDate,
             endDate,
             notes,
@@ -464,18 +783,18 @@ export async function updateScheduleAction(formData: FormData) {
     }
 
     const id = formData.get("id")?.toString();
-    const weeklyAmountStr = formData.get("weeklyAmount")?.toString();
+    const amountStr = formData.get("amount")?.toString();
     const startDateStr = formData.get("startDate")?.toString();
     const endDateStr = formData.get("endDate")?.toString();
     const notes = formData.get("notes")?.toString().trim() || null;
 
-    if (!id || !weeklyAmountStr || !startDateStr) {
-        return { error: "Schedule ID, weekly amount, and start date are required" };
+    if (!id || !amountStr || !startDateStr) {
+        return { error: "Schedule ID, amount, and start date are required" };
     }
 
-    const weeklyAmount = parseFloat(weeklyAmountStr);
-    if (isNaN(weeklyAmount) || weeklyAmount < 0) {
-        return { error: "Invalid weekly amount" };
+    const amount = parseFloat(amountStr);
+    if (isNaN(amount) || amount < 0) {
+        return { error: "Invalid amount" };
     }
 
     const startDate = new Date(startDateStr);
@@ -494,11 +813,25 @@ export async function updateScheduleAction(formData: FormData) {
         }
     }
 
+    const cadence = parseScheduleCadence(
+        {
+            cadence: formData.get("cadence")?.toString(),
+            anchorDate: formData.get("anchorDate")?.toString(),
+            dayOfMonth: formData.get("dayOfMonth")?.toString(),
+            prorate: formData.get("prorate")?.toString(),
+        },
+        startDate
+    );
+    if ("error" in cadence) {
+        return { error: cadence.error };
+    }
+
     try {
         await db
             .update(paymentSchedules)
             .set({
-                weeklyAmount,
+                amount,
+                ...cadence.values,
                 startDate,
                 endDate,
                 notes,
@@ -579,7 +912,11 @@ export async function copyScheduleToUserAction(scheduleId: string, targetUserId:
     try {
         await db.insert(paymentSchedules).values({
             userId: targetUserId,
-            weeklyAmount: source.weeklyAmount,
+            cadence: source.cadence,
+            amount: source.amount,
+            anchorDate: source.anchorDate,
+            dayOfMonth: source.dayOfMonth,
+            prorate: source.prorate,
             startDate: source.startDate,
             endDate: source.endDate,
             notes: source.notes ? `${source.notes} (copied)` : "Copied schedule",
@@ -594,14 +931,8 @@ export async function copyScheduleToUserAction(scheduleId: string, targetUserId:
     }
 }
 
-interface ImportedSchedule {
-    flatmateEmail: string;
-    flatmateName: string | null;
-    weeklyAmount: number;
-    startDate: string;
-    endDate: string | null;
-    notes: string | null;
-}
+// Version 1 exports have weeklyAmount instead of a cadence and amount
+type ImportedSchedule = Omit<ExportedSchedule, "cadence" | "amount"> & Partial<ExportedSchedule> & { weeklyAmount?: number };
 
 export async function importSchedulesAction(schedulesJson: string) {
     const session = await auth();
@@ -623,6 +954,7 @@ export async function importSchedulesAction(schedulesJson: string) {
     // Get all users for email lookup
     const allUsers = await db.select().from(users);
     const emailToUserId = new Map(allUsers.map((u) => [u.email, u.id]));
+    const weekRules = await getWeekRulesHistory();
 
     // Delete all existing schedules before importing
     await db.delete(paymentSchedules);
@@ -643,14 +975,14 @@ export async function importSchedulesAction(schedulesJson: string) {
             continue;
         }
 
-        // Snap start date to nearest Saturday (week start)
-        if (!isSaturday(startDate)) {
-            // Check which Saturday is closer: previous or next
-            const prevSat = previousSaturday(startDate);
-            const nextSat = nextSaturday(startDate);
-            const diffToPrev = Math.abs(startDate.getTime() - prevSat.getTime());
-            const diffToNext = Math.abs(nextSat.getTime() - startDate.getTime());
-            startDate = diffToPrev <= diffToNext ? prevSat : nextSat;
+        // Snap start date to the nearest week start
+        const startWeek = getCalendarWeek(weekRules, startDate);
+        if (startWeek.start.getTime() !== startDate.getTime()) {
+            // Check which week start is closer: this week's or next week's
+            const nextStart = addDays(startWeek.end, 1);
+            const diffToPrev = Math.abs(startDate.getTime() - startWeek.start.getTime());
+            const diffToNext = Math.abs(nextStart.getTime() - startDate.getTime());
+            startDate = diffToPrev <= diffToNext ? startWeek.start : nextStart;
         }
 
         let endDate: Date | null = null;
@@ -661,21 +993,34 @@ export async function importSchedulesAction(schedulesJson: string) {
                 continue;
             }
 
-            // Snap end date to nearest Friday (week end)
-            if (!isFriday(endDate)) {
-                // Check which Friday is closer: previous or next
-                const prevFri = previousFriday(endDate);
-                const nextFri = nextFriday(endDate);
-                const diffToPrev = Math.abs(endDate.getTime() - prevFri.getTime());
-                const diffToNext = Math.abs(nextFri.getTime() - endDate.getTime());
-                endDate = diffToPrev <= diffToNext ? prevFri : nextFri;
+            // Snap end date to the nearest week end
+            const endWeek = getCalendarWeek(weekRules, endDate);
+            if (endWeek.end.getTime() !== endDate.getTime()) {
+                // Check which week end is closer: last week's or this week's
+                const prevEnd = subDays(endWeek.start, 1);
+                const diffToPrev = Math.abs(endDate.getTime() - prevEnd.getTime());
+                const diffToNext = Math.abs(endWeek.end.getTime() - endDate.getTime());
+                endDate = diffToPrev <= diffToNext ? prevEnd : endWeek.end;
             }
         }
 
+        const amount = schedule.amount ?? schedule.weeklyAmount;
+        if (typeof amount !== "number" || isNaN(amount) || amount < 0) {
+            errors.push(`Invalid amount for ${schedule.flatmateEmail}`);
+            continue;
+        }
+
+        const cadence = parseScheduleCadence(schedule, startDate);
+        if ("error" in cadence) {
+            errors.push(`${cadence.error} for ${schedule.flatmateEmail}`);
+            continue;
+        }
+
         try {
             await db.insert(paymentSchedules).values({
                 userId,
-                weeklyAmount: schedule.weeklyAmount,
+                amount,
+                ...cadence.values,
                 startDate,
                 endDate,
                 notes: schedule.notes,
@@ -696,6 +1041,81 @@ export async function importSchedulesAction(schedulesJson: string) {
     return { success: true, imported, errors: errors.length > 0 ? errors : undefined };
 }
 
+// ============================================
+// Balance Adjustment Actions
+// ============================================
+
+export async function addBalanceAdjustmentAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const userId = formData.get("userId")?.toString();
+    const dateStr = formData.get("date")?.toString();
+    const kind = formData.get("kind")?.toString(); // "credit" or "charge"
+    const amountStr = formData.get("amount")?.toString();
+    const reason = formData.get("reason")?.toString().trim();
+
+    if (!userId || !dateStr || !amountStr || !reason) {
+        return { error: "Flatmate, date, amount and reason are required" };
+    }
+    if (kind !== "credit" && kind !== "charge") {
+        return { error: "Choose a credit or a charge" };
+    }
+
+    const amount = parseFloat(amountStr);
+    if (isNaN(amount) || amount <= 0) {
+        return { error: "Amount must be a positive number" };
+    }
+
+    // Stored as the start of the day in the household's timezone, so it falls in that day's billing week
+    const date = fromZonedTime(`${dateStr}T00:00:00`, await getHouseholdTimeZone());
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || isNaN(date.getTime())) {
+        return { error: "Invalid date" };
+    }
+
+    const user = await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+    if (user.length === 0) {
+        return { error: "User not found" };
+    }
+
+    try {
+        await db.insert(balanceAdjustments).values({
+            userId,
+            date,
+            amount: kind === "credit" ? amount : -amount,
+            reason,
+            createdBy: session.user.id ?? null,
+        });
+
+        revalidatePath("/balances");
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error adding balance adjustment:", error);
+        return { error: "Failed to add adjustment" };
+    }
+}
+
+export async function deleteBalanceAdjustmentAction(adjustmentId: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    try {
+        await db.delete(balanceAdjustments).where(eq(balanceAdjustments.id, adjustmentId));
+
+        revalidatePath("/balances");
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting balance adjustment:", error);
+        return { error: "Failed to delete adjustment" };
+    }
+}
+
 // ============================================
 // System Settings Actions
 // ============================================
@@ -765,10 +1185,125 @@ export async function setAnalysisStartDateAction(formData: FormData) {
     return { success: true };
 }
 
+// Household settings change how every page counts days and weeks
+function revalidateHouseholdPaths() {
+    revalidatePath("/settings");
+    revalidatePath("/balances");
+    revalidatePath("/schedule");
+    revalidatePath("/transactions");
+    revalidatePath("/expenses");
+    revalidatePath("/");
+}
+
+/**
+ * Set the timezone the household's days and weeks are counted in
+ */
+export async function setHouseholdTimeZoneAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const timeZone = formData.get("timeZone")?.toString().trim();
+    if (!timeZone || !isValidTimeZone(timeZone)) {
+        return { error: "Choose a valid timezone" };
+    }
+
+    const existing = await db
+        .select()
+        .from(systemState)
+        .where(eq(systemState.key, HOUSEHOLD_TIMEZONE_KEY))
+        .limit(1);
+
+    if (existing.length > 0) {
+        await db
+            .update(systemState)
+            .set({ value: timeZone, updatedAt: new Date() })
+            .where(eq(systemState.key, HOUSEHOLD_TIMEZONE_KEY));
+    } else {
+        await db.insert(systemState).values({
+            key: HOUSEHOLD_TIMEZONE_KEY,
+            value: timeZone,
+        });
+    }
+
+    revalidateHouseholdPaths();
+    return { success: true };
+}
+
+/**
+ * Add billing week rules from a date onwards. Weeks before that date keep the rules they had.
+ */
+export async function addWeekRulesAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const dateStr = formData.get("effectiveFrom")?.toString();
+    const weekStartDay = parseInt(formData.get("weekStartDay")?.toString() ?? "", 10);
+    const dueDay = parseInt(formData.get("dueDay")?.toString() ?? "", 10);
+    const payoutDay = parseInt(formData.get("payoutDay")?.toString() ?? "", 10);
+
+    if (!dateStr) {
+        return { error: "Effective date is required" };
+    }
+    const effectiveFrom = new Date(dateStr);
+    if (isNaN(effectiveFrom.getTime())) {
+        return { error: "Invalid date format" };
+    }
+    if (!isWeekday(weekStartDay) || !isWeekday(dueDay) || !isWeekday(payoutDay)) {
+        return { error: "Invalid day of the week" };
+    }
+    // New rules start a fresh week, so the date has to be a week start under them
+    if (effectiveFrom.getUTCDay() !== weekStartDay) {
+        return { error: `The effective date must be a ${WEEKDAY_NAMES[weekStartDay]}, the first day of the new week` };
+    }
+
+    const existing = await db
+        .select({ id: householdSettings.id })
+        .from(householdSettings)
+        .where(eq(householdSettings.effectiveFrom, effectiveFrom))
+        .limit(1);
+    if (existing.length > 0) {
+        return { error: "Rules already start on that date - remove them first" };
+    }
+
+    await db.insert(householdSettings).values({ effectiveFrom, weekStartDay, dueDay, payoutDay });
+
+    revalidateHouseholdPaths();
+    return { success: true };
+}
+
+export async function deleteWeekRulesAction(id: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    await db.delete(householdSettings).where(eq(householdSettings.id, id));
+
+    revalidateHouseholdPaths();
+    return { success: true };
+}
+
 // ============================================
 // Landlord Management Actions
 // ============================================
 
+/**
+ * Validate an optional bank account number field, returning it in the standard format
+ */
+function parseBankAccountField(value: string | undefined): { value: string | null } | { error: string } {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+        return { value: null };
+    }
+
+    const validated = validateNzBankAccount(trimmed);
+    return "error" in validated ? { error: validated.error } : { value: formatNzBankAccount(validated.account) };
+}
+
 export async function addLandlordAction(formData: FormData) {
     const session = await auth();
     if (!session?.user || session.user.role !== "admin") {
@@ -776,13 +1311,18 @@ export async function addLandlordAction(formData: FormData) {
     }
 
     const name = formData.get("name")?.toString().trim();
-    const bankAccountPattern = formData.get("bankAccountPattern")?.toString().trim() || null;
+    const bankAccount = parseBankAccountField(formData.get("bankAccountPattern")?.toString());
     const matchingName = formData.get("matchingName")?.toString().trim() || null;
 
     if (!name) {
         return { error: "Landlord name is required" };
     }
 
+    if ("error" in bankAccount) {
+        return { error: bankAccount.error };
+    }
+    const bankAccountPattern = bankAccount.value;
+
     if (!bankAccountPattern && !matchingName) {
         return { error: "At least one matching pattern (bank account or name) is required" };
     }
@@ -812,7 +1352,7 @@ export async function updateLandlordAction(formData: FormData) {
 
     const id = formData.get("id")?.toString();
     const name = formData.get("name")?.toString().trim();
-    const bankAccountPattern = formData.get("bankAccountPattern")?.toString().trim() || null;
+    const bankAccount = parseBankAccountField(formData.get("bankAccountPattern")?.toString());
     const matchingName = formData.get("matchingName")?.toString().trim() || null;
 
     if (!id) {
@@ -823,6 +1363,11 @@ export async function updateLandlordAction(formData: FormData) {
         return { error: "Landlord name is required" };
     }
 
+    if ("error" in bankAccount) {
+        return { error: bankAccount.error };
+    }
+    const bankAccountPattern = bankAccount.value;
+
     if (!bankAccountPattern && !matchingName) {
         return { error: "At least one matching pattern (bank account or name) is required" };
     }
@@ -890,6 +1435,14 @@ export async function deleteLandlordAction(id: string) {
                 matchConfidence: null,
             })
             .where(eq(transactions.matchedLandlordId, id));
+        await db
+            .update(pendingTransactions)
+            .set({
+                matchedLandlordId: null,
+                matchType: null,
+                matchConfidence: null,
+            })
+            .where(eq(pendingTransactions.matchedLandlordId, id));
 
         // Delete the landlord
         await db.delete(landlords).where(eq(landlords.id, id));
@@ -902,4 +1455,237 @@ export async function deleteLandlordAction(id: string) {
         console.error("Error deleting landlord:", error);
         return { error: "Failed to delete landlord" };
     }
-}
\ No newline at end of file
+}
+// ============================================
+// Bank Account Actions
+// ============================================
+
+function parseBankAccountRole(value: string | undefined): BankAccountRole | null {
+    return BANK_ACCOUNT_ROLES.find((role) => role === value) ?? null;
+}
+
+export async function addBankAccountAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const akahuAccountId = formData.get("akahuAccountId")?.toString().trim();
+    const label = formData.get("label")?.toString().trim();
+    const role = parseBankAccountRole(formData.get("role")?.toString());
+
+    if (!akahuAccountId) {
+        return { error: "Akahu account is required" };
+    }
+
+    if (!label) {
+        return { error: "Label is required" };
+    }
+
+    if (!role) {
+        return { error: "Invalid account role" };
+    }
+
+    const existing = await db
+        .select({ id: bankAccounts.id })
+        .from(bankAccounts)
+        .where(eq(bankAccounts.akahuAccountId, akahuAccountId))
+        .limit(1);
+
+    if (existing.length > 0) {
+        return { error: "This account is already tracked" };
+    }
+
+    // Check the account exists, and get its number for spotting transfers between tracked accounts
+    let accountNumber: string | null = null;
+    try {
+        const account = await getBankProvider().getAccount(akahuAccountId);
+        accountNumber = account.accountNumber;
+    } catch (error) {
+        console.error("Error fetching Akahu account:", error);
+        return { error: "Akahu account not found" };
+    }
+
+    try {
+        await db.insert(bankAccounts).values({ akahuAccountId, label, role, accountNumber });
+
+        revalidatePath("/settings");
+        revalidatePath("/transactions");
+        return { success: true };
+    } catch (error) {
+        console.error("Error adding bank account:", error);
+        return { error: "Failed to add bank account" };
+    }
+}
+
+export async function updateBankAccountAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const id = formData.get("id")?.toString();
+    const label = formData.get("label")?.toString().trim();
+    const role = parseBankAccountRole(formData.get("role")?.toString());
+    const isActive = formData.get("isActive") === "on";
+
+    if (!id) {
+        return { error: "Bank account ID is required" };
+    }
+
+    if (!label) {
+        return { error: "Label is required" };
+    }
+
+    if (!role) {
+        return { error: "Invalid account role" };
+    }
+
+    try {
+        const result = await db
+            .update(bankAccounts)
+            .set({ label, role, isActive, updatedAt: new Date() })
+            .where(eq(bankAccounts.id, id));
+
+        if (result.changes === 0) {
+            return { error: "Bank account not found" };
+        }
+
+        revalidatePath("/settings");
+        revalidatePath("/transactions");
+        return { success: true };
+    } catch (error) {
+        console.error("Error updating bank account:", error);
+        return { error: "Failed to update bank account" };
+    }
+}
+
+export async function deleteBankAccountAction(id: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    // Synced transactions would lose their account, so those accounts can only be deactivated
+    const [synced] = await db
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(eq(transactions.bankAccountId, id))
+        .limit(1);
+
+    if (synced) {
+        return { error: "This account has synced transactions. Deactivate it instead to stop syncing it." };
+    }
+
+    const [other] = await db
+        .select({ id: bankAccounts.id })
+        .from(bankAccounts)
+        .where(and(ne(bankAccounts.id, id), eq(bankAccounts.isActive, true)))
+        .limit(1);
+
+    if (!other) {
+        return { error: "At least one active bank account is required" };
+    }
+
+    try {
+        await db.delete(pendingTransactions).where(eq(pendingTransactions.bankAccountId, id));
+        await db.delete(bankAccounts).where(eq(bankAccounts.id, id));
+
+        revalidatePath("/settings");
+        revalidatePath("/transactions");
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting bank account:", error);
+        return { error: "Failed to delete bank account" };
+    }
+}
+
+// ============================================
+// Statement Import Actions
+// ============================================
+
+const MAX_STATEMENT_SIZE = 4 * 1024 * 1024; // Keep under serverActions.bodySizeLimit in next.config.ts
+
+export async function importStatementAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const file = formData.get("file");
+    const bankAccountId = formData.get("bankAccountId")?.toString();
+
+    if (!(file instanceof File) || file.size === 0) {
+        return { error: "Statement file is required" };
+    }
+
+    if (file.size > MAX_STATEMENT_SIZE) {
+        return { error: "Statement file is too large (max 4 MB)" };
+    }
+
+    if (!bankAccountId) {
+        return { error: "Bank account is required" };
+    }
+
+    let statement: ParsedStatement;
+    try {
+        statement = parseStatement(file.name, await file.text(), await getHouseholdTimeZone());
+    } catch (error) {
+        return { error: `Couldn't read statement: ${error instanceof Error ? error.message : error}` };
+    }
+
+    let accountId: string;
+    if (bankAccountId === "new") {
+        // An account Akahu doesn't see, filled only from statement files
+        const label = formData.get("label")?.toString().trim();
+        const role = parseBankAccountRole(formData.get("role")?.toString());
+
+        if (!label) {
+            return { error: "Label is required for a new account" };
+        }
+
+        if (!role) {
+            return { error: "Invalid account role" };
+        }
+
+        const [account] = await db
+            .insert(bankAccounts)
+            .values({
+                akahuAccountId: `import:${crypto.randomUUID()}`,
+                label,
+                role,
+                accountNumber: statement.accountNumber,
+                source: "import",
+            })
+            .returning({ id: bankAccounts.id });
+        accountId = account.id;
+    } else {
+        const [account] = await db
+            .select()
+            .from(bankAccounts)
+            .where(eq(bankAccounts.id, bankAccountId))
+            .limit(1);
+
+        if (!account) {
+            return { error: "Bank account not found" };
+        }
+
+        if (statement.accountNumber && account.accountNumber && !isSameAccountNumber(statement.accountNumber, account.accountNumber)) {
+            return { error: `This statement is for ${statement.accountNumber}, not ${account.label} (${account.accountNumber})` };
+        }
+
+        accountId = account.id;
+    }
+
+    try {
+        const result = await importStatement(statement, accountId);
+
+        revalidatePath("/");
+        revalidatePath("/transactions");
+        revalidatePath("/settings");
+        return { success: true, ...result };
+    } catch (error) {
+        console.error("Error importing statement:", error);
+        return { error: "Failed to import statement" };
+    }
+}
@@ -0,0 +1,125 @@
+import type { WebhookPayload } from "akahu";
+import { db } from "./db";
+import { bankAccounts, transactions } from "./db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { subDays } from "date-fns";
+import { getBankProvider } from "./bank-provider";
+import { syncTransactions, type SyncResult } from "./sync";
+
+const WEBHOOK_RANGE_MARGIN_DAYS = 2; // Fetch from a little before the earliest changed transaction, so removals are noticed
+
+export interface WebhookOutcome {
+    handled: boolean;
+    message: string;
+    sync?: SyncResult;
+}
+
+async function getTrackedAccount(akahuAccountId: string) {
+    const [account] = await db
+        .select()
+        .from(bankAccounts)
+        .where(eq(bankAccounts.akahuAccountId, akahuAccountId))
+        .limit(1);
+    return account ?? null;
+}
+
+function earliestDate(dates: Date[]): Date | null {
+    return dates.reduce<Date | null>((min, date) => (!min || date < min ? date : min), null);
+}
+
+/**
+ * Act on a verified Akahu webhook.
+ * TRANSACTION events sync just the affected account, from just before the earliest transaction they name.
+ * ACCOUNT events keep the tracked account in step (number, ID migrations, unlinking) and sync it.
+ * Events for untracked or inactive accounts, and other webhook types, are acknowledged and ignored.
+ */
+export async function handleAkahuWebhook(payload: WebhookPayload): Promise<WebhookOutcome> {
+    const event = `${payload.webhook_type} ${payload.webhook_code}`;
+
+    if (payload.webhook_code === "WEBHOOK_CANCELLED") {
+        // e.g. the app's access was revoked; webhooks need subscribing again, and until then only the cron syncs
+        console.warn("[Webhook] Akahu cancelled the", payload.webhook_type, "webhook");
+        return { handled: false, message: `${event}: webhook cancelled` };
+    }
+
+    if (payload.webhook_type === "TRANSACTION") {
+        const account = await getTrackedAccount(payload.item_id);
+        if (!account?.isActive) {
+            return { handled: false, message: `${event}: ${payload.item_id} isn't an active tracked account` };
+        }
+
+        let dates: Date[];
+        if (payload.webhook_code === "DELETE") {
+            // Removed transactions are gone from Akahu, so their dates come from what we stored
+            dates = payload.removed_transactions.length > 0
+                ? (await db
+                    .select({ date: transactions.date })
+                    .from(transactions)
+                    .where(and(
+                        eq(transactions.bankAccountId, account.id),
+                        inArray(transactions.akahuId, payload.removed_transactions)
+                    ))
+                ).map((tx) => tx.date)
+                : [];
+        } else {
+            const changed = await getBankProvider().getTransactions(payload.new_transaction_ids);
+            dates = changed.map((tx) => new Date(tx.date));
+        }
+
+        const earliest = earliestDate(dates);
+        if (!earliest) {
+            return { handled: false, message: `${event}: no known transactions on ${account.label}` };
+        }
+
+        const since = subDays(earliest, WEBHOOK_RANGE_MARGIN_DAYS);
+        const sync = await syncTransactions("webhook", undefined, { akahuAccountId: account.akahuAccountId, since });
+        return { handled: true, message: `${event}: synced ${account.label} since ${since.toISOString()}`, sync };
+    }
+
+    if (payload.webhook_type === "ACCOUNT") {
+        if (payload.webhook_code === "MIGRATE") {
+            // Akahu has given the account a new ID; the watermark falls back to the stored transactions
+            const account = await getTrackedAccount(payload.previous_item_id);
+            if (!account) {
+                return { handled: false, message: `${event}: ${payload.previous_item_id} isn't tracked` };
+            }
+
+            await db
+                .update(bankAccounts)
+                .set({ akahuAccountId: payload.new_item_id, updatedAt: new Date() })
+                .where(eq(bankAccounts.id, account.id));
+            console.log("[Webhook]", account.label, "moved from", payload.previous_item_id, "to", payload.new_item_id);
+            return { handled: true, message: `${event}: ${account.label} is now ${payload.new_item_id}` };
+        }
+
+        const account = await getTrackedAccount(payload.item_id);
+        if (!account?.isActive) {
+            return { handled: false, message: `${event}: ${payload.item_id} isn't an active tracked account` };
+        }
+
+        if (payload.webhook_code === "DELETE") {
+            // The account was unlinked from Akahu; stop syncing it but keep its transactions
+            await db
+                .update(bankAccounts)
+                .set({ isActive: false, updatedAt: new Date() })
+                .where(eq(bankAccounts.id, account.id));
+            console.log("[Webhook]", account.label, "was removed from Akahu; deactivated it");
+            return { handled: true, message: `${event}: deactivated ${account.label}` };
+        }
+
+        if (payload.webhook_code === "UPDATE") {
+            const details = await getBankProvider().getAccount(account.akahuAccountId);
+            if (details.accountNumber && details.accountNumber !== account.accountNumber) {
+                await db
+                    .update(bankAccounts)
+                    .set({ accountNumber: details.accountNumber, updatedAt: new Date() })
+                    .where(eq(bankAccounts.id, account.id));
+            }
+        }
+
+        const sync = await syncTransactions("webhook", undefined, { akahuAccountId: account.akahuAccountId });
+        return { handled: true, message: `${event}: synced ${account.label}`, sync };
+    }
+
+    return { handled: false, message: `${event}: ignored` };
+}
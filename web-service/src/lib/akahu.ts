@@ -1,12 +1,27 @@
 import { AkahuClient } from "akahu";
+import type {
+    Account as AkahuAccount,
+    Transaction as AkahuTransaction,
+    EnrichedTransaction,
+    PendingTransaction as AkahuPendingTransaction,
+    WebhookPayload,
+} from "akahu";
+import type { BankProvider, ProviderAccount, ProviderPendingTransaction, ProviderTransaction } from "./bank-provider";
 
-if (!process.env.AKAHU_APP_TOKEN) {
-    throw new Error("AKAHU_APP_TOKEN is not set");
-}
+let client: AkahuClient | null = null;
 
-export const akahu = new AkahuClient({
-    appToken: process.env.AKAHU_APP_TOKEN,
-});
+/**
+ * Create the Akahu client on first use, so the app can start (and build) without Akahu credentials.
+ */
+function getAkahuClient(): AkahuClient {
+    if (!client) {
+        if (!process.env.AKAHU_APP_TOKEN) {
+            throw new Error("AKAHU_APP_TOKEN is not set");
+        }
+        client = new AkahuClient({ appToken: process.env.AKAHU_APP_TOKEN });
+    }
+    return client;
+}
 
 export function getUserToken(): string {
     const token = process.env.AKAHU_API_KEY;
@@ -16,10 +31,129 @@ export function getUserToken(): string {
     return token;
 }
 
-export function getAccountId(): string {
-    const accountId = process.env.AKAHU_ACCOUNT_ID;
-    if (!accountId) {
-        throw new Error("AKAHU_ACCOUNT_ID is not set");
+/**
+ * Check an Akahu webhook's signature (made with the signing key named in its headers) and parse its body.
+ * Returns null if the signature is invalid or the key has been rotated out; throws if the key can't be fetched.
+ */
+export async function verifyAkahuWebhook(
+    keyId: string,
+    signature: string,
+    body: string
+): Promise<WebhookPayload | null> {
+    try {
+        // The client caches signing keys in memory, so most webhooks don't need a key lookup
+        return await getAkahuClient().webhooks.validateWebhook(keyId, signature, body);
+    } catch (error) {
+        // The SDK only exports AkahuWebhookValidationError as a type; API errors are the Akahu errors with a status
+        if ((error as { isAkahuError?: boolean }).isAkahuError && !("status" in (error as object))) {
+            console.warn("[Akahu] Rejected webhook:", (error as Error).message);
+            return null;
+        }
+        throw error;
     }
-    return accountId;
 }
+
+function isEnrichedTransaction(tx: AkahuTransaction): tx is EnrichedTransaction {
+    return "merchant" in tx && tx.merchant !== undefined;
+}
+
+interface AkahuMeta {
+    card_suffix?: string;
+    logo?: string;
+    particulars?: string;
+    code?: string;
+    reference?: string;
+    other_account?: string;
+}
+
+export function fromAkahuTransaction(tx: AkahuTransaction): ProviderTransaction {
+    const meta = (tx as { meta?: AkahuMeta }).meta;
+
+    return {
+        id: tx._id,
+        accountId: tx._account,
+        date: tx.date,
+        amount: tx.amount,
+        description: tx.description,
+        merchant: isEnrichedTransaction(tx) ? tx.merchant?.name ?? null : null,
+        merchantLogo: meta?.logo ?? null,
+        category: isEnrichedTransaction(tx) ? tx.category?.name ?? null : null,
+        cardSuffix: meta?.card_suffix ?? null,
+        otherAccount: meta?.other_account ?? null,
+        raw: tx,
+    };
+}
+
+export function fromAkahuPendingTransaction(tx: AkahuPendingTransaction): ProviderPendingTransaction {
+    return {
+        accountId: tx._account,
+        date: tx.date,
+        amount: tx.amount,
+        description: tx.description,
+        type: tx.type ?? null,
+        raw: tx,
+    };
+}
+
+export function fromAkahuAccount(account: Pick<AkahuAccount, "_id" | "name" | "formatted_account">): ProviderAccount {
+    return {
+        id: account._id,
+        name: account.name,
+        accountNumber: account.formatted_account ?? null,
+    };
+}
+
+export const akahuProvider: BankProvider = {
+    name: "akahu",
+
+    async listTransactions(accountId, start, onPage) {
+        const query: { start?: string; cursor?: string } = {};
+        if (start) {
+            query.start = start.toISOString();
+        }
+
+        console.log("[Akahu] Query params:", query);
+
+        let cursor: string | null = null;
+        const allTransactions: ProviderTransaction[] = [];
+
+        do {
+            if (cursor) {
+                query.cursor = cursor;
+            }
+
+            console.log("[Akahu] Fetching page...");
+            const page = await getAkahuClient().accounts.listTransactions(getUserToken(), accountId, query);
+            console.log("[Akahu] Got", page.items.length, "transactions");
+            allTransactions.push(...page.items.map(fromAkahuTransaction));
+            onPage?.(allTransactions.length);
+            cursor = page.cursor.next;
+        } while (cursor !== null);
+
+        return allTransactions;
+    },
+
+    async getTransactions(transactionIds) {
+        if (transactionIds.length === 0) return [];
+        const items = await getAkahuClient().transactions.getMany(getUserToken(), transactionIds);
+        return items.map(fromAkahuTransaction);
+    },
+
+    async listPendingTransactions(accountId) {
+        const items = await getAkahuClient().accounts.listPendingTransactions(getUserToken(), accountId);
+        return items.map(fromAkahuPendingTransaction);
+    },
+
+    async refreshAccounts() {
+        await getAkahuClient().accounts.refreshAll(getUserToken());
+    },
+
+    async listAccounts() {
+        const accounts = await getAkahuClient().accounts.list(getUserToken());
+        return accounts.map(fromAkahuAccount);
+    },
+
+    async getAccount(accountId) {
+        return fromAkahuAccount(await getAkahuClient().accounts.get(getUserToken(), accountId));
+    },
+};
@@ -0,0 +1,203 @@
+import { db } from "./db";
+import { transactions, transactionAllocations, users } from "./db/schema";
+import type { Transaction, TransactionAllocation } from "./db/schema";
+import { and, eq, gte, inArray, isNull, lte, or, sql } from "drizzle-orm";
+
+export type AllocationMatchType = TransactionAllocation["matchType"];
+
+export const ALLOCATION_MATCH_TYPES = transactionAllocations.matchType.enumValues;
+
+/**
+ * One share of a split transaction, as edited in the transaction detail modal
+ */
+export interface AllocationInput {
+    userId: string;
+    matchType: AllocationMatchType;
+    amount: number;
+}
+
+/**
+ * A payment counted towards one flatmate: a whole transaction matched to them, or their share of a split one
+ */
+export interface UserPayment {
+    id: string; // Transaction ID, or allocation ID for a share of a split transaction
+    transactionId: string;
+    date: Date;
+    amount: number;
+    description: string;
+    rawData: string;
+    matchType: string | null;
+    matchConfidence: number | null;
+    isSplit: boolean;
+}
+
+/**
+ * Check a split adds up to the transaction's amount. An empty list removes the split.
+ */
+export async function validateAllocations(
+    transactionAmount: number,
+    inputs: AllocationInput[]
+): Promise<{ allocations: AllocationInput[] } | { error: string }> {
+    if (inputs.length === 0) {
+        return { allocations: [] };
+    }
+    if (inputs.length === 1) {
+        return { error: "A split needs at least two parts - use the match instead" };
+    }
+
+    for (const input of inputs) {
+        if (!input.userId) {
+            return { error: "Choose a flatmate for every part" };
+        }
+        if (!ALLOCATION_MATCH_TYPES.includes(input.matchType)) {
+            return { error: "Invalid match type" };
+        }
+        if (!Number.isFinite(input.amount) || input.amount <= 0) {
+            return { error: "Each part needs an amount above zero" };
+        }
+    }
+
+    const total = inputs.reduce((sum, input) => sum + input.amount, 0);
+    if (Math.abs(total - Math.abs(transactionAmount)) >= 0.005) {
+        return { error: `Parts add up to $${total.toFixed(2)}, not $${Math.abs(transactionAmount).toFixed(2)}` };
+    }
+
+    const userIds = [...new Set(inputs.map((input) => input.userId))];
+    const existing = await db.select({ id: users.id }).from(users).where(inArray(users.id, userIds));
+    if (existing.length !== userIds.length) {
+        return { error: "Flatmate not found" };
+    }
+
+    return { allocations: inputs.map((input) => ({ ...input, amount: Math.round(input.amount * 100) / 100 })) };
+}
+
+/**
+ * Replace a transaction's split. The largest part becomes the transaction's (manual) match, so
+ * transaction lists still show who it's for and rematching leaves it alone.
+ */
+export function replaceTransactionAllocations(transactionId: string, allocations: AllocationInput[]): void {
+    db.transaction((tx) => {
+        tx.delete(transactionAllocations).where(eq(transactionAllocations.transactionId, transactionId)).run();
+        if (allocations.length === 0) return;
+
+        tx.insert(transactionAllocations).values(allocations.map((a) => ({ ...a, transactionId }))).run();
+
+        const largest = allocations.reduce((max, a) => (a.amount > max.amount ? a : max));
+        tx.update(transactions)
+            .set({
+                matchedUserId: largest.userId,
+                matchedLandlordId: null,
+                matchType: largest.matchType,
+                matchConfidence: 1.0,
+                manualMatch: true,
+            })
+            .where(eq(transactions.id, transactionId))
+            .run();
+    });
+}
+
+/**
+ * Match a transaction to a single flatmate (or clear its match), removing any split. Both writes
+ * happen in one SQLite transaction, so a failure can't leave the split gone but the old match in place.
+ */
+export function setSingleTransactionMatch(
+    transactionId: string,
+    matchedUserId: string | null,
+    matchType: Transaction["matchType"]
+): void {
+    db.transaction((tx) => {
+        tx.delete(transactionAllocations).where(eq(transactionAllocations.transactionId, transactionId)).run();
+        tx.update(transactions)
+            .set({
+                matchedUserId,
+                matchType,
+                matchConfidence: matchedUserId ? 1.0 : null,
+                manualMatch: matchedUserId !== null,
+            })
+            .where(eq(transactions.id, transactionId))
+            .run();
+    });
+}
+
+export async function getTransactionAllocations(transactionId: string): Promise<TransactionAllocation[]> {
+    return db
+        .select()
+        .from(transactionAllocations)
+        .where(eq(transactionAllocations.transactionId, transactionId))
+        .orderBy(transactionAllocations.createdAt);
+}
+
+/**
+ * Allocations grouped by transaction, for the given transactions
+ */
+export async function getAllocationsByTransaction(transactionIds: string[]): Promise<Map<string, TransactionAllocation[]>> {
+    const byTransaction = new Map<string, TransactionAllocation[]>();
+    if (transactionIds.length === 0) return byTransaction;
+
+    const rows = await db
+        .select()
+        .from(transactionAllocations)
+        .where(inArray(transactionAllocations.transactionId, transactionIds));
+    for (const row of rows) {
+        byTransaction.set(row.transactionId, [...(byTransaction.get(row.transactionId) ?? []), row]);
+    }
+    return byTransaction;
+}
+
+/**
+ * Incoming payments counted towards a flatmate between two dates: transactions matched to them,
+ * and their shares of split transactions (which replace the split transaction's own match)
+ */
+export async function getUserPayments(userId: string, startDate: Date, endDate: Date): Promise<UserPayment[]> {
+    const allocatedToUser = db
+        .select({ transactionId: transactionAllocations.transactionId })
+        .from(transactionAllocations)
+        .where(eq(transactionAllocations.userId, userId));
+
+    const candidates = await db
+        .select()
+        .from(transactions)
+        .where(
+            and(
+                or(eq(transactions.matchedUserId, userId), inArray(transactions.id, allocatedToUser)),
+                gte(transactions.date, startDate),
+                lte(transactions.date, endDate),
+                sql`${transactions.amount} > 0`, // Only incoming payments
+                isNull(transactions.deletedAt)
+            )
+        )
+        .orderBy(transactions.date);
+
+    const allocations = await getAllocationsByTransaction(candidates.map((tx) => tx.id));
+
+    return candidates.flatMap((tx): UserPayment[] => {
+        const split = allocations.get(tx.id);
+        if (!split) {
+            return [{
+                id: tx.id,
+                transactionId: tx.id,
+                date: tx.date,
+                amount: tx.amount,
+                description: tx.description,
+                rawData: tx.rawData,
+                matchType: tx.matchType,
+                matchConfidence: tx.matchConfidence,
+                isSplit: false,
+            }];
+        }
+
+        return split
+            .filter((allocation) => allocation.userId === userId)
+            .map((allocation) => ({
+                id: allocation.id,
+                transactionId: tx.id,
+                date: tx.date,
+                amount: allocation.amount,
+                description: tx.description,
+                rawData: tx.rawData,
+                matchType: allocation.matchType,
+                matchConfidence: 1.0,
+                isSplit: true,
+            }));
+    });
+}
@@ -0,0 +1,69 @@
+import { db } from "./db";
+import { balanceAdjustments, users } from "./db/schema";
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+
+/**
+ * A one-off credit or charge on a flatmate's balance, with who recorded it
+ */
+export interface BalanceAdjustmentEntry {
+    id: string;
+    userId: string;
+    userName: string | null;
+    date: Date;
+    amount: number; // Positive = credit, negative = charge
+    reason: string;
+    createdByName: string | null; // Null if the admin who recorded it has been removed
+    createdAt: Date | null;
+}
+
+/**
+ * The adjustments ledger, newest first. Limited to one flatmate when a user ID is given.
+ */
+export async function getBalanceAdjustments(userId?: string): Promise<BalanceAdjustmentEntry[]> {
+    const creators = alias(users, "creator");
+    const rows = await db
+        .select({
+            id: balanceAdjustments.id,
+            userId: balanceAdjustments.userId,
+            userName: users.name,
+            userEmail: users.email,
+            date: balanceAdjustments.date,
+            amount: balanceAdjustments.amount,
+            reason: balanceAdjustments.reason,
+            creatorName: creators.name,
+            creatorEmail: creators.email,
+            createdAt: balanceAdjustments.createdAt,
+        })
+        .from(balanceAdjustments)
+        .innerJoin(users, eq(balanceAdjustments.userId, users.id))
+        .leftJoin(creators, eq(balanceAdjustments.createdBy, creators.id))
+        .where(userId ? eq(balanceAdjustments.userId, userId) : undefined)
+        .orderBy(desc(balanceAdjustments.date), desc(balanceAdjustments.createdAt));
+
+    return rows.map((row) => ({
+        id: row.id,
+        userId: row.userId,
+        userName: row.userName ?? row.userEmail,
+        date: row.date,
+        amount: row.amount,
+        reason: row.reason,
+        createdByName: row.creatorName ?? row.creatorEmail,
+        createdAt: row.createdAt,
+    }));
+}
+
+/**
+ * Credits less charges for one flatmate dated between two instants (e.g. a billing week's bounds)
+ */
+export async function getAdjustmentTotal(userId: string, start: Date, end: Date): Promise<number> {
+    const rows = await db
+        .select({ amount: balanceAdjustments.amount })
+        .from(balanceAdjustments)
+        .where(and(
+            eq(balanceAdjustments.userId, userId),
+            gte(balanceAdjustments.date, start),
+            lte(balanceAdjustments.date, end)
+        ));
+    return rows.reduce((sum, row) => sum + row.amount, 0);
+}
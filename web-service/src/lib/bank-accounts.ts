@@ -0,0 +1,187 @@
+import { db } from "./db";
+import { bankAccounts, expenseTransactions, pendingTransactions, transactions } from "./db/schema";
+import type { BankAccount } from "./db/schema";
+import { and, eq, gte, isNull, or } from "drizzle-orm";
+import { differenceInCalendarDays } from "date-fns";
+import { getBankProvider, type ProviderAccount } from "./bank-provider";
+import { normaliseNzBankAccount } from "./nz-bank-account";
+
+export const BANK_ACCOUNT_ROLES = ["rent", "bills", "savings"] as const;
+export type BankAccountRole = (typeof BANK_ACCOUNT_ROLES)[number];
+
+const TRANSFER_WINDOW_DAYS = 2; // How far apart the two sides of a transfer may be dated
+
+export async function getBankAccounts(): Promise<BankAccount[]> {
+    return db.select().from(bankAccounts).orderBy(bankAccounts.createdAt);
+}
+
+/**
+ * The single account from AKAHU_ACCOUNT_ID, if set.
+ * Only used to seed the tracked bank accounts; after that they're managed in Settings.
+ */
+function getEnvAccountId(): string | null {
+    return process.env.AKAHU_ACCOUNT_ID || null;
+}
+
+/**
+ * Create the first tracked account from AKAHU_ACCOUNT_ID (for installs from before multiple accounts)
+ * and assign it every transaction synced so far.
+ */
+async function seedBankAccountFromEnv(): Promise<void> {
+    const akahuAccountId = getEnvAccountId();
+    if (!akahuAccountId) {
+        return;
+    }
+
+    const [existing] = await db.select({ id: bankAccounts.id }).from(bankAccounts).limit(1);
+    if (existing) {
+        return;
+    }
+
+    console.log("[BankAccounts] Tracking", akahuAccountId, "from AKAHU_ACCOUNT_ID");
+    db.transaction((tx) => {
+        const [account] = tx
+            .insert(bankAccounts)
+            .values({ akahuAccountId, label: "Flat account", role: "rent" })
+            .returning()
+            .all();
+
+        tx.update(transactions)
+            .set({ bankAccountId: account.id })
+            .where(isNull(transactions.bankAccountId))
+            .run();
+        tx.update(pendingTransactions)
+            .set({ bankAccountId: account.id })
+            .where(isNull(pendingTransactions.bankAccountId))
+            .run();
+    });
+}
+
+/**
+ * Get the accounts to sync, filling in account numbers Akahu hasn't given us yet.
+ */
+export async function getActiveBankAccounts(): Promise<BankAccount[]> {
+    await seedBankAccountFromEnv();
+
+    const accounts = await db
+        .select()
+        .from(bankAccounts)
+        .where(and(eq(bankAccounts.isActive, true), eq(bankAccounts.source, "sync")));
+
+    for (const account of accounts) {
+        if (account.accountNumber) continue;
+
+        try {
+            const details = await getBankProvider().getAccount(account.akahuAccountId);
+            if (details.accountNumber) {
+                account.accountNumber = details.accountNumber;
+                await db
+                    .update(bankAccounts)
+                    .set({ accountNumber: details.accountNumber, updatedAt: new Date() })
+                    .where(eq(bankAccounts.id, account.id));
+            }
+        } catch (error) {
+            console.error("[BankAccounts] Failed to fetch details for", account.akahuAccountId, error);
+        }
+    }
+
+    return accounts;
+}
+
+/**
+ * Flag transactions since the given date that move money between two tracked accounts.
+ * A transaction is a transfer if its other account is a tracked account. The opposite amount on that
+ * account within a couple of days is its other half, unless it names a different other account.
+ * Opposite amounts alone aren't enough (a rent payment in and a card payment out can coincide).
+ * Non-manual matches on newly flagged transactions are cleared, so they drop out of rent and expenses.
+ * Returns the IDs of the newly flagged transactions.
+ */
+export async function detectInternalTransfers(since: Date | null): Promise<string[]> {
+    const accounts = await getBankAccounts();
+    if (accounts.length < 2) {
+        return [];
+    }
+
+    const accountIdsByNumber = new Map<string, string>();
+    const numbersByAccountId = new Map<string, string>();
+    for (const account of accounts) {
+        const number = normaliseNzBankAccount(account.accountNumber);
+        if (number) {
+            accountIdsByNumber.set(number, account.id);
+            numbersByAccountId.set(account.id, number);
+        }
+    }
+
+    // False when the transaction names an other account and it isn't the given tracked account
+    const mayBeTransferWith = (tx: { otherAccount: string | null }, accountId: string) => {
+        const otherAccount = normaliseNzBankAccount(tx.otherAccount);
+        const number = numbersByAccountId.get(accountId);
+        return !otherAccount || !number || otherAccount === number;
+    };
+
+    const candidates = await db
+        .select({
+            id: transactions.id,
+            bankAccountId: transactions.bankAccountId,
+            date: transactions.date,
+            amount: transactions.amount,
+            otherAccount: transactions.otherAccount,
+            isInternalTransfer: transactions.isInternalTransfer,
+        })
+        .from(transactions)
+        .where(and(since ? gte(transactions.date, since) : undefined, isNull(transactions.deletedAt)))
+        .orderBy(transactions.date);
+
+    const flagged = new Set<string>();
+    const paired = new Set(candidates.filter((tx) => tx.isInternalTransfer).map((tx) => tx.id));
+
+    for (const tx of candidates) {
+        const accountId = tx.bankAccountId;
+        if (paired.has(tx.id) || !accountId) continue;
+
+        const otherAccountId = accountIdsByNumber.get(normaliseNzBankAccount(tx.otherAccount) ?? "");
+        if (!otherAccountId || otherAccountId === accountId) continue;
+
+        flagged.add(tx.id);
+        paired.add(tx.id);
+
+        const counterpart = candidates.find((other) =>
+            !paired.has(other.id) &&
+            other.bankAccountId === otherAccountId &&
+            Math.abs(other.amount + tx.amount) < 0.005 &&
+            Math.abs(differenceInCalendarDays(other.date, tx.date)) <= TRANSFER_WINDOW_DAYS &&
+            mayBeTransferWith(other, accountId)
+        );
+        if (counterpart) {
+            flagged.add(counterpart.id);
+            paired.add(counterpart.id);
+        }
+    }
+
+    for (const id of flagged) {
+        await db
+            .update(transactions)
+            .set({ isInternalTransfer: true })
+            .where(eq(transactions.id, id));
+        await db
+            .update(transactions)
+            .set({ matchedUserId: null, matchedLandlordId: null, matchType: null, matchConfidence: null })
+            .where(and(eq(transactions.id, id), or(eq(transactions.manualMatch, false), isNull(transactions.manualMatch))));
+        await db
+            .delete(expenseTransactions)
+            .where(and(eq(expenseTransactions.transactionId, id), eq(expenseTransactions.manualMatch, false)));
+    }
+
+    if (flagged.size > 0) {
+        console.log("[BankAccounts] Flagged", flagged.size, "internal transfers");
+    }
+
+    return [...flagged];
+}
+
+/**
+ * List the accounts the bank provider can see, to pick new accounts to track from.
+ */
+export async function listProviderAccounts(): Promise<ProviderAccount[]> {
+    return getBankProvider().listAccounts();
+}
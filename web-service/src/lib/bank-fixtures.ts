@@ -0,0 +1,79 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type {
+    Account as AkahuAccount,
+    Transaction as AkahuTransaction,
+    PendingTransaction as AkahuPendingTransaction,
+} from "akahu";
+import { fromAkahuAccount, fromAkahuPendingTransaction, fromAkahuTransaction } from "./akahu";
+import type { BankProvider } from "./bank-provider";
+
+/**
+ * Read a fixture file, or return the fallback if it doesn't exist.
+ */
+async function readFixture<T>(path: string, fallback: T): Promise<T> {
+    try {
+        return JSON.parse(await readFile(path, "utf8")) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return fallback;
+        }
+        throw new Error(`Invalid bank fixture ${path}: ${error}`);
+    }
+}
+
+/**
+ * A provider that replays recorded Akahu responses from disk, so sync can run without credentials.
+ * Layout of the fixture directory (see scripts/record-bank-fixtures.mjs):
+ * - accounts.json: Akahu account objects
+ * - transactions/<accountId>.json: the account's settled Akahu transactions
+ * - pending/<accountId>.json: the account's pending Akahu transactions
+ * Files are re-read on every call, so they can be edited between syncs to simulate new activity.
+ */
+export function createFixtureProvider(dir: string): BankProvider {
+    const readAccounts = () => readFixture<AkahuAccount[]>(join(dir, "accounts.json"), []);
+
+    return {
+        name: "fixture",
+
+        async listTransactions(accountId, start, onPage) {
+            const items = await readFixture<AkahuTransaction[]>(join(dir, "transactions", `${accountId}.json`), []);
+            const fetched = items
+                .filter((tx) => !start || new Date(tx.date) >= start)
+                .map(fromAkahuTransaction);
+            onPage?.(fetched.length);
+            return fetched;
+        },
+
+        async getTransactions(transactionIds) {
+            const ids = new Set(transactionIds);
+            const found: AkahuTransaction[] = [];
+            for (const account of await readAccounts()) {
+                const items = await readFixture<AkahuTransaction[]>(join(dir, "transactions", `${account._id}.json`), []);
+                found.push(...items.filter((tx) => ids.has(tx._id)));
+            }
+            return found.map(fromAkahuTransaction);
+        },
+
+        async listPendingTransactions(accountId) {
+            const items = await readFixture<AkahuPendingTransaction[]>(join(dir, "pending", `${accountId}.json`), []);
+            return items.map(fromAkahuPendingTransaction);
+        },
+
+        async refreshAccounts() {
+            // Nothing to refresh
+        },
+
+        async listAccounts() {
+            return (await readAccounts()).map(fromAkahuAccount);
+        },
+
+        async getAccount(accountId) {
+            const account = (await readAccounts()).find((a) => a._id === accountId);
+            if (!account) {
+                throw new Error(`Account ${accountId} not found in bank fixtures`);
+            }
+            return fromAkahuAccount(account);
+        },
+    };
+}
@@ -0,0 +1,82 @@
+import { akahuProvider } from "./akahu";
+import { createFixtureProvider } from "./bank-fixtures";
+
+/**
+ * A settled transaction as returned by a bank data provider.
+ */
+export interface ProviderTransaction {
+    id: string; // Provider's unique ID, stored as akahuId for deduplication
+    accountId: string;
+    date: string; // ISO 8601
+    amount: number; // Positive = money in, Negative = money out
+    description: string;
+    merchant: string | null;
+    merchantLogo: string | null;
+    category: string | null;
+    cardSuffix: string | null;
+    otherAccount: string | null; // Other party's bank account, for transfers
+    raw: unknown; // Original record, stored as rawData
+}
+
+/**
+ * A transaction that hasn't settled yet. Providers give these no stable ID.
+ */
+export interface ProviderPendingTransaction {
+    accountId: string;
+    date: string; // ISO 8601
+    amount: number;
+    description: string;
+    type: string | null; // e.g. "DIRECT CREDIT"
+    raw: unknown;
+}
+
+export interface ProviderAccount {
+    id: string;
+    name: string;
+    accountNumber: string | null; // Formatted bank account number, if the provider knows it
+}
+
+/**
+ * Where sync gets bank data from. Akahu in production; recorded fixtures for local development and tests.
+ */
+export interface BankProvider {
+    readonly name: string;
+    /**
+     * Every settled transaction on the account since the given date (the full history when null).
+     * `onPage` is called with the running total as each page arrives.
+     */
+    listTransactions(
+        accountId: string,
+        start: Date | null,
+        onPage?: (fetched: number) => void
+    ): Promise<ProviderTransaction[]>;
+    /** Look up settled transactions by ID; unknown IDs are left out. */
+    getTransactions(transactionIds: string[]): Promise<ProviderTransaction[]>;
+    listPendingTransactions(accountId: string): Promise<ProviderPendingTransaction[]>;
+    /** Ask the provider to fetch fresh data from the banks. */
+    refreshAccounts(): Promise<void>;
+    listAccounts(): Promise<ProviderAccount[]>;
+    getAccount(accountId: string): Promise<ProviderAccount>;
+}
+
+let provider: BankProvider | null = null;
+
+/**
+ * Get the provider picked by BANK_PROVIDER: "akahu" (default) or "fixture", which replays the recorded
+ * JSON in BANK_FIXTURES_DIR (see bank-fixtures.ts).
+ */
+export function getBankProvider(): BankProvider {
+    if (!provider) {
+        const name = process.env.BANK_PROVIDER || "akahu";
+
+        if (name === "akahu") {
+            provider = akahuProvider;
+        } else if (name === "fixture") {
+            provider = createFixtureProvider(process.env.BANK_FIXTURES_DIR || "./fixtures/bank");
+        } else {
+            throw new Error(`Unknown BANK_PROVIDER "${name}" (expected "akahu" or "fixture")`);
+        }
+    }
+
+    return provider;
+}
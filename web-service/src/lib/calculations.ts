@@ -1,37 +1,17 @@
 import { db } from "./db";
-import { transactions, paymentSchedules, users, systemState, landlords } from "./db/schema";
-import { eq, and, gte, lte, sql, isNotNull } from "drizzle-orm";
+import { transactions, pendingTransactions, paymentSchedules, users, systemState, landlords } from "./db/schema";
+import { eq, and, gte, lte, sql, isNotNull, isNull } from "drizzle-orm";
 import {
-    eachWeekOfInterval,
-    startOfWeek,
-    endOfWeek,
     startOfDay,
     isAfter,
 } from "date-fns";
-import { toZonedTime, fromZonedTime } from "date-fns-tz";
-
-// Get timezone from environment, default to Pacific/Auckland
-const TIMEZONE = process.env.TIMEZONE || "Pacific/Auckland";
-
-/**
- * Get the start of a week (Saturday 00:00:00) in the configured timezone.
- * Returns a UTC Date that represents Saturday midnight in the timezone.
- */
-function getWeekStartInTimezone(date: Date): Date {
-    const zonedDate = toZonedTime(date, TIMEZONE);
-    const weekStartZoned = startOfWeek(zonedDate, { weekStartsOn: 6 });
-    return fromZonedTime(weekStartZoned, TIMEZONE);
-}
-
-/**
- * Get the end of a week (Friday 23:59:59.999) in the configured timezone.
- * Returns a UTC Date that represents Friday end-of-day in the timezone.
- */
-function getWeekEndInTimezone(date: Date): Date {
-    const zonedDate = toZonedTime(date, TIMEZONE);
-    const weekEndZoned = endOfWeek(zonedDate, { weekStartsOn: 6 });
-    return fromZonedTime(weekEndZoned, TIMEZONE);
-}
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+import { getAllocationsByTransaction, getUserPayments } from "./allocations";
+import { getAdjustmentTotal, getBalanceAdjustments, type BalanceAdjustmentEntry } from "./balance-adjustments";
+import { allocatePaymentsToWeeks, findWeekCode, getWeekCode, type AllocatablePayment, type WeekPaymentAllocation } from "./rent-allocation";
+import { getHouseholdTimeZone, getWeekRulesHistory } from "./household";
+import { getBillingWeek, getBillingWeeks, type BillingWeek, type WeekRulesPeriod } from "./week-rules";
+import { getScheduleCharges, getScheduleOn, type CadenceSchedule, type ProratedCharge, type ScheduleCharge } from "./schedule-cadence";
 
 /**
  * Get the configured analysis start date from system settings.
@@ -55,10 +35,19 @@ export async function getAnalysisStartDate(): Promise<Date | null> {
 export interface WeeklyObligation {
     weekStart: Date;
     weekEnd: Date;
-    dueDate: Date; // Thursday (due before Friday rent payout)
+    dueDate: Date; // Due day under the household's week rules (before the rent payout)
+    weekCode: string; // e.g. "W2026-41", unique per week, for payment references (see rent-allocation.ts)
     amountDue: number;
-    amountPaid: number;
-    balance: number; // Positive = overpaid, Negative = underpaid
+    proration: ProratedCharge[]; // How pro-rated charges in amountDue were worked out (days as instants)
+    amountPaid: number; // Rent paid during this week ("by date")
+    provisionalPaid: number; // Part of amountPaid that is still pending (current week only)
+    adjustments: Array<Pick<BalanceAdjustmentEntry, "id" | "date" | "amount" | "reason" | "createdByName">>;
+    adjustmentTotal: number; // Credits less charges dated in this week
+    balance: number; // Positive = overpaid, Negative = underpaid (paid - due + adjustments)
+    // "By allocation": rent payments applied to the weeks they pay for, by week code then oldest first
+    allocatedPaid: number;
+    allocatedBalance: number;
+    allocatedPayments: WeekPaymentAllocation[];
     isInProgress?: boolean; // true if this is the current week (due date hasn't passed)
     paymentTransactions: Array<{
         id: string;
@@ -68,6 +57,8 @@ export interface WeeklyObligation {
         matchType: string | null;
         confidence: number | null;
         isRentPayment: boolean;
+        isPending: boolean;
+        isSplit: boolean; // The amount is this user's share of a split transaction
     }>;
     allAccountTransactions: Array<{
         id: string;
@@ -82,24 +73,23 @@ export interface WeeklyObligation {
         matchType: string | null;
         isThisUser: boolean;
         isRentPayment: boolean;
+        isPending: boolean;
     }>;
 }
 
-export interface ScheduleSegment {
-    weeklyAmount: number;
-    startDate: Date;
-    endDate: Date | null;
-}
+export type ScheduleSegment = CadenceSchedule;
 
 export interface FlatmateBalance {
     userId: string;
     userName: string | null;
     userEmail: string;
     totalDue: number;
-    totalPaid: number;
+    totalPaid: number; // Includes provisionalPaid
+    provisionalPaid: number; // Pending rent payments counted for the current week
+    totalAdjustments: number; // Credits less charges from the adjustments ledger
     balance: number; // Positive = overpaid (credit), Negative = underpaid (owes)
     weeklyBreakdown: WeeklyObligation[];
-    currentWeeklyRate: number | null;
+    currentSchedule: ScheduleSegment | null; // The schedule in effect now
     scheduleEndDate: Date | null; // When the current schedule ends (null = ongoing)
     futureSchedules: ScheduleSegment[]; // All schedules from now into the future, ordered by start date
 }
@@ -112,43 +102,69 @@ export interface PaymentSummary {
 }
 
 /**
- * Get the Thursday that serves as the due date for a given week.
- * Week starts Saturday, ends Friday. Payments are due Thursday (before Friday rent payout).
+ * The payment schedule charges falling in a billing week. Overlapping schedules are handled day by
+ * day, the most recently started one winning.
  */
-function getDueThursday(weekStart: Date): Date {
-    // Week starts on Saturday, so Thursday is 5 days later
-    const thursday = new Date(weekStart);
-    thursday.setDate(weekStart.getDate() + 5);
-    return thursday;
+function getWeekCharges(schedules: CadenceSchedule[], week: BillingWeek, timeZone: string): ScheduleCharge[] {
+    return getScheduleCharges(schedules, {
+        start: toZonedTime(week.weekStart, timeZone),
+        end: toZonedTime(week.weekEnd, timeZone),
+    });
 }
 
-/**
- * Calculate the amount due for a specific week based on payment schedules.
- * Handles overlapping schedules by taking the most recent one.
- */
-function getWeeklyAmount(
-    schedules: Array<{ startDate: Date; endDate: Date | null; weeklyAmount: number; createdAt: Date | null }>,
-    weekStart: Date
-): number {
-    // Normalize weekStart to start of day for consistent comparison
-    const weekStartDay = startOfDay(weekStart);
-    
-    // Find all schedules that cover this week
-    const applicableSchedules = schedules.filter((s) => {
-        // Normalize schedule dates to start of day for date-only comparison
-        const scheduleStartDay = startOfDay(s.startDate);
-        const scheduleEndDay = s.endDate ? startOfDay(s.endDate) : new Date(2100, 0, 1);
-        return scheduleStartDay <= weekStartDay && scheduleEndDay >= weekStartDay;
-    });
+function getAmountDue(charges: ScheduleCharge[]): number {
+    return charges.reduce((sum, charge) => sum + charge.amount, 0);
+}
 
-    if (applicableSchedules.length === 0) {
-        return 0;
-    }
+// Pro-rated charges with their days turned back into instants, for formatting in the household timezone
+function getProration(charges: ScheduleCharge[], timeZone: string): ProratedCharge[] {
+    return charges.flatMap((charge) => charge.proration
+        ? [{ ...charge.proration, from: fromZonedTime(charge.proration.from, timeZone), to: fromZonedTime(charge.proration.to, timeZone) }]
+        : []);
+}
 
-    // If multiple schedules, take the one with the latest start date
-    // (most specific for this period)
-    applicableSchedules.sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
-    return applicableSchedules[0].weeklyAmount;
+// The parts of a schedule row the balance view and autopayment helper need
+function toScheduleSegment(schedule: ScheduleSegment): ScheduleSegment {
+    return {
+        cadence: schedule.cadence,
+        amount: schedule.amount,
+        startDate: schedule.startDate,
+        endDate: schedule.endDate,
+        anchorDate: schedule.anchorDate,
+        dayOfMonth: schedule.dayOfMonth,
+        prorate: schedule.prorate,
+    };
+}
+
+/**
+ * Get pending (not yet settled or reconciled) incoming transactions within a date range.
+ * Only the current week counts these, as provisional payments.
+ */
+async function getPendingIncomingTransactions(weekStart: Date, weekEnd: Date, userId?: string) {
+    return db
+        .select({
+            id: pendingTransactions.id,
+            date: pendingTransactions.date,
+            amount: pendingTransactions.amount,
+            description: pendingTransactions.description,
+            rawData: pendingTransactions.rawData,
+            matchedUserId: pendingTransactions.matchedUserId,
+            matchType: pendingTransactions.matchType,
+            matchConfidence: pendingTransactions.matchConfidence,
+            userName: users.name,
+        })
+        .from(pendingTransactions)
+        .leftJoin(users, eq(pendingTransactions.matchedUserId, users.id))
+        .where(
+            and(
+                isNull(pendingTransactions.settledTransactionId),
+                userId ? eq(pendingTransactions.matchedUserId, userId) : undefined,
+                gte(pendingTransactions.date, weekStart),
+                lte(pendingTransactions.date, weekEnd),
+                sql`${pendingTransactions.amount} > 0`
+            )
+        )
+        .orderBy(pendingTransactions.date);
 }
 
 /**
@@ -159,7 +175,9 @@ async function calculateFlatmateBalance(
     userName: string | null,
     userEmail: string,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    weekRules: WeekRulesPeriod[],
+    timeZone: string
 ): Promise<FlatmateBalance> {
     // Get all payment schedules for this user
     const schedules = await db
@@ -167,18 +185,11 @@ async function calculateFlatmateBalance(
         .from(paymentSchedules)
         .where(eq(paymentSchedules.userId, userId));
 
-    // Get ALL transactions matched to this user (for display in weekly breakdown)
-    const allUserTransactions = await db
-        .select()
-        .from(transactions)
-        .where(
-            and(
-                eq(transactions.matchedUserId, userId),
-                gte(transactions.date, startDate),
-                lte(transactions.date, endDate),
-                sql`${transactions.amount} > 0` // Only incoming payments
-            )
-        );
+    // One-off credits and charges, counted in the billing week they're dated in
+    const adjustments = await getBalanceAdjustments(userId);
+
+    // Get ALL payments counted towards this user, split transactions as their share (for display in weekly breakdown)
+    const allUserTransactions = await getUserPayments(userId, startDate, endDate);
 
     // Filter to just rent payments for balance calculations
     const rentPaymentTransactions = allUserTransactions.filter(
@@ -205,31 +216,46 @@ async function calculateFlatmateBalance(
             and(
                 gte(transactions.date, startDate),
                 lte(transactions.date, endDate),
-                sql`${transactions.amount} > 0`
+                sql`${transactions.amount} > 0`,
+                eq(transactions.isInternalTransfer, false),
+                isNull(transactions.deletedAt)
             )
         )
         .orderBy(transactions.date);
+    const accountAllocations = await getAllocationsByTransaction(allAccountTransactionsRaw.map((tx) => tx.id));
 
-    // Generate weeks from startDate to endDate
-    // Week starts on Saturday, ends on Friday (rent paid on Friday)
-    const weeks = eachWeekOfInterval(
-        { start: startDate, end: endDate },
-        { weekStartsOn: 6 }
-    );
+    // Whether an account transaction is (partly) this user's, and whether that part is rent
+    const isForUser = (tx: { id: string; matchedUserId: string | null }) => {
+        const split = accountAllocations.get(tx.id);
+        return split ? split.some((a) => a.userId === userId) : tx.matchedUserId === userId;
+    };
+    const isRentForUser = (tx: { id: string; matchedUserId: string | null; matchType: string | null }) => {
+        const split = accountAllocations.get(tx.id);
+        return split
+            ? split.some((a) => a.userId === userId && a.matchType === "rent_payment")
+            : tx.matchedUserId === userId && tx.matchType === "rent_payment";
+    };
+
+    // Generate weeks from startDate to endDate, each under the week rules in effect at the time
+    const weeks = getBillingWeeks(weekRules, startDate, endDate, timeZone);
+
+    // Pending payments to the account this week (provisional until they settle)
+    const currentWeek = getBillingWeek(weekRules, new Date(), timeZone);
+    const pendingThisWeek = await getPendingIncomingTransactions(currentWeek.weekStart, currentWeek.weekEnd);
 
     const weeklyBreakdown: WeeklyObligation[] = [];
     let totalDue = 0;
+    let totalAdjustments = 0;
+    let provisionalPaid = 0;
+    const provisionalRentPayments: AllocatablePayment[] = [];
     
     // Track assigned rent payment transactions to avoid double-counting in balance
     const assignedRentPaymentIds = new Set<string>();
     // Track all assigned transactions for display
     const assignedAllTransactionIds = new Set<string>();
 
-    for (const weekStartRaw of weeks) {
-        // Get timezone-aware week boundaries
-        const weekStart = getWeekStartInTimezone(weekStartRaw);
-        const weekEnd = getWeekEndInTimezone(weekStartRaw);
-        const dueDate = getDueThursday(weekStartRaw);
+    for (const week of weeks) {
+        const { weekStart, weekEnd, dueDate } = week;
 
         // Check if this week is in progress (due date hasn't passed yet)
         const now = new Date();
@@ -240,7 +266,12 @@ async function calculateFlatmateBalance(
             continue;
         }
 
-        const amountDue = getWeeklyAmount(schedules, weekStartRaw);
+        const charges = getWeekCharges(schedules, week, timeZone);
+        const amountDue = getAmountDue(charges);
+
+        // Adjustments are dated at the start of a day in the household's timezone
+        const weekAdjustments = adjustments.filter((a) => a.date >= weekStart && a.date <= weekEnd);
+        const adjustmentTotal = weekAdjustments.reduce((sum, a) => sum + a.amount, 0);
 
         // Find ALL transactions in this week's payment window (for user's payment display)
         const allWeekTransactions = allUserTransactions.filter((tx) => {
@@ -255,7 +286,7 @@ async function calculateFlatmateBalance(
         });
 
         // Find ALL account transactions within the actual week boundaries (for transparency view)
-        // This shows exactly what happened in the Sat-Fri week period
+        // This shows exactly what happened in the billing week
         const allAccountWeekTransactions = allAccountTransactionsRaw.filter((tx) => {
             const txDate = tx.date;
             return txDate >= weekStart && txDate <= weekEnd;
@@ -269,11 +300,28 @@ async function calculateFlatmateBalance(
             assignedRentPaymentIds.add(tx.id);
         }
 
+        // Pending payments only count for the current week
+        const isCurrentWeek = weekStart.getTime() === currentWeek.weekStart.getTime();
+        const weekPending = isCurrentWeek ? pendingThisWeek : [];
+        const weekPendingForUser = weekPending.filter((tx) => tx.matchedUserId === userId);
+        const weekPendingRent = weekPendingForUser.filter((tx) => tx.matchType === "rent_payment");
+        const weekProvisionalPaid = weekPendingRent.reduce((sum, tx) => sum + tx.amount, 0);
+        provisionalPaid += weekProvisionalPaid;
+        provisionalRentPayments.push(...weekPendingRent.map((tx) => ({
+            id: tx.id,
+            date: tx.date,
+            amount: tx.amount,
+            description: tx.description,
+            weekCode: findWeekCode(tx.description, tx.rawData),
+            isPending: true,
+        })));
+
         // Only rent payments count toward the paid amount
-        const amountPaid = weekRentPayments.reduce((sum, tx) => sum + tx.amount, 0);
-        const balance = amountPaid - amountDue;
+        const amountPaid = weekRentPayments.reduce((sum, tx) => sum + tx.amount, 0) + weekProvisionalPaid;
+        const balance = amountPaid - amountDue + adjustmentTotal;
 
         totalDue += amountDue;
+        totalAdjustments += adjustmentTotal;
 
         // Create a set of rent payment IDs for quick lookup
         const rentPaymentIdSet = new Set(weekRentPayments.map((tx) => tx.id));
@@ -282,66 +330,116 @@ async function calculateFlatmateBalance(
             weekStart,
             weekEnd,
             dueDate,
+            weekCode: getWeekCode(toZonedTime(dueDate, timeZone), weeklyBreakdown.at(-1)?.weekCode),
             amountDue,
+            proration: getProration(charges, timeZone),
             amountPaid,
+            provisionalPaid: weekProvisionalPaid,
+            adjustments: weekAdjustments.map((a) => ({
+                id: a.id,
+                date: a.date,
+                amount: a.amount,
+                reason: a.reason,
+                createdByName: a.createdByName,
+            })),
+            adjustmentTotal,
             balance,
+            allocatedPaid: 0, // Filled in once every week is known
+            allocatedBalance: 0,
+            allocatedPayments: [],
             isInProgress,
-            paymentTransactions: allWeekTransactions.map((tx) => ({
-                id: tx.id,
-                date: tx.date,
-                amount: tx.amount,
-                description: tx.description,
-                matchType: tx.matchType,
-                confidence: tx.matchConfidence,
-                isRentPayment: rentPaymentIdSet.has(tx.id),
-            })),
-            allAccountTransactions: allAccountWeekTransactions.map((tx) => ({
-                id: tx.id,
-                date: tx.date,
-                amount: tx.amount,
-                description: tx.description,
-                merchant: tx.merchant,
-                merchantLogo: tx.merchantLogo,
-                cardSuffix: tx.cardSuffix,
-                matchedUserId: tx.matchedUserId,
-                matchedUserName: tx.userName,
-                matchType: tx.matchType,
-                isThisUser: tx.matchedUserId === userId,
-                isRentPayment: tx.matchedUserId === userId && tx.matchType === "rent_payment",
-            })),
+            paymentTransactions: [
+                ...allWeekTransactions.map((tx) => ({
+                    id: tx.id,
+                    date: tx.date,
+                    amount: tx.amount,
+                    description: tx.description,
+                    matchType: tx.matchType,
+                    confidence: tx.matchConfidence,
+                    isRentPayment: rentPaymentIdSet.has(tx.id),
+                    isPending: false,
+                    isSplit: tx.isSplit,
+                })),
+                ...weekPendingForUser.map((tx) => ({
+                    id: tx.id,
+                    date: tx.date,
+                    amount: tx.amount,
+                    description: tx.description,
+                    matchType: tx.matchType,
+                    confidence: tx.matchConfidence,
+                    isRentPayment: tx.matchType === "rent_payment",
+                    isPending: true,
+                    isSplit: false,
+                })),
+            ],
+            allAccountTransactions: [
+                ...allAccountWeekTransactions.map((tx) => ({
+                    id: tx.id,
+                    date: tx.date,
+                    amount: tx.amount,
+                    description: tx.description,
+                    merchant: tx.merchant,
+                    merchantLogo: tx.merchantLogo,
+                    cardSuffix: tx.cardSuffix,
+                    matchedUserId: tx.matchedUserId,
+                    matchedUserName: tx.userName,
+                    matchType: tx.matchType,
+                    isThisUser: isForUser(tx),
+                    isRentPayment: isRentForUser(tx),
+                    isPending: false,
+                })),
+                ...weekPending.map((tx) => ({
+                    id: tx.id,
+                    date: tx.date,
+                    amount: tx.amount,
+                    description: tx.description,
+                    merchant: null,
+                    merchantLogo: null,
+                    cardSuffix: null,
+                    matchedUserId: tx.matchedUserId,
+                    matchedUserName: tx.userName,
+                    matchType: tx.matchType,
+                    isThisUser: tx.matchedUserId === userId,
+                    isRentPayment: tx.matchedUserId === userId && tx.matchType === "rent_payment",
+                    isPending: true,
+                })),
+            ],
         });
     }
 
+    // Allocate rent payments to the weeks they pay for (charges add to a week's due, credits reduce it)
+    const weekAllocations = allocatePaymentsToWeeks(weeklyBreakdown.map((week) => ({
+        weekCode: week.weekCode,
+        amountDue: week.amountDue - week.adjustmentTotal,
+    })), [
+        ...rentPaymentTransactions.map((tx) => ({
+            id: tx.id,
+            date: tx.date,
+            amount: tx.amount,
+            description: tx.description,
+            weekCode: findWeekCode(tx.description, tx.rawData),
+            isPending: false,
+        })),
+        ...provisionalRentPayments,
+    ]);
+    weeklyBreakdown.forEach((week, i) => {
+        week.allocatedPayments = weekAllocations[i];
+        week.allocatedPaid = weekAllocations[i].reduce((sum, a) => sum + a.amount, 0);
+        week.allocatedBalance = week.allocatedPaid - week.amountDue + week.adjustmentTotal;
+    });
+
     // Calculate total paid from rent payments only (no double counting)
-    const totalPaid = rentPaymentTransactions.reduce((sum, tx) => sum + tx.amount, 0);
+    const totalPaid = rentPaymentTransactions.reduce((sum, tx) => sum + tx.amount, 0) + provisionalPaid;
 
-    // Get current weekly rate and schedule end date
-    const now = new Date();
-    const currentRate = getWeeklyAmount(schedules, now);
-    
-    // Find the current active schedule to get its end date
-    const nowDay = startOfDay(now);
-    const activeSchedules = schedules.filter((s) => {
-        const scheduleStartDay = startOfDay(s.startDate);
-        const scheduleEndDay = s.endDate ? startOfDay(s.endDate) : new Date(2100, 0, 1);
-        return scheduleStartDay <= nowDay && scheduleEndDay >= nowDay;
-    });
-    activeSchedules.sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
-    const scheduleEndDate = activeSchedules.length > 0 ? activeSchedules[0].endDate : null;
+    // Get the schedule in effect now and when it ends
+    const nowDay = startOfDay(toZonedTime(new Date(), timeZone));
+    const activeSchedule = getScheduleOn(schedules, nowDay);
+    const currentSchedule = activeSchedule ? toScheduleSegment(activeSchedule) : null;
+    const scheduleEndDate = activeSchedule?.endDate ?? null;
 
     // Build future schedules list: current schedule + any future schedules
     // This helps the autopayment helper show when rates will change
-    const futureSchedules: ScheduleSegment[] = [];
-    
-    // Add current schedule if exists
-    if (activeSchedules.length > 0) {
-        const current = activeSchedules[0];
-        futureSchedules.push({
-            weeklyAmount: current.weeklyAmount,
-            startDate: current.startDate,
-            endDate: current.endDate,
-        });
-    }
+    const futureSchedules: ScheduleSegment[] = currentSchedule ? [currentSchedule] : [];
     
     // Add all schedules that start in the future
     const upcomingSchedules = schedules
@@ -349,11 +447,7 @@ async function calculateFlatmateBalance(
         .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
     
     for (const s of upcomingSchedules) {
-        futureSchedules.push({
-            weeklyAmount: s.weeklyAmount,
-            startDate: s.startDate,
-            endDate: s.endDate,
-        });
+        futureSchedules.push(toScheduleSegment(s));
     }
 
     return {
@@ -362,9 +456,11 @@ async function calculateFlatmateBalance(
         userEmail,
         totalDue,
         totalPaid,
-        balance: totalPaid - totalDue,
+        provisionalPaid,
+        totalAdjustments,
+        balance: totalPaid - totalDue + totalAdjustments,
         weeklyBreakdown,
-        currentWeeklyRate: currentRate || null,
+        currentSchedule,
         scheduleEndDate,
         futureSchedules,
     };
@@ -378,6 +474,8 @@ export async function calculateAllBalances(startDate?: Date): Promise<PaymentSum
     const configuredStartDate = await getAnalysisStartDate();
     const calcStartDate = startDate ?? configuredStartDate ?? new Date(Date.now() - 180 * 24 * 60 * 60 * 1000);
     const endDate = new Date();
+    const weekRules = await getWeekRulesHistory();
+    const timeZone = await getHouseholdTimeZone();
 
     // Get all users (including admin)
     const flatmates = await db
@@ -390,7 +488,7 @@ export async function calculateAllBalances(startDate?: Date): Promise<PaymentSum
 
     const balances = await Promise.all(
         flatmates.map((f) =>
-            calculateFlatmateBalance(f.id, f.name, f.email, calcStartDate, endDate)
+            calculateFlatmateBalance(f.id, f.name, f.email, calcStartDate, endDate, weekRules, timeZone)
         )
     );
 
@@ -433,10 +531,19 @@ export async function calculateUserBalance(
         user[0].name,
         user[0].email,
         calcStartDate,
-        endDate
+        endDate,
+        await getWeekRulesHistory(),
+        await getHouseholdTimeZone()
     );
 }
 
+/**
+ * Get the timezone-aware boundaries, due date and payout date of the current week.
+ */
+export async function getCurrentWeekBounds(): Promise<BillingWeek> {
+    return getBillingWeek(await getWeekRulesHistory(), new Date(), await getHouseholdTimeZone());
+}
+
 /**
  * Get a simple summary of who owes what for the current week.
  */
@@ -444,17 +551,17 @@ export async function getCurrentWeekSummary(): Promise<
     Array<{
         userId: string;
         userName: string | null;
-        amountDue: number;
-        amountPaid: number;
+        amountDue: number; // This week's charges less its adjustments
+        adjustmentTotal: number; // Credits less charges dated this week
+        amountPaid: number; // Includes provisionalPaid
+        provisionalPaid: number; // Pending rent payments
         status: "paid" | "partial" | "unpaid" | "overpaid";
     }>
 > {
-    const now = new Date();
-    const weekStartRaw = startOfWeek(now, { weekStartsOn: 6 });
-
-    // Use timezone-aware week boundaries (Sat 00:00 to Fri 23:59:59)
-    const weekStart = getWeekStartInTimezone(weekStartRaw);
-    const weekEnd = getWeekEndInTimezone(weekStartRaw);
+    // Use timezone-aware boundaries of the current billing week
+    const currentWeek = await getCurrentWeekBounds();
+    const { weekStart, weekEnd } = currentWeek;
+    const timeZone = await getHouseholdTimeZone();
 
     // Get all users (including admin)
     const flatmates = await db
@@ -473,23 +580,21 @@ export async function getCurrentWeekSummary(): Promise<
                 .from(paymentSchedules)
                 .where(eq(paymentSchedules.userId, f.id));
 
-            const amountDue = getWeeklyAmount(schedules, weekStartRaw);
+            // A credit bigger than the week's charges carries over in the running balance instead
+            const adjustmentTotal = await getAdjustmentTotal(f.id, weekStart, weekEnd);
+            const amountDue = Math.max(0, getAmountDue(getWeekCharges(schedules, currentWeek, timeZone)) - adjustmentTotal);
 
-            // Get payments within the Sat-Fri week boundaries (only rent_payment type)
-            const payments = await db
-                .select()
-                .from(transactions)
-                .where(
-                    and(
-                        eq(transactions.matchedUserId, f.id),
-                        eq(transactions.matchType, "rent_payment"),
-                        gte(transactions.date, weekStart),
-                        lte(transactions.date, weekEnd),
-                        sql`${transactions.amount} > 0`
-                    )
-                );
-
-            const amountPaid = payments.reduce((sum, tx) => sum + tx.amount, 0);
+            // Get payments within the week boundaries (only rent_payment type)
+            const payments = (await getUserPayments(f.id, weekStart, weekEnd))
+                .filter((tx) => tx.matchType === "rent_payment");
+
+            // Pending rent payments count provisionally until they settle
+            const pending = await getPendingIncomingTransactions(weekStart, weekEnd, f.id);
+            const provisionalPaid = pending
+                .filter((tx) => tx.matchType === "rent_payment")
+                .reduce((sum, tx) => sum + tx.amount, 0);
+
+            const amountPaid = payments.reduce((sum, tx) => sum + tx.amount, 0) + provisionalPaid;
 
             let status: "paid" | "partial" | "unpaid" | "overpaid";
             if (amountPaid === 0 && amountDue > 0) {
@@ -508,7 +613,9 @@ export async function getCurrentWeekSummary(): Promise<
                 userId: f.id,
                 userName: f.name,
                 amountDue,
+                adjustmentTotal,
                 amountPaid,
+                provisionalPaid,
                 status,
             };
         })
@@ -547,7 +654,8 @@ export async function getLandlordPaymentSummary(): Promise<LandlordPaymentSummar
             and(
                 isNotNull(transactions.matchedLandlordId),
                 eq(transactions.matchType, "landlord_payment"),
-                analysisStartDate ? gte(transactions.date, analysisStartDate) : undefined
+                analysisStartDate ? gte(transactions.date, analysisStartDate) : undefined,
+                isNull(transactions.deletedAt)
             )
         );
 
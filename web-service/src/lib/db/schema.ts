@@ -10,13 +10,23 @@ export const users = sqliteTable("user", {
     emailVerified: integer("emailVerified", { mode: "timestamp_ms" }),
     image: text("image"),
     role: text("role", { enum: ["admin", "user"] }).notNull().default("user"),
-    bankAccountPattern: text("bank_account_pattern"), // Bank account number to match transactions
-    cardSuffix: text("card_suffix"), // Last 4 digits of expense card (e.g., "8423")
-    matchingName: text("matching_name"), // Alternative name pattern (e.g., "READER T A" for "Taine Reader")
     createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
     updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
+// Ways to recognise a flatmate's transactions - any number of each type, optionally only for a date range
+export const userIdentifiers = sqliteTable("user_identifiers", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    // bank_account_pattern: account number (e.g., "12-3456-7890123"), card_suffix: last 4 digits of
+    // an expense card (e.g., "8423"), matching_name: name as the bank shows it (e.g., "READER T A")
+    type: text("type", { enum: ["bank_account_pattern", "card_suffix", "matching_name"] }).notNull(),
+    value: text("value").notNull(),
+    validFrom: integer("valid_from", { mode: "timestamp" }), // Null = always
+    validTo: integer("valid_to", { mode: "timestamp" }), // Inclusive; null = ongoing
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
 export const accounts = sqliteTable(
     "account",
     {
@@ -61,10 +71,24 @@ export const verificationTokens = sqliteTable(
     })
 );
 
+// Akahu bank accounts tracked by the household (named bank_accounts, as "account" is taken by Auth.js)
+export const bankAccounts = sqliteTable("bank_accounts", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    akahuAccountId: text("akahu_account_id").notNull().unique(), // e.g. "acc_...", or "import:<uuid>" for import-only accounts
+    label: text("label").notNull(), // e.g. "Bills account"
+    role: text("role", { enum: ["rent", "bills", "savings"] }).notNull().default("rent"),
+    accountNumber: text("account_number"), // Formatted bank account number from Akahu, used to spot internal transfers
+    isActive: integer("is_active", { mode: "boolean" }).notNull().default(true), // Inactive accounts aren't synced
+    source: text("source", { enum: ["sync", "import"] }).notNull().default("sync"), // "import" = filled from statement files only
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
 // Transactions fetched from Akahu
 export const transactions = sqliteTable("transactions", {
     id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
     akahuId: text("akahu_id").notNull().unique(), // Akahu's unique ID for deduplication
+    bankAccountId: text("bank_account_id").references(() => bankAccounts.id), // Tracked account the transaction is on
     date: integer("date", { mode: "timestamp" }).notNull(),
     amount: real("amount").notNull(), // Positive = money in, Negative = money out
     description: text("description").notNull(),
@@ -81,14 +105,56 @@ export const transactions = sqliteTable("transactions", {
     matchConfidence: real("match_confidence"), // 0-1 confidence score
     // Manual override flag - when true, sync won't overwrite the match
     manualMatch: integer("manual_match", { mode: "boolean" }).default(false),
+    // Money moved between two tracked accounts; left out of expense and balance totals
+    isInternalTransfer: integer("is_internal_transfer", { mode: "boolean" }).notNull().default(false),
+    // Set when Akahu stops returning the transaction (e.g. a reversed card hold). The row, its matches and
+    // expense links are kept but left out of every total; it's restored if Akahu lists it again.
+    deletedAt: integer("deleted_at", { mode: "timestamp" }),
     createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
+// Splits of one transaction between flatmates and/or match types (e.g. rent for a couple, or rent plus
+// a grocery reimbursement). When a transaction has allocations they replace its single match in balances.
+export const transactionAllocations = sqliteTable("transaction_allocations", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    transactionId: text("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+    userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    matchType: text("match_type", { enum: ["rent_payment", "grocery_reimbursement", "other", "expense"] }).notNull(),
+    amount: real("amount").notNull(), // Portion of the transaction's amount, always positive
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// Pending (not yet settled) transactions from Akahu.
+// Akahu gives these no ID, so the table is replaced with the latest snapshot on every sync. Once the
+// settled transaction (which has a new _id) arrives, the pending row is linked to it and no longer counted.
+export const pendingTransactions = sqliteTable("pending_transactions", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    pendingKey: text("pending_key").notNull().unique(), // Hash of account, date, amount and description (see sync.ts)
+    bankAccountId: text("bank_account_id").references(() => bankAccounts.id),
+    date: integer("date", { mode: "timestamp" }).notNull(),
+    amount: real("amount").notNull(), // Positive = money in, Negative = money out
+    description: text("description").notNull(),
+    type: text("type"), // Akahu transaction type, e.g. "DIRECT CREDIT"
+    rawData: text("raw_data").notNull(), // Full JSON from Akahu
+    // Matching fields (set by the same auto-matching as settled transactions)
+    matchedUserId: text("matched_user_id").references(() => users.id),
+    matchedLandlordId: text("matched_landlord_id"),
+    matchType: text("match_type", { enum: ["rent_payment", "grocery_reimbursement", "other", "expense", "landlord_payment"] }),
+    matchConfidence: real("match_confidence"),
+    settledTransactionId: text("settled_transaction_id").references(() => transactions.id, { onDelete: "set null" }), // Set once reconciled
+    firstSeenAt: integer("first_seen_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
 // Payment schedule - defines how much each user owes per week for a time period
 export const paymentSchedules = sqliteTable("payment_schedules", {
     id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
     userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-    weeklyAmount: real("weekly_amount").notNull(), // Amount due each week
+    cadence: text("cadence", { enum: ["weekly", "fortnightly", "monthly"] }).notNull().default("weekly"),
+    amount: real("weekly_amount").notNull(), // Amount due each period (the column predates cadences)
+    anchorDate: integer("anchor_date", { mode: "timestamp" }), // Fortnightly: a day a fortnight is charged on
+    dayOfMonth: integer("day_of_month"), // Monthly: day charged on (1-31, the last day in shorter months)
+    prorate: integer("prorate", { mode: "boolean" }).notNull().default(false), // Weekly: charge part weeks by the day
     startDate: integer("start_date", { mode: "timestamp" }).notNull(),
     endDate: integer("end_date", { mode: "timestamp" }), // Null = ongoing
     notes: text("notes"), // e.g., "Summer rate", "Standard rate"
@@ -96,6 +162,28 @@ export const paymentSchedules = sqliteTable("payment_schedules", {
     updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
+// One-off credits and charges to a flatmate's balance, e.g. a repair they paid for or a breakage
+export const balanceAdjustments = sqliteTable("balance_adjustments", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    date: integer("date", { mode: "timestamp" }).notNull(), // Day it applies (counts in that billing week)
+    amount: real("amount").notNull(), // Positive = credit (reduces what they owe), negative = charge
+    reason: text("reason").notNull(),
+    createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }), // Admin who recorded it
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// Household billing week rules. Each row applies from its effective date until the next one,
+// so past weeks keep the rules they were billed under. Days are 0-6 (Sunday-Saturday).
+export const householdSettings = sqliteTable("household_settings", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    effectiveFrom: integer("effective_from", { mode: "timestamp" }).notNull(), // First day these rules apply
+    weekStartDay: integer("week_start_day").notNull(), // First day of the billing week
+    dueDay: integer("due_day").notNull(), // Day flatmates' payments are due
+    payoutDay: integer("payout_day").notNull(), // Day rent is paid out to the landlord
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
 // Landlords - for tracking rent payments going OUT to landlords
 export const landlords = sqliteTable("landlords", {
     id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -106,6 +194,36 @@ export const landlords = sqliteTable("landlords", {
     updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
+// Rules for matching payments to flatmates and landlords, tried in priority order (highest first)
+export const paymentMatchingRules = sqliteTable("payment_matching_rules", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    name: text("name").notNull(),
+    priority: integer("priority").notNull().default(100),
+    target: text("target", { enum: ["flatmate", "landlord"] }).notNull(),
+    // Assign to this flatmate/landlord, or leave both null to assign to whoever's identifier matches
+    userId: text("user_id").references(() => users.id, { onDelete: "cascade" }),
+    landlordId: text("landlord_id").references(() => landlords.id, { onDelete: "cascade" }),
+    identifier: text("identifier", { enum: ["card_suffix", "bank_account_pattern", "matching_name"] }),
+    descriptionPattern: text("description_pattern"),
+    particularsPattern: text("particulars_pattern"),
+    codePattern: text("code_pattern"),
+    referencePattern: text("reference_pattern"),
+    otherAccountPattern: text("other_account_pattern"),
+    minAmount: real("min_amount"), // Compared against the absolute amount
+    maxAmount: real("max_amount"),
+    direction: text("direction", { enum: ["in", "out", "any"] }).notNull().default("any"),
+    cardPayment: text("card_payment", { enum: ["card", "not_card", "any"] }).notNull().default("any"),
+    // "schedule" picks rent/grocery/other from the flatmate's payment schedule, scaled by confidence
+    matchType: text("match_type", {
+        enum: ["schedule", "rent_payment", "grocery_reimbursement", "other", "expense", "landlord_payment"],
+    }).notNull(),
+    confidence: real("confidence").notNull().default(0.9),
+    matchMode: text("match_mode", { enum: ["any", "all"] }).notNull().default("all"),
+    isRegex: integer("is_regex", { mode: "boolean" }).notNull().default(false),
+    isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
 // System state for tracking sync status
 export const systemState = sqliteTable("system_state", {
     key: text("key").primaryKey(),
@@ -153,18 +271,103 @@ export const expenseTransactions = sqliteTable("expense_transactions", {
     createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
+// Receipt printers allowed to connect to the print hub
+export const printerDevices = sqliteTable("printer_devices", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    name: text("name").notNull(), // e.g. "Hallway printer"
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the device token (the token is only shown once)
+    tokenHint: text("token_hint").notNull(), // Last few characters of the token, to tell tokens apart
+    paperWidth: integer("paper_width").notNull().default(42), // Characters per line (32, 42 or 48)
+    status: text("status", { enum: ["online", "offline"] }).notNull().default("offline"),
+    remoteAddress: text("remote_address"), // Address of the current/last connection
+    lastSeenAt: integer("last_seen_at", { mode: "timestamp" }), // Last heartbeat or message
+    lastConnectedAt: integer("last_connected_at", { mode: "timestamp" }),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }), // Revoked devices can no longer connect
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// Print jobs queued for the receipt printer (delivered by the print hub)
+export const printJobs = sqliteTable("print_jobs", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    source: text("source").notNull(), // What queued the job, e.g. "manual", "sync", "balances"
+    payload: text("payload").notNull(), // Ticket JSON (see lib/ticket.ts), rendered to ESC/POS on delivery
+    // queued -> delivered (sent to a printer) -> printed, or back to queued for a retry after a nack.
+    // failed is the dead-letter state: the job ran out of attempts and waits for a manual reprint.
+    status: text("status", { enum: ["queued", "delivered", "printed", "failed"] }).notNull().default("queued"),
+    deviceId: text("device_id").references(() => printerDevices.id, { onDelete: "set null" }), // Printer it was sent to
+    error: text("error"), // Last failure reported for the job
+    attempts: integer("attempts").notNull().default(0), // Failed delivery attempts so far
+    nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }), // Retry backoff: not sent again before this
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+    deliveredAt: integer("delivered_at", { mode: "timestamp" }),
+    acknowledgedAt: integer("acknowledged_at", { mode: "timestamp" }),
+});
+
+// One row per sync, kept for the Sync History panel on the settings page
+export const syncRuns = sqliteTable("sync_runs", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    trigger: text("trigger", { enum: ["cron", "manual", "api", "webhook"] }).notNull(), // What started the sync
+    // running -> success, or failed if the sync reported any errors
+    status: text("status", { enum: ["running", "success", "failed"] }).notNull().default("running"),
+    inserted: integer("inserted").notNull().default(0),
+    updated: integer("updated").notNull().default(0),
+    unchanged: integer("unchanged").notNull().default(0),
+    deleted: integer("deleted").notNull().default(0),
+    pending: integer("pending").notNull().default(0),
+    reconciled: integer("reconciled").notNull().default(0),
+    errors: text("errors").notNull().default("[]"), // JSON array of error messages
+    refreshSuccess: integer("refresh_success", { mode: "boolean" }), // Akahu refresh run before the sync, if any
+    refreshMessage: text("refresh_message"),
+    startedAt: integer("started_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+    finishedAt: integer("finished_at", { mode: "timestamp" }),
+});
+
+// Changes Akahu made to transactions we had already synced
+export const transactionAuditLog = sqliteTable("transaction_audit_log", {
+    id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+    transactionId: text("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+    syncRunId: text("sync_run_id").references(() => syncRuns.id, { onDelete: "set null" }), // Sync that noticed the change
+    // removed: no longer returned by Akahu (soft-deleted), restored: returned again, amended: amount/date/description changed
+    action: text("action", { enum: ["removed", "restored", "amended"] }).notNull(),
+    details: text("details").notNull(), // JSON: the transaction's values before (and, when amended, after) the change
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type UserIdentifier = typeof userIdentifiers.$inferSelect;
+export type NewUserIdentifier = typeof userIdentifiers.$inferInsert;
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type NewBankAccount = typeof bankAccounts.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
+export type TransactionAllocation = typeof transactionAllocations.$inferSelect;
+export type NewTransactionAllocation = typeof transactionAllocations.$inferInsert;
+export type PendingTransaction = typeof pendingTransactions.$inferSelect;
+export type NewPendingTransaction = typeof pendingTransactions.$inferInsert;
 export type PaymentSchedule = typeof paymentSchedules.$inferSelect;
 export type NewPaymentSchedule = typeof paymentSchedules.$inferInsert;
+export type BalanceAdjustment = typeof balanceAdjustments.$inferSelect;
+export type NewBalanceAdjustment = typeof balanceAdjustments.$inferInsert;
+export type HouseholdSettings = typeof householdSettings.$inferSelect;
+export type NewHouseholdSettings = typeof householdSettings.$inferInsert;
 export type Landlord = typeof landlords.$inferSelect;
 export type NewLandlord = typeof landlords.$inferInsert;
+export type PaymentMatchingRule = typeof paymentMatchingRules.$inferSelect;
+export type NewPaymentMatchingRule = typeof paymentMatchingRules.$inferInsert;
 export type ExpenseCategory = typeof expenseCategories.$inferSelect;
 export type NewExpenseCategory = typeof expenseCategories.$inferInsert;
 export type ExpenseMatchingRule = typeof expenseMatchingRules.$inferSelect;
 export type NewExpenseMatchingRule = typeof expenseMatchingRules.$inferInsert;
 export type ExpenseTransaction = typeof expenseTransactions.$inferSelect;
 export type NewExpenseTransaction = typeof expenseTransactions.$inferInsert;
+export type PrinterDevice = typeof printerDevices.$inferSelect;
+export type NewPrinterDevice = typeof printerDevices.$inferInsert;
+export type PrintJob = typeof printJobs.$inferSelect;
+export type NewPrintJob = typeof printJobs.$inferInsert;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type NewSyncRun = typeof syncRuns.$inferInsert;
+export type TransactionAuditEntry = typeof transactionAuditLog.$inferSelect;
+export type NewTransactionAuditEntry = typeof transactionAuditLog.$inferInsert;
@@ -1,8 +1,12 @@
 import { db } from "./db";
 import { expenseCategories, expenseTransactions, transactions } from "./db/schema";
-import { eq, and, gte, lte, desc, sql } from "drizzle-orm";
+import { eq, and, gte, lte, desc, sql, isNull } from "drizzle-orm";
 import type { ExpenseCategory, Transaction, ExpenseTransaction } from "./db/schema";
-import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfDay, subDays, differenceInDays, subMonths } from "date-fns";
+import { getHouseholdTimeZone, getWeekRulesHistory } from "./household";
+import { getBillingWeek } from "./week-rules";
+import { formatDate } from "./timezone";
+import { addDays, endOfWeek, startOfMonth, endOfMonth, startOfDay, subDays, differenceInDays, subMonths, endOfDay } from "date-fns";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
 
 export interface ExpenseCategorySummary {
     category: ExpenseCategory;
@@ -63,7 +67,7 @@ export async function getExpenseSummary(
                 date: transactions.date,
             })
             .from(expenseTransactions)
-            .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+            .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
             .where(eq(expenseTransactions.categoryId, category.id));
 
         const expenseTxs = await query;
@@ -135,7 +139,7 @@ export async function getCategoryExpenseSummary(
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
         .where(eq(expenseTransactions.categoryId, categoryId));
 
     let filteredTxs = expenseTxs;
@@ -185,7 +189,7 @@ export async function calculatePowerBurnRate(categoryId?: string): Promise<Power
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
         .where(eq(expenseTransactions.categoryId, powerCategoryId))
         .orderBy(desc(transactions.date));
 
@@ -243,7 +247,7 @@ export async function calculateAllCategoryBurnRates(): Promise<CategoryBurnRate[
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
         .orderBy(desc(transactions.date));
 
     const results: CategoryBurnRate[] = [];
@@ -311,7 +315,7 @@ export async function getExpenseTransactionsForCategory(
             transaction: transactions,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
         .where(eq(expenseTransactions.categoryId, categoryId))
         .orderBy(desc(transactions.date));
 
@@ -358,7 +362,7 @@ export async function getAllExpenseTransactions(
             transaction: transactions,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
         .orderBy(desc(transactions.date));
 
     let results = await query;
@@ -413,7 +417,7 @@ export async function getMonthlyExpenseBreakdown(
                 amount: transactions.amount,
             })
             .from(expenseTransactions)
-            .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+            .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
             .where(eq(expenseTransactions.categoryId, categoryId));
 
         const filteredTxs = txs.filter(tx => {
@@ -486,6 +490,19 @@ export interface WeeklyExpenseDataAllCategories {
     total: number;
 }
 
+// Start and end of the day containing an instant, and the start of the next day, in the given timezone
+function startOfDayIn(date: Date, timeZone: string): Date {
+    return fromZonedTime(startOfDay(toZonedTime(date, timeZone)), timeZone);
+}
+
+function endOfDayIn(date: Date, timeZone: string): Date {
+    return fromZonedTime(endOfDay(toZonedTime(date, timeZone)), timeZone);
+}
+
+function nextDayIn(dayStart: Date, timeZone: string): Date {
+    return fromZonedTime(addDays(toZonedTime(dayStart, timeZone), 1), timeZone);
+}
+
 /**
  * Get weekly expense data for a single category (for bar chart)
  * Fills in all weeks in the range, even those without expenses
@@ -503,7 +520,7 @@ export async function getWeeklyExpenseData(
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
         .where(eq(expenseTransactions.categoryId, categoryId));
 
     // For "all time", find the earliest transaction date
@@ -514,33 +531,32 @@ export async function getWeeklyExpenseData(
     // Filter by date range
     const filteredTxs = expenseTxs.filter(tx => tx.date >= start && tx.date <= end);
 
-    // Group by week (Saturday start)
-    const weeklyMap = new Map<string, number>();
+    // Group by billing week in the household's timezone (see week-rules.ts)
+    const weekRules = await getWeekRulesHistory();
+    const timeZone = await getHouseholdTimeZone();
+    const weeklyMap = new Map<number, number>();
 
     filteredTxs.forEach(tx => {
-        const weekStart = startOfWeek(tx.date, { weekStartsOn: 6 });
-        const weekKey = weekStart.toISOString().split('T')[0];
+        const weekKey = getBillingWeek(weekRules, tx.date, timeZone).weekStart.getTime();
         const current = weeklyMap.get(weekKey) || 0;
         weeklyMap.set(weekKey, current + Math.abs(tx.amount));
     });
 
     // Fill in all weeks in the range
     const results: WeeklyExpenseData[] = [];
-    const currentWeek = startOfWeek(start, { weekStartsOn: 6 });
-    const endNormalized = new Date(end);
-    endNormalized.setHours(23, 59, 59, 999);
+    let currentWeek = getBillingWeek(weekRules, start, timeZone);
+    const endNormalized = endOfDayIn(end, timeZone);
 
-    while (currentWeek <= endNormalized) {
-        const weekKey = currentWeek.toISOString().split('T')[0];
-        const amount = weeklyMap.get(weekKey) || 0;
+    while (currentWeek.weekStart <= endNormalized) {
+        const amount = weeklyMap.get(currentWeek.weekStart.getTime()) || 0;
 
         results.push({
-            week: currentWeek.toLocaleDateString("en-NZ", { day: "numeric", month: "short" }),
-            weekStart: new Date(currentWeek),
+            week: formatDate(currentWeek.weekStart, timeZone, "d MMM"),
+            weekStart: currentWeek.weekStart,
             amount,
         });
 
-        currentWeek.setDate(currentWeek.getDate() + 7);
+        currentWeek = getBillingWeek(weekRules, new Date(currentWeek.weekEnd.getTime() + 1), timeZone);
     }
 
     return results;
@@ -564,7 +580,7 @@ export async function getMonthlyExpenseData(months: number = 12): Promise<Monthl
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id));
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)));
 
     const results: MonthlyExpenseData[] = [];
     const now = new Date();
@@ -622,7 +638,7 @@ export async function getWeeklyExpenseDataAllCategories(
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id));
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)));
 
     // For "all time", find the earliest transaction date
     const start = startDate || (allExpenseTxs.length > 0
@@ -632,12 +648,13 @@ export async function getWeeklyExpenseDataAllCategories(
     // Filter by date range
     const filteredTxs = allExpenseTxs.filter(tx => tx.date >= start && tx.date <= end);
 
-    // Group by week and category
-    const weeklyMap = new Map<string, Map<string, number>>();
+    // Group by billing week (in the household's timezone) and category
+    const weekRules = await getWeekRulesHistory();
+    const timeZone = await getHouseholdTimeZone();
+    const weeklyMap = new Map<number, Map<string, number>>();
 
     filteredTxs.forEach(tx => {
-        const weekStart = startOfWeek(tx.date, { weekStartsOn: 6 });
-        const weekKey = weekStart.toISOString().split('T')[0];
+        const weekKey = getBillingWeek(weekRules, tx.date, timeZone).weekStart.getTime();
 
         if (!weeklyMap.has(weekKey)) {
             weeklyMap.set(weekKey, new Map<string, number>());
@@ -650,13 +667,11 @@ export async function getWeeklyExpenseDataAllCategories(
 
     // Fill in all weeks in the range
     const results: WeeklyExpenseDataAllCategories[] = [];
-    const currentWeek = startOfWeek(start, { weekStartsOn: 6 });
-    const endNormalized = new Date(end);
-    endNormalized.setHours(23, 59, 59, 999);
+    let currentWeek = getBillingWeek(weekRules, start, timeZone);
+    const endNormalized = endOfDayIn(end, timeZone);
 
-    while (currentWeek <= endNormalized) {
-        const weekKey = currentWeek.toISOString().split('T')[0];
-        const categoryAmounts = weeklyMap.get(weekKey) || new Map<string, number>();
+    while (currentWeek.weekStart <= endNormalized) {
+        const categoryAmounts = weeklyMap.get(currentWeek.weekStart.getTime()) || new Map<string, number>();
 
         const categoryData = categories.map(cat => ({
             categoryId: cat.id,
@@ -666,13 +681,13 @@ export async function getWeeklyExpenseDataAllCategories(
         }));
 
         results.push({
-            week: currentWeek.toLocaleDateString("en-NZ", { day: "numeric", month: "short" }),
-            weekStart: new Date(currentWeek),
+            week: formatDate(currentWeek.weekStart, timeZone, "d MMM"),
+            weekStart: currentWeek.weekStart,
             categories: categoryData,
             total: categoryData.reduce((sum, c) => sum + c.amount, 0),
         });
 
-        currentWeek.setDate(currentWeek.getDate() + 7);
+        currentWeek = getBillingWeek(weekRules, new Date(currentWeek.weekEnd.getTime() + 1), timeZone);
     }
 
     return results;
@@ -714,39 +729,35 @@ export async function getDailyExpenseData(
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id))
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)))
         .where(eq(expenseTransactions.categoryId, categoryId));
 
     // Filter by date range
     const filteredTxs = expenseTxs.filter(tx => tx.date >= start && tx.date <= end);
 
-    // Group by day
+    // Group by day in the household's timezone
+    const timeZone = await getHouseholdTimeZone();
     const dailyMap = new Map<string, number>();
 
     filteredTxs.forEach(tx => {
-        const dayStart = startOfDay(tx.date);
-        const dayKey = dayStart.toISOString().split('T')[0];
+        const dayKey = formatDate(tx.date, timeZone, "yyyy-MM-dd");
         const current = dailyMap.get(dayKey) || 0;
         dailyMap.set(dayKey, current + Math.abs(tx.amount));
     });
 
     // Fill in all days in the range
     const results: DailyExpenseData[] = [];
-    const currentDay = startOfDay(start);
-    const endNormalized = new Date(end);
-    endNormalized.setHours(23, 59, 59, 999);
+    const endNormalized = endOfDayIn(end, timeZone);
 
-    while (currentDay <= endNormalized) {
-        const dayKey = currentDay.toISOString().split('T')[0];
+    for (let currentDay = startOfDayIn(start, timeZone); currentDay <= endNormalized; currentDay = nextDayIn(currentDay, timeZone)) {
+        const dayKey = formatDate(currentDay, timeZone, "yyyy-MM-dd");
         const amount = dailyMap.get(dayKey) || 0;
 
         results.push({
-            day: currentDay.toLocaleDateString("en-NZ", { day: "numeric", month: "short" }),
-            dayDate: new Date(currentDay),
+            day: formatDate(currentDay, timeZone, "d MMM"),
+            dayDate: currentDay,
             amount,
         });
-
-        currentDay.setDate(currentDay.getDate() + 1);
     }
 
     return results;
@@ -777,17 +788,17 @@ export async function getDailyExpenseDataAllCategories(
             date: transactions.date,
         })
         .from(expenseTransactions)
-        .innerJoin(transactions, eq(expenseTransactions.transactionId, transactions.id));
+        .innerJoin(transactions, and(eq(expenseTransactions.transactionId, transactions.id), isNull(transactions.deletedAt)));
 
     // Filter by date range
     const filteredTxs = allExpenseTxs.filter(tx => tx.date >= start && tx.date <= end);
 
-    // Group by day and category
+    // Group by day (in the household's timezone) and category
+    const timeZone = await getHouseholdTimeZone();
     const dailyMap = new Map<string, Map<string, number>>();
 
     filteredTxs.forEach(tx => {
-        const dayStart = startOfDay(tx.date);
-        const dayKey = dayStart.toISOString().split('T')[0];
+        const dayKey = formatDate(tx.date, timeZone, "yyyy-MM-dd");
 
         if (!dailyMap.has(dayKey)) {
             dailyMap.set(dayKey, new Map<string, number>());
@@ -800,12 +811,10 @@ export async function getDailyExpenseDataAllCategories(
 
     // Fill in all days in the range
     const results: DailyExpenseDataAllCategories[] = [];
-    const currentDay = startOfDay(start);
-    const endNormalized = new Date(end);
-    endNormalized.setHours(23, 59, 59, 999);
+    const endNormalized = endOfDayIn(end, timeZone);
 
-    while (currentDay <= endNormalized) {
-        const dayKey = currentDay.toISOString().split('T')[0];
+    for (let currentDay = startOfDayIn(start, timeZone); currentDay <= endNormalized; currentDay = nextDayIn(currentDay, timeZone)) {
+        const dayKey = formatDate(currentDay, timeZone, "yyyy-MM-dd");
         const categoryAmounts = dailyMap.get(dayKey) || new Map<string, number>();
 
         const categoryData = categories.map(cat => ({
@@ -816,13 +825,11 @@ export async function getDailyExpenseDataAllCategories(
         }));
 
         results.push({
-            day: currentDay.toLocaleDateString("en-NZ", { day: "numeric", month: "short" }),
-            dayDate: new Date(currentDay),
+            day: formatDate(currentDay, timeZone, "d MMM"),
+            dayDate: currentDay,
             categories: categoryData,
             total: categoryData.reduce((sum, c) => sum + c.amount, 0),
         });
-
-        currentDay.setDate(currentDay.getDate() + 1);
     }
 
     return results;
@@ -105,11 +105,11 @@ function ruleMatchesTransaction(rule: ExpenseMatchingRule, tx: Transaction): boo
 
 /**
  * Match a single transaction to an expense category
- * Only matches outgoing transactions (amount < 0)
+ * Only matches outgoing transactions (amount < 0), and not transfers between tracked accounts
  */
 export async function matchExpenseTransaction(tx: Transaction): Promise<ExpenseMatchResult | null> {
     // Only match outgoing transactions
-    if (tx.amount >= 0) {
+    if (tx.amount >= 0 || tx.isInternalTransfer) {
         return null;
     }
 
@@ -237,7 +237,7 @@ export async function rematchAllExpenseTransactions(): Promise<{ matched: number
         .where(eq(transactions.amount, -1)); // This won't work - need lt
 
     // Actually, let's fetch all and filter
-    const txList = await db.select().from(transactions);
+    const txList = await db.select().from(transactions).where(isNull(transactions.deletedAt));
     const outgoingTxs = txList.filter(tx => tx.amount < 0);
 
     let matched = 0;
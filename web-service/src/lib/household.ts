@@ -0,0 +1,49 @@
+import { db } from "./db";
+import { householdSettings, systemState } from "./db/schema";
+import { asc, eq } from "drizzle-orm";
+import { DEFAULT_WEEK_RULES, isWeekday, type WeekRulesPeriod } from "./week-rules";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "./timezone";
+
+export const HOUSEHOLD_TIMEZONE_KEY = "household_timezone";
+
+/**
+ * The timezone the household's days and weeks are counted in: the admin's setting, else the
+ * TIMEZONE environment variable, else Pacific/Auckland
+ */
+export async function getHouseholdTimeZone(): Promise<string> {
+    const setting = await db
+        .select()
+        .from(systemState)
+        .where(eq(systemState.key, HOUSEHOLD_TIMEZONE_KEY))
+        .limit(1);
+
+    const configured = setting[0]?.value;
+    if (configured && isValidTimeZone(configured)) {
+        return configured;
+    }
+    const fromEnv = process.env.TIMEZONE;
+    return fromEnv && isValidTimeZone(fromEnv) ? fromEnv : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Every set of billing week rules the household has had, oldest first. Before the first saved
+ * settings (or with none saved) the default Saturday-Friday week applies.
+ */
+export async function getWeekRulesHistory(): Promise<WeekRulesPeriod[]> {
+    const rows = await db.select().from(householdSettings).orderBy(asc(householdSettings.effectiveFrom));
+
+    const history: WeekRulesPeriod[] = [{ effectiveFrom: null, ...DEFAULT_WEEK_RULES }];
+    for (const row of rows) {
+        if (!isWeekday(row.weekStartDay) || !isWeekday(row.dueDay) || !isWeekday(row.payoutDay)) {
+            console.warn(`[Household] Ignoring settings ${row.id} with an invalid day`);
+            continue;
+        }
+        history.push({
+            effectiveFrom: row.effectiveFrom,
+            weekStartDay: row.weekStartDay,
+            dueDay: row.dueDay,
+            payoutDay: row.payoutDay,
+        });
+    }
+    return history;
+}
@@ -1,17 +1,26 @@
 import { db } from "./db";
-import { transactions, users, paymentSchedules, landlords } from "./db/schema";
-import { eq, and, lte, sql, isNull, isNotNull, or } from "drizzle-orm";
+import { transactions, users, paymentSchedules, landlords, paymentMatchingRules, systemState } from "./db/schema";
+import { eq, and, lte, sql, isNull, isNotNull, or, desc } from "drizzle-orm";
+import type { NewPaymentMatchingRule, PaymentMatchingRule, UserIdentifier } from "./db/schema";
+import { getUserIdentifiers, isIdentifierValidOn } from "./user-identifiers";
+import { getHouseholdTimeZone } from "./household";
+import { findNzBankAccounts, isSameNzBankAccount, parseNzBankAccount, type NzBankAccount } from "./nz-bank-account";
+import { getWeeklyEquivalent } from "./schedule-cadence";
 
 export interface MatchResult {
-    userId: string;
-    matchType: "rent_payment" | "grocery_reimbursement" | "other" | "expense";
+    userId: string | null;
+    landlordId: string | null;
+    matchType: "rent_payment" | "grocery_reimbursement" | "other" | "expense" | "landlord_payment";
     confidence: number;
+    ruleId: string;
 }
 
-export interface LandlordMatchResult {
-    landlordId: string;
-    matchType: "landlord_payment";
-    confidence: number;
+export interface MatchableTransaction {
+    amount: number;
+    description: string;
+    rawData: string;
+    date: Date;
+    cardSuffix?: string | null;
 }
 
 interface ParsedTransactionData {
@@ -28,221 +37,353 @@ interface ParsedTransactionData {
     other_account?: string;
 }
 
+interface PaymentFields {
+    description: string;
+    particulars: string | null;
+    code: string | null;
+    reference: string | null;
+    otherAccount: string | null;
+    cardSuffix: string | null;
+    searchText: string; // All of the above, lowercased, for identifier matching
+    accountNumbers: NzBankAccount[]; // Bank account numbers found in any of the above
+}
+
+const DEFAULT_RULES_SEEDED_KEY = "payment_rules_seeded";
+
 /**
- * Match a transaction to a flatmate based on:
- * 1. Card suffix (for expense card purchases)
- * 2. Bank account pattern in transaction description/particulars
- * 3. Matching name pattern in description
- * 4. Amount matching expected payment amounts (±20%)
+ * The built-in matching behaviour, seeded as editable rules:
+ * 1. Card purchases on a flatmate's expense card
+ * 2. Incoming payments from a flatmate's bank account or name, typed from their payment schedule
+ * 3. Outgoing non-card transfers to a flatmate (these don't count towards rent)
+ * 4. Outgoing non-card payments to a landlord's bank account or name
  */
-export async function matchTransaction(
-    transactionId: string,
-    amount: number,
-    description: string,
-    rawData: string,
-    date: Date,
-    cardSuffix?: string | null
-): Promise<MatchResult | null> {
-    // Get all flatmates with matching patterns
-    const flatmates = await db
+export const DEFAULT_PAYMENT_RULES: NewPaymentMatchingRule[] = [
+    {
+        name: "Flatmate expense card",
+        priority: 100,
+        target: "flatmate",
+        identifier: "card_suffix",
+        direction: "out",
+        cardPayment: "card",
+        matchType: "expense",
+        confidence: 0.95,
+    },
+    {
+        name: "Payment from flatmate's bank account",
+        priority: 90,
+        target: "flatmate",
+        identifier: "bank_account_pattern",
+        direction: "in",
+        matchType: "schedule",
+        confidence: 1,
+    },
+    {
+        name: "Payment from flatmate's name",
+        priority: 80,
+        target: "flatmate",
+        identifier: "matching_name",
+        direction: "in",
+        matchType: "schedule",
+        confidence: 0.9, // Slightly lower confidence for name matching
+    },
+    {
+        name: "Transfer to flatmate's bank account",
+        priority: 70,
+        target: "flatmate",
+        identifier: "bank_account_pattern",
+        direction: "out",
+        cardPayment: "not_card",
+        matchType: "other",
+        confidence: 0.9,
+    },
+    {
+        name: "Transfer to flatmate's name",
+        priority: 60,
+        target: "flatmate",
+        identifier: "matching_name",
+        direction: "out",
+        cardPayment: "not_card",
+        matchType: "other",
+        confidence: 0.8,
+    },
+    {
+        name: "Payment to landlord's bank account",
+        priority: 50,
+        target: "landlord",
+        identifier: "bank_account_pattern",
+        direction: "out",
+        cardPayment: "not_card",
+        matchType: "landlord_payment",
+        confidence: 0.95,
+    },
+    {
+        name: "Payment to landlord's name",
+        priority: 40,
+        target: "landlord",
+        identifier: "matching_name",
+        direction: "out",
+        cardPayment: "not_card",
+        matchType: "landlord_payment",
+        confidence: 0.85,
+    },
+];
+
+let defaultRulesSeeded = false;
+
+/**
+ * Add the default rules the first time matching runs. Rules deleted afterwards stay deleted.
+ */
+async function seedDefaultPaymentRules(): Promise<void> {
+    if (defaultRulesSeeded) return;
+
+    const [seeded] = await db
         .select()
-        .from(users)
-        .where(
-            or(
-                isNotNull(users.bankAccountPattern),
-                isNotNull(users.cardSuffix),
-                isNotNull(users.matchingName)
-            )
-        );
+        .from(systemState)
+        .where(eq(systemState.key, DEFAULT_RULES_SEEDED_KEY))
+        .limit(1);
 
-    // Parse raw data for additional fields
+    if (!seeded) {
+        db.transaction((tx) => {
+            tx.insert(paymentMatchingRules).values(DEFAULT_PAYMENT_RULES).run();
+            tx.insert(systemState).values({ key: DEFAULT_RULES_SEEDED_KEY, value: "true" }).run();
+        });
+        console.log("[Matching] Seeded default payment matching rules");
+    }
+
+    defaultRulesSeeded = true;
+}
+
+/**
+ * Replace every payment matching rule with the defaults
+ */
+export async function resetPaymentRulesToDefaults(): Promise<void> {
+    await seedDefaultPaymentRules();
+
+    db.transaction((tx) => {
+        tx.delete(paymentMatchingRules).run();
+        tx.insert(paymentMatchingRules).values(DEFAULT_PAYMENT_RULES).run();
+    });
+}
+
+/**
+ * All payment matching rules, highest priority first
+ */
+export async function getPaymentRules(): Promise<PaymentMatchingRule[]> {
+    await seedDefaultPaymentRules();
+
+    return await db
+        .select()
+        .from(paymentMatchingRules)
+        .orderBy(desc(paymentMatchingRules.priority), paymentMatchingRules.createdAt);
+}
+
+function getPaymentFields(tx: MatchableTransaction): PaymentFields {
     let parsed: ParsedTransactionData = {};
     try {
-        parsed = JSON.parse(rawData) as ParsedTransactionData;
+        parsed = JSON.parse(tx.rawData) as ParsedTransactionData;
     } catch {
         // Ignore parse errors
     }
 
-    // Get card suffix from parsed data if not provided
-    const txCardSuffix = cardSuffix ?? parsed.meta?.card_suffix;
+    const meta = parsed.meta ?? {};
+    const fields = {
+        description: tx.description,
+        particulars: meta.particulars ?? parsed.particulars ?? null,
+        code: meta.code ?? parsed.code ?? null,
+        reference: meta.reference ?? parsed.reference ?? null,
+        otherAccount: meta.other_account ?? parsed.other_account ?? null,
+        cardSuffix: tx.cardSuffix ?? meta.card_suffix ?? null,
+    };
 
-    // For card purchases (negative amounts with card suffix), match by card
-    if (txCardSuffix && amount < 0) {
-        for (const flatmate of flatmates) {
-            if (flatmate.cardSuffix && flatmate.cardSuffix === txCardSuffix) {
-                // Card suffix match - this is an expense
-                return {
-                    userId: flatmate.id,
-                    matchType: "expense",
-                    confidence: 0.95,
-                };
-            }
-        }
-    }
+    const text = [fields.description, fields.particulars, fields.code, fields.reference, fields.otherAccount]
+        .filter(Boolean)
+        .join(" ");
 
-    // Build search fields from all relevant data
-    const meta = parsed.meta ?? {};
-    const searchFields = [
-        description,
-        meta.particulars ?? parsed.particulars,
-        meta.code ?? parsed.code,
-        meta.reference ?? parsed.reference,
-        meta.other_account ?? parsed.other_account,
-    ].filter(Boolean).join(" ").toLowerCase();
-
-    // For incoming payments (positive amounts), match by bank account or name
-    if (amount > 0) {
-        // Try to match by bank account pattern
-        for (const flatmate of flatmates) {
-            if (flatmate.bankAccountPattern) {
-                const pattern = flatmate.bankAccountPattern.toLowerCase();
-                if (searchFields.includes(pattern)) {
-                    const matchType = await determineMatchType(flatmate.id, amount, date);
-                    return {
-                        userId: flatmate.id,
-                        matchType: matchType.type,
-                        confidence: matchType.confidence,
-                    };
-                }
-            }
-        }
+    return {
+        ...fields,
+        searchText: text.toLowerCase(),
+        accountNumbers: findNzBankAccounts(text),
+    };
+}
 
-        // Try to match by matching name pattern
-        for (const flatmate of flatmates) {
-            if (flatmate.matchingName) {
-                const pattern = flatmate.matchingName.toLowerCase();
-                if (searchFields.includes(pattern)) {
-                    const matchType = await determineMatchType(flatmate.id, amount, date);
-                    return {
-                        userId: flatmate.id,
-                        matchType: matchType.type,
-                        confidence: matchType.confidence * 0.9, // Slightly lower confidence for name matching
-                    };
-                }
-            }
+/**
+ * Test if a pattern matches a value (substring, or regex when isRegex is set)
+ */
+function matchesPattern(pattern: string, value: string | null, isRegex: boolean): boolean {
+    if (!value) return false;
+
+    if (isRegex) {
+        try {
+            return new RegExp(pattern, "i").test(value);
+        } catch {
+            // Invalid regex, treat as literal
         }
     }
 
-    // For outgoing non-card payments (amount < 0, no card suffix), also try to match flatmate
-    // This catches bank transfers out that belong to a flatmate but don't count towards rent
-    if (amount < 0 && !txCardSuffix) {
-        // Try to match by bank account pattern
-        for (const flatmate of flatmates) {
-            if (flatmate.bankAccountPattern) {
-                const pattern = flatmate.bankAccountPattern.toLowerCase();
-                if (searchFields.includes(pattern)) {
-                    return {
-                        userId: flatmate.id,
-                        matchType: "other", // Outgoing transfers don't count towards rent
-                        confidence: 0.9,
-                    };
-                }
-            }
-        }
+    return value.toLowerCase().includes(pattern.toLowerCase());
+}
 
-        // Try to match by matching name pattern
-        for (const flatmate of flatmates) {
-            if (flatmate.matchingName) {
-                const pattern = flatmate.matchingName.toLowerCase();
-                if (searchFields.includes(pattern)) {
-                    return {
-                        userId: flatmate.id,
-                        matchType: "other", // Outgoing transfers don't count towards rent
-                        confidence: 0.8, // Lower confidence for name matching
-                    };
-                }
-            }
-        }
-    }
+/**
+ * Test a rule's direction, card, amount and text conditions (everything except who it assigns to)
+ */
+function ruleConditionsMatch(rule: PaymentMatchingRule, tx: MatchableTransaction, fields: PaymentFields): boolean {
+    if (rule.direction === "in" && tx.amount <= 0) return false;
+    if (rule.direction === "out" && tx.amount >= 0) return false;
+    if (rule.cardPayment === "card" && !fields.cardSuffix) return false;
+    if (rule.cardPayment === "not_card" && fields.cardSuffix) return false;
+
+    const absoluteAmount = Math.abs(tx.amount);
+    if (rule.minAmount !== null && absoluteAmount < rule.minAmount) return false;
+    if (rule.maxAmount !== null && absoluteAmount > rule.maxAmount) return false;
+
+    const patterns: Array<[string | null, string | null]> = [
+        [rule.descriptionPattern, fields.description],
+        [rule.particularsPattern, fields.particulars],
+        [rule.codePattern, fields.code],
+        [rule.referencePattern, fields.reference],
+        [rule.otherAccountPattern, fields.otherAccount],
+    ];
+    const criteria = patterns
+        .filter((entry): entry is [string, string | null] => Boolean(entry[0]))
+        .map(([pattern, value]) => matchesPattern(pattern, value, rule.isRegex));
+
+    // Rules without text patterns rely on their identifier or amount range
+    if (criteria.length === 0) return true;
+
+    return rule.matchMode === "any" ? criteria.some(Boolean) : criteria.every(Boolean);
+}
 
-    return null;
+type CandidateIdentifier = Pick<UserIdentifier, "type" | "value" | "validFrom" | "validTo">;
+
+/**
+ * A flatmate or landlord a rule could assign to, with the identifiers that recognise them
+ */
+interface MatchCandidate {
+    id: string;
+    identifiers: CandidateIdentifier[];
+}
+
+async function getFlatmateCandidates(): Promise<MatchCandidate[]> {
+    const flatmates = await db.select({ id: users.id }).from(users);
+    const identifiersByUser = await getUserIdentifiers();
+    return flatmates.map((f) => ({ id: f.id, identifiers: identifiersByUser.get(f.id) ?? [] }));
+}
+
+async function getLandlordCandidates(): Promise<MatchCandidate[]> {
+    const allLandlords = await db.select().from(landlords);
+    return allLandlords.map((l) => ({
+        id: l.id,
+        identifiers: [
+            { type: "bank_account_pattern" as const, value: l.bankAccountPattern },
+            { type: "matching_name" as const, value: l.matchingName },
+        ]
+            .filter((i): i is { type: "bank_account_pattern" | "matching_name"; value: string } => Boolean(i.value))
+            .map((i) => ({ ...i, validFrom: null, validTo: null })),
+    }));
 }
 
 /**
- * Match an outgoing transaction to a landlord based on:
- * 1. Bank account pattern in other_account field
- * 2. Matching name pattern in description
- *
- * Only matches outgoing payments (amount < 0) that are NOT card expenses
+ * Whether an identifier's value appears in the transaction. Bank account numbers are compared
+ * by their parts, so any formatting (or a missing suffix) matches; anything else is a substring.
  */
-export async function matchLandlordTransaction(
-    amount: number,
-    description: string,
-    rawData: string,
-    cardSuffix?: string | null
-): Promise<LandlordMatchResult | null> {
-    // Only match outgoing payments (amount < 0)
-    if (amount >= 0) {
-        return null;
+function identifierValueMatches(identifier: CandidateIdentifier, fields: PaymentFields): boolean {
+    if (identifier.type === "card_suffix") {
+        return identifier.value === fields.cardSuffix;
     }
 
-    // Don't match card expenses (those are flatmate expenses)
-    if (cardSuffix) {
-        return null;
+    if (identifier.type === "bank_account_pattern") {
+        const account = parseNzBankAccount(identifier.value);
+        if (account) {
+            return fields.accountNumbers.some((found) => isSameNzBankAccount(account, found));
+        }
     }
 
-    // Get all landlords with matching patterns
-    const allLandlords = await db
-        .select()
-        .from(landlords)
-        .where(
-            or(
-                isNotNull(landlords.bankAccountPattern),
-                isNotNull(landlords.matchingName)
-            )
-        );
+    return fields.searchText.includes(identifier.value.toLowerCase());
+}
+
+/**
+ * Whether one of a candidate's identifiers of the rule's type (card suffix, account or name
+ * pattern) appears in the transaction and applies on its date (a day in the household's timezone)
+ */
+function identifierMatches(
+    rule: PaymentMatchingRule,
+    candidate: MatchCandidate,
+    fields: PaymentFields,
+    date: Date,
+    timeZone: string
+): boolean {
+    if (!rule.identifier) return true;
+
+    return candidate.identifiers.some((identifier) => {
+        if (identifier.type !== rule.identifier || !isIdentifierValidOn(identifier, date, timeZone)) return false;
+
+        return identifierValueMatches(identifier, fields);
+    });
+}
 
-    if (allLandlords.length === 0) {
+/**
+ * Match a transaction to a flatmate or landlord using the active payment matching rules.
+ * Rules are tried highest priority first; the first whose conditions hold and that resolves to
+ * a flatmate or landlord wins. Rules without a fixed flatmate/landlord assign to whoever's
+ * identifier is found in the transaction.
+ */
+export async function matchPayment(tx: MatchableTransaction): Promise<MatchResult | null> {
+    const rules = (await getPaymentRules()).filter((rule) => rule.isActive);
+    if (rules.length === 0) {
         return null;
     }
 
-    // Parse raw data for additional fields
-    let parsed: ParsedTransactionData = {};
-    try {
-        parsed = JSON.parse(rawData) as ParsedTransactionData;
-    } catch {
-        // Ignore parse errors
-    }
+    const fields = getPaymentFields(tx);
+    const timeZone = await getHouseholdTimeZone();
+    let flatmates: MatchCandidate[] | null = null;
+    let allLandlords: MatchCandidate[] | null = null;
 
-    // Build search fields from all relevant data
-    const meta = parsed.meta ?? {};
-    const searchFields = [
-        description,
-        meta.particulars ?? parsed.particulars,
-        meta.code ?? parsed.code,
-        meta.reference ?? parsed.reference,
-        meta.other_account ?? parsed.other_account,
-    ].filter(Boolean).join(" ").toLowerCase();
-
-    // Get other_account field specifically for bank account matching
-    const otherAccount = (meta.other_account ?? parsed.other_account ?? "").toLowerCase();
-
-    // Try to match by bank account pattern first (higher confidence)
-    for (const landlord of allLandlords) {
-        if (landlord.bankAccountPattern) {
-            const pattern = landlord.bankAccountPattern.toLowerCase();
-            if (otherAccount.includes(pattern) || searchFields.includes(pattern)) {
+    for (const rule of rules) {
+        if (!ruleConditionsMatch(rule, tx, fields)) continue;
+
+        if (rule.target === "landlord") {
+            allLandlords ??= await getLandlordCandidates();
+            const landlord = allLandlords.find((l) =>
+                (rule.landlordId ? l.id === rule.landlordId : Boolean(rule.identifier)) &&
+                identifierMatches(rule, l, fields, tx.date, timeZone)
+            );
+            if (landlord) {
                 return {
+                    userId: null,
                     landlordId: landlord.id,
                     matchType: "landlord_payment",
-                    confidence: 0.95,
+                    confidence: rule.confidence,
+                    ruleId: rule.id,
                 };
             }
+            continue;
         }
-    }
 
-    // Try to match by matching name pattern
-    for (const landlord of allLandlords) {
-        if (landlord.matchingName) {
-            const pattern = landlord.matchingName.toLowerCase();
-            if (searchFields.includes(pattern)) {
-                return {
-                    landlordId: landlord.id,
-                    matchType: "landlord_payment",
-                    confidence: 0.85, // Lower confidence for name matching
-                };
-            }
+        flatmates ??= await getFlatmateCandidates();
+        const flatmate = flatmates.find((f) =>
+            (rule.userId ? f.id === rule.userId : Boolean(rule.identifier)) &&
+            identifierMatches(rule, f, fields, tx.date, timeZone)
+        );
+        if (!flatmate) continue;
+
+        if (rule.matchType === "schedule") {
+            const matchType = await determineMatchType(flatmate.id, tx.amount, tx.date);
+            return {
+                userId: flatmate.id,
+                landlordId: null,
+                matchType: matchType.type,
+                confidence: matchType.confidence * rule.confidence,
+                ruleId: rule.id,
+            };
         }
+
+        return {
+            userId: flatmate.id,
+            landlordId: null,
+            matchType: rule.matchType,
+            confidence: rule.confidence,
+            ruleId: rule.id,
+        };
     }
 
     return null;
@@ -281,13 +422,18 @@ async function determineMatchType(
     }
 
     const schedule = schedules[0];
-    const expectedWeekly = schedule.weeklyAmount;
+    const expectedWeekly = getWeeklyEquivalent(schedule);
     const expectedFortnightly = expectedWeekly * 2;
     const expectedTrinightly = expectedWeekly * 3;
 
 
     // Check if amount matches expected payment (±20% tolerance)
     const tolerance = 0.2;
+    // Check the schedule's own period amount (fortnightly and monthly schedules)
+    if (schedule.cadence !== "weekly" && isWithinTolerance(amount, schedule.amount, tolerance)) {
+        return { type: "rent_payment", confidence: 0.95 };
+    }
+
     // Check weekly amount
     if (isWithinTolerance(amount, expectedWeekly, tolerance)) {
         return { type: "rent_payment", confidence: 0.95 };
@@ -318,14 +464,18 @@ import { isWithinTolerance } from "./utils";
  * Re-match all transactions that don't have a manual match
  */
 export async function rematchAllTransactions(): Promise<{ matched: number; total: number; landlordMatched: number }> {
-    // Only rematch transactions that aren't manually matched
+    // Only rematch transactions that aren't manually matched (transfers between tracked accounts are never matched)
     const unmatchedTxs = await db
         .select()
         .from(transactions)
         .where(
-            or(
-                isNull(transactions.manualMatch),
-                eq(transactions.manualMatch, false)
+            and(
+                or(
+                    isNull(transactions.manualMatch),
+                    eq(transactions.manualMatch, false)
+                ),
+                eq(transactions.isInternalTransfer, false),
+                isNull(transactions.deletedAt)
             )
         );
 
@@ -333,48 +483,23 @@ export async function rematchAllTransactions(): Promise<{ matched: number; total
     let landlordMatched = 0;
 
     for (const tx of unmatchedTxs) {
-        // First try to match to a flatmate
-        const match = await matchTransaction(
-            tx.id,
-            tx.amount,
-            tx.description,
-            tx.rawData,
-            tx.date,
-            tx.cardSuffix
-        );
-
-        if (match) {
-            await db
-                .update(transactions)
-                .set({
-                    matchedUserId: match.userId,
-                    matchedLandlordId: null,
-                    matchType: match.matchType,
-                    matchConfidence: match.confidence,
-                })
-                .where(eq(transactions.id, tx.id));
-            matched++;
+        const match = await matchPayment(tx);
+        if (!match) continue;
+
+        await db
+            .update(transactions)
+            .set({
+                matchedUserId: match.userId,
+                matchedLandlordId: match.landlordId,
+                matchType: match.matchType,
+                matchConfidence: match.confidence,
+            })
+            .where(eq(transactions.id, tx.id));
+
+        if (match.landlordId) {
+            landlordMatched++;
         } else {
-            // If no flatmate match, try to match to a landlord (for outgoing payments)
-            const landlordMatch = await matchLandlordTransaction(
-                tx.amount,
-                tx.description,
-                tx.rawData,
-                tx.cardSuffix
-            );
-
-            if (landlordMatch) {
-                await db
-                    .update(transactions)
-                    .set({
-                        matchedUserId: null,
-                        matchedLandlordId: landlordMatch.landlordId,
-                        matchType: landlordMatch.matchType,
-                        matchConfidence: landlordMatch.confidence,
-                    })
-                    .where(eq(transactions.id, tx.id));
-                landlordMatched++;
-            }
+            matched++;
         }
     }
 
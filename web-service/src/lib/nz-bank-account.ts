@@ -0,0 +1,184 @@
+/**
+ * New Zealand bank account numbers: BB-bbbb-AAAAAAA-SSS (bank, branch, account base, suffix).
+ * Checksums follow the IRD's "Bank account number validation" specification (Payments NZ
+ * algorithms A-G and X). Branch ranges aren't checked, as banks keep adding them.
+ */
+
+export interface NzBankAccount {
+    bank: string; // 2 digits
+    branch: string; // 4 digits
+    account: string; // 7 digits, or 8 for the few banks that use them
+    suffix: string | null; // 2-4 digits; null when the number was given without one
+}
+
+const BANK_NAMES: Record<string, string> = {
+    "01": "ANZ",
+    "02": "BNZ",
+    "03": "Westpac",
+    "04": "ANZ",
+    "05": "China Construction Bank",
+    "06": "ANZ",
+    "08": "BNZ",
+    "09": "Reserve Bank of New Zealand",
+    "10": "Industrial and Commercial Bank of China",
+    "11": "ANZ",
+    "12": "ASB",
+    "13": "Westpac",
+    "14": "Westpac",
+    "15": "TSB",
+    "16": "Westpac",
+    "17": "Westpac",
+    "18": "Westpac",
+    "19": "Westpac",
+    "20": "Westpac",
+    "21": "Westpac",
+    "22": "Westpac",
+    "23": "Westpac",
+    "24": "ASB",
+    "25": "ANZ",
+    "27": "Westpac",
+    "30": "HSBC",
+    "31": "Citibank",
+    "38": "Kiwibank",
+    "88": "Bank of China",
+};
+
+type Algorithm = "A" | "B" | "D" | "E" | "F" | "G" | "X";
+
+// Weights for the 18 digits bank(2) branch(4) account(8) suffix(4), and the modulus the sum must divide by
+const ALGORITHMS: Record<Algorithm, { weights: number[]; modulus: number; addDigits?: boolean }> = {
+    A: { weights: [0, 0, 6, 3, 7, 9, 0, 0, 10, 5, 8, 4, 2, 1, 0, 0, 0, 0], modulus: 11 },
+    B: { weights: [0, 0, 0, 0, 0, 0, 0, 0, 10, 5, 8, 4, 2, 1, 0, 0, 0, 0], modulus: 11 },
+    D: { weights: [0, 0, 0, 0, 0, 0, 0, 7, 6, 5, 4, 3, 2, 1, 0, 0, 0, 0], modulus: 11 },
+    E: { weights: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 5, 4, 3, 2, 0, 0, 0, 1], modulus: 11, addDigits: true },
+    F: { weights: [0, 0, 0, 0, 0, 0, 0, 1, 7, 3, 1, 7, 3, 1, 0, 0, 0, 0], modulus: 10 },
+    G: { weights: [0, 0, 0, 0, 0, 0, 0, 1, 3, 7, 1, 3, 7, 1, 0, 3, 7, 1], modulus: 10, addDigits: true },
+    X: { weights: [], modulus: 1 },
+};
+
+function getAlgorithm(account: NzBankAccount): Algorithm {
+    switch (account.bank) {
+        case "08":
+            return "D";
+        case "09":
+            return "E";
+        case "25":
+        case "33":
+            return "F";
+        case "26":
+        case "28":
+        case "29":
+            return "G";
+        case "31":
+            return "X";
+        default:
+            return parseInt(account.account, 10) < 990000 ? "A" : "B";
+    }
+}
+
+// Anchored for parsing input; the same shape, bounded by non-digits, for finding numbers in text.
+// The account is matched lazily so bare 16-digit numbers split as 7-digit account + 3-digit suffix.
+const INPUT_PATTERN = /^\s*(\d{2})[\s-]*(\d{4})[\s-]*(\d{7,8}?)(?:[\s-]*(\d{2,4}))?\s*$/;
+const TEXT_PATTERN = /(?<!\d)(\d{2})\D{0,10}?(\d{4})\D{0,12}?(\d{7,8}?)[\s-]{0,3}(\d{2,4})(?!\d)/g;
+
+function fromMatch(match: RegExpMatchArray): NzBankAccount {
+    const [, bank, branch, rawAccount, suffix] = match;
+    return {
+        bank,
+        branch,
+        account: rawAccount.length === 8 && rawAccount.startsWith("0") ? rawAccount.slice(1) : rawAccount,
+        suffix: suffix ?? null,
+    };
+}
+
+/**
+ * Split an account number into its parts, in any of the usual formats: "02-0108-0335777-00",
+ * "02 0108 0335777 000", "0201080335777000", or without a suffix. Doesn't check the checksum.
+ */
+export function parseNzBankAccount(value: string | null | undefined): NzBankAccount | null {
+    const match = value?.match(INPUT_PATTERN);
+    return match ? fromMatch(match) : null;
+}
+
+/**
+ * Every account number that appears in free text, e.g. a transaction's description or a statement header
+ */
+export function findNzBankAccounts(text: string | null | undefined): NzBankAccount[] {
+    return text ? [...text.matchAll(TEXT_PATTERN)].map(fromMatch) : [];
+}
+
+function toDigits(account: NzBankAccount): string {
+    return account.bank + account.branch + account.account.padStart(8, "0") + (account.suffix ?? "").padStart(4, "0");
+}
+
+/**
+ * Check an account number's checksum. Numbers without a suffix pass only if their bank's
+ * algorithm doesn't use it.
+ */
+export function isValidNzBankAccount(account: NzBankAccount): boolean {
+    const { weights, modulus, addDigits } = ALGORITHMS[getAlgorithm(account)];
+    if (account.suffix === null && weights.slice(14).some((weight) => weight > 0)) {
+        return false;
+    }
+
+    const digits = toDigits(account);
+    const sum = weights.reduce((total, weight, i) => {
+        let product = weight * Number(digits[i]);
+        if (addDigits) {
+            // e.g. 56 -> 11 -> 2
+            product = Math.floor(product / 10) + (product % 10);
+            product = Math.floor(product / 10) + (product % 10);
+        }
+        return total + product;
+    }, 0);
+
+    return sum % modulus === 0;
+}
+
+/**
+ * Parse and validate an account number entered in a form
+ */
+export function validateNzBankAccount(value: string): { account: NzBankAccount } | { error: string } {
+    const account = parseNzBankAccount(value);
+    if (!account) {
+        return { error: `"${value}" isn't a bank account number (e.g. 12-3456-7890123-00)` };
+    }
+    if (!isValidNzBankAccount(account)) {
+        return { error: `${formatNzBankAccount(account)} isn't a valid account number - check for typos` };
+    }
+    return { account };
+}
+
+/**
+ * The usual way of writing an account number: "02-0108-0335777-00". Suffixes keep the 2 or 3
+ * digits they were given with; 4-digit ones are shortened to 3 where possible.
+ */
+export function formatNzBankAccount(account: NzBankAccount): string {
+    const parts = [account.bank, account.branch, account.account];
+    if (account.suffix !== null) {
+        parts.push(account.suffix.length === 4 && account.suffix.startsWith("0") ? account.suffix.slice(1) : account.suffix);
+    }
+    return parts.join("-");
+}
+
+/**
+ * Reduce an account number to its 18 digits so differently formatted numbers compare equal.
+ * Returns null for values that aren't account numbers.
+ */
+export function normaliseNzBankAccount(value: string | null | undefined): string | null {
+    const account = parseNzBankAccount(value);
+    return account ? toDigits(account) : null;
+}
+
+/**
+ * Whether two accounts are the same. A missing suffix on either side matches any suffix.
+ */
+export function isSameNzBankAccount(a: NzBankAccount, b: NzBankAccount): boolean {
+    const base = (account: NzBankAccount) => toDigits(account).slice(0, 14);
+    if (base(a) !== base(b)) return false;
+    return a.suffix === null || b.suffix === null || parseInt(a.suffix, 10) === parseInt(b.suffix, 10);
+}
+
+export function getNzBankName(account: NzBankAccount): string | null {
+    return BANK_NAMES[account.bank] ?? null;
+}
@@ -0,0 +1,202 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db";
+import { printerDevices, printJobs } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { enqueuePrintJob, getPrintJobTicket, requeuePrintJob } from "./print-queue";
+import { generatePrinterToken } from "./print-devices";
+import { parseReceiptWidth } from "./receipt";
+import { buildWeeklyStatement, buildWeeklyStatementTicket } from "./weekly-statement";
+import type { Ticket } from "./ticket";
+
+// ============================================
+// Print Actions
+// ============================================
+
+export async function getWeeklyStatementTicketAction(): Promise<Ticket | null> {
+    const session = await auth();
+    if (!session?.user) {
+        return null;
+    }
+
+    const statement = await buildWeeklyStatement();
+    return buildWeeklyStatementTicket(statement);
+}
+
+export async function printWeeklyStatementAction() {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    try {
+        const statement = await buildWeeklyStatement();
+        await enqueuePrintJob(buildWeeklyStatementTicket(statement), "weekly_statement");
+        return { success: true };
+    } catch (error) {
+        console.error("Error printing weekly statement:", error);
+        return { error: "Failed to queue weekly statement" };
+    }
+}
+
+/**
+ * Queue a dead-lettered job again with a fresh set of attempts.
+ */
+export async function reprintPrintJobAction(jobId: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const [job] = await db.select().from(printJobs).where(eq(printJobs.id, jobId)).limit(1);
+    if (!job) {
+        return { error: "Print job not found" };
+    }
+
+    try {
+        await requeuePrintJob(jobId);
+
+        revalidatePath("/devices");
+        return { success: true };
+    } catch (error) {
+        console.error("Error reprinting job:", error);
+        return { error: "Failed to queue reprint" };
+    }
+}
+
+export async function getPrintJobTicketAction(jobId: string): Promise<Ticket | null> {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return null;
+    }
+
+    const [job] = await db.select().from(printJobs).where(eq(printJobs.id, jobId)).limit(1);
+    return job ? getPrintJobTicket(job) : null;
+}
+
+// ============================================
+// Printer Device Actions
+// ============================================
+
+export async function addPrinterDeviceAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const name = formData.get("name")?.toString().trim();
+    const paperWidth = parseReceiptWidth(formData.get("paperWidth")?.toString());
+
+    if (!name) {
+        return { error: "Printer name is required" };
+    }
+
+    try {
+        const { token, tokenHash, tokenHint } = generatePrinterToken();
+        await db.insert(printerDevices).values({ name, paperWidth, tokenHash, tokenHint });
+
+        revalidatePath("/devices");
+        return { success: true, token };
+    } catch (error) {
+        console.error("Error adding printer:", error);
+        return { error: "Failed to add printer" };
+    }
+}
+
+export async function updatePrinterDeviceAction(formData: FormData) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    const id = formData.get("id")?.toString();
+    const name = formData.get("name")?.toString().trim();
+    const paperWidth = parseReceiptWidth(formData.get("paperWidth")?.toString());
+
+    if (!id) {
+        return { error: "Printer ID is required" };
+    }
+
+    if (!name) {
+        return { error: "Printer name is required" };
+    }
+
+    try {
+        await db
+            .update(printerDevices)
+            .set({ name, paperWidth, updatedAt: new Date() })
+            .where(eq(printerDevices.id, id));
+
+        revalidatePath("/devices");
+        return { success: true };
+    } catch (error) {
+        console.error("Error updating printer:", error);
+        return { error: "Failed to update printer" };
+    }
+}
+
+/**
+ * Issue a new token for a printer. The old token stops working straight away
+ * (the hub drops its connection on the next heartbeat). Also re-enables a revoked printer.
+ */
+export async function rotatePrinterTokenAction(deviceId: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    try {
+        const { token, tokenHash, tokenHint } = generatePrinterToken();
+        await db
+            .update(printerDevices)
+            .set({ tokenHash, tokenHint, revokedAt: null, updatedAt: new Date() })
+            .where(eq(printerDevices.id, deviceId));
+
+        revalidatePath("/devices");
+        return { success: true, token };
+    } catch (error) {
+        console.error("Error rotating printer token:", error);
+        return { error: "Failed to rotate token" };
+    }
+}
+
+export async function revokePrinterDeviceAction(deviceId: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    try {
+        await db
+            .update(printerDevices)
+            .set({ revokedAt: new Date(), updatedAt: new Date() })
+            .where(eq(printerDevices.id, deviceId));
+
+        revalidatePath("/devices");
+        return { success: true };
+    } catch (error) {
+        console.error("Error revoking printer:", error);
+        return { error: "Failed to revoke printer" };
+    }
+}
+
+export async function deletePrinterDeviceAction(deviceId: string) {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "admin") {
+        return { error: "Unauthorized - admin access required" };
+    }
+
+    try {
+        // Past jobs keep their history, they just lose the link to the printer
+        await db.update(printJobs).set({ deviceId: null }).where(eq(printJobs.deviceId, deviceId));
+        await db.delete(printerDevices).where(eq(printerDevices.id, deviceId));
+
+        revalidatePath("/devices");
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting printer:", error);
+        return { error: "Failed to delete printer" };
+    }
+}
@@ -0,0 +1,139 @@
+import { db } from "./db";
+import { printerDevices, printJobs } from "./db/schema";
+import type { PrinterDevice, PrintJob } from "./db/schema";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import { createHash, randomBytes } from "crypto";
+
+const TOKEN_HINT_LENGTH = 4;
+const NOT_RESPONDING_AFTER_MS = 45 * 1000; // Three missed heartbeats
+
+export type PrinterConnectionState = "online" | "not_responding" | "offline" | "revoked";
+
+/**
+ * Generate a new device token.
+ * Only its hash is stored, so the token has to be copied to the printer when it is shown.
+ */
+export function generatePrinterToken(): { token: string; tokenHash: string; tokenHint: string } {
+    const token = randomBytes(24).toString("base64url");
+    return {
+        token,
+        tokenHash: hashPrinterToken(token),
+        tokenHint: token.slice(-TOKEN_HINT_LENGTH),
+    };
+}
+
+export function hashPrinterToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Find the (non-revoked) device a token belongs to.
+ */
+export async function findPrinterDeviceByToken(token: string): Promise<PrinterDevice | null> {
+    const [device] = await db
+        .select()
+        .from(printerDevices)
+        .where(and(eq(printerDevices.tokenHash, hashPrinterToken(token)), isNull(printerDevices.revokedAt)))
+        .limit(1);
+
+    return device ?? null;
+}
+
+export async function getPrinterDevice(deviceId: string): Promise<PrinterDevice | null> {
+    const [device] = await db
+        .select()
+        .from(printerDevices)
+        .where(eq(printerDevices.id, deviceId))
+        .limit(1);
+
+    return device ?? null;
+}
+
+export async function getPrinterDevices(): Promise<PrinterDevice[]> {
+    return db.select().from(printerDevices).orderBy(printerDevices.name);
+}
+
+/**
+ * Check whether any printer is allowed to connect (used to skip scheduled prints when there is none).
+ */
+export async function hasActivePrinterDevice(): Promise<boolean> {
+    const [device] = await db
+        .select({ id: printerDevices.id })
+        .from(printerDevices)
+        .where(isNull(printerDevices.revokedAt))
+        .limit(1);
+
+    return !!device;
+}
+
+/**
+ * Work out how a device is doing from its status and last heartbeat.
+ */
+export function getPrinterConnectionState(device: PrinterDevice, now: Date): PrinterConnectionState {
+    if (device.revokedAt) return "revoked";
+    if (device.status !== "online") return "offline";
+    if (!device.lastSeenAt || now.getTime() - device.lastSeenAt.getTime() > NOT_RESPONDING_AFTER_MS) {
+        return "not_responding";
+    }
+    return "online";
+}
+
+export async function markPrinterOnline(deviceId: string, remoteAddress: string | null): Promise<void> {
+    const now = new Date();
+    await db
+        .update(printerDevices)
+        .set({ status: "online", remoteAddress, lastConnectedAt: now, lastSeenAt: now })
+        .where(eq(printerDevices.id, deviceId));
+}
+
+export async function markPrinterOffline(deviceId: string): Promise<void> {
+    await db
+        .update(printerDevices)
+        .set({ status: "offline" })
+        .where(eq(printerDevices.id, deviceId));
+}
+
+/**
+ * Mark every device offline (on hub start-up, nothing is connected yet).
+ */
+export async function markAllPrintersOffline(): Promise<void> {
+    await db.update(printerDevices).set({ status: "offline" });
+}
+
+/**
+ * Record a heartbeat or message from a device.
+ */
+export async function touchPrinterDevice(deviceId: string): Promise<void> {
+    await db
+        .update(printerDevices)
+        .set({ lastSeenAt: new Date() })
+        .where(eq(printerDevices.id, deviceId));
+}
+
+/**
+ * Get the last few jobs for each device, newest first.
+ */
+export async function getRecentJobsByDevice(
+    deviceIds: string[],
+    limit = 5
+): Promise<Map<string, PrintJob[]>> {
+    const jobsByDevice = new Map<string, PrintJob[]>(deviceIds.map((id) => [id, []]));
+    if (deviceIds.length === 0) {
+        return jobsByDevice;
+    }
+
+    const jobs = await db
+        .select()
+        .from(printJobs)
+        .where(inArray(printJobs.deviceId, deviceIds))
+        .orderBy(desc(printJobs.createdAt));
+
+    for (const job of jobs) {
+        const list = job.deviceId ? jobsByDevice.get(job.deviceId) : undefined;
+        if (list && list.length < limit) {
+            list.push(job);
+        }
+    }
+
+    return jobsByDevice;
+}
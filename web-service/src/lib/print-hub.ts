@@ -0,0 +1,318 @@
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import type { IncomingMessage } from "http";
+import {
+    getPrintJobTicket,
+    getQueuedPrintJobs,
+    markPrintJobDelivered,
+    markPrintJobPrinted,
+    recordPrintJobFailure,
+    recoverInterruptedPrintJobs,
+    registerPrintHubWakeup,
+} from "./print-queue";
+import {
+    findPrinterDeviceByToken,
+    getPrinterDevice,
+    markAllPrintersOffline,
+    markPrinterOffline,
+    markPrinterOnline,
+    touchPrinterDevice,
+} from "./print-devices";
+import type { PrinterDevice } from "./db/schema";
+import { renderTicketEscPos } from "./ticket-render";
+
+const HUB_PORT = parseInt(process.env.PRINT_HUB_PORT || "3001", 10);
+const POLL_INTERVAL_MS = 10 * 1000; // Safety net in case a wake-up is missed
+const HEARTBEAT_INTERVAL_MS = 15 * 1000; // Printers that miss a heartbeat are disconnected
+const ACK_TIMEOUT_MS = 60 * 1000; // Jobs not acked within this are counted as failed
+
+const globalForPrintHub = globalThis as unknown as { printHubServer?: WebSocketServer };
+
+interface PrinterConnection {
+    device: PrinterDevice;
+    socket: WebSocket;
+    alive: boolean; // Answered the last heartbeat ping
+    pendingAcks: Map<string, NodeJS.Timeout>; // Job IDs sent but not yet acknowledged, with their ack timeouts
+}
+
+/**
+ * Job protocol (JSON text frames):
+ * - hub -> printer: { type: "print", jobId, data } where data is the base64 ESC/POS byte stream
+ * - printer -> hub: { type: "ack", jobId } once printed, or { type: "nack", jobId, error } if printing failed
+ */
+interface PrintMessage {
+    type: "print";
+    jobId: string;
+    data: string;
+}
+
+type PrinterMessage = { type: "ack"; jobId: string } | { type: "nack"; jobId: string; error?: string };
+
+/**
+ * Get the device token sent by the printer.
+ * The printer-service client only takes a URL, so the token is usually passed as ?token=...
+ * An "Authorization: Bearer" header is accepted as well.
+ */
+function getRequestToken(req: IncomingMessage): string | null {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const header = req.headers.authorization;
+    return url.searchParams.get("token")
+        ?? (header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : null);
+}
+
+function parsePrinterMessage(data: RawData): PrinterMessage | null {
+    try {
+        const message = JSON.parse(data.toString());
+        if ((message?.type === "ack" || message?.type === "nack") && typeof message.jobId === "string") {
+            return message;
+        }
+    } catch {
+        // Not JSON
+    }
+    return null;
+}
+
+function sendMessage(socket: WebSocket, message: PrintMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+        socket.send(JSON.stringify(message), (error) => (error ? reject(error) : resolve()));
+    });
+}
+
+/**
+ * Start the WebSocket hub that the LicheeRV printer-service connects to.
+ * Printers authenticate with a device token (see Devices page). Queued jobs are rendered to ESC/POS
+ * at the device's paper width and pushed oldest first; the printer answers each one with an ack/nack.
+ * Nacks, missing acks and disconnects count as failed attempts, which are retried with backoff
+ * until the job is dead-lettered (see print-queue.ts).
+ * Called once from instrumentation.ts when the Node.js server starts.
+ */
+export async function startPrintHub(): Promise<void> {
+    if (globalForPrintHub.printHubServer) {
+        return; // Already running (e.g. dev server reload)
+    }
+
+    // Nothing is connected yet, whatever the database says
+    await markAllPrintersOffline();
+    await recoverInterruptedPrintJobs();
+
+    const connections = new Map<string, PrinterConnection>();
+    const authenticatedDevices = new WeakMap<IncomingMessage, PrinterDevice>();
+    let flushing = false;
+    let flushRequested = false;
+
+    // Deliver all queued jobs to connected printers.
+    // Runs one at a time; calls made while a flush is in progress trigger another pass.
+    async function flush(): Promise<void> {
+        if (flushing) {
+            flushRequested = true;
+            return;
+        }
+
+        flushing = true;
+        try {
+            do {
+                flushRequested = false;
+
+                const open = [...connections.values()].filter((c) => c.socket.readyState === WebSocket.OPEN);
+                if (open.length === 0) {
+                    return;
+                }
+
+                const connection = open[0];
+                const jobs = await getQueuedPrintJobs();
+                for (const job of jobs) {
+                    // Record the delivery first so a quick ack can't be overwritten by it.
+                    // If the send fails, the job is failed when the connection closes.
+                    const data = renderTicketEscPos(getPrintJobTicket(job), connection.device.paperWidth);
+                    await markPrintJobDelivered(job.id, connection.device.id);
+                    connection.pendingAcks.set(
+                        job.id,
+                        setTimeout(() => void failPendingJob(connection, job.id, "No acknowledgement from printer"), ACK_TIMEOUT_MS)
+                    );
+                    await sendMessage(connection.socket, {
+                        type: "print",
+                        jobId: job.id,
+                        data: Buffer.from(data).toString("base64"),
+                    });
+                    console.log("[PrintHub] Delivered job", job.id, "to", connection.device.name);
+                }
+            } while (flushRequested);
+        } catch (error) {
+            console.error("[PrintHub] Delivery failed:", error);
+        } finally {
+            flushing = false;
+        }
+    }
+
+    async function handleMessage(connection: PrinterConnection, data: RawData): Promise<void> {
+        await touchPrinterDevice(connection.device.id);
+
+        const message = parsePrinterMessage(data);
+        if (!message) {
+            console.warn("[PrintHub] Ignoring unknown message from", connection.device.name);
+            return;
+        }
+
+        const timeout = connection.pendingAcks.get(message.jobId);
+        if (!timeout) {
+            // Already timed out (and requeued), or not sent on this connection
+            console.warn("[PrintHub] Unexpected", message.type, "for job", message.jobId, "from", connection.device.name);
+            return;
+        }
+        clearTimeout(timeout);
+        connection.pendingAcks.delete(message.jobId);
+
+        if (message.type === "ack") {
+            await markPrintJobPrinted(message.jobId);
+            console.log("[PrintHub] Job", message.jobId, "printed");
+        } else {
+            console.warn("[PrintHub] Job", message.jobId, "failed:", message.error);
+            await recordPrintJobFailure(message.jobId, message.error || "Printer reported an error");
+        }
+    }
+
+    async function failPendingJob(connection: PrinterConnection, jobId: string, error: string): Promise<void> {
+        const timeout = connection.pendingAcks.get(jobId);
+        if (!timeout) {
+            return;
+        }
+        clearTimeout(timeout);
+        connection.pendingAcks.delete(jobId);
+
+        try {
+            await recordPrintJobFailure(jobId, error);
+        } catch (err) {
+            console.error("[PrintHub] Failed to record failure for job", jobId, err);
+        }
+    }
+
+    async function handleClose(connection: PrinterConnection): Promise<void> {
+        // Jobs that were never acknowledged may or may not have printed
+        for (const jobId of [...connection.pendingAcks.keys()]) {
+            await failPendingJob(connection, jobId, "Printer disconnected before confirming the print");
+        }
+
+        // A reconnect may already have replaced this connection
+        if (connections.get(connection.device.id) === connection) {
+            connections.delete(connection.device.id);
+            await markPrinterOffline(connection.device.id);
+        }
+    }
+
+    // Ping every printer, drop the ones that didn't answer the last ping,
+    // and pick up changes made on the Devices page (paper width, revoked or rotated tokens).
+    async function heartbeat(): Promise<void> {
+        for (const connection of connections.values()) {
+            if (!connection.alive) {
+                console.warn("[PrintHub] Missed heartbeat, disconnecting", connection.device.name);
+                connection.socket.terminate();
+                continue;
+            }
+
+            const device = await getPrinterDevice(connection.device.id);
+            if (!device || device.revokedAt || device.tokenHash !== connection.device.tokenHash) {
+                console.log("[PrintHub] Token no longer valid, disconnecting", connection.device.name);
+                connection.socket.close(4001, "Token revoked");
+                continue;
+            }
+
+            connection.device = device;
+            connection.alive = false;
+            connection.socket.ping();
+        }
+    }
+
+    const server = new WebSocketServer({
+        port: HUB_PORT,
+        verifyClient: ({ req }, done) => {
+            const token = getRequestToken(req);
+            const reject = () => {
+                console.warn("[PrintHub] Rejected connection from", req.socket.remoteAddress);
+                done(false, 401, "Unauthorized");
+            };
+
+            if (!token) {
+                reject();
+                return;
+            }
+
+            findPrinterDeviceByToken(token)
+                .then((device) => {
+                    if (device) {
+                        authenticatedDevices.set(req, device);
+                        done(true);
+                    } else {
+                        reject();
+                    }
+                })
+                .catch((error) => {
+                    console.error("[PrintHub] Device lookup failed:", error);
+                    done(false, 500, "Internal Server Error");
+                });
+        },
+    });
+
+    server.on("connection", (socket, req) => {
+        const device = authenticatedDevices.get(req);
+        if (!device) {
+            socket.close(4001, "Unauthorized");
+            return;
+        }
+
+        console.log("[PrintHub]", device.name, "connected from", req.socket.remoteAddress);
+
+        // Only one connection per device; a reconnect replaces a stale socket
+        connections.get(device.id)?.socket.terminate();
+
+        const connection: PrinterConnection = { device, socket, alive: true, pendingAcks: new Map() };
+        connections.set(device.id, connection);
+
+        socket.on("pong", () => {
+            connection.alive = true;
+            void touchPrinterDevice(device.id).catch((error) => {
+                console.error("[PrintHub] Failed to record heartbeat:", error);
+            });
+        });
+
+        socket.on("message", (data) => {
+            void handleMessage(connection, data).catch((error) => {
+                console.error("[PrintHub] Failed to handle message:", error);
+            });
+        });
+
+        socket.on("close", () => {
+            console.log("[PrintHub]", device.name, "disconnected");
+            void handleClose(connection).catch((error) => {
+                console.error("[PrintHub] Failed to record disconnect:", error);
+            });
+        });
+
+        socket.on("error", (error) => {
+            console.error("[PrintHub] Socket error:", error);
+        });
+
+        // Deliver anything queued while the printer was offline
+        void markPrinterOnline(device.id, req.socket.remoteAddress ?? null)
+            .then(() => flush())
+            .catch((error) => {
+                console.error("[PrintHub] Failed to record connection:", error);
+            });
+    });
+
+    server.on("error", (error) => {
+        console.error("[PrintHub] Server error:", error);
+    });
+
+    server.on("listening", () => {
+        console.log(`[PrintHub] Listening on port ${HUB_PORT}`);
+    });
+
+    registerPrintHubWakeup(() => void flush());
+    setInterval(() => void flush(), POLL_INTERVAL_MS).unref();
+    setInterval(() => {
+        heartbeat().catch((error) => {
+            console.error("[PrintHub] Heartbeat failed:", error);
+        });
+    }, HEARTBEAT_INTERVAL_MS).unref();
+
+    globalForPrintHub.printHubServer = server;
+}
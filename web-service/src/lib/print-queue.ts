@@ -0,0 +1,176 @@
+import { db } from "./db";
+import { printJobs } from "./db/schema";
+import type { PrintJob } from "./db/schema";
+import { and, asc, desc, eq, isNull, lte, or } from "drizzle-orm";
+import { parseTicket, serializeTicket, ticketFromText, type Ticket } from "./ticket";
+
+export const MAX_PRINT_ATTEMPTS = 5; // Failures before a job is dead-lettered
+const RETRY_BASE_DELAY_MS = 30 * 1000; // Doubles after each failure
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// The hub runs in the same Node process but may be loaded from a different bundle
+// (instrumentation vs. route handlers), so it registers its wake-up hook on globalThis.
+const globalForPrintHub = globalThis as unknown as { wakePrintHub?: () => void };
+
+/**
+ * Register the callback used to wake the print hub when a job is queued.
+ */
+export function registerPrintHubWakeup(wake: () => void): void {
+    globalForPrintHub.wakePrintHub = wake;
+}
+
+function notifyPrintHub(): void {
+    globalForPrintHub.wakePrintHub?.();
+}
+
+/**
+ * Queue a ticket for the receipt printer.
+ * The job is persisted first, so it is delivered even if no printer is connected right now.
+ */
+export async function enqueuePrintJob(ticket: Ticket, source: string): Promise<PrintJob> {
+    const [job] = await db
+        .insert(printJobs)
+        .values({ payload: serializeTicket(ticket), source, status: "queued" })
+        .returning();
+
+    console.log("[Print] Queued job", job.id, "from", source);
+
+    // Wake the hub so a connected printer gets the job straight away
+    notifyPrintHub();
+
+    return job;
+}
+
+/**
+ * Get all jobs ready for delivery (queued and past any retry backoff), oldest first.
+ */
+export async function getQueuedPrintJobs(): Promise<PrintJob[]> {
+    return db
+        .select()
+        .from(printJobs)
+        .where(
+            and(
+                eq(printJobs.status, "queued"),
+                or(isNull(printJobs.nextAttemptAt), lte(printJobs.nextAttemptAt, new Date()))
+            )
+        )
+        .orderBy(asc(printJobs.createdAt));
+}
+
+/**
+ * Get the ticket for a job.
+ * Jobs queued before tickets were structured hold plain text, which is printed as-is.
+ */
+export function getPrintJobTicket(job: PrintJob): Ticket {
+    try {
+        return parseTicket(job.payload);
+    } catch {
+        return ticketFromText(job.payload);
+    }
+}
+
+/**
+ * Mark a job as handed over to a printer (waiting for it to acknowledge).
+ */
+export async function markPrintJobDelivered(jobId: string, deviceId: string): Promise<void> {
+    await db
+        .update(printJobs)
+        .set({ status: "delivered", deviceId, deliveredAt: new Date() })
+        .where(eq(printJobs.id, jobId));
+}
+
+/**
+ * Mark a job as printed (the printer acked it).
+ */
+export async function markPrintJobPrinted(jobId: string): Promise<void> {
+    await db
+        .update(printJobs)
+        .set({ status: "printed", error: null, acknowledgedAt: new Date() })
+        .where(eq(printJobs.id, jobId));
+}
+
+function getRetryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Record a failed attempt (nack, no ack in time, or disconnect).
+ * The job is queued again with exponential backoff, or dead-lettered once it runs out of attempts.
+ */
+export async function recordPrintJobFailure(jobId: string, error: string): Promise<PrintJob | null> {
+    const [job] = await db.select().from(printJobs).where(eq(printJobs.id, jobId)).limit(1);
+    if (!job) {
+        return null;
+    }
+
+    const attempts = job.attempts + 1;
+    const deadLettered = attempts >= MAX_PRINT_ATTEMPTS;
+
+    const [updated] = await db
+        .update(printJobs)
+        .set({
+            status: deadLettered ? "failed" : "queued",
+            error,
+            attempts,
+            nextAttemptAt: deadLettered ? null : new Date(Date.now() + getRetryDelay(attempts)),
+            acknowledgedAt: new Date(),
+        })
+        .where(eq(printJobs.id, jobId))
+        .returning();
+
+    if (deadLettered) {
+        console.warn("[Print] Job", jobId, "failed after", attempts, "attempts:", error);
+    } else {
+        console.log("[Print] Job", jobId, "will be retried (attempt", attempts, "failed):", error);
+    }
+
+    return updated;
+}
+
+/**
+ * Fail any jobs left waiting for an ack when the hub stopped, so they get retried.
+ */
+export async function recoverInterruptedPrintJobs(): Promise<void> {
+    const interrupted = await db
+        .select({ id: printJobs.id })
+        .from(printJobs)
+        .where(eq(printJobs.status, "delivered"));
+
+    for (const job of interrupted) {
+        await recordPrintJobFailure(job.id, "Print hub restarted before the printer confirmed the print");
+    }
+}
+
+/**
+ * Put a job back in the queue with a fresh set of attempts (reprint from the admin view).
+ */
+export async function requeuePrintJob(jobId: string): Promise<void> {
+    await db
+        .update(printJobs)
+        .set({ status: "queued", attempts: 0, nextAttemptAt: null, error: null, deliveredAt: null, acknowledgedAt: null })
+        .where(eq(printJobs.id, jobId));
+
+    notifyPrintHub();
+}
+
+/**
+ * Get dead-lettered jobs, newest first.
+ */
+export async function getFailedPrintJobs(): Promise<PrintJob[]> {
+    return db
+        .select()
+        .from(printJobs)
+        .where(eq(printJobs.status, "failed"))
+        .orderBy(desc(printJobs.createdAt));
+}
+
+/**
+ * Get the most recent print jobs (for admin views).
+ */
+export async function getRecentPrintJobs(limit = 20): Promise<PrintJob[]> {
+    return db
+        .select()
+        .from(printJobs)
+        .orderBy(desc(printJobs.createdAt))
+        .limit(limit);
+}
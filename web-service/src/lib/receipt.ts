@@ -0,0 +1,91 @@
+/**
+ * Fixed-width text layout helpers for receipt printers.
+ * This file should NOT import any server-only dependencies (db, better-sqlite3, etc.)
+ */
+
+/**
+ * Supported paper widths in characters per line.
+ * 32 = 58mm paper, 42/48 = 80mm paper (depends on the printer's font).
+ */
+export const RECEIPT_WIDTHS = [32, 42, 48] as const;
+
+export type ReceiptWidth = (typeof RECEIPT_WIDTHS)[number];
+
+export const DEFAULT_RECEIPT_WIDTH: ReceiptWidth = 42;
+
+/**
+ * Parse a width from a query string or form value, falling back to the default.
+ */
+export function parseReceiptWidth(value: string | number | null | undefined): ReceiptWidth {
+    const width = typeof value === "number" ? value : parseInt(value ?? "", 10);
+    return RECEIPT_WIDTHS.find((w) => w === width) ?? DEFAULT_RECEIPT_WIDTH;
+}
+
+/**
+ * Truncate text to fit within a number of columns.
+ */
+export function truncate(text: string, width: number): string {
+    if (text.length <= width) return text;
+    if (width <= 1) return text.slice(0, width);
+    return text.slice(0, width - 1) + "…";
+}
+
+/**
+ * Center text on a line, truncating if it doesn't fit.
+ */
+export function center(text: string, width: number): string {
+    const fitted = truncate(text, width);
+    const padding = Math.floor((width - fitted.length) / 2);
+    return " ".repeat(padding) + fitted;
+}
+
+/**
+ * Left-align one value and right-align another on the same line.
+ * The left value is truncated so the right value always fits.
+ * Example: columns("Rent", "$250.00", 20) -> "Rent         $250.00"
+ */
+export function columns(left: string, right: string, width: number): string {
+    const rightText = truncate(right, width);
+    const leftWidth = Math.max(0, width - rightText.length - 1);
+    const leftText = truncate(left, leftWidth);
+    return leftText + " ".repeat(width - leftText.length - rightText.length) + rightText;
+}
+
+/**
+ * A full-width separator line.
+ */
+export function separator(width: number, char = "-"): string {
+    return char.repeat(width);
+}
+
+/**
+ * Word-wrap text to the given width. Words longer than a line are hard-split.
+ */
+export function wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    let current = "";
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        let remaining = word;
+        while (remaining.length > width) {
+            if (current) {
+                lines.push(current);
+                current = "";
+            }
+            lines.push(remaining.slice(0, width));
+            remaining = remaining.slice(width);
+        }
+
+        if (!current) {
+            current = remaining;
+        } else if (current.length + 1 + remaining.length <= width) {
+            current += " " + remaining;
+        } else {
+            lines.push(current);
+            current = remaining;
+        }
+    }
+
+    if (current) lines.push(current);
+    return lines;
+}
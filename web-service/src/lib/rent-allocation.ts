@@ -0,0 +1,127 @@
+import { getISOWeek, getISOWeekYear } from "date-fns";
+
+/**
+ * Allocating rent payments to the weeks they pay for, rather than the week they happen to land in.
+ * A payment whose details carry a week code ("W2026-41") pays that week first; everything else
+ * (and anything left over) pays the oldest unpaid weeks first.
+ */
+
+// "W2026-41", "w 2026 41", "W2026-5", "W2026-42b"
+const WEEK_CODE_PATTERN = /\bW\s?(\d{4})[-\s]?(\d{1,2})([b-z])?\b/i;
+
+/**
+ * The code for a rent week: its due date's ISO week, e.g. "W2026-41". Payers can put it in the
+ * reference to say which week a payment is for. When a change of week rules makes a week fall due
+ * in the same ISO week as the one before it (given as previousCode), it gets a letter, e.g. "W2026-42b".
+ */
+export function getWeekCode(dueDate: Date, previousCode?: string | null): string {
+    const code = `W${getISOWeekYear(dueDate)}-${String(getISOWeek(dueDate)).padStart(2, "0")}`;
+    if (!previousCode?.startsWith(code)) return code;
+
+    const suffix = previousCode.slice(code.length);
+    return `${code}${suffix ? String.fromCharCode(suffix.charCodeAt(0) + 1) : "b"}`;
+}
+
+/**
+ * The week code in a payment's description, particulars, code or reference, if any
+ */
+export function findWeekCode(description: string, rawData: string | null): string | null {
+    const texts = [description];
+    try {
+        const parsed = JSON.parse(rawData ?? "{}") as Record<string, unknown> & { meta?: Record<string, unknown> };
+        for (const key of ["particulars", "code", "reference"]) {
+            const value = parsed.meta?.[key] ?? parsed[key];
+            if (typeof value === "string") texts.push(value);
+        }
+    } catch {
+        // Ignore parse errors
+    }
+
+    for (const text of texts) {
+        const match = text.match(WEEK_CODE_PATTERN);
+        if (match) {
+            return `W${match[1]}-${match[2].padStart(2, "0")}${match[3]?.toLowerCase() ?? ""}`;
+        }
+    }
+    return null;
+}
+
+export interface AllocatablePayment {
+    id: string;
+    date: Date;
+    amount: number;
+    description: string;
+    weekCode: string | null; // From findWeekCode
+    isPending: boolean;
+}
+
+export interface WeekPaymentAllocation {
+    paymentId: string;
+    date: Date;
+    amount: number; // The part of the payment that went to this week
+    description: string;
+    isExplicit: boolean; // Allocated by the payment's week code rather than oldest-first
+    isPending: boolean;
+}
+
+/**
+ * Allocate payments to weeks (given oldest first). Returns each week's allocations, in the same order.
+ * Payments beyond what every week owes are left on the latest week as credit.
+ */
+export function allocatePaymentsToWeeks(
+    weeks: Array<{ weekCode: string; amountDue: number }>,
+    payments: AllocatablePayment[]
+): WeekPaymentAllocation[][] {
+    const allocations: WeekPaymentAllocation[][] = weeks.map(() => []);
+    const remainingDue = weeks.map((week) => Math.max(week.amountDue, 0));
+    if (weeks.length === 0) return allocations;
+
+    const allocate = (weekIndex: number, payment: AllocatablePayment, amount: number, isExplicit: boolean) => {
+        allocations[weekIndex].push({
+            paymentId: payment.id,
+            date: payment.date,
+            amount,
+            description: payment.description,
+            isExplicit,
+            isPending: payment.isPending,
+        });
+        remainingDue[weekIndex] -= amount;
+    };
+
+    const sorted = [...payments].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const leftovers: Array<{ payment: AllocatablePayment; amount: number }> = [];
+
+    // Payments naming a week pay it first
+    for (const payment of sorted) {
+        const weekIndex = payment.weekCode ? weeks.findIndex((w) => w.weekCode === payment.weekCode) : -1;
+        if (weekIndex < 0) {
+            leftovers.push({ payment, amount: payment.amount });
+            continue;
+        }
+
+        const amount = Math.min(payment.amount, remainingDue[weekIndex]);
+        if (amount > 0) {
+            allocate(weekIndex, payment, amount, true);
+        }
+        if (payment.amount - amount > 0.005) {
+            leftovers.push({ payment, amount: payment.amount - amount });
+        }
+    }
+
+    // Everything else pays the oldest unpaid weeks
+    let weekIndex = 0;
+    for (const { payment, amount } of leftovers) {
+        let left = amount;
+        while (left > 0.005) {
+            while (weekIndex < weeks.length - 1 && remainingDue[weekIndex] <= 0.005) {
+                weekIndex++;
+            }
+            const isLastWeek = weekIndex === weeks.length - 1;
+            const portion = isLastWeek ? left : Math.min(left, remainingDue[weekIndex]);
+            allocate(weekIndex, payment, portion, false);
+            left -= portion;
+        }
+    }
+
+    return allocations;
+}
@@ -0,0 +1,251 @@
+import { addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, startOfDay, startOfMonth } from "date-fns";
+import { formatMoney } from "./utils";
+
+/**
+ * How often a payment schedule charges: each billing week, every second week from an anchor date, or
+ * monthly on a day of the month. Balances stay weekly, so each billing week owes whatever charges fall
+ * in it. Safe to use on the client.
+ */
+
+export type ScheduleCadence = "weekly" | "fortnightly" | "monthly";
+
+export const SCHEDULE_CADENCES: ScheduleCadence[] = ["weekly", "fortnightly", "monthly"];
+
+export const CADENCE_LABELS: Record<ScheduleCadence, string> = {
+    weekly: "Weekly",
+    fortnightly: "Fortnightly",
+    monthly: "Monthly",
+};
+
+// What one amount pays for, e.g. "$500/fortnight", and the short form for timeline bars
+export const CADENCE_PERIODS: Record<ScheduleCadence, string> = { weekly: "week", fortnightly: "fortnight", monthly: "month" };
+export const CADENCE_PERIODS_SHORT: Record<ScheduleCadence, string> = { weekly: "w", fortnightly: "2w", monthly: "mo" };
+
+export interface CadenceSchedule {
+    cadence: ScheduleCadence;
+    amount: number; // Per period
+    startDate: Date;
+    endDate: Date | null;
+    anchorDate: Date | null; // Fortnightly: a day it charges on (defaults to the start date)
+    dayOfMonth: number | null; // Monthly: day it charges on (defaults to the start date's day)
+    prorate: boolean; // Weekly: charge part weeks (mid-week start, end or takeover) by the day
+}
+
+const DAYS_PER_WEEK = 7;
+
+// How a pro-rated weekly charge was worked out: the days charged for, at 1/7 of the weekly amount each
+export interface ProratedCharge {
+    weeklyAmount: number;
+    dailyRate: number; // weeklyAmount / 7
+    days: number;
+    weekDays: number; // Days in the billing week (fewer than 7 when it was cut short by a change of week rules)
+    from: Date; // First and last days charged
+    to: Date;
+    amount: number; // dailyRate * days, to the cent
+}
+
+export interface ScheduleCharge<S extends CadenceSchedule = CadenceSchedule> {
+    date: Date;
+    amount: number;
+    schedule: S;
+    proration?: ProratedCharge; // Set when a weekly schedule was charged for part of a week
+}
+
+export function isScheduleCadence(value: string): value is ScheduleCadence {
+    return (SCHEDULE_CADENCES as string[]).includes(value);
+}
+
+function coversDay(schedule: CadenceSchedule, day: Date): boolean {
+    const start = startOfDay(schedule.startDate);
+    const end = schedule.endDate ? startOfDay(schedule.endDate) : null;
+    return start <= day && (!end || end >= day);
+}
+
+/**
+ * The schedule in effect on a day. Of overlapping schedules, the one that started last wins.
+ */
+export function getScheduleOn<S extends CadenceSchedule>(schedules: S[], day: Date): S | null {
+    const date = startOfDay(day);
+    let current: S | null = null;
+    for (const schedule of schedules) {
+        if (coversDay(schedule, date) && (!current || schedule.startDate > current.startDate)) {
+            current = schedule;
+        }
+    }
+    return current;
+}
+
+function chargesOnDay(schedule: CadenceSchedule, day: Date): boolean {
+    if (schedule.cadence === "fortnightly") {
+        const daysFromAnchor = differenceInCalendarDays(day, schedule.anchorDate ?? schedule.startDate);
+        return ((daysFromAnchor % 14) + 14) % 14 === 0;
+    }
+    if (schedule.cadence === "monthly") {
+        const dayOfMonth = schedule.dayOfMonth ?? schedule.startDate.getDate();
+        return day.getDate() === Math.min(dayOfMonth, getDaysInMonth(day));
+    }
+    return false;
+}
+
+function prorateCharge(schedule: CadenceSchedule, days: Date[], weekDays: number): ProratedCharge {
+    const dailyRate = schedule.amount / DAYS_PER_WEEK;
+    return {
+        weeklyAmount: schedule.amount,
+        dailyRate,
+        days: days.length,
+        weekDays,
+        from: days[0],
+        to: days[days.length - 1],
+        amount: Math.round(dailyRate * days.length * 100) / 100,
+    };
+}
+
+/**
+ * The charges falling in a billing week (calendar days, as from getCalendarWeek). Each day is charged
+ * by the schedule in effect that day: weekly schedules charge on the week's first day, fortnightly and
+ * monthly ones on their own days. A pro-rated weekly schedule in effect for fewer than 7 days of the
+ * week charges for the days it covered instead, at 1/7 of the weekly amount a day. A week cut short by
+ * a change of week rules is charged by the day too, so the change doesn't charge a full week for a few days.
+ */
+export function getScheduleCharges<S extends CadenceSchedule>(
+    schedules: S[],
+    week: { start: Date; end: Date }
+): ScheduleCharge<S>[] {
+    const charges: ScheduleCharge<S>[] = [];
+    const weeklyDays = new Map<S, Date[]>();
+    const start = startOfDay(week.start);
+    const weekDays: Date[] = [];
+    for (let day = start; day <= week.end; day = addDays(day, 1)) {
+        weekDays.push(day);
+        const schedule = getScheduleOn(schedules, day);
+        if (!schedule) continue;
+        if (schedule.cadence === "weekly") {
+            weeklyDays.set(schedule, [...(weeklyDays.get(schedule) ?? []), day]);
+        } else if (chargesOnDay(schedule, day)) {
+            charges.push({ date: day, amount: schedule.amount, schedule });
+        }
+    }
+
+    for (const [schedule, days] of weeklyDays) {
+        let charged = days;
+        if (!schedule.prorate) {
+            // Without pro-rating, the schedule in effect on the week's first day is charged for the whole week
+            if (days[0].getTime() !== start.getTime()) continue;
+            charged = weekDays;
+        }
+
+        // Pro-rated against a 7-day week, so a week cut short by a change of week rules is too
+        if (charged.length < DAYS_PER_WEEK) {
+            const proration = prorateCharge(schedule, charged, weekDays.length);
+            charges.push({ date: charged[0], amount: proration.amount, schedule, proration });
+        } else {
+            charges.push({ date: start, amount: schedule.amount, schedule });
+        }
+    }
+    return charges.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Days a fortnightly or monthly schedule charges on between two days, within its own dates. Weekly
+ * schedules charge at the start of each billing week instead (see getScheduleCharges).
+ */
+export function getChargeDates(schedule: CadenceSchedule, from: Date, to: Date): Date[] {
+    const dates: Date[] = [];
+    const first = startOfDay(from);
+    const last = schedule.endDate && startOfDay(schedule.endDate) < to ? startOfDay(schedule.endDate) : to;
+    const start = startOfDay(schedule.startDate) > first ? startOfDay(schedule.startDate) : first;
+
+    if (schedule.cadence === "fortnightly") {
+        const anchor = startOfDay(schedule.anchorDate ?? schedule.startDate);
+        const offset = ((differenceInCalendarDays(start, anchor) % 14) + 14) % 14;
+        for (let day = offset === 0 ? start : addDays(start, 14 - offset); day <= last; day = addDays(day, 14)) {
+            dates.push(day);
+        }
+    } else if (schedule.cadence === "monthly") {
+        for (let month = startOfMonth(start); month <= last; month = addMonths(month, 1)) {
+            const dayOfMonth = schedule.dayOfMonth ?? schedule.startDate.getDate();
+            const day = addDays(month, Math.min(dayOfMonth, getDaysInMonth(month)) - 1);
+            if (day >= start && day <= last) dates.push(day);
+        }
+    }
+    return dates;
+}
+
+/**
+ * What a schedule works out to per week, for totals across schedules with different cadences
+ */
+export function getWeeklyEquivalent(schedule: Pick<CadenceSchedule, "cadence" | "amount">): number {
+    if (schedule.cadence === "fortnightly") return schedule.amount / 2;
+    if (schedule.cadence === "monthly") return (schedule.amount * 12) / 52;
+    return schedule.amount;
+}
+
+/**
+ * Amount per period, e.g. "$1,200.00/month"
+ */
+export function formatScheduleRate(schedule: Pick<CadenceSchedule, "cadence" | "amount">): string {
+    return `$${formatMoney(schedule.amount)}/${CADENCE_PERIODS[schedule.cadence]}`;
+}
+
+/**
+ * When a schedule charges, e.g. "Weekly", "Weekly, pro-rated", "Fortnightly from 3 Jan 2026" or
+ * "Monthly on the 15th"
+ */
+export function describeCadence(schedule: CadenceSchedule): string {
+    if (schedule.cadence === "fortnightly") {
+        return `Fortnightly from ${format(schedule.anchorDate ?? schedule.startDate, "d MMM yyyy")}`;
+    }
+    if (schedule.cadence === "monthly") {
+        const dayOfMonth = schedule.dayOfMonth ?? schedule.startDate.getDate();
+        return `Monthly on the ${format(new Date(2000, 0, dayOfMonth), "do")}`;
+    }
+    return schedule.prorate ? "Weekly, pro-rated" : "Weekly";
+}
+
+/**
+ * How a pro-rated charge was worked out, e.g. "4 of 7 days at $35.71/day", or "4 days at $35.71/day
+ * (short week)" for a week cut short by a change of week rules
+ */
+export function describeProration(proration: ProratedCharge): string {
+    const rate = `$${formatMoney(proration.dailyRate)}/day`;
+    if (proration.weekDays < DAYS_PER_WEEK) {
+        return `${proration.days} ${proration.days === 1 ? "day" : "days"} at ${rate} (short week)`;
+    }
+    return `${proration.days} of ${DAYS_PER_WEEK} days at ${rate}`;
+}
+
+/**
+ * A schedule in an export file. Version 1 files had only weeklyAmount; they import as weekly schedules.
+ */
+export interface ExportedSchedule {
+    flatmateEmail: string;
+    flatmateName: string | null;
+    cadence: ScheduleCadence;
+    amount: number;
+    anchorDate: string | null; // yyyy-MM-dd
+    dayOfMonth: number | null;
+    prorate: boolean;
+    startDate: string; // yyyy-MM-dd
+    endDate: string | null;
+    notes: string | null;
+}
+
+export const SCHEDULE_EXPORT_VERSION = 2;
+
+export function toExportedSchedule(
+    schedule: CadenceSchedule & { notes: string | null },
+    flatmate: { email: string; name: string | null } | undefined
+): ExportedSchedule {
+    return {
+        flatmateEmail: flatmate?.email ?? "unknown",
+        flatmateName: flatmate?.name ?? null,
+        cadence: schedule.cadence,
+        amount: schedule.amount,
+        anchorDate: schedule.anchorDate ? format(schedule.anchorDate, "yyyy-MM-dd") : null,
+        dayOfMonth: schedule.dayOfMonth,
+        prorate: schedule.prorate,
+        startDate: format(schedule.startDate, "yyyy-MM-dd"),
+        endDate: schedule.endDate ? format(schedule.endDate, "yyyy-MM-dd") : null,
+        notes: schedule.notes,
+    };
+}
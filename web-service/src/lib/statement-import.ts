@@ -0,0 +1,565 @@
+import { db } from "./db";
+import { transactions } from "./db/schema";
+import { and, eq, gte, inArray, isNull, lte } from "drizzle-orm";
+import { addDays, differenceInCalendarDays, format, isValid, parse, subDays } from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
+import { createHash } from "crypto";
+import { IMPORT_ID_PREFIX, matchNewTransaction } from "./sync";
+import { detectInternalTransfers } from "./bank-accounts";
+import { findNzBankAccounts, formatNzBankAccount, isSameNzBankAccount, parseNzBankAccount } from "./nz-bank-account";
+import { getHouseholdTimeZone } from "./household";
+import { formatDate } from "./timezone";
+
+const INSERT_BATCH_SIZE = 100;
+const DUPLICATE_WINDOW_DAYS = 1; // Banks may date a line by transaction or processing date
+const HEADER_SEARCH_ROWS = 20; // Some banks put account details above the CSV header
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+export interface StatementTransaction {
+    date: Date; // Midnight on the statement date in the household timezone, like Akahu dates
+    amount: number; // Positive = money in, Negative = money out
+    description: string;
+    type: string | null;
+    particulars: string | null;
+    code: string | null;
+    reference: string | null;
+    otherAccount: string | null;
+    bankId: string | null; // The bank's own ID for the line (OFX FITID, ASB unique ID), if it has one
+    raw: Record<string, string>; // The statement line as parsed
+}
+
+export interface ParsedStatement {
+    format: StatementFormat;
+    bank: string | null; // e.g. "ANZ" for bank CSVs
+    accountNumber: string | null; // Account the statement is for, if the file says
+    transactions: StatementTransaction[];
+}
+
+export interface StatementImportResult {
+    parsed: number;
+    imported: number;
+    duplicates: number; // Already imported, or already synced from Akahu
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function blankToNull(value: string | undefined): string | null {
+    const trimmed = value?.trim() ?? "";
+    return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Parse an amount like "-1,234.50", "$12.00" or "(12.00)".
+ */
+function parseAmount(value: string | undefined): number | null {
+    if (!value) return null;
+    let cleaned = value.trim().replace(/[$,\s]/g, "");
+    let sign = 1;
+    if (/^\(.*\)$/.test(cleaned)) {
+        sign = -1;
+        cleaned = cleaned.slice(1, -1);
+    }
+    if (cleaned === "") return null;
+    const amount = Number(cleaned);
+    return Number.isFinite(amount) ? sign * amount : null;
+}
+
+/**
+ * Parse a statement date with the first matching pattern, as midnight in the given timezone.
+ */
+function parseStatementDate(value: string | undefined, patterns: string[], timeZone: string): Date | null {
+    const trimmed = value?.trim();
+    if (!trimmed) return null;
+
+    for (const pattern of patterns) {
+        const parsed = parse(trimmed, pattern, new Date());
+        if (isValid(parsed) && format(parsed, pattern) === trimmed) {
+            return fromZonedTime(`${format(parsed, "yyyy-MM-dd")}T00:00:00`, timeZone);
+        }
+    }
+    return null;
+}
+
+const NZ_DATE_PATTERNS = ["dd/MM/yyyy", "d/MM/yyyy", "d/M/yyyy", "dd/MM/yy", "yyyy-MM-dd", "dd-MM-yyyy"];
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain commas, quotes and newlines).
+ */
+function parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+interface BankCsvFormat {
+    bank: string;
+    /** Whether a (lowercased) header row is this bank's. */
+    matches: (headers: string[]) => boolean;
+    datePatterns: string[];
+    /** Map a row (keyed by lowercased header) to a transaction; null skips the row. */
+    map: (row: Record<string, string>) => Omit<StatementTransaction, "date" | "raw"> & { date: string } | null;
+}
+
+function hasHeaders(headers: string[], ...names: string[]): boolean {
+    return names.every((name) => headers.includes(name));
+}
+
+// Column layouts of the CSV exports from internet banking
+const BANK_CSV_FORMATS: BankCsvFormat[] = [
+    {
+        bank: "Kiwibank",
+        matches: (h) => hasHeaders(h, "date", "memo/description", "amount") && h.includes("op bank account number"),
+        datePatterns: ["dd-MM-yyyy", "dd/MM/yyyy", "yyyy-MM-dd"],
+        map: (row) => {
+            const amount = parseAmount(row["amount"]) ?? (parseAmount(row["amount (credit)"]) ?? 0) - Math.abs(parseAmount(row["amount (debit)"]) ?? 0);
+            return {
+                date: row["date"],
+                amount,
+                description: blankToNull(row["op name"]) ?? row["memo/description"] ?? "",
+                type: blankToNull(row["source code (payment type)"]),
+                particulars: blankToNull(row["op part"]) ?? blankToNull(row["tp part"]),
+                code: blankToNull(row["op code"]) ?? blankToNull(row["tp code"]),
+                reference: blankToNull(row["op ref"]) ?? blankToNull(row["tp ref"]),
+                otherAccount: blankToNull(row["op bank account number"]),
+                bankId: null,
+            };
+        },
+    },
+    {
+        bank: "BNZ",
+        matches: (h) => hasHeaders(h, "date", "amount", "payee", "other party account"),
+        datePatterns: ["dd/MM/yy", "dd/MM/yyyy"],
+        map: (row) => ({
+            date: row["date"],
+            amount: parseAmount(row["amount"]) ?? 0,
+            description: row["payee"] ?? "",
+            type: blankToNull(row["tran type"]),
+            particulars: blankToNull(row["particulars"]),
+            code: blankToNull(row["code"]),
+            reference: blankToNull(row["reference"]),
+            otherAccount: blankToNull(row["other party account"]),
+            bankId: null,
+        }),
+    },
+    {
+        bank: "ASB",
+        matches: (h) => hasHeaders(h, "date", "unique id", "tran type", "payee", "memo", "amount"),
+        datePatterns: ["yyyy/MM/dd", "dd/MM/yyyy"],
+        map: (row) => ({
+            date: row["date"],
+            amount: parseAmount(row["amount"]) ?? 0,
+            description: row["payee"] ?? "",
+            type: blankToNull(row["tran type"]),
+            particulars: null,
+            code: null,
+            reference: blankToNull(row["memo"]), // ASB puts particulars, code and reference together here
+            otherAccount: null,
+            bankId: blankToNull(row["unique id"]),
+        }),
+    },
+    {
+        bank: "Westpac",
+        matches: (h) => hasHeaders(h, "date", "amount", "other party", "analysis code"),
+        datePatterns: ["dd/MM/yyyy", "d/MM/yyyy", "dd/MM/yy"],
+        map: (row) => ({
+            date: row["date"],
+            amount: parseAmount(row["amount"]) ?? 0,
+            description: [row["other party"], row["description"]].map((v) => v?.trim()).filter(Boolean).join(" "),
+            type: null,
+            particulars: blankToNull(row["particulars"]),
+            code: blankToNull(row["analysis code"]),
+            reference: blankToNull(row["reference"]),
+            otherAccount: null,
+            bankId: null,
+        }),
+    },
+    {
+        bank: "ANZ",
+        matches: (h) => hasHeaders(h, "type", "details", "particulars", "code", "reference", "amount", "date"),
+        datePatterns: ["dd/MM/yyyy", "d/MM/yyyy", "yyyy-MM-dd"],
+        map: (row) => ({
+            date: row["date"],
+            amount: parseAmount(row["amount"]) ?? 0,
+            description: row["details"] ?? "",
+            type: blankToNull(row["type"]),
+            particulars: blankToNull(row["particulars"]),
+            code: blankToNull(row["code"]),
+            reference: blankToNull(row["reference"]),
+            otherAccount: null,
+            bankId: null,
+        }),
+    },
+];
+
+// e.g. ASB: "Bank 12; Branch 3040; Account 0123456-50", or a bare "12-3040-0123456-50"
+function findAccountNumber(lines: string[]): string | null {
+    for (const line of lines) {
+        const [account] = findNzBankAccounts(line);
+        if (account) {
+            return formatNzBankAccount(account);
+        }
+    }
+    return null;
+}
+
+function parseBankCsv(content: string, timeZone: string): ParsedStatement {
+    const rows = parseCsvRows(content.replace(/^﻿/, ""));
+
+    for (let headerIndex = 0; headerIndex < Math.min(rows.length, HEADER_SEARCH_ROWS); headerIndex++) {
+        const headers = rows[headerIndex].map((h) => h.trim().toLowerCase());
+        const bankFormat = BANK_CSV_FORMATS.find((f) => f.matches(headers));
+        if (!bankFormat) continue;
+
+        const parsed: StatementTransaction[] = [];
+        for (const [offset, cells] of rows.slice(headerIndex + 1).entries()) {
+            const row = Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? ""]));
+            const mapped = bankFormat.map(row);
+            if (!mapped) continue;
+
+            const date = parseStatementDate(mapped.date, bankFormat.datePatterns, timeZone);
+            if (!date) {
+                throw new Error(`Row ${headerIndex + offset + 2}: unrecognised date "${mapped.date}"`);
+            }
+            parsed.push({ ...mapped, date, description: mapped.description.trim(), raw: row });
+        }
+
+        const preamble = rows.slice(0, headerIndex).map((r) => r.join(" "));
+        const accountHeader = headers.findIndex((h) => h === "account number" || h === "this party account");
+        const accountColumn = accountHeader >= 0 ? rows[headerIndex + 1]?.[accountHeader] : undefined;
+        return {
+            format: "csv",
+            bank: bankFormat.bank,
+            accountNumber: findAccountNumber(accountColumn ? [accountColumn] : preamble),
+            transactions: parsed,
+        };
+    }
+
+    throw new Error("Unrecognised CSV layout. Supported: ANZ, ASB, BNZ, Kiwibank and Westpac exports.");
+}
+
+// ---------------------------------------------------------------------------
+// OFX (1.x SGML and 2.x XML)
+// ---------------------------------------------------------------------------
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+/**
+ * Read a tag's value. OFX 1.x leaves leaf tags unclosed, so the value runs to the next tag or line end.
+ */
+function getOfxValue(block: string, tag: string): string | null {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+    return match ? blankToNull(decodeEntities(match[1])) : null;
+}
+
+function parseOfx(content: string, timeZone: string): ParsedStatement {
+    const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+    const parsed = blocks.map((block, index) => {
+        const posted = getOfxValue(block, "DTPOSTED");
+        // YYYYMMDD[HHMMSS[.XXX]][[+-]TZ] - only the date matters
+        const date = parseStatementDate(posted?.slice(0, 8), ["yyyyMMdd"], timeZone);
+        const amount = parseAmount(getOfxValue(block, "TRNAMT") ?? undefined);
+        if (!date || amount === null) {
+            throw new Error(`Transaction ${index + 1}: missing or invalid DTPOSTED/TRNAMT`);
+        }
+
+        const name = getOfxValue(block, "NAME");
+        const memo = getOfxValue(block, "MEMO");
+        const raw: Record<string, string> = {};
+        for (const tag of ["TRNTYPE", "DTPOSTED", "TRNAMT", "FITID", "CHECKNUM", "REFNUM", "NAME", "MEMO"]) {
+            const value = getOfxValue(block, tag);
+            if (value !== null) raw[tag.toLowerCase()] = value;
+        }
+
+        return {
+            date,
+            amount,
+            description: name ?? memo ?? "",
+            type: getOfxValue(block, "TRNTYPE"),
+            particulars: null,
+            code: null,
+            reference: name ? memo : getOfxValue(block, "REFNUM"),
+            otherAccount: null,
+            bankId: getOfxValue(block, "FITID"),
+            raw,
+        };
+    });
+
+    const bankId = getOfxValue(content, "BANKID");
+    const branchId = getOfxValue(content, "BRANCHID");
+    const accountId = getOfxValue(content, "ACCTID");
+    return {
+        format: "ofx",
+        bank: null,
+        accountNumber: accountId ? findAccountNumber([[bankId, branchId, accountId].filter(Boolean).join("-")]) ?? accountId : null,
+        transactions: parsed,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// QIF
+// ---------------------------------------------------------------------------
+
+function parseQif(content: string, timeZone: string): ParsedStatement {
+    const parsed: StatementTransaction[] = [];
+    let record: Record<string, string> = {};
+
+    const finishRecord = () => {
+        if (Object.keys(record).length === 0) return;
+
+        const date = parseStatementDate(record.D, [...NZ_DATE_PATTERNS, "MM/dd/yyyy", "MM/dd''yy"], timeZone);
+        const amount = parseAmount(record.T ?? record.U);
+        if (!date || amount === null) {
+            throw new Error(`Record ${parsed.length + 1}: missing or invalid date/amount`);
+        }
+
+        parsed.push({
+            date,
+            amount,
+            description: (record.P ?? record.M ?? "").trim(),
+            type: null,
+            particulars: null,
+            code: null,
+            reference: record.P ? blankToNull(record.M) : null,
+            otherAccount: null,
+            bankId: blankToNull(record.N),
+            raw: record,
+        });
+        record = {};
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+        if (line.startsWith("!")) continue; // !Type:Bank etc.
+        if (line.startsWith("^")) {
+            finishRecord();
+        } else if (line.length > 0) {
+            record[line[0]] = line.slice(1);
+        }
+    }
+    finishRecord();
+
+    return { format: "qif", bank: null, accountNumber: null, transactions: parsed };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a statement file, picking the format from its extension or, failing that, its contents.
+ * Dates are taken as days in the given (household) timezone.
+ */
+export function parseStatement(fileName: string, content: string, timeZone: string): ParsedStatement {
+    const extension = fileName.toLowerCase().split(".").pop();
+    const head = content.slice(0, 1000).toUpperCase();
+
+    let statement: ParsedStatement;
+    if (extension === "ofx" || extension === "qfx" || head.includes("<OFX>") || head.includes("OFXHEADER")) {
+        statement = parseOfx(content, timeZone);
+    } else if (extension === "qif" || head.trimStart().startsWith("!TYPE")) {
+        statement = parseQif(content, timeZone);
+    } else {
+        statement = parseBankCsv(content, timeZone);
+    }
+
+    if (statement.transactions.length === 0) {
+        throw new Error("No transactions found in the file");
+    }
+    return statement;
+}
+
+/**
+ * Whether a statement's account number is the given account's, however each is formatted
+ */
+export function isSameAccountNumber(a: string, b: string): boolean {
+    const [accountA, accountB] = [parseNzBankAccount(a), parseNzBankAccount(b)];
+    if (!accountA || !accountB) {
+        return a.replace(/\D/g, "") === b.replace(/\D/g, "");
+    }
+    return isSameNzBankAccount(accountA, accountB);
+}
+
+/**
+ * Build a stable ID for a statement line, so importing the same file twice doesn't duplicate it.
+ * Identical lines (two transfers of the same amount on the same day) are told apart by occurrence.
+ */
+function getImportId(bankAccountId: string, tx: StatementTransaction, occurrence: number): string {
+    const identity = tx.bankId
+        ? [bankAccountId, tx.bankId]
+        : [bankAccountId, tx.date.toISOString(), tx.amount.toFixed(2), tx.description, tx.particulars, tx.code, tx.reference, occurrence];
+    return IMPORT_ID_PREFIX + createHash("sha256").update(identity.join("|")).digest("hex");
+}
+
+/**
+ * Import a parsed statement into a tracked bank account.
+ * Lines already imported, or already synced from Akahu (same account and amount within a day), are skipped.
+ * New transactions go through transfer detection, matching and expense categorisation like synced ones.
+ */
+export async function importStatement(
+    statement: ParsedStatement,
+    bankAccountId: string
+): Promise<StatementImportResult> {
+    const occurrences = new Map<string, number>();
+    const rows = statement.transactions.map((tx) => {
+        const identity = [tx.date.toISOString(), tx.amount, tx.description, tx.particulars, tx.code, tx.reference].join("|");
+        const occurrence = occurrences.get(identity) ?? 0;
+        occurrences.set(identity, occurrence + 1);
+
+        const akahuId = getImportId(bankAccountId, tx, occurrence);
+        // Laid out like an Akahu transaction so matching reads the meta fields the same way
+        const rawData = {
+            _id: akahuId,
+            date: tx.date.toISOString(),
+            description: tx.description,
+            amount: tx.amount,
+            type: tx.type,
+            meta: {
+                particulars: tx.particulars ?? undefined,
+                code: tx.code ?? undefined,
+                reference: tx.reference ?? undefined,
+                other_account: tx.otherAccount ?? undefined,
+            },
+            source: "statement_import",
+            format: statement.format,
+            bank: statement.bank,
+            line: tx.raw,
+        };
+
+        return {
+            akahuId,
+            bankAccountId,
+            date: tx.date,
+            amount: tx.amount,
+            description: tx.description,
+            merchant: null,
+            merchantLogo: null,
+            category: null,
+            cardSuffix: null,
+            otherAccount: tx.otherAccount,
+            rawData: JSON.stringify(rawData),
+        };
+    });
+
+    // Already imported
+    const existingIds = new Set<string>();
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const existing = await db
+            .select({ akahuId: transactions.akahuId })
+            .from(transactions)
+            .where(inArray(transactions.akahuId, rows.slice(i, i + INSERT_BATCH_SIZE).map((r) => r.akahuId)));
+        existing.forEach((row) => existingIds.add(row.akahuId));
+    }
+
+    // Already synced from Akahu (or imported from another file): each existing row can only cover one line
+    const dates = rows.map((r) => r.date.getTime());
+    const nearby = await db
+        .select({ id: transactions.id, date: transactions.date, amount: transactions.amount, akahuId: transactions.akahuId })
+        .from(transactions)
+        .where(
+            and(
+                eq(transactions.bankAccountId, bankAccountId),
+                isNull(transactions.deletedAt),
+                gte(transactions.date, subDays(new Date(Math.min(...dates)), DUPLICATE_WINDOW_DAYS)),
+                lte(transactions.date, addDays(new Date(Math.max(...dates)), DUPLICATE_WINDOW_DAYS))
+            )
+        );
+    const claimed = new Set(nearby.filter((tx) => existingIds.has(tx.akahuId)).map((tx) => tx.id));
+
+    const newRows = rows.filter((row) => {
+        if (existingIds.has(row.akahuId)) return false;
+
+        const duplicate = nearby.find((tx) =>
+            !claimed.has(tx.id) &&
+            Math.abs(tx.amount - row.amount) < 0.005 &&
+            Math.abs(differenceInCalendarDays(tx.date, row.date)) <= DUPLICATE_WINDOW_DAYS
+        );
+        if (duplicate) {
+            claimed.add(duplicate.id);
+            return false;
+        }
+        return true;
+    });
+
+    const inserted = db.transaction((dbTx) => {
+        const ids: Array<{ id: string; akahuId: string }> = [];
+        for (let i = 0; i < newRows.length; i += INSERT_BATCH_SIZE) {
+            ids.push(
+                ...dbTx
+                    .insert(transactions)
+                    .values(newRows.slice(i, i + INSERT_BATCH_SIZE))
+                    .returning({ id: transactions.id, akahuId: transactions.akahuId })
+                    .all()
+            );
+        }
+        return ids;
+    });
+
+    const timeZone = await getHouseholdTimeZone();
+    console.log(
+        "[Import] Imported", inserted.length, "of", rows.length, "statement lines into", bankAccountId,
+        `(${formatDate(new Date(Math.min(...dates)), timeZone, "d MMM yyyy")} - ${formatDate(new Date(Math.max(...dates)), timeZone, "d MMM yyyy")})`
+    );
+
+    if (inserted.length > 0) {
+        const earliest = newRows.reduce((min, row) => (row.date < min ? row.date : min), newRows[0].date);
+        const transfers = new Set(await detectInternalTransfers(subDays(earliest, 1)));
+        const rowsById = new Map(newRows.map((row) => [row.akahuId, row]));
+
+        for (const { id, akahuId } of inserted) {
+            if (transfers.has(id)) continue;
+            await matchNewTransaction(id, rowsById.get(akahuId)!);
+        }
+    }
+
+    return { parsed: rows.length, imported: inserted.length, duplicates: rows.length - inserted.length };
+}
@@ -0,0 +1,70 @@
+import { EventEmitter } from "events";
+import type { Transaction } from "./db/schema";
+import type { SyncProgress } from "./sync-lock";
+import type { SyncTrigger } from "./sync-history";
+import type { SyncResult } from "./sync";
+
+/**
+ * A newly synced transaction, as shown in the dashboard's recent transactions.
+ */
+export type LiveTransaction = Transaction & { matchedUserName: string | null; matchedLandlordName: string | null };
+
+/**
+ * What a running sync reports as it goes, streamed to browsers by /api/sync/events.
+ */
+export type SyncEvent = { at: string } & (
+    | { type: "started"; trigger: SyncTrigger }
+    | { type: "progress"; progress: SyncProgress }
+    | { type: "page"; account: string; fetched: number } // Running total of transactions fetched
+    | { type: "rows"; account: string; inserted: number; updated: number; unchanged: number; deleted: number }
+    | { type: "transactions"; transactions: LiveTransaction[] } // Newest of the rows just written
+    | {
+        type: "match";
+        transactionId: string;
+        description: string;
+        matchType: Transaction["matchType"];
+        matchedUserName: string | null;
+        matchedLandlordName: string | null;
+    }
+    | { type: "error"; message: string }
+    | { type: "finished"; result: SyncResult }
+);
+
+/**
+ * A message on the /api/sync/events stream: a snapshot of the running sync when connecting, then events.
+ */
+export type SyncStreamMessage = SyncEvent | { type: "snapshot"; progress: SyncProgress | null; at: string };
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+// Route handlers may be loaded from different bundles in the same process, so share one emitter
+const globalForSyncEvents = globalThis as unknown as { syncEvents?: EventEmitter };
+
+function getEmitter(): EventEmitter {
+    if (!globalForSyncEvents.syncEvents) {
+        globalForSyncEvents.syncEvents = new EventEmitter();
+        globalForSyncEvents.syncEvents.setMaxListeners(0); // One per open dashboard
+    }
+    return globalForSyncEvents.syncEvents;
+}
+
+export function emitSyncEvent(event: DistributiveOmit<SyncEvent, "at">): void {
+    getEmitter().emit("event", { ...event, at: new Date().toISOString() });
+}
+
+/**
+ * Whether anyone is listening, so sync can skip building events nobody will see.
+ */
+export function hasSyncEventListeners(): boolean {
+    return getEmitter().listenerCount("event") > 0;
+}
+
+/**
+ * Listen for sync events. Returns a function that stops listening.
+ */
+export function subscribeSyncEvents(listener: (event: SyncEvent) => void): () => void {
+    getEmitter().on("event", listener);
+    return () => {
+        getEmitter().off("event", listener);
+    };
+}
@@ -0,0 +1,152 @@
+import { db } from "./db";
+import { syncRuns, transactionAuditLog } from "./db/schema";
+import type { SyncRun, TransactionAuditEntry } from "./db/schema";
+import { desc, eq, inArray, lt, ne, sql } from "drizzle-orm";
+import { subDays } from "date-fns";
+
+export type SyncTrigger = SyncRun["trigger"];
+
+export const SYNC_FAILURE_ALERT_THRESHOLD = 3; // Consecutive failed runs before the admin alert shows
+const SYNC_RUN_RETENTION_DAYS = 90;
+
+// Timestamps only have second precision, so runs started in the same second are ordered by insertion
+const newestFirst = [desc(syncRuns.startedAt), desc(sql`rowid`)];
+
+export interface SyncRunCounts {
+    inserted: number;
+    updated: number;
+    unchanged: number;
+    deleted: number;
+    pending: number;
+    reconciled: number;
+    errors: string[];
+}
+
+export interface SyncFailureStreak {
+    count: number; // Consecutive failed runs, newest first
+    since: Date | null; // When the first of them started
+    lastError: string | null;
+}
+
+/**
+ * Record the start of a sync. Returns the run ID to pass to finishSyncRun.
+ */
+export async function startSyncRun(trigger: SyncTrigger): Promise<string> {
+    const [run] = await db.insert(syncRuns).values({ trigger }).returning({ id: syncRuns.id });
+    return run.id;
+}
+
+/**
+ * Store a sync's result, and the Akahu refresh that preceded it if there was one.
+ * Runs older than the retention period are pruned here too.
+ */
+export async function finishSyncRun(
+    runId: string,
+    result: SyncRunCounts,
+    refresh?: { success: boolean; message: string }
+): Promise<void> {
+    await db
+        .update(syncRuns)
+        .set({
+            status: result.errors.length > 0 ? "failed" : "success",
+            inserted: result.inserted,
+            updated: result.updated,
+            unchanged: result.unchanged,
+            deleted: result.deleted,
+            pending: result.pending,
+            reconciled: result.reconciled,
+            errors: JSON.stringify(result.errors),
+            refreshSuccess: refresh?.success ?? null,
+            refreshMessage: refresh?.message ?? null,
+            finishedAt: new Date(),
+        })
+        .where(eq(syncRuns.id, runId));
+
+    await db.delete(syncRuns).where(lt(syncRuns.startedAt, subDays(new Date(), SYNC_RUN_RETENTION_DAYS)));
+
+    const streak = await getSyncFailureStreak();
+    if (streak.count >= SYNC_FAILURE_ALERT_THRESHOLD) {
+        console.error(`[Sync] ${streak.count} consecutive syncs have failed. Last error:`, streak.lastError);
+    }
+}
+
+export function getSyncRunErrors(run: SyncRun): string[] {
+    try {
+        const errors = JSON.parse(run.errors);
+        return Array.isArray(errors) ? errors : [];
+    } catch {
+        return [];
+    }
+}
+
+export async function getSyncRuns(limit: number): Promise<SyncRun[]> {
+    return db.select().from(syncRuns).orderBy(...newestFirst).limit(limit);
+}
+
+export interface AuditSnapshot {
+    date: string;
+    amount: number;
+    description: string;
+}
+
+export interface TransactionAuditDetails {
+    before: AuditSnapshot;
+    after?: AuditSnapshot; // Only for amendments
+}
+
+export function getAuditDetails(entry: TransactionAuditEntry): TransactionAuditDetails | null {
+    try {
+        return JSON.parse(entry.details);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the upstream changes (removed, restored, amended transactions) each of the given runs noticed.
+ */
+export async function getAuditEntriesByRun(runIds: string[]): Promise<Map<string, TransactionAuditEntry[]>> {
+    const byRun = new Map<string, TransactionAuditEntry[]>();
+    if (runIds.length === 0) {
+        return byRun;
+    }
+
+    const entries = await db
+        .select()
+        .from(transactionAuditLog)
+        .where(inArray(transactionAuditLog.syncRunId, runIds))
+        .orderBy(transactionAuditLog.createdAt);
+
+    for (const entry of entries) {
+        if (!entry.syncRunId) continue;
+        const list = byRun.get(entry.syncRunId) ?? [];
+        list.push(entry);
+        byRun.set(entry.syncRunId, list);
+    }
+
+    return byRun;
+}
+
+/**
+ * Count the failed runs since the last successful one (runs still in progress are ignored).
+ */
+export async function getSyncFailureStreak(): Promise<SyncFailureStreak> {
+    const runs = await db
+        .select()
+        .from(syncRuns)
+        .where(ne(syncRuns.status, "running"))
+        .orderBy(...newestFirst)
+        .limit(50);
+
+    const failed: SyncRun[] = [];
+    for (const run of runs) {
+        if (run.status !== "failed") break;
+        failed.push(run);
+    }
+
+    return {
+        count: failed.length,
+        since: failed.at(-1)?.startedAt ?? null,
+        lastError: failed[0] ? getSyncRunErrors(failed[0])[0] ?? null : null,
+    };
+}
@@ -0,0 +1,141 @@
+import { db } from "./db";
+import { systemState } from "./db/schema";
+import { eq } from "drizzle-orm";
+
+const SYNC_LOCK_KEY = "sync_lock";
+const SYNC_LOCK_TTL_MS = 2 * 60 * 1000; // A sync that stops reporting progress (or fetching pages) for this long is presumed dead
+const PROGRESS_WRITE_INTERVAL_MS = 1000; // Progress within a phase is written at most this often
+
+export type SyncPhase = "starting" | "transactions" | "matching" | "pending";
+
+export interface SyncProgress {
+    phase: SyncPhase;
+    detail: string | null; // e.g. the account being synced
+    done: number;
+    total: number;
+    startedAt: string; // ISO 8601
+}
+
+interface SyncLease {
+    owner: string;
+    expiresAt: string; // ISO 8601
+    progress: SyncProgress;
+}
+
+function readLease(value: string | undefined): SyncLease | null {
+    if (!value) return null;
+
+    try {
+        const lease = JSON.parse(value) as SyncLease;
+        return new Date(lease.expiresAt) > new Date() ? lease : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Take the sync lease for `owner`, unless another sync holds an unexpired one.
+ * The check and write happen in one IMMEDIATE transaction, so two processes can't both take it.
+ * Returns the other sync's progress when the lease is taken.
+ */
+export function acquireSyncLock(owner: string): { acquired: true } | { acquired: false; progress: SyncProgress } {
+    return db.transaction((tx) => {
+        const [row] = tx.select().from(systemState).where(eq(systemState.key, SYNC_LOCK_KEY)).all();
+        const current = readLease(row?.value);
+        if (current && current.owner !== owner) {
+            return { acquired: false as const, progress: current.progress };
+        }
+
+        const value = JSON.stringify({
+            owner,
+            expiresAt: new Date(Date.now() + SYNC_LOCK_TTL_MS).toISOString(),
+            progress: { phase: "starting", detail: null, done: 0, total: 0, startedAt: new Date().toISOString() },
+        } satisfies SyncLease);
+        tx.insert(systemState)
+            .values({ key: SYNC_LOCK_KEY, value })
+            .onConflictDoUpdate({ target: systemState.key, set: { value, updatedAt: new Date() } })
+            .run();
+
+        return { acquired: true as const };
+    }, { behavior: "immediate" });
+}
+
+/**
+ * Thrown by updateSyncProgress once the sync has lost its lease, so the run stops before writing more
+ */
+export class SyncLeaseLostError extends Error {
+    constructor() {
+        super("Lost the sync lease");
+        this.name = "SyncLeaseLostError";
+    }
+}
+
+const lastProgressWrite = new Map<string, { phase: SyncPhase; at: number }>();
+const lostLeases = new Set<string>();
+
+/**
+ * Record how far the sync holding the lease has got, and extend the lease.
+ * Writes are throttled within a phase, so this can be called for every transaction.
+ * Throws if `owner` no longer holds the lease (it expired, or another sync has taken it), so the run stops.
+ */
+export function updateSyncProgress(owner: string, progress: Omit<SyncProgress, "startedAt">): void {
+    if (lostLeases.has(owner)) {
+        throw new SyncLeaseLostError();
+    }
+
+    const last = lastProgressWrite.get(owner);
+    const now = Date.now();
+    if (last && last.phase === progress.phase && now - last.at < PROGRESS_WRITE_INTERVAL_MS) {
+        return;
+    }
+    lastProgressWrite.set(owner, { phase: progress.phase, at: now });
+
+    // Checked and written in one IMMEDIATE transaction, so a sync that has just taken over can't be overwritten
+    const held = db.transaction((tx) => {
+        const [row] = tx.select().from(systemState).where(eq(systemState.key, SYNC_LOCK_KEY)).all();
+        const current = readLease(row?.value);
+        if (current?.owner !== owner) {
+            console.error("[SyncLock] Lost the sync lease", current ? `to ${current.owner}` : "(expired)");
+            return false;
+        }
+
+        const value = JSON.stringify({
+            owner,
+            expiresAt: new Date(now + SYNC_LOCK_TTL_MS).toISOString(),
+            progress: { ...progress, startedAt: current.progress.startedAt },
+        } satisfies SyncLease);
+        tx.update(systemState)
+            .set({ value, updatedAt: new Date() })
+            .where(eq(systemState.key, SYNC_LOCK_KEY))
+            .run();
+        return true;
+    }, { behavior: "immediate" });
+
+    if (!held) {
+        lostLeases.add(owner);
+        throw new SyncLeaseLostError();
+    }
+}
+
+/**
+ * Give up the sync lease, if `owner` still holds it.
+ */
+export function releaseSyncLock(owner: string): void {
+    lastProgressWrite.delete(owner);
+    lostLeases.delete(owner);
+
+    db.transaction((tx) => {
+        const [row] = tx.select().from(systemState).where(eq(systemState.key, SYNC_LOCK_KEY)).all();
+        if (row && readLease(row.value)?.owner === owner) {
+            tx.delete(systemState).where(eq(systemState.key, SYNC_LOCK_KEY)).run();
+        }
+    }, { behavior: "immediate" });
+}
+
+/**
+ * Progress of the sync currently running, or null if none is.
+ */
+export async function getSyncProgress(): Promise<SyncProgress | null> {
+    const [row] = await db.select().from(systemState).where(eq(systemState.key, SYNC_LOCK_KEY)).limit(1);
+    return readLease(row?.value)?.progress ?? null;
+}
@@ -1,194 +1,760 @@
-import { akahu, getUserToken, getAccountId } from "./akahu";
 import { db } from "./db";
-import { transactions, systemState } from "./db/schema";
-import { eq, sql } from "drizzle-orm";
-import { matchTransaction, matchLandlordTransaction } from "./matching";
+import { transactions, pendingTransactions, systemState, transactionAuditLog, users, landlords } from "./db/schema";
+import type { BankAccount, NewTransaction, NewTransactionAuditEntry } from "./db/schema";
+import { and, eq, gt, gte, inArray, isNull, like, lte, notLike, sql } from "drizzle-orm";
+import { addDays, differenceInCalendarDays, subDays } from "date-fns";
+import { createHash } from "crypto";
+import { matchPayment, type MatchableTransaction } from "./matching";
 import { processTransactionForExpenses } from "./expense-matching";
-import type { Transaction as AkahuTransaction, EnrichedTransaction } from "akahu";
+import { detectInternalTransfers, getActiveBankAccounts } from "./bank-accounts";
+import { finishSyncRun, startSyncRun, type SyncTrigger } from "./sync-history";
+import { getBankProvider, type ProviderPendingTransaction, type ProviderTransaction } from "./bank-provider";
+import { acquireSyncLock, releaseSyncLock, SyncLeaseLostError, updateSyncProgress, type SyncProgress } from "./sync-lock";
+import { emitSyncEvent, hasSyncEventListeners, type LiveTransaction } from "./sync-events";
 
 const SYNC_STATE_KEY = "last_sync_cursor";
+const SYNC_WATERMARK_KEY = "last_settled_date"; // Date of the newest settled transaction synced, per account
+const SYNC_OVERLAP_DAYS = 7; // Re-fetch this far back to pick up pending transactions that have since settled
+const UPSERT_BATCH_SIZE = 100;
+const PENDING_SETTLE_WINDOW_DAYS = 5; // How far a settled date may drift from the pending date
+const REMOVAL_MARGIN_DAYS = 1; // Only look for removed transactions this far inside the fetched range
+const IMPORT_MATCH_WINDOW_DAYS = 1; // An imported statement line may be dated a day off Akahu's date
+export const IMPORT_ID_PREFIX = "import:"; // Imported statement rows have no Akahu ID; theirs is derived from the line
 const LAST_REFRESH_KEY = "last_manual_refresh";
 const REFRESH_INTERVAL_MS = 60 * 1000; // 1 hour in ms
+const LIVE_TRANSACTIONS_PER_ACCOUNT = 10; // Newest inserted rows streamed to dashboards after each account
+const PROGRESS_EVENT_EVERY = 25; // Stream matching progress every this many transactions
 
 export interface SyncResult {
     inserted: number;
     updated: number;
+    unchanged: number;
     deleted: number;
+    pending: number; // Pending transactions still waiting to settle
+    reconciled: number; // Pending transactions Akahu still lists whose settled transaction has arrived
     errors: string[];
+    alreadyRunning?: SyncProgress; // Set (and nothing synced) when another sync held the lock
 }
 
-function isEnrichedTransaction(tx: AkahuTransaction): tx is EnrichedTransaction {
-    return "merchant" in tx && tx.merchant !== undefined;
+export interface RefreshResult {
+    success: boolean;
+    message: string;
 }
 
-interface AkahuMeta {
-    card_suffix?: string;
-    logo?: string;
-    particulars?: string;
-    code?: string;
-    reference?: string;
-    other_account?: string;
+/**
+ * Limit a sync to one account, e.g. the one an Akahu webhook was about.
+ */
+export interface SyncScope {
+    akahuAccountId: string;
+    since?: Date; // Fetch from here instead of the account's watermark
 }
 
-function mapAkahuTransaction(tx: AkahuTransaction) {
-    const meta = (tx as { meta?: AkahuMeta }).meta;
-    
+function mapProviderTransaction(tx: ProviderTransaction, bankAccountId: string) {
     return {
-        akahuId: tx._id,
+        akahuId: tx.id,
+        bankAccountId,
         date: new Date(tx.date),
         amount: tx.amount,
         description: tx.description,
-        merchant: isEnrichedTransaction(tx) ? tx.merchant?.name ?? null : null,
-        merchantLogo: meta?.logo ?? null,
-        category: isEnrichedTransaction(tx) ? tx.category?.name ?? null : null,
-        cardSuffix: meta?.card_suffix ?? null,
-        otherAccount: meta?.other_account ?? null,
-        rawData: JSON.stringify(tx),
+        merchant: tx.merchant,
+        merchantLogo: tx.merchantLogo,
+        category: tx.category,
+        cardSuffix: tx.cardSuffix,
+        otherAccount: tx.otherAccount,
+        rawData: JSON.stringify(tx.raw),
     };
 }
 
-export async function syncTransactions(): Promise<SyncResult> {
+type MappedTransaction = ReturnType<typeof mapProviderTransaction>;
+
+function getSyncWatermarkKey(account: BankAccount): string {
+    return `${SYNC_WATERMARK_KEY}:${account.akahuAccountId}`;
+}
+
+/**
+ * Get the date of the newest settled transaction we've synced for an account.
+ * Falls back to the account's newest stored transaction when no watermark has been saved for it yet.
+ */
+async function getSyncWatermark(account: BankAccount): Promise<Date | null> {
+    const state = await db
+        .select()
+        .from(systemState)
+        .where(eq(systemState.key, getSyncWatermarkKey(account)))
+        .limit(1);
+
+    if (state.length > 0) {
+        return new Date(state[0].value);
+    }
+
+    const [newest] = await db
+        .select({ date: sql<number | null>`max(${transactions.date})` })
+        .from(transactions)
+        .where(eq(transactions.bankAccountId, account.id));
+
+    return newest?.date ? new Date(newest.date * 1000) : null;
+}
+
+interface StoredTransaction {
+    id: string;
+    akahuId: string;
+    date: Date;
+    amount: number;
+    description: string;
+    rawData: string;
+    deletedAt: Date | null;
+}
+
+const storedTransactionColumns = {
+    id: transactions.id,
+    akahuId: transactions.akahuId,
+    date: transactions.date,
+    amount: transactions.amount,
+    description: transactions.description,
+    rawData: transactions.rawData,
+    deletedAt: transactions.deletedAt,
+};
+
+/**
+ * Get the stored rows for the given Akahu IDs, to tell which fetched transactions changed.
+ */
+async function getStoredTransactions(akahuIds: string[]): Promise<Map<string, StoredTransaction>> {
+    const stored = new Map<string, StoredTransaction>();
+
+    for (let i = 0; i < akahuIds.length; i += UPSERT_BATCH_SIZE) {
+        const rows = await db
+            .select(storedTransactionColumns)
+            .from(transactions)
+            .where(inArray(transactions.akahuId, akahuIds.slice(i, i + UPSERT_BATCH_SIZE)));
+
+        for (const row of rows) {
+            stored.set(row.akahuId, row);
+        }
+    }
+
+    return stored;
+}
+
+/**
+ * Find an account's live transactions in the fetched range that Akahu no longer returned
+ * (reversed card holds, duplicates it has cleaned up).
+ * The edge of the range is skipped, as Akahu's start filter and our stored dates may not line up exactly.
+ * Imported statement rows are never Akahu's, so they aren't counted as removed.
+ */
+async function findRemovedTransactions(
+    account: BankAccount,
+    start: Date | null,
+    fetchedIds: Set<string>
+): Promise<StoredTransaction[]> {
+    const candidates = await db
+        .select(storedTransactionColumns)
+        .from(transactions)
+        .where(
+            and(
+                eq(transactions.bankAccountId, account.id),
+                isNull(transactions.deletedAt),
+                notLike(transactions.akahuId, `${IMPORT_ID_PREFIX}%`),
+                start ? gt(transactions.date, addDays(start, REMOVAL_MARGIN_DAYS)) : undefined
+            )
+        );
+
+    return candidates.filter((tx) => !fetchedIds.has(tx.akahuId));
+}
+
+/**
+ * Find the imported statement rows that newly fetched transactions stand for: same account and amount,
+ * within a day (the same test statement imports use to skip synced lines). Each imported row is taken
+ * over by at most one fetched transaction.
+ * Returns the imported row ID for each fetched Akahu ID that has one.
+ */
+async function findImportedTransactions(
+    account: BankAccount,
+    fresh: MappedTransaction[]
+): Promise<Map<string, string>> {
+    const adopted = new Map<string, string>();
+    if (fresh.length === 0) {
+        return adopted;
+    }
+
+    // A first sync can fetch years of history, too many to spread into Math.min
+    const earliest = fresh.reduce((min, tx) => (tx.date < min ? tx.date : min), fresh[0].date);
+    const latest = fresh.reduce((max, tx) => (tx.date > max ? tx.date : max), fresh[0].date);
+    const imported = await db
+        .select({ id: transactions.id, date: transactions.date, amount: transactions.amount })
+        .from(transactions)
+        .where(
+            and(
+                eq(transactions.bankAccountId, account.id),
+                isNull(transactions.deletedAt),
+                like(transactions.akahuId, `${IMPORT_ID_PREFIX}%`),
+                gte(transactions.date, subDays(earliest, IMPORT_MATCH_WINDOW_DAYS + 1)),
+                lte(transactions.date, addDays(latest, IMPORT_MATCH_WINDOW_DAYS + 1))
+            )
+        )
+        .orderBy(transactions.date);
+
+    const claimed = new Set<string>();
+    for (const tx of fresh) {
+        const match = imported.find((row) =>
+            !claimed.has(row.id) &&
+            Math.abs(row.amount - tx.amount) < 0.005 &&
+            Math.abs(differenceInCalendarDays(row.date, tx.date)) <= IMPORT_MATCH_WINDOW_DAYS
+        );
+        if (match) {
+            claimed.add(match.id);
+            adopted.set(tx.akahuId, match.id);
+        }
+    }
+
+    return adopted;
+}
+
+function getAuditSnapshot(tx: Pick<StoredTransaction, "date" | "amount" | "description">) {
+    return { date: tx.date.toISOString(), amount: tx.amount, description: tx.description };
+}
+
+// Refer to the incoming row in an ON CONFLICT DO UPDATE clause
+function excluded(column: string) {
+    return sql.raw(`excluded.${column}`);
+}
+
+type TransactionMatch = Pick<
+    NewTransaction,
+    "matchedUserId" | "matchedLandlordId" | "matchType" | "matchConfidence"
+>;
+
+/**
+ * Find the flatmate or landlord a transaction belongs to, using the payment matching rules.
+ */
+async function findTransactionMatch(tx: MatchableTransaction): Promise<TransactionMatch | null> {
+    const match = await matchPayment(tx);
+    if (!match) {
+        return null;
+    }
+
+    return {
+        matchedUserId: match.userId,
+        matchedLandlordId: match.landlordId,
+        matchType: match.matchType,
+        matchConfidence: match.confidence,
+    };
+}
+
+/**
+ * Match a newly inserted transaction to a flatmate or landlord, and categorise it as an expense.
+ */
+export async function matchNewTransaction(id: string, tx: MatchableTransaction): Promise<TransactionMatch | null> {
+    const match = await findTransactionMatch(tx);
+
+    if (match) {
+        await db.update(transactions).set(match).where(eq(transactions.id, id));
+    }
+
+    // Also process for expense categorization
+    await processTransactionForExpenses(id);
+
+    return match;
+}
+
+/**
+ * Look up who a match is to, for sync events.
+ */
+async function getMatchNames(match: TransactionMatch) {
+    const [user] = match.matchedUserId
+        ? await db.select({ name: users.name }).from(users).where(eq(users.id, match.matchedUserId)).limit(1)
+        : [];
+    const [landlord] = match.matchedLandlordId
+        ? await db.select({ name: landlords.name }).from(landlords).where(eq(landlords.id, match.matchedLandlordId)).limit(1)
+        : [];
+
+    return { matchedUserName: user?.name ?? null, matchedLandlordName: landlord?.name ?? null };
+}
+
+/**
+ * Shape newly inserted rows like stored transactions, newest first, for the dashboard.
+ */
+function toLiveTransactions(inserted: Array<MappedTransaction & { id: string }>): LiveTransaction[] {
+    const createdAt = new Date();
+    return [...inserted]
+        .sort((a, b) => b.date.getTime() - a.date.getTime())
+        .slice(0, LIVE_TRANSACTIONS_PER_ACCOUNT)
+        .map((tx) => ({
+            ...tx,
+            matchedUserId: null,
+            matchedLandlordId: null,
+            matchType: null,
+            matchConfidence: null,
+            manualMatch: false,
+            isInternalTransfer: false,
+            deletedAt: null,
+            createdAt,
+            matchedUserName: null,
+            matchedLandlordName: null,
+        }));
+}
+
+function addSyncError(result: SyncResult, message: string): void {
+    result.errors.push(message);
+    emitSyncEvent({ type: "error", message });
+}
+
+/**
+ * Build a stable key for a pending transaction, which has no Akahu ID.
+ * Identical pending transactions (two coffees of the same price on the same day) are told apart
+ * by how many of them came before in the snapshot.
+ */
+function getPendingKey(tx: ProviderPendingTransaction, occurrence: number): string {
+    return createHash("sha256")
+        .update([tx.accountId, tx.date, tx.amount.toFixed(2), tx.description, occurrence].join("|"))
+        .digest("hex");
+}
+
+/**
+ * Replace the stored pending transactions with Akahu's current snapshot.
+ * A pending transaction is reconciled once a settled transaction with the same amount and a close date
+ * has been stored since it was first seen. Reconciled rows are kept (linked to the settled transaction)
+ * until Akahu stops listing them, so they aren't counted twice or picked up again as new.
+ */
+async function syncPendingTransactions(
+    accounts: BankAccount[],
+    syncStartedAt: Date,
+    replaceAll: boolean
+): Promise<{ pending: number; reconciled: number }> {
+    const fetched: Array<ProviderPendingTransaction & { bankAccountId: string }> = [];
+    for (const account of accounts) {
+        const items = await getBankProvider().listPendingTransactions(account.akahuAccountId);
+        console.log("[Sync] Got", items.length, "pending transactions for", account.label);
+        fetched.push(...items.map((tx) => ({ ...tx, bankAccountId: account.id })));
+    }
+
+    const stored = new Map(
+        (await db.select().from(pendingTransactions)).map((row) => [row.pendingKey, row])
+    );
+    // Timestamps are stored to the second
+    const firstSeenNow = new Date(Math.floor(syncStartedAt.getTime() / 1000) * 1000);
+
+    const occurrences = new Map<string, number>();
+    const snapshot = fetched.map((tx) => {
+        const identity = [tx.accountId, tx.date, tx.amount, tx.description].join("|");
+        const occurrence = occurrences.get(identity) ?? 0;
+        occurrences.set(identity, occurrence + 1);
+
+        const pendingKey = getPendingKey(tx, occurrence);
+        const existing = stored.get(pendingKey);
+        return {
+            id: existing?.id,
+            pendingKey,
+            bankAccountId: tx.bankAccountId,
+            date: new Date(tx.date),
+            amount: tx.amount,
+            description: tx.description,
+            type: tx.type,
+            rawData: JSON.stringify(tx.raw),
+            // Known rows keep their match; new ones are matched below
+            matchedUserId: existing?.matchedUserId ?? null,
+            matchedLandlordId: existing?.matchedLandlordId ?? null,
+            matchType: existing?.matchType ?? null,
+            matchConfidence: existing?.matchConfidence ?? null,
+            settledTransactionId: existing?.settledTransactionId ?? null,
+            firstSeenAt: existing?.firstSeenAt ?? firstSeenNow,
+            updatedAt: new Date(),
+        };
+    });
+
+    // Settled transactions that could be the settled version of something in the snapshot
+    const earliest = snapshot.reduce<Date | null>((min, tx) => (!min || tx.date < min ? tx.date : min), null);
+    const settled = earliest
+        ? await db
+            .select({
+                id: transactions.id,
+                bankAccountId: transactions.bankAccountId,
+                date: transactions.date,
+                amount: transactions.amount,
+                createdAt: transactions.createdAt,
+            })
+            .from(transactions)
+            .where(and(
+                gte(transactions.date, subDays(earliest, PENDING_SETTLE_WINDOW_DAYS)),
+                isNull(transactions.deletedAt)
+            ))
+        : [];
+
+    // Keep existing links (unless the settled transaction was deleted) and look for new ones
+    const settledIds = new Set(settled.map((s) => s.id));
+    for (const tx of snapshot) {
+        if (tx.settledTransactionId && !settledIds.has(tx.settledTransactionId)) {
+            tx.settledTransactionId = null;
+        }
+    }
+
+    const claimed = new Set(snapshot.map((tx) => tx.settledTransactionId).filter((id) => id !== null));
+    for (const tx of snapshot) {
+        if (tx.settledTransactionId) continue;
+
+        const settledMatch = settled.find((s) =>
+            !claimed.has(s.id) &&
+            s.bankAccountId === tx.bankAccountId &&
+            Math.abs(s.amount - tx.amount) < 0.005 &&
+            Math.abs(differenceInCalendarDays(s.date, tx.date)) <= PENDING_SETTLE_WINDOW_DAYS &&
+            // Only settled transactions stored since the pending one appeared, not an older identical payment
+            !!s.createdAt && s.createdAt >= tx.firstSeenAt
+        );
+
+        if (settledMatch) {
+            claimed.add(settledMatch.id);
+            tx.settledTransactionId = settledMatch.id;
+        } else if (!stored.has(tx.pendingKey)) {
+            Object.assign(tx, await findTransactionMatch(tx));
+        }
+    }
+
+    db.transaction((dbTx) => {
+        // A scoped sync only has the snapshot for its own accounts
+        dbTx.delete(pendingTransactions)
+            .where(replaceAll ? undefined : inArray(pendingTransactions.bankAccountId, accounts.map((a) => a.id)))
+            .run();
+
+        for (let i = 0; i < snapshot.length; i += UPSERT_BATCH_SIZE) {
+            dbTx.insert(pendingTransactions).values(snapshot.slice(i, i + UPSERT_BATCH_SIZE)).run();
+        }
+    });
+
+    const reconciled = snapshot.filter((tx) => tx.settledTransactionId).length;
+    return { pending: snapshot.length - reconciled, reconciled };
+}
+
+/**
+ * Incrementally sync one account's settled transactions.
+ * Only fetches from the newest settled date we've seen (minus a small overlap), skips rows that
+ * haven't changed, and writes the rest in batches inside a single SQLite transaction.
+ * Stored transactions in the fetched range that Akahu no longer returns are soft-deleted, and
+ * removals, restorations and amendments are written to the audit log.
+ * With `since`, only that range is fetched (unless the account has never been synced).
+ * Returns the transactions that were inserted, with their new IDs, and the date fetched from.
+ */
+async function syncBankAccountTransactions(
+    account: BankAccount,
+    result: SyncResult,
+    syncRunId: string,
+    since: Date | undefined,
+    keepAlive: () => void
+): Promise<{ inserted: Array<MappedTransaction & { id: string }>; start: Date | null }> {
+    console.log("[Sync] Syncing", account.label, `(${account.akahuAccountId})`);
+
+    // The first sync fetches the full history; later syncs only the new range plus an overlap
+    const watermark = await getSyncWatermark(account);
+    const incrementalStart = watermark ? subDays(watermark, SYNC_OVERLAP_DAYS) : null;
+    const start = incrementalStart && since ? since : incrementalStart;
+    // A range that starts after the incremental one leaves a gap, so it mustn't move the watermark past it
+    const advanceWatermark = !incrementalStart || !start || start <= incrementalStart;
+
+    // A full history can take many pages, so each one renews the sync lease
+    const fetched = await getBankProvider().listTransactions(account.akahuAccountId, start, (count) => {
+        keepAlive();
+        emitSyncEvent({ type: "page", account: account.label, fetched: count });
+    });
+    console.log("[Sync] Total transactions fetched:", fetched.length);
+
+    const stored = await getStoredTransactions(fetched.map((tx) => tx.id));
+    // Statement lines imported before Akahu had them are taken over rather than duplicated
+    const adopted = await findImportedTransactions(
+        account,
+        fetched.filter((tx) => !stored.has(tx.id)).map((tx) => mapProviderTransaction(tx, account.id))
+    );
+    const before = { ...result };
+    const changed: MappedTransaction[] = [];
+    const audit: NewTransactionAuditEntry[] = [];
+    let newest = watermark;
+
+    for (const tx of fetched) {
+        const mapped = mapProviderTransaction(tx, account.id);
+        if (!newest || mapped.date > newest) {
+            newest = mapped.date;
+        }
+
+        // Every other column is derived from the raw JSON, so identical JSON means nothing to write
+        const existing = stored.get(tx.id);
+        if (!existing) {
+            changed.push(mapped);
+            if (adopted.has(tx.id)) {
+                result.updated++;
+            } else {
+                result.inserted++;
+            }
+        } else if (existing.rawData !== mapped.rawData || existing.deletedAt) {
+            changed.push(mapped);
+            result.updated++;
+
+            if (existing.deletedAt) {
+                audit.push({
+                    transactionId: existing.id,
+                    syncRunId,
+                    action: "restored",
+                    details: JSON.stringify({ before: getAuditSnapshot(existing) }),
+                });
+            }
+            if (
+                existing.amount !== mapped.amount ||
+                // Stored dates are truncated to the second
+                Math.floor(existing.date.getTime() / 1000) !== Math.floor(mapped.date.getTime() / 1000) ||
+                existing.description !== mapped.description
+            ) {
+                audit.push({
+                    transactionId: existing.id,
+                    syncRunId,
+                    action: "amended",
+                    details: JSON.stringify({ before: getAuditSnapshot(existing), after: getAuditSnapshot(mapped) }),
+                });
+            }
+        } else {
+            result.unchanged++;
+        }
+    }
+
+    // An empty response for a range we have transactions in is more likely an Akahu hiccup than a mass reversal
+    const removed = fetched.length > 0
+        ? await findRemovedTransactions(account, start, new Set(fetched.map((tx) => tx.id)))
+        : [];
+    for (const tx of removed) {
+        audit.push({
+            transactionId: tx.id,
+            syncRunId,
+            action: "removed",
+            details: JSON.stringify({ before: getAuditSnapshot(tx) }),
+        });
+    }
+    result.deleted += removed.length;
+    if (removed.length > 0) {
+        console.log("[Sync] Akahu no longer returns", removed.length, "transactions on", account.label);
+    }
+    if (adopted.size > 0) {
+        console.log("[Sync] Akahu now returns", adopted.size, "imported statement transactions on", account.label);
+    }
+
+    // Upsert in batches; match fields aren't in the update set, so existing (and manual) matches are kept
+    const insertedIds = db.transaction((tx) => {
+        const ids = new Map<string, string>();
+
+        // Give imported rows their Akahu IDs, so the upsert below updates them (keeping their matches)
+        for (const [akahuId, id] of adopted) {
+            tx.update(transactions).set({ akahuId }).where(eq(transactions.id, id)).run();
+        }
+
+        for (let i = 0; i < changed.length; i += UPSERT_BATCH_SIZE) {
+            const rows = tx
+                .insert(transactions)
+                .values(changed.slice(i, i + UPSERT_BATCH_SIZE))
+                .onConflictDoUpdate({
+                    target: transactions.akahuId,
+                    set: {
+                        bankAccountId: excluded("bank_account_id"),
+                        date: excluded("date"),
+                        amount: excluded("amount"),
+                        description: excluded("description"),
+                        merchant: excluded("merchant"),
+                        merchantLogo: excluded("merchant_logo"),
+                        category: excluded("category"),
+                        cardSuffix: excluded("card_suffix"),
+                        otherAccount: excluded("other_account"),
+                        rawData: excluded("raw_data"),
+                        deletedAt: null, // Returned by Akahu again
+                    },
+                })
+                .returning({ id: transactions.id, akahuId: transactions.akahuId })
+                .all();
+
+            for (const row of rows) {
+                if (!stored.has(row.akahuId) && !adopted.has(row.akahuId)) {
+                    ids.set(row.akahuId, row.id);
+                }
+            }
+        }
+
+        // Removed transactions keep their matches and expense links, but drop out of every total
+        const removedAt = new Date();
+        for (let i = 0; i < removed.length; i += UPSERT_BATCH_SIZE) {
+            tx.update(transactions)
+                .set({ deletedAt: removedAt })
+                .where(inArray(transactions.id, removed.slice(i, i + UPSERT_BATCH_SIZE).map((r) => r.id)))
+                .run();
+        }
+
+        for (let i = 0; i < audit.length; i += UPSERT_BATCH_SIZE) {
+            tx.insert(transactionAuditLog).values(audit.slice(i, i + UPSERT_BATCH_SIZE)).run();
+        }
+
+        if (newest && advanceWatermark) {
+            tx.insert(systemState)
+                .values({ key: getSyncWatermarkKey(account), value: newest.toISOString() })
+                .onConflictDoUpdate({
+                    target: systemState.key,
+                    set: { value: newest.toISOString(), updatedAt: new Date() },
+                })
+                .run();
+        }
+
+        return ids;
+    });
+
+    const inserted = changed.flatMap((mapped) => {
+        const id = insertedIds.get(mapped.akahuId);
+        return id ? [{ ...mapped, id }] : [];
+    });
+
+    emitSyncEvent({
+        type: "rows",
+        account: account.label,
+        inserted: result.inserted - before.inserted,
+        updated: result.updated - before.updated,
+        unchanged: result.unchanged - before.unchanged,
+        deleted: result.deleted - before.deleted,
+    });
+    if (inserted.length > 0 && hasSyncEventListeners()) {
+        emitSyncEvent({ type: "transactions", transactions: toLiveTransactions(inserted) });
+    }
+
+    return { inserted, start };
+}
+
+/**
+ * Sync settled transactions for every active tracked account (or just the scoped one), flag transfers
+ * between them, then refresh the pending transaction snapshot (see syncPendingTransactions).
+ * Every run is recorded in sync_runs along with what triggered it and the Akahu refresh before it, if any.
+ * Runs are serialised by a lease lock (see sync-lock.ts), and a run that loses the lease stops. A call made
+ * while another sync is running returns straight away with that sync's progress in `alreadyRunning`.
+ */
+export async function syncTransactions(
+    trigger: SyncTrigger,
+    refresh?: RefreshResult,
+    scope?: SyncScope
+): Promise<SyncResult> {
     console.log("[Sync] Starting sync...");
-    const userToken = getUserToken();
-    const accountId = getAccountId();
-    console.log("[Sync] Account ID:", accountId);
 
     const result: SyncResult = {
         inserted: 0,
         updated: 0,
+        unchanged: 0,
         deleted: 0,
+        pending: 0,
+        reconciled: 0,
         errors: [],
     };
 
+    const owner = crypto.randomUUID();
+    const lock = acquireSyncLock(owner);
+    if (!lock.acquired) {
+        console.log("[Sync] Another sync is in progress, skipping");
+        return { ...result, alreadyRunning: lock.progress };
+    }
+
     try {
-        // Get the last sync cursor if we have one
-        const lastSyncState = await db
-            .select()
-            .from(systemState)
-            .where(eq(systemState.key, SYNC_STATE_KEY))
-            .limit(1);
-
-        // For the first sync, fetch all transactions for this account
-        // For subsequent syncs, we'll fetch from the last 30 days to catch updates
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-        const query: { start?: string; cursor?: string } = {};
-
-        // If we've synced before, only fetch recent transactions
-        if (lastSyncState.length > 0 && lastSyncState[0].value !== "initial") {
-            query.start = thirtyDaysAgo.toISOString();
+        const runId = await startSyncRun(trigger);
+        const startedAt = new Date().toISOString();
+        emitSyncEvent({ type: "started", trigger });
+
+        await syncAllAccounts(result, runId, scope, (progress) => {
+            if (progress.phase !== "matching" || progress.done % PROGRESS_EVENT_EVERY === 0) {
+                emitSyncEvent({ type: "progress", progress: { ...progress, startedAt } });
+            }
+            updateSyncProgress(owner, progress);
+        });
+
+        try {
+            await finishSyncRun(runId, result, refresh);
+        } catch (error) {
+            console.error("[Sync] Failed to record sync run:", error);
         }
+        emitSyncEvent({ type: "finished", result });
+    } finally {
+        releaseSyncLock(owner);
+    }
+
+    return result;
+}
+
+type ReportProgress = (progress: Omit<SyncProgress, "startedAt">) => void;
+
+async function syncAllAccounts(
+    result: SyncResult,
+    syncRunId: string,
+    scope: SyncScope | undefined,
+    reportProgress: ReportProgress
+): Promise<void> {
+    const startedAt = new Date();
 
-        console.log("[Sync] Query params:", query);
+    try {
+        const accounts = (await getActiveBankAccounts())
+            .filter((account) => !scope || account.akahuAccountId === scope.akahuAccountId);
+        if (accounts.length === 0) {
+            addSyncError(result, scope
+                ? `${scope.akahuAccountId} isn't an active tracked account`
+                : "No bank accounts to sync. Add one in Settings or set AKAHU_ACCOUNT_ID.");
+            return;
+        }
 
-        // Paginate through all transactions
-        let cursor: string | null = null;
-        const allTransactions: AkahuTransaction[] = [];
+        const inserted: Array<MappedTransaction & { id: string }> = [];
+        let earliestStart: Date | null = null;
+        let fullHistory = false;
 
-        do {
-            if (cursor) {
-                query.cursor = cursor;
+        for (const [index, account] of accounts.entries()) {
+            const progress = { phase: "transactions" as const, detail: account.label, done: index, total: accounts.length };
+            reportProgress(progress);
+            try {
+                const synced = await syncBankAccountTransactions(
+                    account,
+                    result,
+                    syncRunId,
+                    scope?.since,
+                    () => reportProgress(progress)
+                );
+                inserted.push(...synced.inserted);
+                if (!synced.start) {
+                    fullHistory = true;
+                } else if (!earliestStart || synced.start < earliestStart) {
+                    earliestStart = synced.start;
+                }
+            } catch (error) {
+                // Another sync owns the data now, so nothing more is written (transfer flags included)
+                if (error instanceof SyncLeaseLostError) throw error;
+                console.error("[Sync] Error syncing", account.label, error);
+                addSyncError(result, `Failed to sync ${account.label}: ${error}`);
             }
+        }
 
-            console.log("[Sync] Fetching page...");
-            const page = await akahu.accounts.listTransactions(userToken, accountId, query);
-            console.log("[Sync] Got", page.items.length, "transactions");
-            allTransactions.push(...page.items);
-            cursor = page.cursor.next;
-        } while (cursor !== null);
+        // Transfers between tracked accounts don't count as payments or expenses, so they're left unmatched
+        const transfers = new Set(await detectInternalTransfers(fullHistory ? null : earliestStart));
 
-        console.log("[Sync] Total transactions fetched:", allTransactions.length);
+        // Matching reads other tables asynchronously, so it runs after the batch writes
+        for (const [index, mapped] of inserted.entries()) {
+            reportProgress({ phase: "matching", detail: null, done: index, total: inserted.length });
+            if (transfers.has(mapped.id)) continue;
 
-        // Process transactions - upsert to handle updates
-        for (const tx of allTransactions) {
             try {
-                const mapped = mapAkahuTransaction(tx);
-
-                // Check if transaction exists
-                const existing = await db
-                    .select()
-                    .from(transactions)
-                    .where(eq(transactions.akahuId, tx._id))
-                    .limit(1);
-
-                if (existing.length > 0) {
-                    // Update existing transaction (preserve matching info if manually set)
-                    // Don't overwrite manual matches
-                    if (existing[0].manualMatch) {
-                        // Preserve all match-related fields for manual matches
-                        await db
-                            .update(transactions)
-                            .set({
-                                ...mapped,
-                                matchedUserId: existing[0].matchedUserId,
-                                matchType: existing[0].matchType,
-                                matchConfidence: existing[0].matchConfidence,
-                                manualMatch: existing[0].manualMatch,
-                            })
-                            .where(eq(transactions.akahuId, tx._id));
-                    } else {
-                        await db
-                            .update(transactions)
-                            .set({
-                                ...mapped,
-                            })
-                            .where(eq(transactions.akahuId, tx._id));
-                    }
-                    result.updated++;
-                } else {
-                    // Insert new transaction
-                    const [inserted] = await db.insert(transactions).values(mapped).returning();
-                    result.inserted++;
-
-                    // Try to match the new transaction to a flatmate
-                    const match = await matchTransaction(
-                        inserted.id,
-                        mapped.amount,
-                        mapped.description,
-                        mapped.rawData,
-                        mapped.date,
-                        mapped.cardSuffix
-                    );
-
-                    if (match) {
-                        await db
-                            .update(transactions)
-                            .set({
-                                matchedUserId: match.userId,
-                                matchType: match.matchType,
-                                matchConfidence: match.confidence,
-                            })
-                            .where(eq(transactions.id, inserted.id));
-                    } else {
-                        // If no flatmate match, try to match to a landlord (for outgoing payments)
-                        const landlordMatch = await matchLandlordTransaction(
-                            mapped.amount,
-                            mapped.description,
-                            mapped.rawData,
-                            mapped.cardSuffix
-                        );
-
-                        if (landlordMatch) {
-                            await db
-                                .update(transactions)
-                                .set({
-                                    matchedLandlordId: landlordMatch.landlordId,
-                                    matchType: landlordMatch.matchType,
-                                    matchConfidence: landlordMatch.confidence,
-                                })
-                                .where(eq(transactions.id, inserted.id));
-                        }
-                    }
-
-                    // Also process for expense categorization
-                    await processTransactionForExpenses(inserted.id);
+                const match = await matchNewTransaction(mapped.id, mapped);
+                if (match && hasSyncEventListeners()) {
+                    emitSyncEvent({
+                        type: "match",
+                        transactionId: mapped.id,
+                        description: mapped.description,
+                        matchType: match.matchType ?? null,
+                        ...(await getMatchNames(match)),
+                    });
                 }
             } catch (error) {
-                result.errors.push(`Failed to process transaction ${tx._id}: ${error}`);
+                addSyncError(result, `Failed to process transaction ${mapped.akahuId}: ${error}`);
             }
         }
 
+        // Pending transactions are refreshed after the settled ones so they can be reconciled against them
+        reportProgress({ phase: "pending", detail: null, done: 0, total: accounts.length });
+        try {
+            const pendingResult = await syncPendingTransactions(accounts, startedAt, !scope);
+            result.pending = pendingResult.pending;
+            result.reconciled = pendingResult.reconciled;
+        } catch (error) {
+            console.error("[Sync] Pending sync failed:", error);
+            addSyncError(result, `Pending sync failed: ${error}`);
+        }
+
         console.log("[Sync] Result:", result);
 
         // Update sync state
@@ -202,10 +768,8 @@ export async function syncTransactions(): Promise<SyncResult> {
 
     } catch (error) {
         console.error("[Sync] Error:", error);
-        result.errors.push(`Sync failed: ${error}`);
+        addSyncError(result, `Sync failed: ${error}`);
     }
-
-    return result;
 }
 
 export async function canTriggerManualRefresh(): Promise<{ canRefresh: boolean; nextRefreshAt: Date | null }> {
@@ -229,7 +793,7 @@ export async function canTriggerManualRefresh(): Promise<{ canRefresh: boolean;
     return { canRefresh: false, nextRefreshAt };
 }
 
-export async function triggerManualRefresh(): Promise<{ success: boolean; message: string }> {
+export async function triggerManualRefresh(): Promise<RefreshResult> {
     const { canRefresh, nextRefreshAt } = await canTriggerManualRefresh();
 
     if (!canRefresh) {
@@ -239,11 +803,9 @@ export async function triggerManualRefresh(): Promise<{ success: boolean; messag
         };
     }
 
-    const userToken = getUserToken();
-
     try {
         // Trigger a refresh for all accounts
-        await akahu.accounts.refreshAll(userToken);
+        await getBankProvider().refreshAccounts();
 
         // Update the last refresh timestamp
         await db
@@ -281,7 +843,8 @@ export async function getTransactionStats() {
             totalIn: sql<number>`sum(case when amount > 0 then amount else 0 end)`,
             totalOut: sql<number>`sum(case when amount < 0 then amount else 0 end)`,
         })
-        .from(transactions);
+        .from(transactions)
+        .where(and(eq(transactions.isInternalTransfer, false), isNull(transactions.deletedAt)));
 
     return {
         totalTransactions: stats[0]?.total ?? 0,
@@ -0,0 +1,332 @@
+/**
+ * Renderers for structured print tickets:
+ * - renderTicketText: plaintext preview (browser, downloads, logs)
+ * - renderTicketEscPos: ESC/POS byte stream for the receipt printer
+ *
+ * Both share the same line layout, so the preview matches what gets printed.
+ * This file should NOT import any server-only dependencies (db, better-sqlite3, etc.)
+ */
+
+import type { Ticket, TicketAlign, TicketSpan, TicketTableColumn } from "./ticket";
+import { center, columns, separator, truncate, wrap } from "./receipt";
+
+interface LayoutSpan {
+    text: string;
+    bold: boolean;
+    width: 1 | 2;
+    height: 1 | 2;
+}
+
+type LayoutItem =
+    | { kind: "line"; spans: LayoutSpan[]; align: TicketAlign }
+    | { kind: "qr"; data: string; size: number }
+    | { kind: "barcode"; data: string }
+    | { kind: "feed"; lines: number }
+    | { kind: "cut" };
+
+function plainSpan(text: string, bold = false): LayoutSpan {
+    return { text, bold, width: 1, height: 1 };
+}
+
+function sameStyle(a: LayoutSpan, b: LayoutSpan): boolean {
+    return a.bold === b.bold && a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Word-wrap styled spans into lines, counting double-width characters twice.
+ */
+function wrapSpans(spans: TicketSpan[], width: number): LayoutSpan[][] {
+    const lines: LayoutSpan[][] = [];
+    let line: LayoutSpan[] = [];
+    let used = 0;
+    let pendingSpace = false;
+
+    const append = (text: string, style: LayoutSpan) => {
+        const last = line[line.length - 1];
+        if (last && sameStyle(last, style)) {
+            last.text += text;
+        } else {
+            line.push({ ...style, text });
+        }
+        used += text.length * style.width;
+    };
+
+    const breakLine = () => {
+        lines.push(line);
+        line = [];
+        used = 0;
+    };
+
+    for (const span of spans) {
+        const style: LayoutSpan = {
+            text: "",
+            bold: span.bold ?? false,
+            width: span.width ?? 1,
+            height: span.height ?? 1,
+        };
+        const maxChars = Math.max(1, Math.floor(width / style.width));
+
+        for (const token of span.text.split(/(\s+)/)) {
+            if (!token) continue;
+
+            if (/^\s+$/.test(token)) {
+                pendingSpace = used > 0;
+                continue;
+            }
+
+            let word = token;
+            const spaceWidth = pendingSpace ? style.width : 0;
+            if (used > 0 && used + spaceWidth + word.length * style.width > width) {
+                breakLine();
+            } else if (pendingSpace) {
+                append(" ", style);
+            }
+            pendingSpace = false;
+
+            // Hard-split words that are longer than a whole line
+            while (word.length > maxChars) {
+                if (used > 0) breakLine();
+                append(word.slice(0, maxChars), style);
+                breakLine();
+                word = word.slice(maxChars);
+            }
+
+            if (word) {
+                if (used > 0 && used + word.length * style.width > width) {
+                    breakLine();
+                }
+                append(word, style);
+            }
+        }
+    }
+
+    if (line.length > 0 || lines.length === 0) {
+        lines.push(line);
+    }
+
+    return lines;
+}
+
+/**
+ * Work out column widths: fixed widths first, the rest shared between the other columns.
+ * Columns are separated by a single space.
+ */
+function getColumnWidths(tableColumns: TicketTableColumn[], width: number): number[] {
+    const gaps = Math.max(0, tableColumns.length - 1);
+    const fixedTotal = tableColumns.reduce((sum, c) => sum + (c.width ?? 0), 0);
+    const flexible = tableColumns.filter((c) => !c.width).length;
+    const remaining = Math.max(0, width - gaps - fixedTotal);
+
+    let extra = flexible > 0 ? remaining % flexible : 0;
+    return tableColumns.map((c) => {
+        if (c.width) return c.width;
+        const share = Math.floor(remaining / flexible) + (extra > 0 ? 1 : 0);
+        extra = Math.max(0, extra - 1);
+        return share;
+    });
+}
+
+function formatCell(text: string, cellWidth: number, align: "left" | "right"): string {
+    const fitted = truncate(text, cellWidth);
+    return align === "right" ? fitted.padStart(cellWidth) : fitted.padEnd(cellWidth);
+}
+
+function layoutTicket(ticket: Ticket, width: number): LayoutItem[] {
+    const items: LayoutItem[] = [];
+
+    for (const block of ticket.blocks) {
+        switch (block.type) {
+            case "heading": {
+                const scale: 1 | 2 = (block.level ?? 1) === 1 ? 2 : 1;
+                for (const text of wrap(block.text, Math.floor(width / scale))) {
+                    items.push({
+                        kind: "line",
+                        spans: [{ text, bold: true, width: scale, height: scale }],
+                        align: "center",
+                    });
+                }
+                break;
+            }
+            case "text": {
+                for (const spans of wrapSpans(block.spans, width)) {
+                    items.push({ kind: "line", spans, align: block.align ?? "left" });
+                }
+                break;
+            }
+            case "row": {
+                items.push({
+                    kind: "line",
+                    spans: [plainSpan(columns(block.label, block.value, width), block.bold ?? false)],
+                    align: "left",
+                });
+                break;
+            }
+            case "table": {
+                const widths = getColumnWidths(block.columns, width);
+                const formatRow = (cells: string[]) =>
+                    block.columns
+                        .map((c, i) => formatCell(cells[i] ?? "", widths[i], c.align ?? "left"))
+                        .join(" ")
+                        .trimEnd();
+
+                items.push({
+                    kind: "line",
+                    spans: [plainSpan(formatRow(block.columns.map((c) => c.header)), true)],
+                    align: "left",
+                });
+                items.push({ kind: "line", spans: [plainSpan(separator(width))], align: "left" });
+                for (const row of block.rows) {
+                    items.push({ kind: "line", spans: [plainSpan(formatRow(row))], align: "left" });
+                }
+                break;
+            }
+            case "separator": {
+                items.push({ kind: "line", spans: [plainSpan(separator(width, block.char ?? "-"))], align: "left" });
+                break;
+            }
+            case "qr": {
+                items.push({ kind: "qr", data: block.data, size: Math.min(16, Math.max(1, block.size ?? 6)) });
+                break;
+            }
+            case "barcode": {
+                items.push({ kind: "barcode", data: block.data });
+                break;
+            }
+            case "feed": {
+                items.push({ kind: "feed", lines: Math.max(1, block.lines ?? 1) });
+                break;
+            }
+            case "cut": {
+                items.push({ kind: "cut" });
+                break;
+            }
+        }
+    }
+
+    return items;
+}
+
+/**
+ * Render a ticket as plain fixed-width text (for previews and downloads).
+ * Double-size text can't be shown in plaintext, so it is shown at normal size.
+ */
+export function renderTicketText(ticket: Ticket, width: number): string {
+    const lines: string[] = [];
+
+    for (const item of layoutTicket(ticket, width)) {
+        switch (item.kind) {
+            case "line": {
+                const text = item.spans.map((s) => s.text).join("");
+                if (item.align === "center") {
+                    lines.push(center(text, width));
+                } else if (item.align === "right") {
+                    lines.push(text.padStart(width));
+                } else {
+                    lines.push(text);
+                }
+                break;
+            }
+            case "qr":
+                lines.push(center(`[QR: ${item.data}]`, width));
+                break;
+            case "barcode":
+                lines.push(center(`||| ${item.data} |||`, width));
+                break;
+            case "feed":
+                for (let i = 0; i < item.lines; i++) lines.push("");
+                break;
+            case "cut":
+                lines.push(center("- - - cut - - -", width));
+                break;
+        }
+    }
+
+    return lines.map((line) => line.trimEnd()).join("\n") + "\n";
+}
+
+// ESC/POS command bytes
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<TicketAlign, number> = { left: 0, center: 1, right: 2 };
+
+// Printers use single-byte code pages; map common typographic characters and drop the rest
+const CHAR_REPLACEMENTS: Record<string, string> = {
+    "…": ".",
+    "–": "-",
+    "—": "-",
+    "‘": "'",
+    "’": "'",
+    "“": "\"",
+    "”": "\"",
+};
+
+function encodeText(text: string): number[] {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const replaced = CHAR_REPLACEMENTS[char] ?? char;
+        const code = replaced.charCodeAt(0);
+        bytes.push(code >= 0x20 && code < 0x7f ? code : 0x3f); // "?"
+    }
+    return bytes;
+}
+
+function qrCommands(data: string, size: number): number[] {
+    const payload = encodeText(data);
+    const storeLength = payload.length + 3;
+    return [
+        GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00, // Model 2
+        GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, size, // Module size
+        GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31, // Error correction M
+        GS, 0x28, 0x6b, storeLength & 0xff, (storeLength >> 8) & 0xff, 0x31, 0x50, 0x30, ...payload,
+        GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30, // Print
+    ];
+}
+
+function barcodeCommands(data: string): number[] {
+    const payload = [...encodeText("{B"), ...encodeText(data)].slice(0, 255);
+    return [
+        GS, 0x68, 80, // Height in dots
+        GS, 0x77, 2, // Module width
+        GS, 0x48, 2, // Human-readable text below
+        GS, 0x6b, 73, payload.length, ...payload, // CODE128
+    ];
+}
+
+/**
+ * Render a ticket as an ESC/POS byte stream.
+ */
+export function renderTicketEscPos(ticket: Ticket, width: number): Uint8Array {
+    const bytes: number[] = [ESC, 0x40]; // Initialize printer
+
+    for (const item of layoutTicket(ticket, width)) {
+        switch (item.kind) {
+            case "line": {
+                bytes.push(ESC, 0x61, ALIGN_CODES[item.align]);
+                for (const span of item.spans) {
+                    bytes.push(GS, 0x21, ((span.width - 1) << 4) | (span.height - 1));
+                    bytes.push(ESC, 0x45, span.bold ? 1 : 0);
+                    bytes.push(...encodeText(span.text));
+                }
+                bytes.push(GS, 0x21, 0, ESC, 0x45, 0, LF);
+                break;
+            }
+            case "qr":
+                bytes.push(ESC, 0x61, ALIGN_CODES.center, ...qrCommands(item.data, item.size), LF);
+                break;
+            case "barcode":
+                bytes.push(ESC, 0x61, ALIGN_CODES.center, ...barcodeCommands(item.data), LF);
+                break;
+            case "feed":
+                bytes.push(ESC, 0x64, Math.min(255, item.lines));
+                break;
+            case "cut":
+                bytes.push(GS, 0x56, 0x42, 0x00); // Feed to cutter and partial cut
+                break;
+        }
+    }
+
+    bytes.push(ESC, 0x61, ALIGN_CODES.left);
+    return Uint8Array.from(bytes);
+}
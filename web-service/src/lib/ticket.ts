@@ -0,0 +1,113 @@
+/**
+ * Structured print ticket model and its JSON wire format.
+ * Tickets are built on the server, stored in the print queue as JSON, previewed in the
+ * browser and rendered to ESC/POS by the print hub (see ticket-render.ts).
+ *
+ * This file should NOT import any server-only dependencies (db, better-sqlite3, etc.)
+ */
+
+export const TICKET_VERSION = 1;
+
+export type TicketAlign = "left" | "center" | "right";
+
+/**
+ * A run of text with its own style.
+ * width/height are ESC/POS character multipliers (1 = normal, 2 = double).
+ */
+export interface TicketSpan {
+    text: string;
+    bold?: boolean;
+    width?: 1 | 2;
+    height?: 1 | 2;
+}
+
+export interface TicketTableColumn {
+    header: string;
+    align?: "left" | "right";
+    width?: number; // Fixed width in characters; columns without one share the rest
+}
+
+export type TicketBlock =
+    | { type: "heading"; text: string; level?: 1 | 2 } // 1 = double size, 2 = bold
+    | { type: "text"; spans: TicketSpan[]; align?: TicketAlign }
+    | { type: "row"; label: string; value: string; bold?: boolean } // Key on the left, value on the right
+    | { type: "table"; columns: TicketTableColumn[]; rows: string[][] }
+    | { type: "separator"; char?: "-" | "=" }
+    | { type: "qr"; data: string; size?: number } // size = module size 1-16
+    | { type: "barcode"; data: string } // CODE128
+    | { type: "feed"; lines?: number }
+    | { type: "cut" };
+
+export interface Ticket {
+    version: typeof TICKET_VERSION;
+    title?: string; // Shown in admin views; not printed
+    blocks: TicketBlock[];
+}
+
+const BLOCK_TYPES = new Set<TicketBlock["type"]>([
+    "heading",
+    "text",
+    "row",
+    "table",
+    "separator",
+    "qr",
+    "barcode",
+    "feed",
+    "cut",
+]);
+
+/**
+ * Create a ticket that just prints some plain text.
+ */
+export function ticketFromText(text: string, title?: string): Ticket {
+    return {
+        version: TICKET_VERSION,
+        title,
+        blocks: [
+            ...text.split("\n").map((line): TicketBlock => ({ type: "text", spans: [{ text: line }] })),
+            { type: "feed", lines: 2 },
+            { type: "cut" },
+        ],
+    };
+}
+
+/**
+ * Serialize a ticket to the JSON wire format.
+ */
+export function serializeTicket(ticket: Ticket): string {
+    return JSON.stringify(ticket);
+}
+
+/**
+ * Parse and validate a ticket from the JSON wire format.
+ * Throws if the JSON isn't a ticket this version understands.
+ */
+export function parseTicket(json: string): Ticket {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Invalid ticket: not valid JSON");
+    }
+
+    if (typeof data !== "object" || data === null) {
+        throw new Error("Invalid ticket: expected an object");
+    }
+
+    const ticket = data as Partial<Ticket>;
+    if (ticket.version !== TICKET_VERSION) {
+        throw new Error(`Invalid ticket: unsupported version ${String(ticket.version)}`);
+    }
+
+    if (!Array.isArray(ticket.blocks)) {
+        throw new Error("Invalid ticket: missing blocks array");
+    }
+
+    for (const block of ticket.blocks) {
+        if (typeof block !== "object" || block === null || !BLOCK_TYPES.has(block.type)) {
+            throw new Error(`Invalid ticket: unknown block ${JSON.stringify(block)}`);
+        }
+    }
+
+    return ticket as Ticket;
+}
@@ -0,0 +1,44 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { enNZ } from "date-fns/locale";
+
+/**
+ * Date formatting in the household's timezone. Safe to use on the client: pages read the timezone
+ * with getHouseholdTimeZone() (household.ts) and pass it down.
+ */
+
+export const DEFAULT_TIMEZONE = "Pacific/Auckland";
+
+/**
+ * Check a timezone name is one the runtime knows, e.g. "Pacific/Auckland"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-NZ", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Timezone names to choose from, with the default first
+ */
+export function getTimeZoneNames(): string[] {
+    const names = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+    return [DEFAULT_TIMEZONE, ...names.filter((name) => name !== DEFAULT_TIMEZONE)];
+}
+
+/**
+ * Format a date in a timezone with a date-fns pattern. The "zzz" token gives the abbreviation in
+ * effect on that date, e.g. NZST in winter and NZDT in summer.
+ */
+export function formatDate(date: Date, timeZone: string, pattern: string): string {
+    return formatInTimeZone(date, timeZone, pattern, { locale: enNZ });
+}
+
+/**
+ * Time of day with the timezone abbreviation, e.g. "2:30 PM NZDT"
+ */
+export function formatTimeWithZone(date: Date, timeZone: string): string {
+    return formatDate(date, timeZone, "h:mm a zzz");
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { SyncStreamMessage } from "./sync-events";
+
+type Listener = (message: SyncStreamMessage) => void;
+
+// Every component on the page shares one connection, opened by the first subscriber and closed by the last
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+
+function subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+
+    if (!source) {
+        source = new EventSource("/api/sync/events");
+        source.onmessage = (e) => {
+            const message = JSON.parse(e.data) as SyncStreamMessage;
+            listeners.forEach((l) => l(message));
+        };
+        // EventSource reconnects by itself; the snapshot it gets on reconnecting covers what was missed
+    }
+
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+            source?.close();
+            source = null;
+        }
+    };
+}
+
+/**
+ * Call `onMessage` for each message on the sync progress stream (see /api/sync/events).
+ * Dates in messages arrive as ISO strings.
+ */
+export function useSyncEvents(onMessage: Listener, enabled = true): void {
+    const handler = useRef(onMessage);
+
+    useEffect(() => {
+        handler.current = onMessage;
+    });
+
+    useEffect(() => {
+        if (!enabled) return;
+        return subscribe((message) => handler.current(message));
+    }, [enabled]);
+}
@@ -0,0 +1,136 @@
+import { db } from "./db";
+import { userIdentifiers } from "./db/schema";
+import type { NewUserIdentifier, UserIdentifier } from "./db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { fromZonedTime } from "date-fns-tz";
+import { formatNzBankAccount, validateNzBankAccount } from "./nz-bank-account";
+import { formatDate } from "./timezone";
+
+export type UserIdentifierType = UserIdentifier["type"];
+
+export const USER_IDENTIFIER_TYPES = userIdentifiers.type.enumValues;
+
+/**
+ * A flatmate's identifier as edited in forms. Dates are "yyyy-MM-dd" strings (days in the household's
+ * timezone), or null when open-ended.
+ */
+export interface UserIdentifierInput {
+    type: UserIdentifierType;
+    value: string;
+    validFrom: string | null;
+    validTo: string | null;
+}
+
+function toDateInput(date: Date | null, timeZone: string): string | null {
+    return date ? formatDate(date, timeZone, "yyyy-MM-dd") : null;
+}
+
+// Start of a "yyyy-MM-dd" day in the household's timezone, like transaction dates
+function fromDateInput(value: string, timeZone: string): Date {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) ? fromZonedTime(`${value}T00:00:00`, timeZone) : new Date(NaN);
+}
+
+export function toUserIdentifierInput(identifier: UserIdentifier, timeZone: string): UserIdentifierInput {
+    return {
+        type: identifier.type,
+        value: identifier.value,
+        validFrom: toDateInput(identifier.validFrom, timeZone),
+        validTo: toDateInput(identifier.validTo, timeZone),
+    };
+}
+
+/**
+ * Parse and validate the JSON list of identifiers submitted by the identifiers editor.
+ * Dates are stored as the start of the day in the household's timezone.
+ */
+export function parseUserIdentifiers(
+    json: string | undefined,
+    timeZone: string
+): { identifiers: Omit<NewUserIdentifier, "userId">[] } | { error: string } {
+    let inputs: UserIdentifierInput[];
+    try {
+        inputs = JSON.parse(json || "[]") as UserIdentifierInput[];
+        if (!Array.isArray(inputs)) throw new Error("Not a list");
+    } catch {
+        return { error: "Invalid identifiers" };
+    }
+
+    const identifiers: Omit<NewUserIdentifier, "userId">[] = [];
+    for (const input of inputs) {
+        let value = input.value?.toString().trim();
+        if (!value) continue; // Blank rows are dropped
+
+        if (!USER_IDENTIFIER_TYPES.includes(input.type)) {
+            return { error: "Invalid identifier type" };
+        }
+
+        if (input.type === "card_suffix" && !/^\d{4}$/.test(value)) {
+            return { error: "Card suffix must be exactly 4 digits" };
+        }
+
+        if (input.type === "bank_account_pattern") {
+            const validated = validateNzBankAccount(value);
+            if ("error" in validated) {
+                return { error: validated.error };
+            }
+            value = formatNzBankAccount(validated.account);
+        }
+
+        const validFrom = input.validFrom ? fromDateInput(input.validFrom, timeZone) : null;
+        const validTo = input.validTo ? fromDateInput(input.validTo, timeZone) : null;
+        if ((validFrom && isNaN(validFrom.getTime())) || (validTo && isNaN(validTo.getTime()))) {
+            return { error: `Invalid date for "${value}"` };
+        }
+        if (validFrom && validTo && validTo < validFrom) {
+            return { error: `"${value}" ends before it starts` };
+        }
+
+        identifiers.push({ type: input.type, value, validFrom, validTo });
+    }
+
+    return { identifiers };
+}
+
+/**
+ * Replace all of a flatmate's identifiers
+ */
+export function replaceUserIdentifiers(userId: string, identifiers: Omit<NewUserIdentifier, "userId">[]): void {
+    db.transaction((tx) => {
+        tx.delete(userIdentifiers).where(eq(userIdentifiers.userId, userId)).run();
+        if (identifiers.length > 0) {
+            tx.insert(userIdentifiers).values(identifiers.map((i) => ({ ...i, userId }))).run();
+        }
+    });
+}
+
+/**
+ * Identifiers grouped by flatmate, for all flatmates or just the given ones
+ */
+export async function getUserIdentifiers(userIds?: string[]): Promise<Map<string, UserIdentifier[]>> {
+    const rows = await db
+        .select()
+        .from(userIdentifiers)
+        .where(userIds ? inArray(userIdentifiers.userId, userIds) : undefined)
+        .orderBy(userIdentifiers.createdAt);
+
+    const byUser = new Map<string, UserIdentifier[]>();
+    for (const row of rows) {
+        byUser.set(row.userId, [...(byUser.get(row.userId) ?? []), row]);
+    }
+    return byUser;
+}
+
+/**
+ * Whether an identifier applies to a transaction on this date. Compared as days in the household's
+ * timezone, so validFrom and validTo both cover their whole day.
+ */
+export function isIdentifierValidOn(
+    identifier: Pick<UserIdentifier, "validFrom" | "validTo">,
+    date: Date,
+    timeZone: string
+): boolean {
+    const day = formatDate(date, timeZone, "yyyy-MM-dd");
+    if (identifier.validFrom && day < formatDate(identifier.validFrom, timeZone, "yyyy-MM-dd")) return false;
+    if (identifier.validTo && day > formatDate(identifier.validTo, timeZone, "yyyy-MM-dd")) return false;
+    return true;
+}
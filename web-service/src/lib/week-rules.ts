@@ -0,0 +1,143 @@
+import { addDays, endOfDay, parseISO, startOfDay, subDays } from "date-fns";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+
+/**
+ * The household's billing week: which day it starts, when flatmates' payments are due and when rent
+ * is paid out. The rules can change over time (e.g. the landlord moves rent day), so they're kept as a
+ * history and every week is worked out under the rules in effect on its days. Safe to use on the client.
+ */
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // As Date.getDay(): 0 = Sunday
+
+export interface WeekRules {
+    weekStartDay: Weekday;
+    dueDay: Weekday;
+    payoutDay: Weekday;
+}
+
+export interface WeekRulesPeriod extends WeekRules {
+    effectiveFrom: Date | null; // UTC midnight of the first day the rules apply, null = since the beginning
+}
+
+// Saturday-Friday weeks, due Thursday, rent paid out Friday
+export const DEFAULT_WEEK_RULES: WeekRules = { weekStartDay: 6, dueDay: 4, payoutDay: 5 };
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+
+/**
+ * A billing week as calendar days (local midnight dates). The week before a change of rules is cut
+ * short so the new rules start on a fresh week.
+ */
+export interface CalendarWeek {
+    start: Date;
+    end: Date; // Last day of the week
+    due: Date;
+    payout: Date;
+    rules: WeekRules;
+}
+
+/**
+ * A billing week as instants in the household's timezone
+ */
+export interface BillingWeek {
+    weekStart: Date; // Start of the first day
+    weekEnd: Date; // End of the last day
+    dueDate: Date; // Start of the due day
+    payoutDate: Date; // Start of the payout day
+    rules: WeekRules;
+}
+
+export function isWeekday(value: number): value is Weekday {
+    return Number.isInteger(value) && value >= 0 && value <= 6;
+}
+
+// Calendar day of a rules period's effective date (stored as UTC midnight, like schedule dates)
+function effectiveDay(period: WeekRulesPeriod): Date | null {
+    return period.effectiveFrom ? parseISO(period.effectiveFrom.toISOString().slice(0, 10)) : null;
+}
+
+function sortedHistory(history: WeekRulesPeriod[]): WeekRulesPeriod[] {
+    return [...history].sort((a, b) => (a.effectiveFrom?.getTime() ?? -Infinity) - (b.effectiveFrom?.getTime() ?? -Infinity));
+}
+
+/**
+ * The rules in effect on a calendar day
+ */
+export function getWeekRulesOn(history: WeekRulesPeriod[], day: Date): WeekRules {
+    let rules = DEFAULT_WEEK_RULES;
+    for (const period of sortedHistory(history)) {
+        const from = effectiveDay(period);
+        if (from && from > day) break;
+        rules = { weekStartDay: period.weekStartDay, dueDay: period.dueDay, payoutDay: period.payoutDay };
+    }
+    return rules;
+}
+
+// Days from the start of the week to the given weekday
+function daysIntoWeek(rules: WeekRules, weekday: number): number {
+    return (weekday - rules.weekStartDay + 7) % 7;
+}
+
+/**
+ * The billing week containing a calendar day
+ */
+export function getCalendarWeek(history: WeekRulesPeriod[], day: Date): CalendarWeek {
+    const date = startOfDay(day);
+    const rules = getWeekRulesOn(history, date);
+    const fullStart = subDays(date, daysIntoWeek(rules, date.getDay()));
+
+    let start = fullStart;
+    let end = addDays(fullStart, 6);
+    for (const period of history) {
+        const from = effectiveDay(period);
+        if (!from) continue;
+        if (from > start && from <= date) start = from;
+        if (from > date && from <= end) end = subDays(from, 1);
+    }
+
+    const clamp = (d: Date) => (d < start ? start : d > end ? end : d);
+    return {
+        start,
+        end,
+        due: clamp(addDays(fullStart, daysIntoWeek(rules, rules.dueDay))),
+        payout: clamp(addDays(fullStart, daysIntoWeek(rules, rules.payoutDay))),
+        rules,
+    };
+}
+
+/**
+ * The billing week containing an instant, with its days taken in the given timezone
+ */
+export function getBillingWeek(history: WeekRulesPeriod[], date: Date, timeZone: string): BillingWeek {
+    const week = getCalendarWeek(history, toZonedTime(date, timeZone));
+    return {
+        weekStart: fromZonedTime(week.start, timeZone),
+        weekEnd: fromZonedTime(endOfDay(week.end), timeZone),
+        dueDate: fromZonedTime(week.due, timeZone),
+        payoutDate: fromZonedTime(week.payout, timeZone),
+        rules: week.rules,
+    };
+}
+
+/**
+ * Every billing week from the one containing start to the one containing end, oldest first
+ */
+export function getBillingWeeks(history: WeekRulesPeriod[], start: Date, end: Date, timeZone: string): BillingWeek[] {
+    const weeks: BillingWeek[] = [];
+    let week = getBillingWeek(history, start, timeZone);
+    weeks.push(week);
+    while (week.weekEnd < end) {
+        week = getBillingWeek(history, new Date(week.weekEnd.getTime() + 1), timeZone);
+        weeks.push(week);
+    }
+    return weeks;
+}
+
+/**
+ * Short description of a set of rules, e.g. "Monday-Sunday weeks, due Friday, paid out Monday"
+ */
+export function describeWeekRules(rules: WeekRules): string {
+    const lastDay = WEEKDAY_NAMES[(rules.weekStartDay + 6) % 7];
+    return `${WEEKDAY_NAMES[rules.weekStartDay]}-${lastDay} weeks, due ${WEEKDAY_NAMES[rules.dueDay]}, paid out ${WEEKDAY_NAMES[rules.payoutDay]}`;
+}
+
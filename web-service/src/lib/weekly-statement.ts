@@ -0,0 +1,208 @@
+import {
+    calculateAllBalances,
+    getAnalysisStartDate,
+    getCurrentWeekBounds,
+    getCurrentWeekSummary,
+    getLandlordPaymentSummary,
+    type LandlordPaymentSummary,
+} from "./calculations";
+import { db } from "./db";
+import { systemState } from "./db/schema";
+import { eq } from "drizzle-orm";
+import { getHouseholdTimeZone } from "./household";
+import { TICKET_VERSION, type Ticket, type TicketBlock } from "./ticket";
+import { formatDate } from "./timezone";
+import { formatMoney } from "./utils";
+
+const LAST_SCHEDULED_STATEMENT_KEY = "last_weekly_statement_week"; // Start of the week the scheduled statement last printed for
+
+export interface WeeklyStatementLine {
+    userId: string;
+    userName: string | null;
+    amountDue: number; // Less this week's adjustments
+    adjustmentTotal: number; // Credits less charges dated this week
+    amountPaid: number; // Includes provisionalPaid
+    provisionalPaid: number; // Pending rent payments that haven't settled yet
+    balance: number; // Running balance: positive = credit, negative = owes
+    status: "paid" | "partial" | "unpaid" | "overpaid";
+}
+
+export interface WeeklyStatement {
+    weekStart: Date;
+    weekEnd: Date;
+    dueDate: Date;
+    generatedAt: Date;
+    timeZone: string; // Household timezone the dates are shown in
+    flatmates: WeeklyStatementLine[];
+    totalDue: number;
+    totalPaid: number;
+    landlordPayouts: LandlordPaymentSummary;
+    landlordPayoutsSince: Date | null;
+}
+
+/**
+ * Build the weekly "who owes what" statement for the current week.
+ * Combines this week's obligations with each flatmate's running balance and landlord payouts.
+ */
+export async function buildWeeklyStatement(): Promise<WeeklyStatement> {
+    const { weekStart, weekEnd, dueDate } = await getCurrentWeekBounds();
+
+    const [weekSummary, balances, landlordPayouts, landlordPayoutsSince, timeZone] = await Promise.all([
+        getCurrentWeekSummary(),
+        calculateAllBalances(),
+        getLandlordPaymentSummary(),
+        getAnalysisStartDate(),
+        getHouseholdTimeZone(),
+    ]);
+
+    const balanceByUser = new Map(balances.flatmates.map((f) => [f.userId, f.balance]));
+
+    const flatmates = weekSummary
+        .map((entry) => ({
+            userId: entry.userId,
+            userName: entry.userName,
+            amountDue: entry.amountDue,
+            adjustmentTotal: entry.adjustmentTotal,
+            amountPaid: entry.amountPaid,
+            provisionalPaid: entry.provisionalPaid,
+            balance: balanceByUser.get(entry.userId) ?? 0,
+            status: entry.status,
+        }))
+        // Leave out people with nothing going on (e.g. an admin who doesn't pay rent)
+        .filter((f) => f.amountDue !== 0 || f.amountPaid !== 0 || f.balance !== 0)
+        .sort((a, b) => (a.userName ?? "").localeCompare(b.userName ?? ""));
+
+    return {
+        weekStart,
+        weekEnd,
+        dueDate,
+        generatedAt: new Date(),
+        timeZone,
+        flatmates,
+        totalDue: flatmates.reduce((sum, f) => sum + f.amountDue, 0),
+        totalPaid: flatmates.reduce((sum, f) => sum + f.amountPaid, 0),
+        landlordPayouts,
+        landlordPayoutsSince,
+    };
+}
+
+/**
+ * Whether the scheduled statement has already been queued for the week starting at weekStart
+ */
+export async function wasScheduledStatementPrinted(weekStart: Date): Promise<boolean> {
+    const [row] = await db
+        .select()
+        .from(systemState)
+        .where(eq(systemState.key, LAST_SCHEDULED_STATEMENT_KEY))
+        .limit(1);
+    return row?.value === weekStart.toISOString();
+}
+
+/**
+ * Remember that the scheduled statement was queued for the week starting at weekStart
+ */
+export async function recordScheduledStatementPrinted(weekStart: Date): Promise<void> {
+    const value = weekStart.toISOString();
+    await db
+        .insert(systemState)
+        .values({ key: LAST_SCHEDULED_STATEMENT_KEY, value })
+        .onConflictDoUpdate({
+            target: systemState.key,
+            set: { value, updatedAt: new Date() },
+        });
+}
+
+function formatSigned(amount: number): string {
+    if (Math.abs(amount) < 0.005) return "$0.00";
+    return `${amount > 0 ? "+" : "-"}$${formatMoney(amount)}`;
+}
+
+/**
+ * Build the printable ticket for a weekly statement.
+ */
+export function buildWeeklyStatementTicket(statement: WeeklyStatement): Ticket {
+    const blocks: TicketBlock[] = [
+        { type: "heading", text: "FlatOS" },
+        { type: "heading", text: "Weekly Statement", level: 2 },
+        {
+            type: "text",
+            align: "center",
+            spans: [
+                {
+                    text: `${formatDate(statement.weekStart, statement.timeZone, "d MMM")} - ${formatDate(statement.weekEnd, statement.timeZone, "d MMM yyyy")}`,
+                },
+            ],
+        },
+        {
+            type: "text",
+            align: "center",
+            spans: [{ text: `Due ${formatDate(statement.dueDate, statement.timeZone, "EEE d MMM")}` }],
+        },
+        { type: "separator" },
+    ];
+
+    if (statement.flatmates.length === 0) {
+        blocks.push({ type: "text", align: "center", spans: [{ text: "No payments due this week" }] });
+    }
+
+    for (const flatmate of statement.flatmates) {
+        blocks.push(
+            { type: "row", label: flatmate.userName ?? "Unknown", value: flatmate.status.toUpperCase(), bold: true },
+            { type: "row", label: "  Due", value: `$${formatMoney(flatmate.amountDue)}` }
+        );
+        if (Math.abs(flatmate.adjustmentTotal) >= 0.005) {
+            blocks.push({ type: "row", label: "    (adjusted)", value: formatSigned(flatmate.adjustmentTotal) });
+        }
+        blocks.push({ type: "row", label: "  Paid", value: `$${formatMoney(flatmate.amountPaid)}` });
+        if (flatmate.provisionalPaid > 0) {
+            blocks.push({ type: "row", label: "    (pending)", value: `$${formatMoney(flatmate.provisionalPaid)}` });
+        }
+        blocks.push({ type: "row", label: "  Balance", value: formatSigned(flatmate.balance) });
+    }
+
+    blocks.push(
+        { type: "separator", char: "=" },
+        { type: "row", label: "TOTAL DUE", value: `$${formatMoney(statement.totalDue)}`, bold: true },
+        { type: "row", label: "TOTAL PAID", value: `$${formatMoney(statement.totalPaid)}`, bold: true },
+        { type: "separator" },
+        { type: "heading", text: "Landlord Payouts", level: 2 }
+    );
+
+    if (statement.landlordPayoutsSince) {
+        blocks.push({
+            type: "text",
+            align: "center",
+            spans: [{ text: `Since ${formatDate(statement.landlordPayoutsSince, statement.timeZone, "d MMM yyyy")}` }],
+        });
+    }
+
+    if (statement.landlordPayouts.byLandlord.length === 0) {
+        blocks.push({ type: "text", spans: [{ text: "No landlord payments recorded" }] });
+    }
+
+    for (const landlord of statement.landlordPayouts.byLandlord) {
+        blocks.push({
+            type: "row",
+            label: `${landlord.landlordName} (${landlord.transactionCount})`,
+            value: `$${formatMoney(landlord.totalPaid)}`,
+        });
+    }
+
+    blocks.push(
+        { type: "row", label: "Total", value: `$${formatMoney(statement.landlordPayouts.totalPaid)}`, bold: true },
+        { type: "separator" },
+        {
+            type: "text",
+            align: "center",
+            spans: [{ text: `Printed ${formatDate(statement.generatedAt, statement.timeZone, "d MMM yyyy HH:mm")}` }],
+        },
+        { type: "feed", lines: 3 },
+        { type: "cut" }
+    );
+
+    return {
+        version: TICKET_VERSION,
+        title: `Weekly statement ${formatDate(statement.weekStart, statement.timeZone, "d MMM yyyy")}`,
+        blocks,
+    };
+}